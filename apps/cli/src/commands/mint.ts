@@ -9,7 +9,7 @@ import {
 import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum } from "viem/chains";
 import { Token, Percent } from "@muniswap/sdk-core";
-import { Pool, Position, V4PositionManager } from "@muniswap/v4-sdk";
+import { Pool, Position, StateViewReader, V4PositionManager } from "@muniswap/v4-sdk";
 import {
   DEFAULT_POOL,
   erc20Abi,
@@ -19,7 +19,6 @@ import {
   STATE_VIEW,
   WETH,
 } from "../constants.js";
-import { stateViewAbi } from "../abi/stateview.js";
 
 config();
 
@@ -91,12 +90,12 @@ export async function mintCommand(options: MintOptions) {
   // Get current pool state
   console.log("Fetching pool state...");
   console.log("Pool ID:", poolId);
-  const [sqrtPriceX96, currentTick] = await publicClient.readContract({
-    address: STATE_VIEW,
-    abi: stateViewAbi,
-    functionName: "getSlot0",
-    args: [poolId as `0x${string}`],
+  const stateViewReader = new StateViewReader({
+    transport: publicClient,
+    chainId: arbitrum.id,
+    stateViewAddress: STATE_VIEW,
   });
+  const { sqrtPriceX96, tick: currentTick } = await stateViewReader.getSlot0(poolId);
 
   if (sqrtPriceX96 === 0n) {
     console.error("Pool not initialized. Initialize pool first or use different params.");
@@ -115,7 +114,7 @@ export async function mintCommand(options: MintOptions) {
     hooks,
     sqrtPriceX96,
     0n, // liquidity doesn't matter for position calculations
-    Number(currentTick)
+    currentTick
   );
 
   // Create Position from amounts using SDK
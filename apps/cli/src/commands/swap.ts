@@ -9,7 +9,8 @@ import {
 import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum } from "viem/chains";
 import { Token } from "@muniswap/sdk-core";
-import { Pool, V4Planner, Actions } from "@muniswap/v4-sdk";
+import { RoutePlanner } from "@muniswap/universal-router-sdk";
+import { Pool, V4Planner, Actions, StateViewReader } from "@muniswap/v4-sdk";
 import {
   DEFAULT_POOL,
   erc20Abi,
@@ -20,7 +21,6 @@ import {
   STATE_VIEW,
   WETH,
 } from "../constants.js";
-import { stateViewAbi } from "../abi/stateview.js";
 
 config();
 
@@ -95,12 +95,12 @@ export async function swapCommand(options: SwapOptions) {
   // Get current pool state to validate pool exists
   console.log("Fetching pool state...");
   console.log("Pool ID:", poolId);
-  const [sqrtPriceX96, currentTick] = await publicClient.readContract({
-    address: STATE_VIEW,
-    abi: stateViewAbi,
-    functionName: "getSlot0",
-    args: [poolId as `0x${string}`],
+  const stateViewReader = new StateViewReader({
+    transport: publicClient,
+    chainId: arbitrum.id,
+    stateViewAddress: STATE_VIEW,
   });
+  const { sqrtPriceX96, tick: currentTick } = await stateViewReader.getSlot0(poolId);
 
   if (sqrtPriceX96 === 0n) {
     console.error("Pool not initialized. Initialize pool first or use different params.");
@@ -181,12 +181,10 @@ export async function swapCommand(options: SwapOptions) {
   // Add TAKE_ALL action (receive output token)
   planner.addAction(Actions.TAKE_ALL, [tokenOutAddr, minAmountOut]);
 
-  const v4RouterInput = planner.finalize();
-
-  // Encode for Universal Router execute (V4_SWAP command = 0x10)
-  const V4_SWAP_COMMAND = 0x10;
-  const commands = `0x${V4_SWAP_COMMAND.toString(16).padStart(2, "0")}` as `0x${string}`;
-  const inputs = [v4RouterInput as `0x${string}`];
+  // Wrap the V4 actions in a Universal Router V4_SWAP command
+  const routePlanner = new RoutePlanner().addV4Swap(planner);
+  const commands = routePlanner.commands as `0x${string}`;
+  const inputs = routePlanner.inputs as `0x${string}`[];
   const deadline = BigInt(Math.floor(Date.now() / 1000) + 1200); // 20 minutes from now
 
   console.log("Executing swap...");
@@ -9,6 +9,7 @@ export default defineConfig({
     { text: 'V2 SDK', link: '/v2-sdk' },
     { text: 'V3 SDK', link: '/v3-sdk' },
     { text: 'V4 SDK', link: '/v4-sdk' },
+    { text: 'Universal Router SDK', link: '/universal-router-sdk' },
     { text: 'GitHub', link: 'https://github.com/Uniswap/sdks' },
   ],
   sidebar: {
@@ -27,7 +28,9 @@ export default defineConfig({
           { text: 'Currency', link: '/sdk-core/currency' },
           { text: 'Ether', link: '/sdk-core/ether' },
           { text: 'NativeCurrency', link: '/sdk-core/native-currency' },
+          { text: 'nativeOnChain', link: '/sdk-core/native-on-chain' },
           { text: 'WETH9', link: '/sdk-core/weth9' },
+          { text: 'TokenRegistry', link: '/sdk-core/token-registry' },
         ],
       },
       {
@@ -43,11 +46,19 @@ export default defineConfig({
         text: 'Utilities',
         items: [
           { text: 'computePriceImpact', link: '/sdk-core/compute-price-impact' },
+          { text: 'GasModel', link: '/sdk-core/gas-model' },
           { text: 'validateAndParseAddress', link: '/sdk-core/validate-and-parse-address' },
           { text: 'sqrt', link: '/sdk-core/sqrt' },
           { text: 'sortedInsert', link: '/sdk-core/sorted-insert' },
         ],
       },
+      {
+        text: 'Schemas',
+        items: [
+          { text: 'Validation', link: '/sdk-core/validation' },
+          { text: 'Serialization', link: '/sdk-core/serialization' },
+        ],
+      },
       {
         text: 'Configuration',
         items: [
@@ -128,6 +139,7 @@ export default defineConfig({
           { text: 'maxLiquidityForAmounts', link: '/v3-sdk/max-liquidity-for-amounts' },
           { text: 'priceTickConversions', link: '/v3-sdk/price-tick-conversions' },
           { text: 'encodeRouteToPath', link: '/v3-sdk/encode-route-to-path' },
+          { text: 'GasModel', link: '/v3-sdk/gas-model' },
         ],
       },
       {
@@ -159,6 +171,8 @@ export default defineConfig({
         items: [
           { text: 'Hook', link: '/v4-sdk/hook' },
           { text: 'Hook Permissions', link: '/v4-sdk/hook-permissions' },
+          { text: 'Hook Miner', link: '/v4-sdk/hook-miner' },
+          { text: 'HookSimulator', link: '/v4-sdk/hook-simulator' },
         ],
       },
       {
@@ -166,6 +180,8 @@ export default defineConfig({
         items: [
           { text: 'PositionManager', link: '/v4-sdk/position-manager' },
           { text: 'Multicall', link: '/v4-sdk/multicall' },
+          { text: 'V4Quoter', link: '/v4-sdk/quoter' },
+          { text: 'StateView', link: '/v4-sdk/state-view' },
         ],
       },
       {
@@ -174,6 +190,7 @@ export default defineConfig({
           { text: 'V4Planner', link: '/v4-sdk/v4-planner' },
           { text: 'V4PositionPlanner', link: '/v4-sdk/v4-position-planner' },
           { text: 'encodeRouteToPath', link: '/v4-sdk/encode-route-to-path' },
+          { text: 'GasModel', link: '/v4-sdk/gas-model' },
         ],
       },
       {
@@ -183,5 +200,28 @@ export default defineConfig({
         ],
       },
     ],
+    '/universal-router-sdk': [
+      {
+        text: 'Getting Started',
+        items: [
+          { text: 'Overview', link: '/universal-router-sdk' },
+        ],
+      },
+      {
+        text: 'Entities',
+        items: [
+          { text: 'MixedRoute', link: '/universal-router-sdk/mixed-route' },
+        ],
+      },
+      {
+        text: 'Utilities',
+        items: [
+          { text: 'RoutePlanner', link: '/universal-router-sdk/route-planner' },
+          { text: 'SwapRouter', link: '/universal-router-sdk/swap-router' },
+          { text: 'Calldata Decoder', link: '/universal-router-sdk/calldata-decoder' },
+          { text: 'PoolLoader', link: '/universal-router-sdk/pool-loader' },
+        ],
+      },
+    ],
   },
 })
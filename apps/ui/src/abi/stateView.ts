@@ -1,197 +0,0 @@
-export const stateViewAbi = [
-  {
-    inputs: [
-      {
-        internalType: "contract IPoolManager",
-        name: "_poolManager",
-        type: "address",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [{ internalType: "PoolId", name: "poolId", type: "bytes32" }],
-    name: "getFeeGrowthGlobals",
-    outputs: [
-      { internalType: "uint256", name: "feeGrowthGlobal0", type: "uint256" },
-      { internalType: "uint256", name: "feeGrowthGlobal1", type: "uint256" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "int24", name: "tickLower", type: "int24" },
-      { internalType: "int24", name: "tickUpper", type: "int24" },
-    ],
-    name: "getFeeGrowthInside",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside0X128",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside1X128",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [{ internalType: "PoolId", name: "poolId", type: "bytes32" }],
-    name: "getLiquidity",
-    outputs: [{ internalType: "uint128", name: "liquidity", type: "uint128" }],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "bytes32", name: "positionId", type: "bytes32" },
-    ],
-    name: "getPositionInfo",
-    outputs: [
-      { internalType: "uint128", name: "liquidity", type: "uint128" },
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside0LastX128",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside1LastX128",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "address", name: "owner", type: "address" },
-      { internalType: "int24", name: "tickLower", type: "int24" },
-      { internalType: "int24", name: "tickUpper", type: "int24" },
-      { internalType: "bytes32", name: "salt", type: "bytes32" },
-    ],
-    name: "getPositionInfo",
-    outputs: [
-      { internalType: "uint128", name: "liquidity", type: "uint128" },
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside0LastX128",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "feeGrowthInside1LastX128",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "bytes32", name: "positionId", type: "bytes32" },
-    ],
-    name: "getPositionLiquidity",
-    outputs: [{ internalType: "uint128", name: "liquidity", type: "uint128" }],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [{ internalType: "PoolId", name: "poolId", type: "bytes32" }],
-    name: "getSlot0",
-    outputs: [
-      { internalType: "uint160", name: "sqrtPriceX96", type: "uint160" },
-      { internalType: "int24", name: "tick", type: "int24" },
-      { internalType: "uint24", name: "protocolFee", type: "uint24" },
-      { internalType: "uint24", name: "lpFee", type: "uint24" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "int16", name: "tick", type: "int16" },
-    ],
-    name: "getTickBitmap",
-    outputs: [{ internalType: "uint256", name: "tickBitmap", type: "uint256" }],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "int24", name: "tick", type: "int24" },
-    ],
-    name: "getTickFeeGrowthOutside",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "feeGrowthOutside0X128",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "feeGrowthOutside1X128",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "int24", name: "tick", type: "int24" },
-    ],
-    name: "getTickInfo",
-    outputs: [
-      { internalType: "uint128", name: "liquidityGross", type: "uint128" },
-      { internalType: "int128", name: "liquidityNet", type: "int128" },
-      {
-        internalType: "uint256",
-        name: "feeGrowthOutside0X128",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "feeGrowthOutside1X128",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      { internalType: "PoolId", name: "poolId", type: "bytes32" },
-      { internalType: "int24", name: "tick", type: "int24" },
-    ],
-    name: "getTickLiquidity",
-    outputs: [
-      { internalType: "uint128", name: "liquidityGross", type: "uint128" },
-      { internalType: "int128", name: "liquidityNet", type: "int128" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "poolManager",
-    outputs: [
-      { internalType: "contract IPoolManager", name: "", type: "address" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
@@ -1,41 +1,27 @@
-import { stateViewAbi } from "@/abi/stateView";
 import { getStateView } from "@/config/contracts";
+import { type Slot0, StateView } from "@muniswap/v4-sdk";
 import type { Hex } from "viem";
-import { useReadContract } from "wagmi";
+import { useCall } from "wagmi";
 
 interface UsePoolStateParams {
   poolId: Hex | undefined;
   chainId: number | undefined;
 }
 
-interface PoolState {
-  sqrtPriceX96: bigint;
-  tick: number;
-  protocolFee: number;
-  lpFee: number;
-}
-
 export function usePoolState({ poolId, chainId }: UsePoolStateParams) {
   const stateView = chainId ? getStateView(chainId) : undefined;
 
-  const { data, isLoading, error, refetch } = useReadContract({
-    address: stateView,
-    abi: stateViewAbi,
-    functionName: "getSlot0",
-    args: [poolId as Hex],
+  const { data, isLoading, error, refetch } = useCall({
+    to: stateView,
+    data: poolId ? (StateView.encodeGetSlot0(poolId) as Hex) : undefined,
     chainId,
     query: {
       enabled: !!poolId && !!stateView && !!chainId,
     },
   });
 
-  const poolState: PoolState | undefined = data
-    ? {
-        sqrtPriceX96: data[0] as bigint,
-        tick: Number(data[1]),
-        protocolFee: Number(data[2]),
-        lpFee: Number(data[3]),
-      }
+  const poolState: Slot0 | undefined = data?.data
+    ? StateView.decodeGetSlot0(data.data)
     : undefined;
 
   const isInitialized = poolState ? poolState.sqrtPriceX96 !== 0n : false;
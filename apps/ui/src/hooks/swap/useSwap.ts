@@ -1,5 +1,6 @@
 import { universalRouterAbi } from "@/abi/universalRouter";
 import { getUniversalRouter } from "@/config/contracts";
+import { RoutePlanner } from "@muniswap/universal-router-sdk";
 import { Actions, V4Planner } from "@muniswap/v4-sdk";
 import { type Address, type Hex, encodeFunctionData } from "viem";
 import {
@@ -25,9 +26,6 @@ interface UseSwapParams {
   tokenOutAddress: Address | undefined;
 }
 
-// Universal Router V4_SWAP command
-const V4_SWAP_COMMAND = 0x10;
-
 export function useSwap({
   poolKey,
   zeroForOne,
@@ -90,13 +88,12 @@ export function useSwap({
     // Take all: receive the output token
     planner.addAction(Actions.TAKE_ALL, [tokenOutAddress, amountOutMinimum]);
 
-    // Finalize the planner to get the encoded actions
-    const v4RouterInput = planner.finalize();
+    // Wrap the V4 actions in a Universal Router V4_SWAP command
+    const routePlanner = new RoutePlanner().addV4Swap(planner);
 
     // Build Universal Router execute calldata
-    const commands =
-      `0x${V4_SWAP_COMMAND.toString(16).padStart(2, "0")}` as Hex;
-    const inputs = [v4RouterInput as Hex];
+    const commands = routePlanner.commands as Hex;
+    const inputs = routePlanner.inputs as Hex[];
     const deadline = BigInt(Math.floor(Date.now() / 1000) + 1200); // 20 minutes
 
     const calldata = encodeFunctionData({
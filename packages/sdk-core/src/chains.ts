@@ -78,4 +78,6 @@ export enum NativeCurrencyName {
   BNB = 'BNB',
   AVAX = 'AVAX',
   ROOTSTOCK = 'RBTC',
+  MONAD = 'MON',
+  XLAYER = 'OKB',
 }
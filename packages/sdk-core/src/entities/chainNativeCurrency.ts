@@ -0,0 +1,32 @@
+import invariant from 'tiny-invariant'
+import type { Currency } from './currency'
+import { NativeCurrency } from './nativeCurrency'
+import type { Token } from './token'
+
+/**
+ * The native currency of a chain whose native currency is not Ether, e.g. MATIC on Polygon or BNB on BNB Chain
+ */
+export class ChainNativeCurrency extends NativeCurrency {
+  private readonly _wrapped: Token
+
+  /**
+   * @param chainId the chain ID of the native currency
+   * @param decimals decimals of the native currency
+   * @param symbol symbol of the native currency
+   * @param name name of the native currency
+   * @param wrapped the token wrapping the native currency on the same chain
+   */
+  public constructor(chainId: number, decimals: number, symbol: string, name: string, wrapped: Token) {
+    super(chainId, decimals, symbol, name)
+    invariant(wrapped.chainId === chainId, 'CHAIN_ID')
+    this._wrapped = wrapped
+  }
+
+  public get wrapped(): Token {
+    return this._wrapped
+  }
+
+  public equals(other: Currency): boolean {
+    return other.isNative && other.chainId === this.chainId
+  }
+}
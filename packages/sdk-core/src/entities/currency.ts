@@ -1,4 +1,17 @@
+import { currencyJSONSchema } from '../schemas/serialization'
 import type { NativeCurrency } from './nativeCurrency'
-import type { Token } from './token'
+import { nativeOnChain } from './nativeOnChain'
+import { Token } from './token'
 
 export type Currency = NativeCurrency | Token
+
+/**
+ * Deserializes a currency produced by the `toJSON` method of a token or native currency.
+ * Native currencies are deserialized as the {@link nativeOnChain} currency of their chain.
+ * @param json the serialized currency
+ * @throws ZodError if the input is not a serialized currency
+ */
+export function currencyFromJSON(json: unknown): Currency {
+  const currency = currencyJSONSchema.parse(json)
+  return currency.type === 'token' ? Token.fromJSON(currency) : nativeOnChain(currency.chainId)
+}
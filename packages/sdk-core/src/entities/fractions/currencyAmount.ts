@@ -1,7 +1,8 @@
 import invariant from 'tiny-invariant'
 import { type BigintIsh, MaxUint256, Rounding } from '../../constants'
-import { divideToDecimal, formatWithSeparator } from '../../utils/decimal'
-import type { Currency } from '../currency'
+import { type CurrencyAmountJSON, SERIALIZATION_VERSION, currencyAmountJSONSchema } from '../../schemas/serialization'
+import { divideToDecimal, formatWithSeparator, parseDecimalString } from '../../utils/decimal'
+import { type Currency, currencyFromJSON } from '../currency'
 import type { Token } from '../token'
 import { Fraction } from './fraction'
 
@@ -32,6 +33,33 @@ export class CurrencyAmount<T extends Currency> extends Fraction {
     return new CurrencyAmount(currency, numerator, denominator)
   }
 
+  /**
+   * Parses a human-readable amount of the currency, e.g. "1.2345", "1,000" or "1e-6"
+   * @param currency the currency
+   * @param value the decimal amount, in whole units of the currency
+   * @param options.rounding how to round digits beyond the currency decimals (default: throw)
+   * @param options.groupSeparator the separator grouping the integer digits (default: ',')
+   */
+  public static fromDecimalString<T extends Currency>(
+    currency: T,
+    value: string,
+    options: { rounding?: Rounding; groupSeparator?: string } = {}
+  ): CurrencyAmount<T> {
+    const { numerator, denominator } = parseDecimalString(value, options.groupSeparator)
+    const scaled = numerator * 10n ** BigInt(currency.decimals)
+    const remainder = scaled % denominator
+    invariant(remainder === 0n || options.rounding !== undefined, 'DECIMALS')
+
+    let rawAmount = scaled / denominator
+    if (
+      (remainder !== 0n && options.rounding === Rounding.ROUND_UP) ||
+      (options.rounding === Rounding.ROUND_HALF_UP && remainder * 2n >= denominator)
+    ) {
+      rawAmount += 1n
+    }
+    return new CurrencyAmount(currency, rawAmount)
+  }
+
   protected constructor(currency: T, numerator: BigintIsh, denominator?: BigintIsh) {
     super(numerator, denominator)
     invariant(this.quotient <= MaxUint256, 'AMOUNT')
@@ -83,6 +111,28 @@ export class CurrencyAmount<T extends Currency> extends Fraction {
     return formatWithSeparator(raw, format.groupSeparator ?? '')
   }
 
+  /**
+   * Serializes the amount into a versioned, JSON-compatible object
+   */
+  public toJSON(): CurrencyAmountJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      currency: this.currency.toJSON(),
+      numerator: this.numerator.toString(),
+      denominator: this.denominator.toString(),
+    }
+  }
+
+  /**
+   * Deserializes an amount produced by {@link CurrencyAmount#toJSON}
+   * @param json the serialized amount
+   * @throws ZodError if the input is not a serialized amount
+   */
+  public static fromJSON(json: unknown): CurrencyAmount<Currency> {
+    const { currency, numerator, denominator } = currencyAmountJSONSchema.parse(json)
+    return new CurrencyAmount(currencyFromJSON(currency), BigInt(numerator), BigInt(denominator))
+  }
+
   public get wrapped(): CurrencyAmount<Token> {
     if (this.currency.isToken) return this as CurrencyAmount<Token>
     return CurrencyAmount.fromFractionalAmount(this.currency.wrapped, this.numerator, this.denominator)
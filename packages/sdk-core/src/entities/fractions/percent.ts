@@ -1,4 +1,5 @@
 import type { BigintIsh, Rounding } from '../../constants'
+import { type PercentJSON, SERIALIZATION_VERSION, percentJSONSchema } from '../../schemas/serialization'
 import { Fraction } from './fraction'
 
 const ONE_HUNDRED = new Fraction(100n)
@@ -44,4 +45,25 @@ export class Percent extends Fraction {
   public override toFixed(decimalPlaces = 2, format?: { groupSeparator?: string }, rounding?: Rounding): string {
     return super.multiply(ONE_HUNDRED).toFixed(decimalPlaces, format, rounding)
   }
+
+  /**
+   * Serializes the percent into a versioned, JSON-compatible object
+   */
+  public toJSON(): PercentJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      numerator: this.numerator.toString(),
+      denominator: this.denominator.toString(),
+    }
+  }
+
+  /**
+   * Deserializes a percent produced by {@link Percent#toJSON}
+   * @param json the serialized percent
+   * @throws ZodError if the input is not a serialized percent
+   */
+  public static fromJSON(json: unknown): Percent {
+    const { numerator, denominator } = percentJSONSchema.parse(json)
+    return new Percent(numerator, denominator)
+  }
 }
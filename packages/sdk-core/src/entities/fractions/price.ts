@@ -1,6 +1,8 @@
 import invariant from 'tiny-invariant'
 import type { BigintIsh, Rounding } from '../../constants'
-import type { Currency } from '../currency'
+import { type PriceJSON, SERIALIZATION_VERSION, priceJSONSchema } from '../../schemas/serialization'
+import { parseDecimalString } from '../../utils/decimal'
+import { type Currency, currencyFromJSON } from '../currency'
 import { CurrencyAmount } from './currencyAmount'
 import { Fraction } from './fraction'
 
@@ -41,6 +43,28 @@ export class Price<TBase extends Currency, TQuote extends Currency> extends Frac
     this.scalar = new Fraction(10n ** BigInt(baseCurrency.decimals), 10n ** BigInt(quoteCurrency.decimals))
   }
 
+  /**
+   * Parses a human-readable price, i.e. how many whole quote currency units one whole base currency unit is worth
+   * @param baseCurrency the base currency
+   * @param quoteCurrency the quote currency
+   * @param value the decimal price, e.g. "2950.12"
+   * @param options.groupSeparator the separator grouping the integer digits (default: ',')
+   */
+  public static fromDecimalString<TBase extends Currency, TQuote extends Currency>(
+    baseCurrency: TBase,
+    quoteCurrency: TQuote,
+    value: string,
+    options: { groupSeparator?: string } = {}
+  ): Price<TBase, TQuote> {
+    const { numerator, denominator } = parseDecimalString(value, options.groupSeparator)
+    return new Price(
+      baseCurrency,
+      quoteCurrency,
+      denominator * 10n ** BigInt(baseCurrency.decimals),
+      numerator * 10n ** BigInt(quoteCurrency.decimals)
+    )
+  }
+
   /**
    * Flip the price, switching the base and quote currency
    */
@@ -87,4 +111,27 @@ export class Price<TBase extends Currency, TQuote extends Currency> extends Frac
   public override toFixed(decimalPlaces = 4, format?: { groupSeparator?: string }, rounding?: Rounding): string {
     return this.adjustedForDecimals.toFixed(decimalPlaces, format, rounding)
   }
+
+  /**
+   * Serializes the price into a versioned, JSON-compatible object
+   */
+  public toJSON(): PriceJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      baseCurrency: this.baseCurrency.toJSON(),
+      quoteCurrency: this.quoteCurrency.toJSON(),
+      numerator: this.numerator.toString(),
+      denominator: this.denominator.toString(),
+    }
+  }
+
+  /**
+   * Deserializes a price produced by {@link Price#toJSON}
+   * @param json the serialized price
+   * @throws ZodError if the input is not a serialized price
+   */
+  public static fromJSON(json: unknown): Price<Currency, Currency> {
+    const { baseCurrency, quoteCurrency, numerator, denominator } = priceJSONSchema.parse(json)
+    return new Price(currencyFromJSON(baseCurrency), currencyFromJSON(quoteCurrency), denominator, numerator)
+  }
 }
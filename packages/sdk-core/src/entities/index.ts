@@ -1,7 +1,11 @@
 export * from './fractions'
 
+export * from './chainNativeCurrency'
 export * from './currency'
 export * from './ether'
+export * from './listedToken'
 export * from './nativeCurrency'
+export * from './nativeOnChain'
 export * from './token'
+export * from './tokenRegistry'
 export * from './weth9'
@@ -0,0 +1,50 @@
+import type { TokenInfo } from '../schemas/tokenList'
+import { Token } from './token'
+
+/**
+ * A token from a token list, with the metadata the list provides for it
+ */
+export class ListedToken extends Token {
+  /**
+   * The token as described by the list
+   */
+  public readonly tokenInfo: TokenInfo
+  /**
+   * The name of the list the token is from, if known
+   */
+  public readonly listName: string | undefined
+
+  /**
+   * @param tokenInfo the token as described by the list
+   * @param listName the name of the list the token is from
+   */
+  public constructor(tokenInfo: TokenInfo, listName?: string) {
+    super(tokenInfo.chainId, tokenInfo.address, tokenInfo.decimals, tokenInfo.symbol, tokenInfo.name)
+    this.tokenInfo = tokenInfo
+    this.listName = listName
+  }
+
+  /**
+   * The URI of the token logo
+   */
+  public get logoURI(): string | undefined {
+    return this.tokenInfo.logoURI
+  }
+
+  /**
+   * The ids of the list tags of the token
+   */
+  public get tags(): readonly string[] {
+    return this.tokenInfo.tags ?? []
+  }
+
+  /**
+   * The addresses of the bridged token on other chains, from the `bridgeInfo` extension
+   */
+  public get bridgeInfo(): { [chainId: number]: string } {
+    const bridgeInfo = this.tokenInfo.extensions?.bridgeInfo ?? {}
+    return Object.fromEntries(
+      Object.entries(bridgeInfo).map(([chainId, { tokenAddress }]) => [Number(chainId), tokenAddress])
+    )
+  }
+}
@@ -1,3 +1,4 @@
+import { type NativeCurrencyJSON, SERIALIZATION_VERSION } from '../schemas/serialization'
 import { BaseCurrency } from './baseCurrency'
 
 /**
@@ -6,4 +7,18 @@ import { BaseCurrency } from './baseCurrency'
 export abstract class NativeCurrency extends BaseCurrency {
   public readonly isNative = true
   public readonly isToken = false
+
+  /**
+   * Serializes the native currency into a versioned, JSON-compatible object
+   */
+  public toJSON(): NativeCurrencyJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      type: 'native',
+      chainId: this.chainId,
+      decimals: this.decimals,
+      ...(this.symbol !== undefined && { symbol: this.symbol }),
+      ...(this.name !== undefined && { name: this.name }),
+    }
+  }
 }
@@ -0,0 +1,103 @@
+import { ChainId, NativeCurrencyName } from '../chains'
+import { ChainNativeCurrency } from './chainNativeCurrency'
+import { Ether } from './ether'
+import type { NativeCurrency } from './nativeCurrency'
+import { Token } from './token'
+import { WETH9 } from './weth9'
+
+/**
+ * The tokens wrapping the native currency of each chain, e.g. WETH on Ethereum and WMATIC on Polygon
+ */
+export const WRAPPED_NATIVE_CURRENCY: { [chainId: number]: Token } = {
+  ...WETH9,
+  [ChainId.POLYGON_MUMBAI]: new Token(
+    ChainId.POLYGON_MUMBAI,
+    '0x9c3C9283D3e44854697Cd22D3Faa240Cfb032889',
+    18,
+    'WMATIC',
+    'Wrapped MATIC'
+  ),
+  [ChainId.CELO]: new Token(
+    ChainId.CELO,
+    '0x471EcE3750Da237f93B8E339c536989b8978a438',
+    18,
+    'CELO',
+    'Celo native asset'
+  ),
+  [ChainId.CELO_ALFAJORES]: new Token(
+    ChainId.CELO_ALFAJORES,
+    '0xF194afDf50B03e69Bd7D057c1Aa9e10c9954E4C9',
+    18,
+    'CELO',
+    'Celo native asset'
+  ),
+  [ChainId.GNOSIS]: new Token(
+    ChainId.GNOSIS,
+    '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
+    18,
+    'WXDAI',
+    'Wrapped XDAI'
+  ),
+  [ChainId.MOONBEAM]: new Token(
+    ChainId.MOONBEAM,
+    '0xAcc15dC74880C9944775448304B263D191c6077F',
+    18,
+    'WGLMR',
+    'Wrapped GLMR'
+  ),
+  [ChainId.ROOTSTOCK]: new Token(
+    ChainId.ROOTSTOCK,
+    '0x542fDA317318eBF1d3DEAf76E0b632741A7e677d',
+    18,
+    'WRBTC',
+    'Wrapped BTC'
+  ),
+  [ChainId.XLAYER]: new Token(ChainId.XLAYER, '0xe538905cf8410324e03A5A23C1c177a474D59b2b', 18, 'WOKB', 'Wrapped OKB'),
+}
+
+/**
+ * The symbol and name of the native currency of each chain whose native currency is not Ether
+ */
+const NATIVE_CURRENCY_INFO: { [chainId: number]: { symbol: NativeCurrencyName; name: string } } = {
+  [ChainId.POLYGON]: { symbol: NativeCurrencyName.MATIC, name: 'Polygon Matic' },
+  [ChainId.POLYGON_MUMBAI]: { symbol: NativeCurrencyName.MATIC, name: 'Polygon Mumbai Matic' },
+  [ChainId.BNB]: { symbol: NativeCurrencyName.BNB, name: 'BNB' },
+  [ChainId.AVALANCHE]: { symbol: NativeCurrencyName.AVAX, name: 'Avalanche' },
+  [ChainId.CELO]: { symbol: NativeCurrencyName.CELO, name: 'Celo' },
+  [ChainId.CELO_ALFAJORES]: { symbol: NativeCurrencyName.CELO, name: 'Celo' },
+  [ChainId.GNOSIS]: { symbol: NativeCurrencyName.GNOSIS, name: 'xDai' },
+  [ChainId.MOONBEAM]: { symbol: NativeCurrencyName.MOONBEAM, name: 'Glimmer' },
+  [ChainId.ROOTSTOCK]: { symbol: NativeCurrencyName.ROOTSTOCK, name: 'Rootstock Bitcoin' },
+  [ChainId.MONAD_TESTNET]: { symbol: NativeCurrencyName.MONAD, name: 'Monad' },
+  [ChainId.MONAD]: { symbol: NativeCurrencyName.MONAD, name: 'Monad' },
+  [ChainId.XLAYER]: { symbol: NativeCurrencyName.XLAYER, name: 'OKB' },
+}
+
+const nativeCurrencyCache: { [chainId: number]: NativeCurrency } = {}
+
+/**
+ * Returns the native currency of the given chain, e.g. MATIC on Polygon.
+ * Chains without a known or registered native currency are assumed to use Ether.
+ * @param chainId the chain ID
+ */
+export function nativeOnChain(chainId: number): NativeCurrency {
+  const cached = nativeCurrencyCache[chainId]
+  if (cached) {
+    return cached
+  }
+  const info = NATIVE_CURRENCY_INFO[chainId]
+  const wrapped = WRAPPED_NATIVE_CURRENCY[chainId]
+  const nativeCurrency =
+    info && wrapped ? new ChainNativeCurrency(chainId, 18, info.symbol, info.name, wrapped) : Ether.onChain(chainId)
+  nativeCurrencyCache[chainId] = nativeCurrency
+  return nativeCurrency
+}
+
+/**
+ * Registers the native currency of a custom chain, returned by {@link nativeOnChain} from then on.
+ * Replaces the native currency previously returned for the chain.
+ * @param nativeCurrency the native currency, e.g. a {@link ChainNativeCurrency}
+ */
+export function registerNativeCurrency(nativeCurrency: NativeCurrency): void {
+  nativeCurrencyCache[nativeCurrency.chainId] = nativeCurrency
+}
@@ -1,5 +1,6 @@
 import type { Address } from 'ox'
 import invariant from 'tiny-invariant'
+import { SERIALIZATION_VERSION, type TokenJSON, tokenJSONSchema } from '../schemas/serialization'
 import { checkValidAddress, validateAndParseAddress } from '../utils/validateAndParseAddress'
 import { BaseCurrency } from './baseCurrency'
 import type { Currency } from './currency'
@@ -86,4 +87,40 @@ export class Token extends BaseCurrency {
   public get wrapped(): Token {
     return this
   }
+
+  /**
+   * Serializes the token into a versioned, JSON-compatible object
+   */
+  public toJSON(): TokenJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      type: 'token',
+      chainId: this.chainId,
+      address: this.address,
+      decimals: this.decimals,
+      ...(this.symbol !== undefined && { symbol: this.symbol }),
+      ...(this.name !== undefined && { name: this.name }),
+      ...(this.buyFeeBps !== undefined && { buyFeeBps: this.buyFeeBps.toString() }),
+      ...(this.sellFeeBps !== undefined && { sellFeeBps: this.sellFeeBps.toString() }),
+    }
+  }
+
+  /**
+   * Deserializes a token produced by {@link Token#toJSON}
+   * @param json the serialized token
+   * @throws ZodError if the input is not a serialized token
+   */
+  public static fromJSON(json: unknown): Token {
+    const { chainId, address, decimals, symbol, name, buyFeeBps, sellFeeBps } = tokenJSONSchema.parse(json)
+    return new Token(
+      chainId,
+      address,
+      decimals,
+      symbol,
+      name,
+      false,
+      buyFeeBps === undefined ? undefined : BigInt(buyFeeBps),
+      sellFeeBps === undefined ? undefined : BigInt(sellFeeBps)
+    )
+  }
 }
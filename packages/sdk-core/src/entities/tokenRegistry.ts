@@ -0,0 +1,97 @@
+import type { TokenList } from '../schemas/tokenList'
+import { parseTokenList } from '../utils/tokenList'
+import { ListedToken } from './listedToken'
+
+function tokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
+
+/**
+ * Options for adding a token list to a {@link TokenRegistry}
+ */
+export interface AddTokenListOptions {
+  /**
+   * Whether the tokens of the list replace the tokens already registered from other lists (default: false)
+   */
+  override?: boolean
+}
+
+/**
+ * Indexes the tokens of one or more token lists by chain.
+ * A token listed by several lists is registered once, from the list with the highest precedence: lists added
+ * earlier take precedence, unless a list is added with `override`.
+ */
+export class TokenRegistry {
+  private readonly _lists: TokenList[] = []
+  private readonly tokens = new Map<string, ListedToken>()
+
+  /**
+   * @param lists the token lists to register, from the highest to the lowest precedence
+   */
+  public constructor(lists: unknown[] = []) {
+    for (const list of lists) {
+      this.addList(list)
+    }
+  }
+
+  /**
+   * The registered token lists, in the order they were added
+   */
+  public get lists(): readonly TokenList[] {
+    return this._lists
+  }
+
+  /**
+   * The number of registered tokens
+   */
+  public get size(): number {
+    return this.tokens.size
+  }
+
+  /**
+   * Validates and registers a token list
+   * @param list the token list JSON
+   * @param options whether the list takes precedence over the lists already registered
+   * @returns the validated token list
+   * @throws ZodError if the list is not a valid token list
+   */
+  public addList(list: unknown, { override = false }: AddTokenListOptions = {}): TokenList {
+    const tokenList = parseTokenList(list)
+    for (const tokenInfo of tokenList.tokens) {
+      const key = tokenKey(tokenInfo.chainId, tokenInfo.address)
+      if (override || !this.tokens.has(key)) {
+        this.tokens.set(key, new ListedToken(tokenInfo, tokenList.name))
+      }
+    }
+    this._lists.push(tokenList)
+    return tokenList
+  }
+
+  /**
+   * Returns the token with the given address
+   * @param chainId the chain of the token
+   * @param address the address of the token, in any case
+   */
+  public getToken(chainId: number, address: string): ListedToken | undefined {
+    return this.tokens.get(tokenKey(chainId, address))
+  }
+
+  /**
+   * Returns the tokens with the given symbol, which is not unique across lists
+   * @param chainId the chain of the tokens
+   * @param symbol the symbol of the tokens, in any case
+   */
+  public getTokensBySymbol(chainId: number, symbol: string): ListedToken[] {
+    const upperSymbol = symbol.toUpperCase()
+    return this.getTokens(chainId).filter((token) => token.symbol?.toUpperCase() === upperSymbol)
+  }
+
+  /**
+   * Returns the registered tokens
+   * @param chainId if set, only the tokens of this chain
+   */
+  public getTokens(chainId?: number): ListedToken[] {
+    const tokens = [...this.tokens.values()]
+    return chainId === undefined ? tokens : tokens.filter((token) => token.chainId === chainId)
+  }
+}
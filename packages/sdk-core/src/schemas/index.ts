@@ -1 +1,64 @@
 export { addressSchema, optionalAddressSchema, parseAddress, safeParseAddress, type Address } from './address'
+export {
+  SERIALIZATION_VERSION,
+  bigintStringSchema,
+  currencyAmountJSONSchema,
+  currencyJSONSchema,
+  nativeCurrencyJSONSchema,
+  percentJSONSchema,
+  priceJSONSchema,
+  tickJSONSchema,
+  tokenJSONSchema,
+  v3PoolJSONSchema,
+  v3RouteJSONSchema,
+  v3TradeJSONSchema,
+  v4PoolJSONSchema,
+  v4RouteJSONSchema,
+  v4TradeJSONSchema,
+  type CurrencyAmountJSON,
+  type CurrencyJSON,
+  type NativeCurrencyJSON,
+  type PercentJSON,
+  type PriceJSON,
+  type TickJSON,
+  type TokenJSON,
+  type V3PoolJSON,
+  type V3RouteJSON,
+  type V3TradeJSON,
+  type V4PoolJSON,
+  type V4RouteJSON,
+  type V4TradeJSON,
+} from './serialization'
+export {
+  batchPermitSchema,
+  mintOptionsSchema,
+  nftPermitSchema,
+  permit2PermitSchema,
+  removeLiquidityOptionsSchema,
+  swapOptionsSchema,
+  type MintOptionsArgs,
+  type RemoveLiquidityOptionsArgs,
+  type SwapOptionsArgs,
+} from './options'
+export { poolKeySchema, type PoolKeyArgs } from './poolKey'
+export {
+  bigintIshSchema,
+  hexSchema,
+  percentSchema,
+  slippageToleranceSchema,
+  uint256Schema,
+  uintSchema,
+  withoutUndefined,
+  type WithoutUndefined,
+} from './primitives'
+export { fotFeeBpsSchema, tokenArgsSchema, type TokenArgs } from './token'
+export {
+  bridgeInfoSchema,
+  tokenInfoSchema,
+  tokenListSchema,
+  tokenListVersionSchema,
+  type BridgeInfo,
+  type TokenInfo,
+  type TokenList,
+  type TokenListVersion,
+} from './tokenList'
@@ -0,0 +1,125 @@
+import { z } from 'zod'
+import { NativeCurrency } from '../entities/nativeCurrency'
+import { nativeOnChain } from '../entities/nativeOnChain'
+import { addressSchema } from './address'
+import {
+  hexSchema,
+  percentSchema,
+  slippageToleranceSchema,
+  uint256Schema,
+  uintSchema,
+  withoutUndefined,
+} from './primitives'
+import { nativeCurrencyJSONSchema } from './serialization'
+
+const permitDetailsSchema = z.object({
+  token: addressSchema,
+  amount: uintSchema(160),
+  expiration: uintSchema(48).transform(Number),
+  nonce: uintSchema(48).transform(Number),
+})
+
+/**
+ * Zod schema for a signed Permit2 allowance of a single token
+ */
+export const permit2PermitSchema = z.object({
+  details: permitDetailsSchema,
+  spender: addressSchema,
+  sigDeadline: uint256Schema,
+  signature: hexSchema,
+})
+
+/**
+ * Zod schema for a signed Permit2 allowance of several tokens
+ */
+export const batchPermitSchema = z.object({
+  owner: addressSchema,
+  permitBatch: z.object({
+    details: z.array(permitDetailsSchema).min(1),
+    spender: addressSchema,
+    sigDeadline: uint256Schema,
+  }),
+  signature: hexSchema,
+})
+
+/**
+ * Zod schema for a signed permit of a position NFT
+ */
+export const nftPermitSchema = z.object({
+  spender: addressSchema,
+  tokenId: uint256Schema,
+  deadline: uint256Schema,
+  nonce: uint256Schema,
+  signature: hexSchema,
+})
+
+const commonOptionsSchema = z.object({
+  slippageTolerance: slippageToleranceSchema,
+  hookData: hexSchema.optional(),
+  deadline: uint256Schema,
+})
+
+/**
+ * Zod schema for the `MintOptions` of the V4 PositionManager
+ */
+export const mintOptionsSchema = commonOptionsSchema
+  .extend({
+    recipient: addressSchema,
+    createPool: z.boolean().optional(),
+    sqrtPriceX96: uintSchema(160).optional(),
+    migrate: z.boolean().optional(),
+    useNative: z
+      .union([
+        z.custom<NativeCurrency>((value) => value instanceof NativeCurrency, { message: 'Expected a native currency' }),
+        nativeCurrencyJSONSchema.transform(({ chainId }): NativeCurrency => nativeOnChain(chainId)),
+      ])
+      .optional(),
+    batchPermit: batchPermitSchema.optional(),
+  })
+  .refine(({ createPool, sqrtPriceX96 }) => !createPool || sqrtPriceX96 !== undefined, {
+    message: 'sqrtPriceX96 is required to create the pool',
+    path: ['sqrtPriceX96'],
+  })
+  .transform(withoutUndefined)
+
+/**
+ * Zod schema for the `RemoveLiquidityOptions` of the V4 PositionManager
+ */
+export const removeLiquidityOptionsSchema = commonOptionsSchema
+  .extend({
+    tokenId: uint256Schema,
+    liquidityPercentage: percentSchema.refine((percent) => percent.greaterThan(0) && !percent.greaterThan(1), {
+      message: 'Liquidity percentage must be greater than 0% and at most 100%',
+    }),
+    burnToken: z.boolean().optional(),
+    permit: nftPermitSchema.optional(),
+  })
+  .refine(({ burnToken, liquidityPercentage }) => !burnToken || liquidityPercentage.equalTo(1), {
+    message: 'The position can only be burned when removing 100% of its liquidity',
+    path: ['burnToken'],
+  })
+  .transform(withoutUndefined)
+
+/**
+ * Zod schema for the `SwapOptions` of the Universal Router
+ */
+export const swapOptionsSchema = z
+  .object({
+    slippageTolerance: slippageToleranceSchema,
+    recipient: addressSchema.optional(),
+    deadline: uint256Schema.optional(),
+    inputTokenPermit: permit2PermitSchema.optional(),
+    fee: z
+      .object({
+        fee: percentSchema.refine((percent) => !percent.lessThan(0) && percent.lessThan(1), {
+          message: 'Fee must be at least 0% and less than 100%',
+        }),
+        recipient: addressSchema,
+      })
+      .optional(),
+  })
+  .transform(withoutUndefined)
+
+export type MintOptionsArgs = z.output<typeof mintOptionsSchema>
+export type RemoveLiquidityOptionsArgs = z.output<typeof removeLiquidityOptionsSchema>
+export type SwapOptionsArgs = z.output<typeof swapOptionsSchema>
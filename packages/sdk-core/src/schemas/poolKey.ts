@@ -0,0 +1,31 @@
+import { z } from 'zod'
+import { addressSchema } from './address'
+
+// The fee of a V4 pool key whose LP fee is set by its hook
+const DYNAMIC_FEE_FLAG = 0x800000
+const MAX_LP_FEE = 1_000_000
+const MIN_TICK_SPACING = 1
+const MAX_TICK_SPACING = 32_767
+
+/**
+ * Zod schema for the key of a V4 pool
+ */
+export const poolKeySchema = z
+  .object({
+    currency0: addressSchema,
+    currency1: addressSchema,
+    fee: z
+      .number()
+      .int()
+      .refine((fee) => fee === DYNAMIC_FEE_FLAG || (fee >= 0 && fee <= MAX_LP_FEE), {
+        message: `Fee must be at most ${MAX_LP_FEE} or the dynamic fee flag`,
+      }),
+    tickSpacing: z.number().int().min(MIN_TICK_SPACING).max(MAX_TICK_SPACING),
+    hooks: addressSchema,
+  })
+  .refine(({ currency0, currency1 }) => BigInt(currency0) < BigInt(currency1), {
+    message: 'currency0 must sort before currency1',
+    path: ['currency1'],
+  })
+
+export type PoolKeyArgs = z.infer<typeof poolKeySchema>
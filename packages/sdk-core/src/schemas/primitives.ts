@@ -0,0 +1,74 @@
+import { Hex } from 'ox'
+import { z } from 'zod'
+import { Percent } from '../entities/fractions/percent'
+
+/**
+ * Zod schema for hex strings, e.g. calldata or signatures
+ */
+export const hexSchema = z.string().refine((value) => Hex.validate(value), { message: 'Invalid hex string' })
+
+/**
+ * Zod schema for integers given as a bigint, a safe integer number or a decimal or hex string
+ */
+export const bigintIshSchema = z
+  .union([
+    z.bigint(),
+    z.number().refine((value) => Number.isSafeInteger(value), { message: 'Expected a safe integer' }),
+    z.string().regex(/^(-?\d+|0x[0-9a-fA-F]+)$/, { message: 'Expected a decimal or hex integer string' }),
+  ])
+  .transform((value) => BigInt(value))
+
+/**
+ * Creates a zod schema for unsigned integers of the given bit size, parsed into bigints
+ * @param bits The bit size of the integer, e.g. 160 for a sqrt price
+ */
+export function uintSchema(bits: number) {
+  const max = 2n ** BigInt(bits) - 1n
+  return bigintIshSchema.refine((value) => value >= 0n && value <= max, {
+    message: `Expected an unsigned integer of at most ${bits} bits`,
+  })
+}
+
+/**
+ * Zod schema for raw token amounts, which must fit in a uint256
+ */
+export const uint256Schema = uintSchema(256)
+
+/**
+ * Zod schema for percents, given as a `Percent` or as its numerator and denominator
+ */
+export const percentSchema = z
+  .union([
+    z.instanceof(Percent),
+    z
+      .object({ numerator: bigintIshSchema, denominator: bigintIshSchema })
+      .transform(({ numerator, denominator }) => new Percent(numerator, denominator)),
+  ])
+  .refine((percent) => percent.denominator !== 0n, { message: 'Denominator must not be zero' })
+
+/**
+ * Zod schema for slippage tolerances, percents between 0% and 100%
+ */
+export const slippageToleranceSchema = percentSchema.refine(
+  (percent) => !percent.lessThan(0) && !percent.greaterThan(1),
+  { message: 'Slippage tolerance must be between 0% and 100%' }
+)
+
+/**
+ * Removes the optional properties a schema parsed as undefined, so that parsed values can be passed where optional
+ * properties must be omitted rather than undefined
+ * @param value The parsed object
+ * @returns The object without undefined properties
+ */
+export function withoutUndefined<T extends object>(value: T): WithoutUndefined<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as WithoutUndefined<T>
+}
+
+/**
+ * The type of an object with its possibly undefined properties made optional and defined
+ */
+export type WithoutUndefined<T> = {
+  [K in keyof T as undefined extends T[K] ? never : K]: T[K]
+} & {
+  [K in keyof T as undefined extends T[K] ? K : never]?: Exclude<T[K], undefined>
+}
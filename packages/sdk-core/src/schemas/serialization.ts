@@ -0,0 +1,194 @@
+import { z } from 'zod'
+import { TradeType } from '../constants'
+
+/**
+ * The version of the JSON format produced by the `toJSON` methods of the SDK entities
+ */
+export const SERIALIZATION_VERSION = 1
+
+const versionSchema = z.literal(SERIALIZATION_VERSION, {
+  errorMap: () => ({ message: `Unsupported serialization version, expected ${SERIALIZATION_VERSION}` }),
+})
+
+/**
+ * Zod schema for bigints serialized as decimal strings
+ */
+export const bigintStringSchema = z.string().regex(/^-?\d+$/, { message: 'Expected an integer string' })
+
+const chainIdSchema = z.number().int().positive()
+const decimalsSchema = z.number().int().min(0).max(254)
+const tickIndexSchema = z.number().int()
+
+/**
+ * Zod schema for a serialized `Token`
+ */
+export const tokenJSONSchema = z.object({
+  version: versionSchema,
+  type: z.literal('token'),
+  chainId: chainIdSchema,
+  address: z.string(),
+  decimals: decimalsSchema,
+  symbol: z.string().optional(),
+  name: z.string().optional(),
+  buyFeeBps: bigintStringSchema.optional(),
+  sellFeeBps: bigintStringSchema.optional(),
+})
+
+/**
+ * Zod schema for a serialized native currency
+ */
+export const nativeCurrencyJSONSchema = z.object({
+  version: versionSchema,
+  type: z.literal('native'),
+  chainId: chainIdSchema,
+  decimals: decimalsSchema,
+  symbol: z.string().optional(),
+  name: z.string().optional(),
+})
+
+/**
+ * Zod schema for a serialized `Currency`, discriminated by its `type`
+ */
+export const currencyJSONSchema = z.discriminatedUnion('type', [tokenJSONSchema, nativeCurrencyJSONSchema])
+
+/**
+ * Zod schema for a serialized `CurrencyAmount`
+ */
+export const currencyAmountJSONSchema = z.object({
+  version: versionSchema,
+  currency: currencyJSONSchema,
+  numerator: bigintStringSchema,
+  denominator: bigintStringSchema,
+})
+
+/**
+ * Zod schema for a serialized `Price`, as the raw ratio of quote to base currency
+ */
+export const priceJSONSchema = z.object({
+  version: versionSchema,
+  baseCurrency: currencyJSONSchema,
+  quoteCurrency: currencyJSONSchema,
+  numerator: bigintStringSchema,
+  denominator: bigintStringSchema,
+})
+
+/**
+ * Zod schema for a serialized `Percent`
+ */
+export const percentJSONSchema = z.object({
+  version: versionSchema,
+  numerator: bigintStringSchema,
+  denominator: bigintStringSchema,
+})
+
+/**
+ * Zod schema for a serialized initialized tick
+ */
+export const tickJSONSchema = z.object({
+  index: tickIndexSchema,
+  liquidityGross: bigintStringSchema,
+  liquidityNet: bigintStringSchema,
+})
+
+/**
+ * Zod schema for a serialized V3 `Pool`. Ticks are only present for pools backed by a tick list or a lazy tick
+ * provider; for the latter, `tickWords` lists the bitmap words the ticks were loaded for.
+ */
+export const v3PoolJSONSchema = z.object({
+  version: versionSchema,
+  token0: tokenJSONSchema,
+  token1: tokenJSONSchema,
+  fee: z.number().int(),
+  sqrtRatioX96: bigintStringSchema,
+  liquidity: bigintStringSchema,
+  tickCurrent: tickIndexSchema,
+  ticks: z.array(tickJSONSchema).optional(),
+  tickWords: z.array(z.number().int()).optional(),
+})
+
+/**
+ * Zod schema for a serialized V4 `Pool`. Ticks are only present for pools backed by a tick list or a lazy tick
+ * provider; for the latter, `tickWords` lists the bitmap words the ticks were loaded for.
+ */
+export const v4PoolJSONSchema = z.object({
+  version: versionSchema,
+  currency0: currencyJSONSchema,
+  currency1: currencyJSONSchema,
+  fee: z.number().int(),
+  tickSpacing: z.number().int(),
+  hooks: z.string(),
+  sqrtRatioX96: bigintStringSchema,
+  liquidity: bigintStringSchema,
+  tickCurrent: tickIndexSchema,
+  lpFee: z.number().int().optional(),
+  ticks: z.array(tickJSONSchema).optional(),
+  tickWords: z.array(z.number().int()).optional(),
+})
+
+/**
+ * Zod schema for a serialized V3 `Route`
+ */
+export const v3RouteJSONSchema = z.object({
+  version: versionSchema,
+  pools: z.array(v3PoolJSONSchema).min(1),
+  input: currencyJSONSchema,
+  output: currencyJSONSchema,
+})
+
+/**
+ * Zod schema for a serialized V4 `Route`
+ */
+export const v4RouteJSONSchema = z.object({
+  version: versionSchema,
+  pools: z.array(v4PoolJSONSchema).min(1),
+  input: currencyJSONSchema,
+  output: currencyJSONSchema,
+})
+
+/**
+ * Zod schema for a serialized V3 `Trade`
+ */
+export const v3TradeJSONSchema = z.object({
+  version: versionSchema,
+  tradeType: z.nativeEnum(TradeType),
+  swaps: z
+    .array(
+      z.object({
+        route: v3RouteJSONSchema,
+        inputAmount: currencyAmountJSONSchema,
+        outputAmount: currencyAmountJSONSchema,
+      })
+    )
+    .min(1),
+})
+
+/**
+ * Zod schema for a serialized V4 `Trade`
+ */
+export const v4TradeJSONSchema = z.object({
+  version: versionSchema,
+  tradeType: z.nativeEnum(TradeType),
+  swaps: z
+    .array(
+      z.object({
+        route: v4RouteJSONSchema,
+        inputAmount: currencyAmountJSONSchema,
+        outputAmount: currencyAmountJSONSchema,
+      })
+    )
+    .min(1),
+})
+
+export type TokenJSON = z.infer<typeof tokenJSONSchema>
+export type NativeCurrencyJSON = z.infer<typeof nativeCurrencyJSONSchema>
+export type CurrencyJSON = z.infer<typeof currencyJSONSchema>
+export type CurrencyAmountJSON = z.infer<typeof currencyAmountJSONSchema>
+export type PriceJSON = z.infer<typeof priceJSONSchema>
+export type PercentJSON = z.infer<typeof percentJSONSchema>
+export type TickJSON = z.infer<typeof tickJSONSchema>
+export type V3PoolJSON = z.infer<typeof v3PoolJSONSchema>
+export type V4PoolJSON = z.infer<typeof v4PoolJSONSchema>
+export type V3RouteJSON = z.infer<typeof v3RouteJSONSchema>
+export type V4RouteJSON = z.infer<typeof v4RouteJSONSchema>
+export type V3TradeJSON = z.infer<typeof v3TradeJSONSchema>
+export type V4TradeJSON = z.infer<typeof v4TradeJSONSchema>
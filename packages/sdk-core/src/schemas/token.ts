@@ -0,0 +1,25 @@
+import { z } from 'zod'
+import { addressSchema } from './address'
+import { bigintIshSchema } from './primitives'
+
+/**
+ * Zod schema for the fee-on-transfer tax of a token, in basis points
+ */
+export const fotFeeBpsSchema = bigintIshSchema.refine((value) => value >= 0n && value <= 10_000n, {
+  message: 'Fee-on-transfer fees must be between 0 and 10000 bps',
+})
+
+/**
+ * Zod schema for the arguments of the `Token` constructor
+ */
+export const tokenArgsSchema = z.object({
+  chainId: z.number().int().positive(),
+  address: addressSchema,
+  decimals: z.number().int().min(0).max(254),
+  symbol: z.string().optional(),
+  name: z.string().optional(),
+  buyFeeBps: fotFeeBpsSchema.optional(),
+  sellFeeBps: fotFeeBpsSchema.optional(),
+})
+
+export type TokenArgs = z.infer<typeof tokenArgsSchema>
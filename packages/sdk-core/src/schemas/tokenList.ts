@@ -0,0 +1,77 @@
+import { z } from 'zod'
+
+const listAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, { message: 'Invalid Ethereum address' })
+const tagIdSchema = z
+  .string()
+  .regex(/^[\w]+$/, { message: 'Tag ids may only contain word characters' })
+  .max(10)
+
+const extensionPrimitiveSchema = z.union([z.string().max(42), z.number(), z.boolean(), z.null()])
+const extensionValueSchema = z.union([
+  extensionPrimitiveSchema,
+  z.record(z.union([extensionPrimitiveSchema, z.record(extensionPrimitiveSchema)])),
+])
+
+/**
+ * Zod schema for the `bridgeInfo` extension, mapping chain ids to the address of the bridged token on that chain
+ */
+export const bridgeInfoSchema = z.record(
+  z.string().regex(/^\d+$/, { message: 'Bridge info keys must be chain ids' }),
+  z.object({ tokenAddress: listAddressSchema })
+)
+
+/**
+ * Zod schema for a token of a token list
+ */
+export const tokenInfoSchema = z.object({
+  chainId: z.number().int().positive(),
+  address: listAddressSchema,
+  decimals: z.number().int().min(0).max(254),
+  name: z.string().max(60),
+  symbol: z.string().max(20),
+  logoURI: z.string().url().optional(),
+  tags: z.array(tagIdSchema).max(10).optional(),
+  extensions: z
+    .object({ bridgeInfo: bridgeInfoSchema.optional() })
+    .catchall(extensionValueSchema)
+    .refine((extensions) => Object.keys(extensions).length <= 10, { message: 'At most 10 extensions are allowed' })
+    .optional(),
+})
+
+/**
+ * Zod schema for the semantic version of a token list
+ */
+export const tokenListVersionSchema = z.object({
+  major: z.number().int().nonnegative(),
+  minor: z.number().int().nonnegative(),
+  patch: z.number().int().nonnegative(),
+})
+
+/**
+ * Zod schema for a token list following the Uniswap token list standard
+ */
+export const tokenListSchema = z
+  .object({
+    name: z.string().min(1).max(30),
+    timestamp: z.string().datetime({ offset: true }),
+    version: tokenListVersionSchema,
+    tokens: z.array(tokenInfoSchema).min(1).max(10_000),
+    keywords: z.array(z.string().max(20)).max(20).optional(),
+    tags: z.record(tagIdSchema, z.object({ name: z.string().max(21), description: z.string().max(200) })).optional(),
+    logoURI: z.string().url().optional(),
+  })
+  .superRefine(({ tokens }, ctx) => {
+    const seen = new Set<string>()
+    for (const [i, { chainId, address }] of tokens.entries()) {
+      const key = `${chainId}:${address.toLowerCase()}`
+      if (seen.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Duplicate token', path: ['tokens', i, 'address'] })
+      }
+      seen.add(key)
+    }
+  })
+
+export type BridgeInfo = z.infer<typeof bridgeInfoSchema>
+export type TokenInfo = z.infer<typeof tokenInfoSchema>
+export type TokenListVersion = z.infer<typeof tokenListVersionSchema>
+export type TokenList = z.infer<typeof tokenListSchema>
@@ -1,5 +1,8 @@
+import invariant from 'tiny-invariant'
 import { Rounding } from '../constants'
 
+const MAX_DECIMAL_EXPONENT = 1000
+
 /**
  * Divides two bigints and returns a decimal string with specified precision
  * @param numerator The numerator
@@ -87,6 +90,38 @@ export function formatWithSeparator(value: string, groupSeparator: string): stri
   return decPart !== undefined ? `${formattedInt}.${decPart}` : (formattedInt ?? value)
 }
 
+/**
+ * Parses a non-negative decimal string, e.g. "1,234.5" or "1.2e-3", into an exact fraction
+ * @param value The decimal string, optionally in scientific notation
+ * @param groupSeparator The separator grouping the integer digits by three (e.g., ',')
+ * @returns The numerator and denominator of the value
+ */
+export function parseDecimalString(value: string, groupSeparator = ','): { numerator: bigint; denominator: bigint } {
+  let trimmed = value.trim()
+  if (groupSeparator && trimmed.includes(groupSeparator)) {
+    const [intPart = '', ...rest] = trimmed.split('.')
+    const groups = intPart.split(groupSeparator)
+    invariant(
+      groups.length > 1 && /^\d{1,3}$/.test(groups[0] ?? '') && groups.slice(1).every((group) => /^\d{3}$/.test(group)),
+      'DECIMAL_STRING'
+    )
+    trimmed = [groups.join(''), ...rest].join('.')
+  }
+
+  const match = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(trimmed)
+  const intDigits = match?.[1] ?? ''
+  const decDigits = match?.[2] ?? ''
+  invariant(match !== null && intDigits.length + decDigits.length > 0, 'DECIMAL_STRING')
+
+  // Bounded so user input cannot request an arbitrarily large power of ten
+  const exponent = Number(match[3] ?? 0) - decDigits.length
+  invariant(Math.abs(exponent) <= MAX_DECIMAL_EXPONENT, 'DECIMAL_STRING')
+  const digits = BigInt(intDigits + decDigits)
+  return exponent >= 0
+    ? { numerator: digits * 10n ** BigInt(exponent), denominator: 1n }
+    : { numerator: digits, denominator: 10n ** BigInt(-exponent) }
+}
+
 /**
  * Converts a fraction to a string with the specified number of significant digits
  * @param numerator The numerator
@@ -0,0 +1,31 @@
+import type { BigintIsh } from '../constants'
+import type { Currency } from '../entities/currency'
+import { CurrencyAmount } from '../entities/fractions/currencyAmount'
+import type { Price } from '../entities/fractions/price'
+
+/**
+ * Estimates the gas used by swaps through the pools of a protocol, so routes can be ranked on their output net of gas
+ */
+export interface GasModel<TPool> {
+  /**
+   * Estimates the gas used to swap through a pool
+   * @param pool the pool swapped through
+   * @param initializedTicksCrossed the number of initialized ticks the swap crosses, 0 for pools without ticks
+   */
+  estimateSwapGas(pool: TPool, initializedTicksCrossed: number): bigint
+}
+
+/**
+ * Converts gas to an amount of the currency the native currency is priced in
+ * @param gas the gas used
+ * @param gasPriceWei the gas price in wei
+ * @param nativeCurrencyPrice the price of the native currency
+ */
+export function gasCostInCurrency<TQuote extends Currency>(
+  gas: bigint,
+  gasPriceWei: BigintIsh,
+  nativeCurrencyPrice: Price<Currency, TQuote>
+): CurrencyAmount<TQuote> {
+  const gasCost = CurrencyAmount.fromRawAmount(nativeCurrencyPrice.baseCurrency, gas * BigInt(gasPriceWei))
+  return nativeCurrencyPrice.quote(gasCost)
+}
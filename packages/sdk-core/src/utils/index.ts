@@ -1,5 +1,17 @@
 export { computePriceImpact } from './computePriceImpact'
 export { computeZksyncCreate2Address } from './computeZksyncCreate2Address'
+export { gasCostInCurrency, type GasModel } from './gasModel'
+export { multicall, type MulticallCall, type MulticallOptions, type MulticallResult } from './multicall'
 export { sortedInsert } from './sortedInsert'
 export { sqrt, MAX_SAFE_INTEGER } from './sqrt'
+export { ethCall, getBlockNumber, type BlockTag, type Transport } from './transport'
+export {
+  VersionUpgrade,
+  bumpTokenListVersion,
+  compareTokenListVersions,
+  diffTokenLists,
+  minVersionBump,
+  parseTokenList,
+  type TokenListDiff,
+} from './tokenList'
 export { validateAndParseAddress, checkValidAddress } from './validateAndParseAddress'
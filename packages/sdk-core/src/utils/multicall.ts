@@ -0,0 +1,85 @@
+import { AbiFunction, type Address, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import { MULTICALL_ADDRESSES } from '../addresses'
+import { type BlockTag, type Transport, ethCall, getBlockNumber } from './transport'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+
+/**
+ * A call to batch through multicall
+ */
+export interface MulticallCall {
+  /** The address to call */
+  target: string
+  /** The calldata */
+  callData: string
+  /** The gas the call may use (default: 1,000,000) */
+  gasLimit?: bigint
+}
+
+/**
+ * The result of a call batched through multicall
+ */
+export interface MulticallResult {
+  /** Whether the call succeeded */
+  success: boolean
+  /** The return data, or the revert data if the call failed */
+  returnData: Hex.Hex
+}
+
+export interface MulticallOptions {
+  /** The block to read at (default: latest) */
+  blockTag?: BlockTag
+  /** The maximum number of calls per eth_call (default: 100) */
+  batchSize?: number
+  /** The multicall contract (default: MULTICALL_ADDRESSES[chainId]) */
+  multicallAddress?: string
+}
+
+const DEFAULT_GAS_LIMIT = 1_000_000n
+const DEFAULT_BATCH_SIZE = 100
+
+/**
+ * Executes calls through the Uniswap interface multicall contract. The block tag is resolved to a
+ * block number first, so every batch reads the same block even when the calls span several eth_calls.
+ * @param transport The transport to read through
+ * @param chainId The chain to read from
+ * @param calls The calls to execute
+ * @param options The block, batch size and multicall contract to use
+ * @returns The block number read at and the result of each call, in order
+ */
+export async function multicall(
+  transport: Transport,
+  chainId: number,
+  calls: MulticallCall[],
+  { blockTag = 'latest', batchSize = DEFAULT_BATCH_SIZE, multicallAddress }: MulticallOptions = {}
+): Promise<{ blockNumber: bigint; results: MulticallResult[] }> {
+  invariant(batchSize > 0, 'BATCH_SIZE')
+  const to = multicallAddress ?? MULTICALL_ADDRESSES[chainId]
+  invariant(to !== undefined, 'MULTICALL_ADDRESS')
+
+  const blockNumber = await getBlockNumber(transport, blockTag)
+
+  const batches: MulticallCall[][] = []
+  for (let i = 0; i < calls.length; i += batchSize) {
+    batches.push(calls.slice(i, i + batchSize))
+  }
+
+  const results = await Promise.all(
+    batches.map(async (batch) => {
+      const data = AbiFunction.encodeData(multicallAbi, [
+        batch.map(({ target, callData, gasLimit = DEFAULT_GAS_LIMIT }) => ({
+          target: target as Address.Address,
+          gasLimit,
+          callData: callData as Hex.Hex,
+        })),
+      ])
+      const [, returnData] = AbiFunction.decodeResult(multicallAbi, await ethCall(transport, { to, data }, blockNumber))
+      return returnData.map(({ success, returnData }) => ({ success, returnData }))
+    })
+  )
+
+  return { blockNumber, results: results.flat() }
+}
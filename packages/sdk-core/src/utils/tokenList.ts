@@ -0,0 +1,118 @@
+import { type TokenInfo, type TokenList, type TokenListVersion, tokenListSchema } from '../schemas/tokenList'
+
+/**
+ * The minimum version bump of a token list for a change of its tokens
+ */
+export enum VersionUpgrade {
+  NONE = 0,
+  /** Only token details changed */
+  PATCH = 1,
+  /** Tokens were added */
+  MINOR = 2,
+  /** Tokens were removed */
+  MAJOR = 3,
+}
+
+/**
+ * The changes between two versions of the tokens of a token list
+ */
+export interface TokenListDiff {
+  /** The tokens only in the updated list */
+  readonly added: TokenInfo[]
+  /** The tokens only in the base list */
+  readonly removed: TokenInfo[]
+  /** The changed properties of the tokens in both lists, by chain id and lowercase address */
+  readonly changed: { [chainId: number]: { [address: string]: (keyof TokenInfo)[] } }
+}
+
+const COMPARED_PROPERTIES = ['name', 'symbol', 'decimals', 'logoURI', 'tags', 'extensions'] as const
+
+// Serializes a value with sorted object keys and array items, so equal values serialize equally
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return JSON.stringify(value.map(canonicalJSON).sort())
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJSON(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+/**
+ * Validates a token list against the Uniswap token list standard
+ * @param json the token list JSON
+ * @returns the token list
+ * @throws ZodError if the list is not a valid token list
+ */
+export function parseTokenList(json: unknown): TokenList {
+  return tokenListSchema.parse(json)
+}
+
+/**
+ * Computes which tokens were added, removed or changed between two versions of a token list
+ * @param base the tokens of the previous version
+ * @param update the tokens of the updated version
+ * @returns the diff of the tokens
+ */
+export function diffTokenLists(base: readonly TokenInfo[], update: readonly TokenInfo[]): TokenListDiff {
+  const key = ({ chainId, address }: TokenInfo) => `${chainId}:${address.toLowerCase()}`
+  const baseTokens = new Map(base.map((token) => [key(token), token]))
+  const updateKeys = new Set(update.map(key))
+
+  const added: TokenInfo[] = []
+  const changed: { [chainId: number]: { [address: string]: (keyof TokenInfo)[] } } = {}
+  for (const token of update) {
+    const baseToken = baseTokens.get(key(token))
+    if (baseToken === undefined) {
+      added.push(token)
+      continue
+    }
+    const changedProperties = COMPARED_PROPERTIES.filter(
+      (property) => canonicalJSON(baseToken[property]) !== canonicalJSON(token[property])
+    )
+    if (changedProperties.length > 0) {
+      changed[token.chainId] ??= {}
+      changed[token.chainId]![token.address.toLowerCase()] = changedProperties
+    }
+  }
+
+  return { added, removed: base.filter((token) => !updateKeys.has(key(token))), changed }
+}
+
+/**
+ * Returns the minimum version bump of a token list for a change of its tokens
+ * @param base the tokens of the previous version
+ * @param update the tokens of the updated version
+ */
+export function minVersionBump(base: readonly TokenInfo[], update: readonly TokenInfo[]): VersionUpgrade {
+  const { added, removed, changed } = diffTokenLists(base, update)
+  if (removed.length > 0) return VersionUpgrade.MAJOR
+  if (added.length > 0) return VersionUpgrade.MINOR
+  if (Object.keys(changed).length > 0) return VersionUpgrade.PATCH
+  return VersionUpgrade.NONE
+}
+
+/**
+ * Compares two token list versions
+ * @returns a negative number if a is older than b, a positive number if it is newer, or 0 if they are equal
+ */
+export function compareTokenListVersions(a: TokenListVersion, b: TokenListVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch
+}
+
+/**
+ * Returns the version after the given bump
+ * @param version the current version
+ * @param bump the version bump
+ */
+export function bumpTokenListVersion(version: TokenListVersion, bump: VersionUpgrade): TokenListVersion {
+  switch (bump) {
+    case VersionUpgrade.MAJOR:
+      return { major: version.major + 1, minor: 0, patch: 0 }
+    case VersionUpgrade.MINOR:
+      return { major: version.major, minor: version.minor + 1, patch: 0 }
+    case VersionUpgrade.PATCH:
+      return { ...version, patch: version.patch + 1 }
+    default:
+      return version
+  }
+}
@@ -0,0 +1,50 @@
+import { Hex } from 'ox'
+
+/**
+ * A minimal EIP-1193 provider, such as an injected wallet, an ox `Provider` or a viem client transport
+ */
+export interface Transport {
+  request(args: { method: string; params?: readonly unknown[] | undefined }): Promise<unknown>
+}
+
+/**
+ * The block to read state at, either a block number or a block tag
+ */
+export type BlockTag = bigint | 'latest' | 'safe' | 'finalized' | 'pending' | 'earliest'
+
+/**
+ * Resolves a block tag to the number of the block it refers to, so that several reads can be pinned
+ * to the same block
+ * @param transport The transport to read through
+ * @param blockTag The block tag to resolve
+ * @returns The block number
+ */
+export async function getBlockNumber(transport: Transport, blockTag: BlockTag = 'latest'): Promise<bigint> {
+  if (typeof blockTag === 'bigint') return blockTag
+
+  if (blockTag === 'latest') {
+    return Hex.toBigInt((await transport.request({ method: 'eth_blockNumber' })) as Hex.Hex)
+  }
+
+  const block = (await transport.request({ method: 'eth_getBlockByNumber', params: [blockTag, false] })) as {
+    number: Hex.Hex
+  } | null
+  if (!block) throw new Error(`Block ${blockTag} not found.`)
+  return Hex.toBigInt(block.number)
+}
+
+/**
+ * Executes a read-only call
+ * @param transport The transport to read through
+ * @param call The address and calldata of the call
+ * @param blockTag The block to execute the call at
+ * @returns The return data of the call
+ */
+export async function ethCall(
+  transport: Transport,
+  call: { to: string; data: string },
+  blockTag: BlockTag = 'latest'
+): Promise<Hex.Hex> {
+  const block = typeof blockTag === 'bigint' ? Hex.fromNumber(blockTag) : blockTag
+  return (await transport.request({ method: 'eth_call', params: [call, block] })) as Hex.Hex
+}
@@ -32,6 +32,36 @@ describe('CurrencyAmount', () => {
     })
   })
 
+  describe('fromDecimalString', () => {
+    it('scales by the currency decimals', () => {
+      expect(CurrencyAmount.fromDecimalString(token, '1.2345').quotient).toBe(1234500000000000000n)
+      expect(CurrencyAmount.fromDecimalString(token6, '.5').quotient).toBe(500000n)
+      expect(CurrencyAmount.fromDecimalString(token6, '7.').quotient).toBe(7000000n)
+    })
+
+    it('accepts scientific notation and group separators', () => {
+      expect(CurrencyAmount.fromDecimalString(token6, '1.5e3').quotient).toBe(1500000000n)
+      expect(CurrencyAmount.fromDecimalString(token6, '2E-6').quotient).toBe(2n)
+      expect(CurrencyAmount.fromDecimalString(token6, '1,234,567.89').quotient).toBe(1234567890000n)
+      expect(CurrencyAmount.fromDecimalString(token6, "1'000", { groupSeparator: "'" }).quotient).toBe(1000000000n)
+    })
+
+    it('throws for too many decimals unless rounding', () => {
+      expect(() => CurrencyAmount.fromDecimalString(token6, '0.0000015')).toThrow('DECIMALS')
+      expect(CurrencyAmount.fromDecimalString(token6, '0.0000015', { rounding: Rounding.ROUND_DOWN }).quotient).toBe(1n)
+      expect(CurrencyAmount.fromDecimalString(token6, '0.0000015', { rounding: Rounding.ROUND_HALF_UP }).quotient).toBe(
+        2n
+      )
+      expect(CurrencyAmount.fromDecimalString(token6, '0.0000011', { rounding: Rounding.ROUND_UP }).quotient).toBe(2n)
+    })
+
+    it('throws for malformed input', () => {
+      for (const value of ['', '.', '-1', '1.2.3', 'abc', '1e', '12,34', ',123', '1e100000']) {
+        expect(() => CurrencyAmount.fromDecimalString(token6, value)).toThrow('DECIMAL_STRING')
+      }
+    })
+  })
+
   describe('add', () => {
     it('adds amounts of same currency', () => {
       const amount1 = CurrencyAmount.fromRawAmount(token, 100n)
@@ -0,0 +1,77 @@
+import { AbiFunction, Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { MULTICALL_ADDRESSES, type Transport, getBlockNumber, multicall } from '../src'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+
+// Answers each call with its own calldata, and fails calls to the zero address
+function fakeTransport(blockNumber: bigint) {
+  const requests: { method: string; params?: readonly unknown[] | undefined }[] = []
+  const transport: Transport = {
+    async request(args) {
+      requests.push(args)
+      if (args.method === 'eth_blockNumber') return Hex.fromNumber(blockNumber)
+      if (args.method === 'eth_getBlockByNumber') return { number: Hex.fromNumber(blockNumber - 64n) }
+      const [{ data }] = args.params as [{ data: Hex.Hex }]
+      const [calls] = AbiFunction.decodeData(multicallAbi, data)
+      return AbiFunction.encodeResult(multicallAbi, [
+        blockNumber,
+        calls.map(({ target, callData }) => ({
+          success: !/^0x0+$/.test(target),
+          gasUsed: 0n,
+          returnData: callData,
+        })),
+      ])
+    },
+  }
+  return { transport, requests }
+}
+
+describe('multicall', () => {
+  const target = '0x1F98431c8aD98523631AE4a59f267346ea31F984'
+
+  it('pins every batch to the latest block', async () => {
+    const { transport, requests } = fakeTransport(100n)
+    const calls = Array.from({ length: 5 }, (_, i) => ({ target, callData: Hex.fromNumber(i, { size: 4 }) }))
+
+    const { blockNumber, results } = await multicall(transport, 1, calls, { batchSize: 2 })
+
+    expect(blockNumber).toEqual(100n)
+    expect(results.map(({ returnData }) => returnData)).toEqual(calls.map(({ callData }) => callData))
+    const ethCalls = requests.filter(({ method }) => method === 'eth_call')
+    expect(ethCalls).toHaveLength(3)
+    for (const { params } of ethCalls) {
+      expect(params).toEqual([{ to: MULTICALL_ADDRESSES[1], data: expect.any(String) }, '0x64'])
+    }
+  })
+
+  it('reads a given block without resolving the latest block', async () => {
+    const { transport, requests } = fakeTransport(100n)
+
+    const { blockNumber } = await multicall(transport, 1, [{ target, callData: '0x' }], { blockTag: 42n })
+
+    expect(blockNumber).toEqual(42n)
+    expect(requests.map(({ method }) => method)).toEqual(['eth_call'])
+    expect(requests[0]!.params![1]).toEqual('0x2a')
+  })
+
+  it('reports failed calls', async () => {
+    const { transport } = fakeTransport(100n)
+
+    const { results } = await multicall(transport, 1, [
+      { target, callData: '0x01' },
+      { target: '0x0000000000000000000000000000000000000000', callData: '0x02' },
+    ])
+
+    expect(results.map(({ success }) => success)).toEqual([true, false])
+  })
+
+  it('resolves block tags to block numbers', async () => {
+    const { transport } = fakeTransport(100n)
+
+    expect(await getBlockNumber(transport, 'finalized')).toEqual(36n)
+    await expect(multicall(transport, 0, [])).rejects.toThrow('MULTICALL_ADDRESS')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ChainId,
+  ChainNativeCurrency,
+  CurrencyAmount,
+  Ether,
+  Token,
+  WETH9,
+  currencyFromJSON,
+  nativeOnChain,
+  registerNativeCurrency,
+} from '../src'
+
+describe('nativeOnChain', () => {
+  it('returns Ether on Ethereum chains', () => {
+    expect(nativeOnChain(ChainId.MAINNET)).toBe(Ether.onChain(ChainId.MAINNET))
+    expect(nativeOnChain(ChainId.BASE).wrapped).toBe(WETH9[ChainId.BASE])
+  })
+
+  it('returns the native currency of other chains', () => {
+    const matic = nativeOnChain(ChainId.POLYGON)
+    expect(matic).toBeInstanceOf(ChainNativeCurrency)
+    expect(matic.symbol).toBe('MATIC')
+    expect(matic.decimals).toBe(18)
+    expect(matic.wrapped.symbol).toBe('WMATIC')
+
+    expect(nativeOnChain(ChainId.BNB).wrapped.symbol).toBe('WBNB')
+    expect(nativeOnChain(ChainId.AVALANCHE).wrapped.symbol).toBe('WAVAX')
+    expect(nativeOnChain(ChainId.GNOSIS).symbol).toBe('XDAI')
+    expect(nativeOnChain(ChainId.ROOTSTOCK).wrapped.symbol).toBe('WRBTC')
+    expect(nativeOnChain(ChainId.MONAD).wrapped.symbol).toBe('WMON')
+  })
+
+  it('caches instances', () => {
+    expect(nativeOnChain(ChainId.CELO)).toBe(nativeOnChain(ChainId.CELO))
+  })
+
+  it('equals only native currencies of the same chain', () => {
+    const bnb = nativeOnChain(ChainId.BNB)
+    expect(bnb.equals(nativeOnChain(ChainId.BNB))).toBe(true)
+    expect(bnb.equals(nativeOnChain(ChainId.POLYGON))).toBe(false)
+    expect(bnb.equals(bnb.wrapped)).toBe(false)
+  })
+
+  it('wraps native amounts into the wrapped token', () => {
+    const amount = CurrencyAmount.fromRawAmount(nativeOnChain(ChainId.AVALANCHE), 100n)
+    expect(amount.wrapped.currency).toBe(WETH9[ChainId.AVALANCHE])
+  })
+
+  it('registers the native currency of custom chains', () => {
+    const wrapped = new Token(424242, '0x0000000000000000000000000000000000000001', 18, 'WFOO', 'Wrapped Foo')
+    const foo = new ChainNativeCurrency(424242, 18, 'FOO', 'Foo', wrapped)
+    registerNativeCurrency(foo)
+
+    expect(nativeOnChain(424242)).toBe(foo)
+    expect(currencyFromJSON(foo.toJSON())).toBe(foo)
+  })
+
+  it('requires the wrapped token to be on the same chain', () => {
+    expect(() => new ChainNativeCurrency(424243, 18, 'FOO', 'Foo', WETH9[ChainId.MAINNET] as Token)).toThrow('CHAIN_ID')
+  })
+})
@@ -30,6 +30,22 @@ describe('Price', () => {
     })
   })
 
+  describe('fromDecimalString', () => {
+    it('adjusts for decimals', () => {
+      const price = Price.fromDecimalString(token1_18, token0_6, '2,950.12')
+      expect(price.toFixed(2)).toBe('2950.12')
+      expect(price.quote(CurrencyAmount.fromRawAmount(token1_18, 10n ** 18n)).quotient).toBe(2950120000n)
+    })
+
+    it('accepts scientific notation', () => {
+      expect(Price.fromDecimalString(token0, token1, '2.5e-4').toSignificant(2)).toBe('0.00025')
+    })
+
+    it('throws for malformed input', () => {
+      expect(() => Price.fromDecimalString(token0, token1, '1..2')).toThrow('DECIMAL_STRING')
+    })
+  })
+
   describe('invert', () => {
     it('inverts the price', () => {
       const price = new Price(token0, token1, 1n, 2n)
@@ -1,5 +1,19 @@
 import { describe, expect, it } from 'vitest'
-import { addressSchema, parseAddress, safeParseAddress } from '../src'
+import {
+  Ether,
+  MaxUint256,
+  Percent,
+  addressSchema,
+  mintOptionsSchema,
+  parseAddress,
+  poolKeySchema,
+  removeLiquidityOptionsSchema,
+  safeParseAddress,
+  slippageToleranceSchema,
+  swapOptionsSchema,
+  tokenArgsSchema,
+  uint256Schema,
+} from '../src'
 
 describe('schemas', () => {
   describe('addressSchema', () => {
@@ -47,4 +61,171 @@ describe('schemas', () => {
       expect(safeParseAddress('invalid')).toBeUndefined()
     })
   })
+
+  describe('uint256Schema', () => {
+    it('parses integers into bigints', () => {
+      expect(uint256Schema.parse(1)).toBe(1n)
+      expect(uint256Schema.parse('1000000000000000000000')).toBe(10n ** 21n)
+      expect(uint256Schema.parse('0xff')).toBe(255n)
+      expect(uint256Schema.parse(MaxUint256)).toBe(MaxUint256)
+    })
+
+    it('rejects out of range and malformed values', () => {
+      expect(uint256Schema.safeParse(-1).success).toBe(false)
+      expect(uint256Schema.safeParse(MaxUint256 + 1n).success).toBe(false)
+      expect(uint256Schema.safeParse(1.5).success).toBe(false)
+      expect(uint256Schema.safeParse('1e18').success).toBe(false)
+    })
+  })
+
+  describe('slippageToleranceSchema', () => {
+    it('accepts percents and their numerator and denominator', () => {
+      expect(slippageToleranceSchema.parse({ numerator: 50, denominator: 10_000 }).toFixed(2)).toBe('0.50')
+      expect(slippageToleranceSchema.parse(new Percent(1, 100))).toBeInstanceOf(Percent)
+    })
+
+    it('rejects percents outside of 0% to 100%', () => {
+      const result = slippageToleranceSchema.safeParse({ numerator: 101, denominator: 100 })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toBe('Slippage tolerance must be between 0% and 100%')
+      expect(slippageToleranceSchema.safeParse({ numerator: 1, denominator: 0 }).success).toBe(false)
+    })
+  })
+
+  describe('tokenArgsSchema', () => {
+    it('checksums the address and parses fee-on-transfer fees', () => {
+      expect(
+        tokenArgsSchema.parse({
+          chainId: 1,
+          address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+          decimals: 18,
+          buyFeeBps: '100',
+        })
+      ).toEqual({ chainId: 1, address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, buyFeeBps: 100n })
+    })
+
+    it('rejects invalid decimals and fees', () => {
+      const base = { chainId: 1, address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' }
+      expect(tokenArgsSchema.safeParse({ ...base, decimals: 255 }).success).toBe(false)
+      expect(tokenArgsSchema.safeParse({ ...base, decimals: 18, sellFeeBps: -1 }).success).toBe(false)
+      expect(tokenArgsSchema.safeParse({ ...base, decimals: 18, sellFeeBps: 10_001 }).success).toBe(false)
+    })
+  })
+
+  describe('poolKeySchema', () => {
+    const poolKey = {
+      currency0: '0x0000000000000000000000000000000000000000',
+      currency1: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: '0x0000000000000000000000000000000000000000',
+    }
+
+    it('accepts static and dynamic fees', () => {
+      expect(poolKeySchema.safeParse(poolKey).success).toBe(true)
+      expect(poolKeySchema.safeParse({ ...poolKey, fee: 1_000_000 }).success).toBe(true)
+      expect(poolKeySchema.safeParse({ ...poolKey, fee: 0x800000 }).success).toBe(true)
+      expect(poolKeySchema.safeParse({ ...poolKey, fee: 1_000_001 }).success).toBe(false)
+    })
+
+    it('validates the tick spacing and currency order', () => {
+      expect(poolKeySchema.safeParse({ ...poolKey, tickSpacing: 0 }).success).toBe(false)
+      expect(poolKeySchema.safeParse({ ...poolKey, tickSpacing: 32_768 }).success).toBe(false)
+
+      const result = poolKeySchema.safeParse({ ...poolKey, currency0: poolKey.currency1, currency1: poolKey.currency0 })
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['currency1'],
+        message: 'currency0 must sort before currency1',
+      })
+    })
+  })
+
+  describe('mintOptionsSchema', () => {
+    const options = {
+      slippageTolerance: { numerator: 1, denominator: 100 },
+      deadline: '1700000000',
+      recipient: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    }
+
+    it('parses into SDK values and omits missing options', () => {
+      const parsed = mintOptionsSchema.parse({ ...options, useNative: Ether.onChain(1).toJSON() })
+
+      expect(parsed.deadline).toBe(1_700_000_000n)
+      expect(parsed.useNative).toBe(Ether.onChain(1))
+      expect(parsed).not.toHaveProperty('hookData')
+    })
+
+    it('requires a price to create the pool', () => {
+      expect(mintOptionsSchema.safeParse({ ...options, createPool: true }).error?.issues[0]?.path).toEqual([
+        'sqrtPriceX96',
+      ])
+      expect(mintOptionsSchema.safeParse({ ...options, createPool: true, sqrtPriceX96: 2n ** 96n }).success).toBe(true)
+    })
+  })
+
+  describe('removeLiquidityOptionsSchema', () => {
+    const options = {
+      slippageTolerance: new Percent(1, 100),
+      deadline: 1,
+      tokenId: 1,
+      liquidityPercentage: new Percent(1, 2),
+    }
+
+    it('validates the liquidity percentage', () => {
+      expect(removeLiquidityOptionsSchema.safeParse(options).success).toBe(true)
+      expect(removeLiquidityOptionsSchema.safeParse({ ...options, liquidityPercentage: new Percent(0) }).success).toBe(
+        false
+      )
+    })
+
+    it('only burns when removing all liquidity', () => {
+      expect(removeLiquidityOptionsSchema.safeParse({ ...options, burnToken: true }).success).toBe(false)
+      expect(
+        removeLiquidityOptionsSchema.safeParse({ ...options, burnToken: true, liquidityPercentage: new Percent(1) })
+          .success
+      ).toBe(true)
+    })
+  })
+
+  describe('swapOptionsSchema', () => {
+    it('parses the permit and fee', () => {
+      const parsed = swapOptionsSchema.parse({
+        slippageTolerance: { numerator: 5, denominator: 1000 },
+        inputTokenPermit: {
+          details: { token: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', amount: '1000', expiration: 1, nonce: '0' },
+          spender: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+          sigDeadline: 1,
+          signature: '0x1234',
+        },
+        fee: { fee: { numerator: 25, denominator: 10_000 }, recipient: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2' },
+      })
+
+      expect(parsed.inputTokenPermit?.details).toEqual({
+        token: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+        amount: 1000n,
+        expiration: 1,
+        nonce: 0,
+      })
+      expect(parsed.fee?.fee).toBeInstanceOf(Percent)
+      expect(parsed).not.toHaveProperty('recipient')
+    })
+
+    it('rejects a malformed signature', () => {
+      const result = swapOptionsSchema.safeParse({
+        slippageTolerance: new Percent(1, 100),
+        inputTokenPermit: {
+          details: { token: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', amount: 1, expiration: 1, nonce: 0 },
+          spender: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+          sigDeadline: 1,
+          signature: 'nope',
+        },
+      })
+
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['inputTokenPermit', 'signature'],
+        message: 'Invalid hex string',
+      })
+    })
+  })
 })
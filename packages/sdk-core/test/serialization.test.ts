@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { ZodError } from 'zod'
+import {
+  CurrencyAmount,
+  Ether,
+  Percent,
+  Price,
+  SERIALIZATION_VERSION,
+  Token,
+  currencyFromJSON,
+  currencyJSONSchema,
+} from '../src'
+
+describe('serialization', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const FOT = new Token(1, '0x0000000000000000000000000000000000000001', 18, 'FOT', undefined, false, 100n, 200n)
+  const ETH = Ether.onChain(1)
+
+  const roundTrip = (value: { toJSON(): unknown }) => JSON.parse(JSON.stringify(value))
+
+  describe('Token', () => {
+    it('serializes into a versioned object', () => {
+      expect(USDC.toJSON()).toEqual({
+        version: SERIALIZATION_VERSION,
+        type: 'token',
+        chainId: 1,
+        address: USDC.address,
+        decimals: 6,
+        symbol: 'USDC',
+        name: 'USD Coin',
+      })
+    })
+
+    it('round trips fee-on-transfer fees', () => {
+      const token = Token.fromJSON(roundTrip(FOT))
+
+      expect(token.equals(FOT)).toBe(true)
+      expect(token.buyFeeBps).toBe(100n)
+      expect(token.sellFeeBps).toBe(200n)
+      expect(token.name).toBeUndefined()
+    })
+
+    it('rejects other versions and shapes', () => {
+      expect(() => Token.fromJSON({ ...USDC.toJSON(), version: 2 })).toThrow('Unsupported serialization version')
+      expect(() => Token.fromJSON(ETH.toJSON())).toThrow()
+    })
+
+    it('rejects decimals a token cannot have with a ZodError', () => {
+      expect(() => Token.fromJSON({ ...USDC.toJSON(), decimals: 255 })).toThrow(ZodError)
+      expect(() => currencyFromJSON({ ...USDC.toJSON(), decimals: 255 })).toThrow(ZodError)
+    })
+  })
+
+  describe('currencyFromJSON', () => {
+    it('deserializes native currencies and tokens', () => {
+      expect(currencyFromJSON(roundTrip(ETH))).toBe(ETH)
+      expect(currencyFromJSON(roundTrip(USDC)).equals(USDC)).toBe(true)
+      expect(currencyJSONSchema.safeParse({ type: 'other' }).success).toBe(false)
+    })
+  })
+
+  describe('CurrencyAmount', () => {
+    it('round trips fractional amounts', () => {
+      const amount = CurrencyAmount.fromFractionalAmount(ETH, 10n ** 30n + 1n, 3n)
+      const restored = CurrencyAmount.fromJSON(roundTrip(amount))
+
+      expect(restored.currency).toBe(ETH)
+      expect(restored.numerator).toBe(amount.numerator)
+      expect(restored.denominator).toBe(3n)
+    })
+
+    it('rejects non-integer strings', () => {
+      expect(() =>
+        CurrencyAmount.fromJSON({ ...CurrencyAmount.fromRawAmount(USDC, 1).toJSON(), numerator: '1.5' })
+      ).toThrow('Expected an integer string')
+    })
+  })
+
+  describe('Price', () => {
+    it('round trips', () => {
+      const price = new Price(ETH, USDC, 10n ** 18n, 2950n * 10n ** 6n)
+      const restored = Price.fromJSON(roundTrip(price))
+
+      expect(restored.baseCurrency).toBe(ETH)
+      expect(restored.quoteCurrency.equals(USDC)).toBe(true)
+      expect(restored.toFixed(2)).toBe('2950.00')
+    })
+  })
+
+  describe('Percent', () => {
+    it('round trips', () => {
+      const restored = Percent.fromJSON(roundTrip(new Percent(5, 1000)))
+
+      expect(restored).toBeInstanceOf(Percent)
+      expect(restored.toFixed(2)).toBe('0.50')
+    })
+  })
+})
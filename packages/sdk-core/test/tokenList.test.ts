@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ListedToken,
+  TokenRegistry,
+  VersionUpgrade,
+  bumpTokenListVersion,
+  compareTokenListVersions,
+  diffTokenLists,
+  minVersionBump,
+  parseTokenList,
+} from '../src'
+
+describe('token lists', () => {
+  const USDC = {
+    chainId: 1,
+    address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    decimals: 6,
+    name: 'USD Coin',
+    symbol: 'USDC',
+    logoURI: 'https://example.com/usdc.png',
+    tags: ['stablecoin'],
+    extensions: { bridgeInfo: { '10': { tokenAddress: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' } } },
+  }
+  const DAI = {
+    chainId: 1,
+    address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    decimals: 18,
+    name: 'Dai Stablecoin',
+    symbol: 'DAI',
+  }
+  const OPTIMISM_USDC = {
+    chainId: 10,
+    address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    decimals: 6,
+    name: 'USD Coin',
+    symbol: 'USDC',
+  }
+  const list = {
+    name: 'Default',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    version: { major: 1, minor: 0, patch: 0 },
+    tags: { stablecoin: { name: 'Stablecoin', description: 'Pegged to a fiat currency' } },
+    tokens: [USDC, DAI, OPTIMISM_USDC],
+  }
+
+  describe('parseTokenList', () => {
+    it('accepts a valid list', () => {
+      expect(parseTokenList(list).tokens).toHaveLength(3)
+    })
+
+    it('rejects invalid lists with the path of the error', () => {
+      expect(() => parseTokenList({ ...list, tokens: [{ ...DAI, decimals: -1 }] })).toThrow('decimals')
+      expect(() => parseTokenList({ ...list, tokens: [{ ...DAI, decimals: 255 }] })).toThrow('decimals')
+      expect(() => parseTokenList({ ...list, version: { major: 1, minor: 0 } })).toThrow()
+      expect(() => parseTokenList({ ...list, tokens: [DAI, { ...DAI, address: DAI.address.toLowerCase() }] })).toThrow(
+        'Duplicate token'
+      )
+      expect(() =>
+        parseTokenList({ ...list, tokens: [{ ...DAI, extensions: { bridgeInfo: { optimism: {} } } }] })
+      ).toThrow('Bridge info keys must be chain ids')
+    })
+  })
+
+  describe('TokenRegistry', () => {
+    it('looks tokens up by address and symbol', () => {
+      const registry = new TokenRegistry([list])
+      const usdc = registry.getToken(1, USDC.address.toLowerCase())
+
+      expect(usdc).toBeInstanceOf(ListedToken)
+      expect(usdc?.listName).toBe('Default')
+      expect(usdc?.tags).toEqual(['stablecoin'])
+      expect(usdc?.bridgeInfo).toEqual({ 10: OPTIMISM_USDC.address })
+      expect(registry.getTokensBySymbol(10, 'usdc').map((token) => token.address)).toEqual([OPTIMISM_USDC.address])
+      expect(registry.getTokens(1)).toHaveLength(2)
+      expect(registry.getToken(10, DAI.address)).toBeUndefined()
+    })
+
+    it('keeps tokens from lists with higher precedence', () => {
+      const other = { ...list, name: 'Other', tokens: [{ ...DAI, name: 'Other Dai' }] }
+      const registry = new TokenRegistry([list, other])
+
+      expect(registry.size).toBe(3)
+      expect(registry.getToken(1, DAI.address)?.name).toBe('Dai Stablecoin')
+
+      registry.addList({ ...other, name: 'Override' }, { override: true })
+      expect(registry.getToken(1, DAI.address)?.listName).toBe('Override')
+      expect(registry.lists.map(({ name }) => name)).toEqual(['Default', 'Other', 'Override'])
+    })
+  })
+
+  describe('diffTokenLists', () => {
+    it('reports added, removed and changed tokens', () => {
+      const update = [{ ...USDC, tags: ['stablecoin'], logoURI: 'https://example.com/new.png' }, OPTIMISM_USDC]
+      const diff = diffTokenLists([USDC, DAI], update)
+
+      expect(diff.added).toEqual([OPTIMISM_USDC])
+      expect(diff.removed).toEqual([DAI])
+      expect(diff.changed).toEqual({ 1: { [USDC.address.toLowerCase()]: ['logoURI'] } })
+    })
+
+    it('computes the minimum version bump', () => {
+      expect(minVersionBump([USDC, DAI], [USDC, DAI])).toBe(VersionUpgrade.NONE)
+      expect(minVersionBump([USDC, DAI], [USDC, { ...DAI, symbol: 'DAI2' }])).toBe(VersionUpgrade.PATCH)
+      expect(minVersionBump([USDC], [USDC, DAI])).toBe(VersionUpgrade.MINOR)
+      expect(minVersionBump([USDC, DAI], [USDC, OPTIMISM_USDC])).toBe(VersionUpgrade.MAJOR)
+    })
+  })
+
+  describe('versions', () => {
+    it('compares and bumps versions', () => {
+      const version = { major: 1, minor: 2, patch: 3 }
+
+      expect(compareTokenListVersions(version, { major: 1, minor: 3, patch: 0 })).toBeLessThan(0)
+      expect(compareTokenListVersions(version, version)).toBe(0)
+      expect(bumpTokenListVersion(version, VersionUpgrade.MINOR)).toEqual({ major: 1, minor: 3, patch: 0 })
+      expect(bumpTokenListVersion(version, VersionUpgrade.MAJOR)).toEqual({ major: 2, minor: 0, patch: 0 })
+    })
+  })
+})
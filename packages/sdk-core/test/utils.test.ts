@@ -1,10 +1,12 @@
 import { describe, expect, it } from 'vitest'
 import {
   CurrencyAmount,
+  Ether,
   Percent,
   Price,
   Token,
   computePriceImpact,
+  gasCostInCurrency,
   sortedInsert,
   sqrt,
   validateAndParseAddress,
@@ -139,3 +141,22 @@ describe('computePriceImpact', () => {
     expect(impact.toFixed(2)).toBe('0.00')
   })
 })
+
+describe('gasCostInCurrency', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  // 1 ETH = 3000 USDC
+  const nativeCurrencyPrice = new Price(Ether.onChain(1), USDC, 10n ** 18n, 3000n * 10n ** 6n)
+
+  it('prices the gas in the quote currency', () => {
+    // 100,000 gas at 10 gwei is 0.001 ETH
+    const cost = gasCostInCurrency(100_000n, 10_000_000_000n, nativeCurrencyPrice)
+
+    expect(cost.currency.equals(USDC)).toBe(true)
+    expect(cost.quotient).toBe(3n * 10n ** 6n)
+  })
+
+  it('accepts the gas price as any BigintIsh', () => {
+    expect(gasCostInCurrency(100_000n, '10000000000', nativeCurrencyPrice).quotient).toBe(3n * 10n ** 6n)
+    expect(gasCostInCurrency(0n, 10_000_000_000, nativeCurrencyPrice).quotient).toBe(0n)
+  })
+})
@@ -0,0 +1,207 @@
+import { CurrencyAmount, Ether, Percent, Token } from '@muniswap/sdk-core'
+import { encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import {
+  ADDRESS_THIS,
+  ADDRESS_ZERO,
+  Actions,
+  DYNAMIC_FEE_FLAG,
+  Position,
+  Route,
+  Trade,
+  V4Planner,
+  Pool as V4Pool,
+  V4PositionManager,
+} from '@muniswap/v4-sdk'
+import { describe, expect, it } from 'vitest'
+import { decodeCalldata, explainCalldata } from '../calldataDecoder'
+import { swapCallParameters } from '../swapRouter'
+import { CommandParser } from '../utils/commandParser'
+import { CommandType, RoutePlanner } from '../utils/routerCommands'
+
+describe('calldataDecoder', () => {
+  const ETH = Ether.onChain(1)
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const RECIPIENT = '0x0000000000000000000000000000000000000003'
+  const LIQUIDITY = 10n ** 21n
+
+  const ETH_USDC = new V4Pool(ETH, USDC, 3000, 60, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), LIQUIDITY, 0, [
+    { index: -887220, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: 887220, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+  ])
+  const poolId = `${ETH_USDC.poolId.slice(0, 10)}…`
+
+  it('decodes a swap into commands and V4 actions', async () => {
+    const trade = await Trade.exactIn(new Route([ETH_USDC], ETH, USDC), CurrencyAmount.fromRawAmount(ETH, 10n ** 18n))
+    const { calldata } = swapCallParameters(trade, {
+      slippageTolerance: new Percent(1, 100),
+      recipient: RECIPIENT,
+      deadline: 1_700_000_000,
+      fee: { fee: new Percent(25, 10_000), recipient: RECIPIENT },
+    })
+
+    const decoded = decodeCalldata(calldata)
+
+    if (decoded.functionName !== 'execute') throw new Error('expected execute')
+    expect(decoded.deadline).toEqual(1_700_000_000n)
+    expect(decoded.commands.map(({ commandName }) => commandName)).toEqual(['V4_SWAP', 'PAY_PORTION', 'SWEEP'])
+    const [v4Swap, payPortion] = decoded.commands
+    if (v4Swap?.commandType !== CommandType.V4_SWAP) throw new Error('expected V4_SWAP')
+    expect(v4Swap.v4Actions.map(({ actionType }) => actionType)).toEqual([
+      Actions.SWAP_EXACT_IN,
+      Actions.SETTLE,
+      Actions.TAKE,
+    ])
+    if (payPortion?.commandType !== CommandType.PAY_PORTION) throw new Error('expected PAY_PORTION')
+    expect(payPortion.params[2]).toEqual({ name: 'bips', value: 25n })
+
+    expect(explainCalldata(calldata, { currencies: [ETH, USDC] }).split('\n')).toEqual([
+      'execute before 1700000000',
+      '  V4 swap',
+      `    swap 1 ETH → ≥986145525782.082392 USDC via pool ${poolId}`,
+      '    settle the open delta of ETH, paid by the router',
+      '    take the open delta of USDC to the router',
+      `  pay 0.25% of USDC to ${RECIPIENT}`,
+      `  sweep ≥983680161967.627187 USDC to ${RECIPIENT}`,
+    ])
+  })
+
+  it('decodes a position manager multicall', () => {
+    const position = new Position({ pool: ETH_USDC, liquidity: 10n ** 12n, tickLower: -600, tickUpper: 600 })
+    const { calldata } = V4PositionManager.addCallParameters(position, {
+      recipient: RECIPIENT,
+      createPool: true,
+      sqrtPriceX96: encodeSqrtRatioX96(1, 1),
+      useNative: ETH,
+      slippageTolerance: new Percent(1, 100),
+      deadline: 123,
+    })
+
+    const decoded = decodeCalldata(calldata)
+
+    if (decoded.functionName !== 'multicall') throw new Error('expected multicall')
+    expect(decoded.calls.map(({ functionName }) => functionName)).toEqual(['initializePool', 'modifyLiquidities'])
+    const explanation = explainCalldata(decoded).split('\n')
+    expect(explanation[0]).toEqual('multicall')
+    expect(explanation[1]).toEqual(
+      `  initialize pool ${poolId} (native currency/${USDC.address} 0.3%, tick spacing 60) at sqrtPriceX96 ${2n ** 96n}`
+    )
+    expect(explanation[2]).toEqual('  modify liquidities before 123')
+    expect(explanation[3]).toMatch(/^ {4}mint liquidity 1000000000000 in pool .* between ticks -600 and 600, paying/)
+    expect(explanation.slice(4)).toEqual([
+      `    settle native currency and ${USDC.address}, paid by msg.sender`,
+      '    sweep native currency to msg.sender',
+    ])
+  })
+
+  it('explains dynamic fee pools', () => {
+    const hooks = '0x0000000000000000000000000000000000000080'
+    const pool = new V4Pool(ETH, USDC, DYNAMIC_FEE_FLAG, 60, hooks, encodeSqrtRatioX96(1, 1), 0, 0)
+    const { calldata } = V4PositionManager.createCallParameters(pool.poolKey, encodeSqrtRatioX96(1, 1))
+
+    expect(explainCalldata(calldata, { currencies: [ETH, USDC] })).toEqual(
+      `initialize pool ${pool.poolId.slice(0, 10)}… (ETH/USDC dynamic fee, tick spacing 60, hooks ${hooks}) at sqrtPriceX96 ${2n ** 96n}`
+    )
+  })
+
+  it('decodes position transfers and subscriptions', () => {
+    const OWNER = '0x0000000000000000000000000000000000000004'
+    const SUBSCRIBER = '0x0000000000000000000000000000000000000005'
+    const transfer = V4PositionManager.transferCallParameters({
+      sender: OWNER,
+      recipient: RECIPIENT,
+      tokenId: 7n,
+      data: '0x1234',
+    })
+    const subscribe = V4PositionManager.subscribeCallParameters({
+      tokenId: 7n,
+      subscriber: SUBSCRIBER,
+      subscriberData: '0xabcd',
+      permit: { spender: RECIPIENT, tokenId: 7n, deadline: 100n, nonce: 0n, signature: '0x1234' },
+    })
+    const unsubscribe = V4PositionManager.unsubscribeCallParameters({ tokenId: 7n })
+
+    expect(decodeCalldata(transfer.calldata)).toEqual({
+      functionName: 'safeTransferFrom',
+      from: OWNER,
+      to: RECIPIENT,
+      tokenId: 7n,
+      data: '0x1234',
+    })
+    const decoded = decodeCalldata(subscribe.calldata)
+    if (decoded.functionName !== 'multicall') throw new Error('expected multicall')
+    expect(decoded.calls.map(({ functionName }) => functionName)).toEqual(['permit', 'subscribe'])
+    expect(decoded.calls[1]).toEqual({ functionName: 'subscribe', tokenId: 7n, subscriber: SUBSCRIBER, data: '0xabcd' })
+
+    expect(explainCalldata(transfer.calldata)).toEqual(`transfer position #7 from ${OWNER} to ${RECIPIENT}`)
+    expect(explainCalldata(subscribe.calldata).split('\n')).toEqual([
+      'multicall',
+      `  permit ${RECIPIENT} to manage position #7 until 100`,
+      `  subscribe position #7 to ${SUBSCRIBER}`,
+    ])
+    expect(explainCalldata(unsubscribe.calldata)).toEqual('unsubscribe position #7')
+  })
+
+  it('decodes nested sub plans and position manager calls', () => {
+    const v4Planner = new V4Planner()
+    v4Planner.addAction(Actions.TAKE_ALL, [DAI.address, 10n ** 18n])
+    const subplan = new RoutePlanner()
+      .addV4Swap(v4Planner)
+      .addCommand(CommandType.V4_POSITION_MANAGER_CALL, [
+        V4PositionManager.encodeERC721Permit(RECIPIENT, 7n, 100n, 0n, '0x1234'),
+      ])
+    const planner = new RoutePlanner().addCommand(CommandType.WRAP_ETH, [ADDRESS_THIS, 10n ** 18n]).addSubPlan(subplan)
+
+    const call = CommandParser.parseCommands(planner.commands, planner.inputs)
+
+    const subplanCommand = call[1]
+    if (subplanCommand?.commandType !== CommandType.EXECUTE_SUB_PLAN) throw new Error('expected EXECUTE_SUB_PLAN')
+    expect(subplanCommand.allowRevert).toBe(true)
+    expect(subplanCommand.subPlan.map(({ commandType }) => commandType)).toEqual([
+      CommandType.V4_SWAP,
+      CommandType.V4_POSITION_MANAGER_CALL,
+    ])
+    expect(
+      explainCalldata({ functionName: 'execute', commands: call }, { currencies: [ETH, DAI] }).split('\n')
+    ).toEqual([
+      'execute',
+      '  wrap 1 ETH to the router',
+      '  (may revert) sub plan',
+      '    V4 swap',
+      '      take all ≥1 DAI to msg.sender',
+      '    V4 position manager call',
+      `      permit ${RECIPIENT} to manage position #7 until 100`,
+    ])
+  })
+
+  it('decodes permit and pool key structs', () => {
+    const permit = {
+      details: { token: DAI.address.toLowerCase(), amount: 10n ** 18n, expiration: 1_700_000_000, nonce: 2 },
+      spender: RECIPIENT,
+      sigDeadline: 1_700_000_000n,
+    }
+    const planner = new RoutePlanner()
+      .addCommand(CommandType.PERMIT2_PERMIT, [permit, '0x1234'])
+      .addCommand(CommandType.V4_INITIALIZE_POOL, [ETH_USDC.poolKey, 2n ** 96n], true)
+
+    const [permitCommand, initializeCommand] = CommandParser.parseCommands(planner.commands, planner.inputs)
+
+    expect(permitCommand).toEqual({
+      commandName: 'PERMIT2_PERMIT',
+      commandType: CommandType.PERMIT2_PERMIT,
+      allowRevert: false,
+      params: [
+        { name: 'permit', value: permit },
+        { name: 'signature', value: '0x1234' },
+      ],
+    })
+    if (initializeCommand?.commandType !== CommandType.V4_INITIALIZE_POOL)
+      throw new Error('expected V4_INITIALIZE_POOL')
+    expect(initializeCommand.allowRevert).toBe(true)
+    expect(initializeCommand.params[0].value).toEqual({ ...ETH_USDC.poolKey, currency1: USDC.address.toLowerCase() })
+  })
+
+  it('rejects unknown calldata', () => {
+    expect(() => decodeCalldata('0xdeadbeef')).toThrow('UNKNOWN_SELECTOR')
+  })
+})
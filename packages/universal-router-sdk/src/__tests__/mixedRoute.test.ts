@@ -0,0 +1,146 @@
+import { CurrencyAmount, Ether, Percent, Price, Token, TradeType } from '@muniswap/sdk-core'
+import { Pair } from '@muniswap/v2-sdk'
+import {
+  FeeAmount,
+  MAX_TICK,
+  MIN_TICK,
+  TICK_SPACINGS,
+  Pool as V3Pool,
+  encodeSqrtRatioX96,
+  nearestUsableTick,
+} from '@muniswap/v3-sdk'
+import {
+  ADDRESS_THIS,
+  ADDRESS_ZERO,
+  CONTRACT_BALANCE,
+  MSG_SENDER,
+  V4BaseActionsParser,
+  Pool as V4Pool,
+} from '@muniswap/v4-sdk'
+import { AbiFunction, AbiParameters, type Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { MixedRoute } from '../entities/mixedRoute'
+import { MixedRouteTrade } from '../entities/mixedRouteTrade'
+import { swapCallParameters } from '../swapRouter'
+import { encodeMixedRouteToPath, partitionMixedRouteByProtocol } from '../utils/encodeMixedRouteToPath'
+import { universalRouterAbi } from '../utils/universalRouterAbi'
+
+const [, executeAbi] = universalRouterAbi
+
+describe('MixedRoute', () => {
+  const ETH = Ether.onChain(1)
+  const WETH = ETH.wrapped
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const SLIPPAGE = new Percent(1, 100)
+
+  const LIQUIDITY = 10n ** 21n
+  function fullRangeTicks(tickSpacing: number) {
+    return [
+      { index: nearestUsableTick(MIN_TICK, tickSpacing), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+      { index: nearestUsableTick(MAX_TICK, tickSpacing), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    ]
+  }
+
+  const WETH_DAI_V2 = new Pair(
+    CurrencyAmount.fromRawAmount(WETH, LIQUIDITY),
+    CurrencyAmount.fromRawAmount(DAI, LIQUIDITY)
+  )
+  const WETH_DAI_V3 = new V3Pool(
+    WETH,
+    DAI,
+    FeeAmount.MEDIUM,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    fullRangeTicks(TICK_SPACINGS[FeeAmount.MEDIUM])
+  )
+  const WETH_USDC_V3 = new V3Pool(
+    WETH,
+    USDC,
+    FeeAmount.LOW,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    fullRangeTicks(TICK_SPACINGS[FeeAmount.LOW])
+  )
+  const ETH_USDC_V4 = new V4Pool(
+    ETH,
+    USDC,
+    FeeAmount.MEDIUM,
+    60,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    fullRangeTicks(60)
+  )
+
+  it('unwraps between a V3 pool holding WETH and a V4 pool holding ETH', () => {
+    const route = new MixedRoute([WETH_DAI_V3, ETH_USDC_V4], DAI, USDC)
+
+    expect(route.path).toEqual([DAI, ETH, USDC])
+    expect(route.pathInput).toEqual(DAI)
+    expect(route.pathOutput).toEqual(USDC)
+    expect(route.midPrice.equalTo(new Price(DAI, USDC, 1n, 1n))).toBe(true)
+    expect(partitionMixedRouteByProtocol(route).map(({ protocol, path }) => [protocol, path])).toEqual([
+      ['V3', [DAI, WETH]],
+      ['V4', [ETH, USDC]],
+    ])
+  })
+
+  it('requires each pool to involve the currency entering it', () => {
+    expect(() => new MixedRoute([WETH_DAI_V2, ETH_USDC_V4], USDC, DAI)).toThrow('PATH')
+    expect(() => new MixedRoute([WETH_DAI_V2], WETH, USDC)).toThrow('OUTPUT')
+  })
+
+  it('simulates the trade hop by hop', async () => {
+    const amountIn = CurrencyAmount.fromRawAmount(DAI, 10n ** 15n)
+    const trade = await MixedRouteTrade.fromRoute(
+      new MixedRoute([WETH_DAI_V3, ETH_USDC_V4], DAI, USDC),
+      amountIn,
+      TradeType.EXACT_INPUT
+    )
+
+    const [wethOut] = await WETH_DAI_V3.getOutputAmount(amountIn)
+    const [usdcOut] = await ETH_USDC_V4.getOutputAmount(CurrencyAmount.fromRawAmount(ETH, wethOut.quotient))
+    expect(trade.inputAmount.equalTo(amountIn)).toBe(true)
+    expect(trade.outputAmount.equalTo(usdcOut)).toBe(true)
+    await expect(
+      MixedRouteTrade.fromRoute(new MixedRoute([WETH_DAI_V3], DAI, WETH), amountIn, TradeType.EXACT_OUTPUT)
+    ).rejects.toThrow('TRADE_TYPE')
+  })
+
+  it('encodes V2 and V3 routes for MixedRouteQuoterV1', () => {
+    const path = encodeMixedRouteToPath(new MixedRoute([WETH_DAI_V2, WETH_USDC_V3], DAI, USDC))
+
+    expect(path).toEqual(`${DAI.address}800000${WETH.address.slice(2)}0001f4${USDC.address.slice(2)}`.toLowerCase())
+    expect(() => encodeMixedRouteToPath(new MixedRoute([WETH_DAI_V3, ETH_USDC_V4], DAI, USDC))).toThrow('V4_POOL')
+  })
+
+  it('swaps each protocol section with its own command', async () => {
+    const amountIn = CurrencyAmount.fromRawAmount(DAI, 10n ** 15n)
+    const trade = await MixedRouteTrade.fromRoute(
+      new MixedRoute([WETH_DAI_V3, ETH_USDC_V4], DAI, USDC),
+      amountIn,
+      TradeType.EXACT_INPUT
+    )
+
+    const { calldata, value } = swapCallParameters(trade, { slippageTolerance: SLIPPAGE })
+    const [commands, inputs] = AbiFunction.decodeData(executeAbi, calldata as Hex.Hex)
+
+    expect(commands).toEqual('0x000c10')
+    expect(value).toEqual('0x00')
+    const [recipient, v3AmountIn, v3AmountOutMin, , payerIsUser] = AbiParameters.decode(
+      AbiParameters.from('address, uint256, uint256, bytes, bool'),
+      inputs[0]!
+    )
+    expect([recipient, v3AmountIn, v3AmountOutMin, payerIsUser]).toEqual([ADDRESS_THIS, amountIn.quotient, 0n, true])
+    expect(AbiParameters.decode(AbiParameters.from('address, uint256'), inputs[1]!)).toEqual([ADDRESS_THIS, 0n])
+
+    const { actions } = V4BaseActionsParser.parseCalldata(inputs[2]!)
+    expect(actions.map(({ actionName }) => actionName)).toEqual(['SETTLE', 'SWAP_EXACT_IN', 'TAKE'])
+    expect(actions[0]!.params.map(({ value }) => value)).toEqual([ADDRESS_ZERO, CONTRACT_BALANCE, false])
+    expect(actions[2]!.params.map(({ value }) => value)).toEqual([USDC.address.toLowerCase(), MSG_SENDER, 0n])
+  })
+})
@@ -0,0 +1,152 @@
+import { CHAIN_TO_ADDRESSES_MAP, Ether, Token, type Transport, WETH9 } from '@muniswap/sdk-core'
+import { Pair } from '@muniswap/v2-sdk'
+import { FeeAmount, TickLensDataProvider, Pool as V3Pool, encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, StateViewTickDataProvider, Pool as V4Pool } from '@muniswap/v4-sdk'
+import { AbiFunction, Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { PoolLoader } from '../poolLoader'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+
+// Answers calls from return data keyed by lowercased target and selector; other calls hit an address without code
+function fakeTransport(blockNumber: bigint, returnData: Record<string, Hex.Hex>) {
+  const blockTags: unknown[] = []
+  const transport: Transport = {
+    async request({ method, params }) {
+      if (method === 'eth_blockNumber') return Hex.fromNumber(blockNumber)
+      const [{ data }, blockTag] = params as [{ data: Hex.Hex }, unknown]
+      blockTags.push(blockTag)
+      const [calls] = AbiFunction.decodeData(multicallAbi, data)
+      return AbiFunction.encodeResult(multicallAbi, [
+        blockNumber,
+        calls.map(({ target, callData }) => ({
+          success: true,
+          gasUsed: 0n,
+          returnData: returnData[`${target}-${Hex.slice(callData, 0, 4)}`] ?? '0x',
+        })),
+      ])
+    },
+  }
+  return { transport, blockTags }
+}
+
+describe('PoolLoader', () => {
+  const ETH = Ether.onChain(1)
+  const WETH = WETH9[1]!
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const SQRT_PRICE = encodeSqrtRatioX96(1, 1)
+  const stateView = CHAIN_TO_ADDRESSES_MAP[1].v4StateView!.toLowerCase()
+
+  const v2Address = Pair.getAddress(DAI, WETH).toLowerCase()
+  const v3Address = V3Pool.getAddress(DAI, USDC, FeeAmount.LOW).toLowerCase()
+  const returnData: Record<string, Hex.Hex> = {
+    [`${v2Address}-0x0902f1ac`]: Hex.concat(
+      Hex.fromNumber(10n ** 21n, { size: 32 }),
+      Hex.fromNumber(5n * 10n ** 17n, { size: 32 }),
+      Hex.fromNumber(0, { size: 32 })
+    ),
+    [`${v3Address}-0x3850c7bd`]: Hex.concat(
+      Hex.fromNumber(SQRT_PRICE, { size: 32 }),
+      ...Array.from({ length: 6 }, () => Hex.fromNumber(0, { size: 32 }))
+    ),
+    [`${v3Address}-0x1a686502`]: Hex.fromNumber(10n ** 18n, { size: 32 }),
+    [`${stateView}-0xc815641c`]: Hex.concat(
+      Hex.fromNumber(SQRT_PRICE, { size: 32 }),
+      ...Array.from({ length: 3 }, () => Hex.fromNumber(0, { size: 32 }))
+    ),
+    [`${stateView}-0xfa6793d5`]: Hex.fromNumber(2n * 10n ** 18n, { size: 32 }),
+  }
+
+  it('loads pools of every protocol at one block', async () => {
+    const { transport, blockTags } = fakeTransport(1234n, returnData)
+    const loader = new PoolLoader({ transport, chainId: 1, batchSize: 2 })
+
+    const { blockNumber, pools } = await loader.load([
+      { protocol: 'V2', tokenA: WETH, tokenB: DAI },
+      { protocol: 'V3', tokenA: USDC, tokenB: DAI, fee: FeeAmount.LOW },
+      { protocol: 'V4', currencyA: ETH, currencyB: USDC, fee: 3000, tickSpacing: 60, hooks: ADDRESS_ZERO },
+    ])
+    const [pair, v3Pool, v4Pool] = pools
+
+    expect(blockNumber).toEqual(1234n)
+    expect(blockTags).toEqual(['0x4d2', '0x4d2', '0x4d2'])
+    expect(pair!.reserve0.quotient).toEqual(10n ** 21n)
+    expect(pair!.reserveOf(WETH).quotient).toEqual(5n * 10n ** 17n)
+    expect(v3Pool).toBeInstanceOf(V3Pool)
+    expect([v3Pool!.sqrtRatioX96, v3Pool!.liquidity, v3Pool!.tickCurrent]).toEqual([SQRT_PRICE, 10n ** 18n, 0])
+    expect(v4Pool!.poolId).toEqual(V4Pool.getPoolId(ETH, USDC, 3000, 60, ADDRESS_ZERO))
+    expect(v4Pool!.liquidity).toEqual(2n * 10n ** 18n)
+  })
+
+  it('loads the current LP fee of dynamic fee pools', async () => {
+    const hooks = '0x0000000000000000000000000000000000001000'
+    const { transport } = fakeTransport(1234n, {
+      ...returnData,
+      [`${stateView}-0xc815641c`]: Hex.concat(
+        Hex.fromNumber(SQRT_PRICE, { size: 32 }),
+        Hex.fromNumber(0, { size: 32 }),
+        Hex.fromNumber(0, { size: 32 }),
+        Hex.fromNumber(2500, { size: 32 })
+      ),
+    })
+    const loader = new PoolLoader({ transport, chainId: 1 })
+
+    const {
+      pools: [pool],
+    } = await loader.load([
+      { protocol: 'V4', currencyA: ETH, currencyB: USDC, fee: DYNAMIC_FEE_FLAG, tickSpacing: 60, hooks },
+    ])
+
+    expect(pool!.isDynamicFee).toBe(true)
+    expect(pool!.lpFee).toEqual(2500)
+  })
+
+  it('returns undefined for pools that do not exist or are not initialized', async () => {
+    const { transport } = fakeTransport(1234n, {
+      ...returnData,
+      [`${stateView}-0xc815641c`]: Hex.fromNumber(0, { size: 128 }),
+    })
+    const loader = new PoolLoader({ transport, chainId: 1 })
+
+    const { pools } = await loader.load(
+      [
+        { protocol: 'V3', tokenA: USDC, tokenB: DAI, fee: FeeAmount.MEDIUM },
+        { protocol: 'V4', currencyA: ETH, currencyB: USDC, fee: 3000, tickSpacing: 60, hooks: ADDRESS_ZERO },
+      ],
+      99n
+    )
+
+    expect(pools).toEqual([undefined, undefined])
+  })
+
+  it('gives pools lazy tick data providers pinned to the block of the load', async () => {
+    const { transport } = fakeTransport(1234n, returnData)
+    const loader = new PoolLoader({
+      transport,
+      chainId: 1,
+      tickLensAddress: '0xbfd8137f7d1516D3ea5cA83523914859ec47F573',
+      loadTicks: true,
+    })
+
+    const {
+      pools: [v3Pool, v4Pool],
+    } = await loader.load([
+      { protocol: 'V3', tokenA: USDC, tokenB: DAI, fee: FeeAmount.LOW },
+      { protocol: 'V4', currencyA: ETH, currencyB: USDC, fee: 3000, tickSpacing: 60, hooks: ADDRESS_ZERO },
+    ])
+
+    expect(v3Pool!.tickDataProvider).toBeInstanceOf(TickLensDataProvider)
+    expect(v4Pool!.tickDataProvider).toBeInstanceOf(StateViewTickDataProvider)
+    expect(await (v4Pool!.tickDataProvider as StateViewTickDataProvider).getBlockNumber()).toEqual(1234n)
+  })
+
+  it('requires the pools to be on the chain of the loader', async () => {
+    const { transport } = fakeTransport(1234n, returnData)
+    const loader = new PoolLoader({ transport, chainId: 10 })
+
+    await expect(loader.load([{ protocol: 'V2', tokenA: WETH, tokenB: DAI }])).rejects.toThrow('CHAIN_ID')
+  })
+})
@@ -0,0 +1,87 @@
+import { Actions, MSG_SENDER, V4Planner } from '@muniswap/v4-sdk'
+import { AbiParameters } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { ALLOW_REVERT_FLAG, CommandType, RoutePlanner } from '../utils/routerCommands'
+
+describe('RoutePlanner', () => {
+  const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F'
+  const RECIPIENT = '0x0000000000000000000000000000000000000003'
+
+  it('encodes commands and inputs in order', () => {
+    const planner = new RoutePlanner()
+      .addCommand(CommandType.WRAP_ETH, [MSG_SENDER, 1_000n])
+      .addCommand(CommandType.V2_SWAP_EXACT_IN, [RECIPIENT, 1_000n, 990n, [TOKEN, RECIPIENT], false])
+
+    expect(planner.commands).toEqual('0x0b08')
+    expect(planner.inputs).toHaveLength(2)
+    const [recipient, amountIn, amountOutMin, path, payerIsUser] = AbiParameters.decode(
+      AbiParameters.from('address, uint256, uint256, address[], bool'),
+      planner.inputs[1] as `0x${string}`
+    )
+    expect(recipient).toEqual(RECIPIENT)
+    expect(amountIn).toEqual(1_000n)
+    expect(amountOutMin).toEqual(990n)
+    expect(path).toEqual([TOKEN.toLowerCase(), RECIPIENT])
+    expect(payerIsUser).toBe(false)
+  })
+
+  it('sets the allow revert flag', () => {
+    const planner = new RoutePlanner().addCommand(CommandType.SWEEP, [TOKEN, RECIPIENT, 0n], true)
+
+    expect(Number.parseInt(planner.commands.slice(2), 16)).toEqual(CommandType.SWEEP | ALLOW_REVERT_FLAG)
+  })
+
+  it('encodes permit structs', () => {
+    const permit = {
+      details: { token: TOKEN, amount: 2n ** 160n - 1n, expiration: 1_700_000_000, nonce: 0 },
+      spender: RECIPIENT,
+      sigDeadline: 1_700_000_000n,
+    }
+    const planner = new RoutePlanner().addCommand(CommandType.PERMIT2_PERMIT, [permit, '0x1234'])
+
+    const [decoded, signature] = AbiParameters.decode(
+      AbiParameters.from(
+        '((address token,uint160 amount,uint48 expiration,uint48 nonce) details,address spender,uint256 sigDeadline), bytes'
+      ),
+      planner.inputs[0] as `0x${string}`
+    )
+    expect(decoded.details.amount).toEqual(permit.details.amount)
+    expect(decoded.details.expiration).toEqual(permit.details.expiration)
+    expect(decoded.sigDeadline).toEqual(permit.sigDeadline)
+    expect(signature).toEqual('0x1234')
+  })
+
+  it('passes position manager calldata through unencoded', () => {
+    const planner = new RoutePlanner().addCommand(CommandType.V4_POSITION_MANAGER_CALL, ['0xdeadbeef'])
+
+    expect(planner.inputs).toEqual(['0xdeadbeef'])
+  })
+
+  it('uses the V4Planner output as the V4_SWAP input', () => {
+    const v4Planner = new V4Planner()
+    v4Planner.addAction(Actions.SETTLE_ALL, [TOKEN, 1n])
+    const planner = new RoutePlanner().addV4Swap(v4Planner)
+
+    expect(planner.commands).toEqual('0x10')
+    expect(planner.inputs).toEqual([v4Planner.finalize()])
+  })
+
+  it('nests a sub plan that may revert', () => {
+    const subplan = new RoutePlanner().addCommand(CommandType.BALANCE_CHECK_ERC20, [RECIPIENT, TOKEN, 1n])
+    const planner = new RoutePlanner().addSubPlan(subplan)
+
+    expect(planner.commands).toEqual('0xa1')
+    const [commands, inputs] = AbiParameters.decode(
+      AbiParameters.from('bytes, bytes[]'),
+      planner.inputs[0] as `0x${string}`
+    )
+    expect(commands).toEqual(subplan.commands)
+    expect(inputs).toEqual(subplan.inputs)
+  })
+
+  it('rejects parameters that do not match the command definition', () => {
+    const planner = new RoutePlanner()
+    // @ts-expect-error amountMin is a bigint
+    expect(() => planner.addCommand(CommandType.UNWRAP_WETH, [RECIPIENT, 'abc'])).toThrow()
+  })
+})
@@ -0,0 +1,278 @@
+import { CurrencyAmount, Ether, Percent, Token, TradeType } from '@muniswap/sdk-core'
+import { Pair, Route as V2Route, Trade as V2Trade } from '@muniswap/v2-sdk'
+import {
+  FeeAmount,
+  MAX_TICK,
+  MIN_TICK,
+  TICK_SPACINGS,
+  Pool as V3Pool,
+  Position as V3Position,
+  Route as V3Route,
+  Trade as V3Trade,
+  encodeSqrtRatioX96,
+  nearestUsableTick,
+} from '@muniswap/v3-sdk'
+import {
+  ADDRESS_THIS,
+  ADDRESS_ZERO,
+  MSG_SENDER,
+  V4BaseActionsParser,
+  Pool as V4Pool,
+  Position as V4Position,
+  V4PositionManager,
+  Route as V4Route,
+  Trade as V4Trade,
+  toHex,
+} from '@muniswap/v4-sdk'
+import { AbiFunction, AbiParameters, type Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { migrateV3ToV4CallParameters, swapCallParameters } from '../swapRouter'
+import { universalRouterAbi } from '../utils/universalRouterAbi'
+
+const [executeWithDeadlineAbi, executeAbi] = universalRouterAbi
+
+function decodeExecute(calldata: string): { commands: string; inputs: readonly Hex.Hex[] } {
+  const data = calldata as Hex.Hex
+  if (data.startsWith(AbiFunction.getSelector(executeAbi))) {
+    const [commands, inputs] = AbiFunction.decodeData(executeAbi, data)
+    return { commands, inputs }
+  }
+  const [commands, inputs] = AbiFunction.decodeData(executeWithDeadlineAbi, data)
+  return { commands, inputs }
+}
+
+function decodeInput(types: string, input: Hex.Hex | undefined): readonly unknown[] {
+  return AbiParameters.decode(AbiParameters.from(types), input!)
+}
+
+describe('swapCallParameters', () => {
+  const ETH = Ether.onChain(1)
+  const WETH = ETH.wrapped
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const RECIPIENT = '0x0000000000000000000000000000000000000003'
+  const SLIPPAGE = new Percent(1, 100)
+
+  const LIQUIDITY = 10n ** 21n
+  function fullRangeTicks(tickSpacing: number) {
+    return [
+      { index: nearestUsableTick(MIN_TICK, tickSpacing), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+      { index: nearestUsableTick(MAX_TICK, tickSpacing), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    ]
+  }
+
+  const WETH_DAI_V2 = new Pair(
+    CurrencyAmount.fromRawAmount(WETH, LIQUIDITY),
+    CurrencyAmount.fromRawAmount(DAI, LIQUIDITY)
+  )
+  const WETH_DAI_V3 = new V3Pool(
+    WETH,
+    DAI,
+    FeeAmount.MEDIUM,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    fullRangeTicks(TICK_SPACINGS[FeeAmount.MEDIUM])
+  )
+  const ETH_USDC_V4 = new V4Pool(
+    ETH,
+    USDC,
+    FeeAmount.MEDIUM,
+    60,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    fullRangeTicks(60)
+  )
+
+  it('wraps native input for a V2 swap', () => {
+    const trade = V2Trade.exactIn(new V2Route([WETH_DAI_V2], ETH, DAI), CurrencyAmount.fromRawAmount(ETH, 10n ** 18n))
+
+    const { calldata, value } = swapCallParameters(trade, { slippageTolerance: SLIPPAGE })
+    const { commands, inputs } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x0b08')
+    expect(value).toEqual(toHex(10n ** 18n))
+    expect(decodeInput('address, uint256', inputs[0])).toEqual([ADDRESS_THIS, 10n ** 18n])
+    const [recipient, amountIn, amountOutMin, path, payerIsUser] = decodeInput(
+      'address, uint256, uint256, address[], bool',
+      inputs[1]
+    )
+    expect(recipient).toEqual(MSG_SENDER)
+    expect(amountIn).toEqual(10n ** 18n)
+    expect(amountOutMin).toEqual(trade.minimumAmountOut(SLIPPAGE).quotient)
+    expect(path).toEqual([WETH.address.toLowerCase(), DAI.address.toLowerCase()])
+    expect(payerIsUser).toBe(false)
+  })
+
+  it('unwraps the output of a V3 exact output swap into native currency', async () => {
+    const amountOut = CurrencyAmount.fromRawAmount(ETH, 10n ** 15n)
+    const trade = await V3Trade.fromRoute(new V3Route([WETH_DAI_V3], DAI, ETH), amountOut, TradeType.EXACT_OUTPUT)
+
+    const { calldata, value } = swapCallParameters(trade, { slippageTolerance: SLIPPAGE, recipient: RECIPIENT })
+    const { commands, inputs } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x010c04')
+    expect(value).toEqual('0x00')
+    const [swapRecipient, swapAmountOut, amountInMax, , payerIsUser] = decodeInput(
+      'address, uint256, uint256, bytes, bool',
+      inputs[0]
+    )
+    expect(swapRecipient).toEqual(ADDRESS_THIS)
+    expect(swapAmountOut).toEqual(amountOut.quotient)
+    expect(amountInMax).toEqual(trade.maximumAmountIn(SLIPPAGE).quotient)
+    expect(payerIsUser).toBe(true)
+    expect(decodeInput('address, address, uint256', inputs[2])).toEqual([ADDRESS_ZERO, RECIPIENT, amountOut.quotient])
+  })
+
+  it('settles a V4 trade through V4Planner and takes a fee from the output', async () => {
+    const amountIn = CurrencyAmount.fromRawAmount(ETH, 10n ** 6n)
+    const trade = await V4Trade.exactIn(new V4Route([ETH_USDC_V4], ETH, USDC), amountIn)
+    const feeRecipient = '0x0000000000000000000000000000000000000004'
+
+    const { calldata, value } = swapCallParameters(trade, {
+      slippageTolerance: SLIPPAGE,
+      recipient: RECIPIENT,
+      fee: { fee: new Percent(1, 100), recipient: feeRecipient },
+    })
+    const { commands, inputs } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x100604')
+    expect(value).toEqual(toHex(amountIn.quotient))
+    const { actions } = V4BaseActionsParser.parseCalldata(inputs[0]!)
+    expect(actions.map(({ actionName }) => actionName)).toEqual(['SWAP_EXACT_IN', 'SETTLE', 'TAKE'])
+    expect(actions[1]!.params.map(({ value }) => value)).toEqual([ADDRESS_ZERO, 0n, false])
+    expect(actions[2]!.params.map(({ value }) => value)).toEqual([USDC.address.toLowerCase(), ADDRESS_THIS, 0n])
+    expect(decodeInput('address, address, uint256', inputs[1])).toEqual([
+      USDC.address.toLowerCase(),
+      feeRecipient,
+      100n,
+    ])
+    const minimumAmountOut = trade.minimumAmountOut(SLIPPAGE).quotient
+    expect(decodeInput('address, address, uint256', inputs[2])).toEqual([
+      USDC.address.toLowerCase(),
+      RECIPIENT,
+      minimumAmountOut - minimumAmountOut / 100n,
+    ])
+  })
+
+  it('refunds unspent native input of an exact output trade', async () => {
+    const trade = await V4Trade.exactOut(
+      new V4Route([ETH_USDC_V4], ETH, USDC),
+      CurrencyAmount.fromRawAmount(USDC, 10n ** 6n)
+    )
+
+    const { calldata, value } = swapCallParameters(trade, { slippageTolerance: SLIPPAGE })
+    const { commands, inputs } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x1004')
+    expect(BigInt(value)).toEqual(trade.maximumAmountIn(SLIPPAGE).quotient)
+    expect(decodeInput('address, address, uint256', inputs[1])).toEqual([ADDRESS_ZERO, MSG_SENDER, 0n])
+  })
+
+  it('adds the input token permit first', async () => {
+    const trade = await V3Trade.fromRoute(
+      new V3Route([WETH_DAI_V3], DAI, WETH),
+      CurrencyAmount.fromRawAmount(DAI, 10n ** 15n),
+      TradeType.EXACT_INPUT
+    )
+    const inputTokenPermit = {
+      details: { token: DAI.address, amount: 10n ** 15n, expiration: 1_700_000_000, nonce: 0 },
+      spender: RECIPIENT,
+      sigDeadline: 1_700_000_000n,
+      signature: '0x1234',
+    }
+
+    const { calldata } = swapCallParameters(trade, { slippageTolerance: SLIPPAGE, inputTokenPermit, deadline: 123 })
+    const { commands } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x0a00')
+    expect(calldata.startsWith(AbiFunction.getSelector(executeWithDeadlineAbi))).toBe(true)
+    expect(AbiFunction.decodeData(executeWithDeadlineAbi, calldata as Hex.Hex)[2]).toEqual(123n)
+  })
+
+  it('requires trades with the same type', async () => {
+    const route = new V4Route([ETH_USDC_V4], ETH, USDC)
+    const exactIn = await V4Trade.exactIn(route, CurrencyAmount.fromRawAmount(ETH, 10n ** 6n))
+    const exactOut = await V4Trade.exactOut(route, CurrencyAmount.fromRawAmount(USDC, 10n ** 6n))
+
+    expect(() => swapCallParameters([exactIn, exactOut], { slippageTolerance: SLIPPAGE })).toThrow('TRADE_TYPE_DIFF')
+  })
+})
+
+describe('migrateV3ToV4CallParameters', () => {
+  const ETH = Ether.onChain(1)
+  const WETH = ETH.wrapped
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const RECIPIENT = '0x0000000000000000000000000000000000000003'
+  const POSITION_MANAGER = '0x0000000000000000000000000000000000000004'
+  const SLIPPAGE = new Percent(1, 100)
+  const SQRT_PRICE = encodeSqrtRatioX96(1, 1)
+
+  const USDC_WETH_V3 = new V3Pool(USDC, WETH, FeeAmount.MEDIUM, SQRT_PRICE, 0, 0, [])
+  const ETH_USDC_V4 = new V4Pool(ETH, USDC, FeeAmount.MEDIUM, 60, ADDRESS_ZERO, SQRT_PRICE, 0, 0, [])
+  const v3Position = new V3Position({ pool: USDC_WETH_V3, liquidity: 10n ** 18n, tickLower: -120, tickUpper: 120 })
+  const v4Position = new V4Position({ pool: ETH_USDC_V4, liquidity: 10n ** 17n, tickLower: -120, tickUpper: 120 })
+  const options = {
+    tokenId: 7,
+    slippageTolerance: SLIPPAGE,
+    recipient: RECIPIENT,
+    deadline: 123,
+    v4PositionManagerAddress: POSITION_MANAGER,
+  }
+
+  it('removes the V3 position to the V4 PositionManager and mints with native currency', () => {
+    const { calldata, value } = migrateV3ToV4CallParameters(v3Position, v4Position, {
+      ...options,
+      v3Permit: { spender: RECIPIENT, deadline: 123, v: 27, r: `0x${'11'.repeat(32)}`, s: `0x${'22'.repeat(32)}` },
+    })
+    const { commands, inputs } = decodeExecute(calldata)
+    const [, , collect, burn, mint] = inputs
+    const collectAbi = AbiFunction.from(
+      'function collect((uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params)'
+    )
+    const burnAbi = AbiFunction.from('function burn(uint256 tokenId)')
+
+    expect(commands).toEqual('0x1112121214')
+    expect(value).toEqual('0x00')
+    expect(AbiFunction.decodeData(collectAbi, collect!)[0].recipient).toEqual(POSITION_MANAGER)
+    expect(burn).toEqual(AbiFunction.encodeData(burnAbi, [7n]))
+    expect(mint).toEqual(
+      V4PositionManager.addCallParameters(v4Position, {
+        recipient: RECIPIENT,
+        migrate: true,
+        slippageTolerance: SLIPPAGE,
+        deadline: 123,
+        useNative: ETH,
+      }).calldata
+    )
+  })
+
+  it('initializes the V4 pool if a price is given', () => {
+    const { calldata } = migrateV3ToV4CallParameters(v3Position, v4Position, { ...options, sqrtPriceX96: SQRT_PRICE })
+    const { commands, inputs } = decodeExecute(calldata)
+
+    expect(commands).toEqual('0x1212121314')
+    expect(
+      decodeInput(
+        '(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks), uint160',
+        inputs[3]
+      )[1]
+    ).toEqual(SQRT_PRICE)
+  })
+
+  it('requires the same pair of tokens', () => {
+    const daiPool = new V4Pool(DAI, USDC, FeeAmount.MEDIUM, 60, ADDRESS_ZERO, SQRT_PRICE, 0, 0, [])
+    const daiPosition = new V4Position({ pool: daiPool, liquidity: 1n, tickLower: -120, tickUpper: 120 })
+
+    expect(() => migrateV3ToV4CallParameters(v3Position, daiPosition, options)).toThrow('TOKEN_MISMATCH')
+  })
+
+  it('requires the V3 amounts to cover the V4 mint', () => {
+    const largePosition = new V4Position({ pool: ETH_USDC_V4, liquidity: 10n ** 18n, tickLower: -120, tickUpper: 120 })
+
+    expect(() => migrateV3ToV4CallParameters(v3Position, largePosition, options)).toThrow('INSUFFICIENT_AMOUNT')
+  })
+})
@@ -0,0 +1,439 @@
+import { type Currency, CurrencyAmount } from '@muniswap/sdk-core'
+import {
+  ADDRESS_THIS,
+  ADDRESS_ZERO,
+  Actions,
+  CONTRACT_BALANCE,
+  DYNAMIC_FEE_FLAG,
+  MSG_SENDER,
+  OPEN_DELTA,
+  type PoolKey,
+  type V4RouterAction,
+} from '@muniswap/v4-sdk'
+import { AbiParameters, Address, Hash, type Hex } from 'ox'
+import { CommandParser, type UniversalRouterCall, type UniversalRouterCommand } from './utils/commandParser'
+import { type PositionManagerCall, PositionManagerParser } from './utils/positionManagerParser'
+import { CommandType, type PermitDetails } from './utils/routerCommands'
+
+const MAX_UINT160 = 2n ** 160n - 1n
+
+const INDENT = '  '
+
+/**
+ * A decoded Universal Router or V4 PositionManager call
+ */
+export type DecodedCalldata = UniversalRouterCall | PositionManagerCall
+
+/**
+ * Options for explaining decoded calldata
+ */
+export interface ExplainOptions {
+  /** Currencies used to format amounts; amounts of other currencies are shown in raw units */
+  currencies?: Currency[]
+}
+
+/**
+ * Decodes Universal Router execute or V4 PositionManager calldata into a structured tree
+ * @param calldata The transaction calldata
+ * @returns The decoded call, with nested V4 actions, sub plans and position manager calls
+ */
+export function decodeCalldata(calldata: string): DecodedCalldata {
+  return CommandParser.isExecuteCall(calldata)
+    ? CommandParser.parseCalldata(calldata)
+    : PositionManagerParser.parseCalldata(calldata)
+}
+
+/**
+ * Explains Universal Router execute or V4 PositionManager calldata in plain text, one line per command or action.
+ * Nested calls are indented under the command containing them.
+ *
+ * @param calldata The transaction calldata, or the call decoded by decodeCalldata
+ * @param options Options for the explanation
+ * @returns The explanation
+ */
+export function explainCalldata(calldata: string | DecodedCalldata, options: ExplainOptions = {}): string {
+  const decoded = typeof calldata === 'string' ? decodeCalldata(calldata) : calldata
+  const explainer = new Explainer(options.currencies ?? [])
+
+  const lines = decoded.functionName === 'execute' ? explainer.execute(decoded) : explainer.positionManagerCall(decoded)
+  return lines.join('\n')
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map((line) => `${INDENT}${line}`)
+}
+
+function poolId(poolKey: PoolKey): string {
+  const encoded = AbiParameters.encode(
+    [{ type: 'address' }, { type: 'address' }, { type: 'uint24' }, { type: 'int24' }, { type: 'address' }],
+    [
+      poolKey.currency0 as Hex.Hex,
+      poolKey.currency1 as Hex.Hex,
+      poolKey.fee,
+      poolKey.tickSpacing,
+      poolKey.hooks as Hex.Hex,
+    ]
+  )
+  return `${Hash.keccak256(encoded).slice(0, 10)}…`
+}
+
+// Pool keys of a V4 path, from the currencies it swaps through
+function pathPoolKeys(
+  currencies: readonly string[],
+  path: readonly { fee: number; tickSpacing: number; hooks: string }[]
+): PoolKey[] {
+  return path.map(({ fee, tickSpacing, hooks }, i) => {
+    const [currencyA, currencyB] = [currencies[i]!, currencies[i + 1]!]
+    const [currency0, currency1] =
+      BigInt(currencyA) < BigInt(currencyB) ? [currencyA, currencyB] : [currencyB, currencyA]
+    return { currency0, currency1, fee, tickSpacing, hooks }
+  })
+}
+
+// A V3 path is packed as token (20 bytes), then fee (3 bytes) and token for every hop
+function decodeV3Path(path: string): { tokens: string[]; fees: number[] } {
+  const data = path.slice(2)
+  const tokens = [`0x${data.slice(0, 40)}`]
+  const fees: number[] = []
+  for (let i = 40; i < data.length; i += 46) {
+    fees.push(Number.parseInt(data.slice(i, i + 6), 16))
+    tokens.push(`0x${data.slice(i + 6, i + 46)}`)
+  }
+  return { tokens, fees }
+}
+
+// Renders decoded calls, resolving sentinels and the currencies it was given
+class Explainer {
+  private readonly currencies: Map<string, Currency>
+
+  constructor(currencies: Currency[]) {
+    this.currencies = new Map(
+      currencies.map((currency) => [(currency.isNative ? ADDRESS_ZERO : currency.address).toLowerCase(), currency])
+    )
+  }
+
+  execute(call: UniversalRouterCall): string[] {
+    const header = call.deadline === undefined ? 'execute' : `execute before ${call.deadline}`
+    return [header, ...indent(this.commands(call.commands))]
+  }
+
+  positionManagerCall(call: PositionManagerCall): string[] {
+    const self = 'the position manager'
+    switch (call.functionName) {
+      case 'multicall':
+        return ['multicall', ...indent(call.calls.flatMap((nested) => this.positionManagerCall(nested)))]
+      case 'modifyLiquidities':
+        return [`modify liquidities before ${call.deadline}`, ...indent(this.actions(call.actions, self))]
+      case 'modifyLiquiditiesWithoutUnlock':
+        return ['modify liquidities without unlock', ...indent(this.actions(call.actions, self))]
+      case 'initializePool':
+        return [`initialize ${this.pool(call.poolKey)} at sqrtPriceX96 ${call.sqrtPriceX96}`]
+      case 'permitBatch':
+        return [
+          `permit ${this.address(call.permitBatch.spender, self)} to spend for ${this.address(call.owner, self)} via Permit2`,
+          ...indent(call.permitBatch.details.map((details) => this.permitDetails(details))),
+        ]
+      case 'permit':
+        return [`permit ${this.address(call.spender, self)} to manage position #${call.tokenId} until ${call.deadline}`]
+      case 'safeTransferFrom':
+        return [
+          `transfer position #${call.tokenId} from ${this.address(call.from, self)} to ${this.address(call.to, self)}`,
+        ]
+      case 'subscribe':
+        return [`subscribe position #${call.tokenId} to ${this.address(call.subscriber, self)}`]
+      case 'unsubscribe':
+        return [`unsubscribe position #${call.tokenId}`]
+    }
+  }
+
+  private commands(commands: readonly UniversalRouterCommand[]): string[] {
+    return commands.flatMap((command) => {
+      const [line, ...nested] = this.command(command)
+      return [command.allowRevert ? `(may revert) ${line}` : line!, ...nested]
+    })
+  }
+
+  private command(command: UniversalRouterCommand): string[] {
+    const self = 'the router'
+    switch (command.commandType) {
+      case CommandType.V2_SWAP_EXACT_IN:
+      case CommandType.V2_SWAP_EXACT_OUT: {
+        const [recipient, amountA, amountB, path, payerIsUser] = command.params
+        const tokens = path.value
+        const [tokenIn, tokenOut] = [tokens[0]!, tokens[tokens.length - 1]!]
+        const amounts =
+          command.commandType === CommandType.V2_SWAP_EXACT_IN
+            ? `${this.amount(tokenIn, amountA.value, self)} → ≥${this.amount(tokenOut, amountB.value, self)}`
+            : `≤${this.amount(tokenIn, amountB.value, self)} → ${this.amount(tokenOut, amountA.value, self)}`
+        const route = tokens.map((token) => this.currency(token)).join(' → ')
+        return [
+          `V2 swap ${amounts} via ${route} to ${this.address(recipient.value, self)}, paid by ${this.payer(payerIsUser.value, self)}`,
+        ]
+      }
+      case CommandType.V3_SWAP_EXACT_IN:
+      case CommandType.V3_SWAP_EXACT_OUT: {
+        const [recipient, amountA, amountB, path, payerIsUser] = command.params
+        const exactInput = command.commandType === CommandType.V3_SWAP_EXACT_IN
+        // Exact output paths are encoded from the output token
+        const { tokens, fees } = decodeV3Path(path.value)
+        if (!exactInput) {
+          tokens.reverse()
+          fees.reverse()
+        }
+        const [tokenIn, tokenOut] = [tokens[0]!, tokens[tokens.length - 1]!]
+        const amounts = exactInput
+          ? `${this.amount(tokenIn, amountA.value, self)} → ≥${this.amount(tokenOut, amountB.value, self)}`
+          : `≤${this.amount(tokenIn, amountB.value, self)} → ${this.amount(tokenOut, amountA.value, self)}`
+        const route = fees
+          .map((fee, i) => `${this.currency(tokens[i]!)}/${this.currency(tokens[i + 1]!)} ${fee / 10_000}%`)
+          .join(', ')
+        return [
+          `V3 swap ${amounts} via ${route} to ${this.address(recipient.value, self)}, paid by ${this.payer(payerIsUser.value, self)}`,
+        ]
+      }
+      case CommandType.V4_SWAP:
+        return ['V4 swap', ...indent(this.actions(command.v4Actions, self))]
+      case CommandType.PERMIT2_PERMIT: {
+        const [permit] = command.params
+        return [
+          `permit ${this.address(permit.value.spender, self)} to spend via Permit2 ${this.permitDetails(permit.value.details)}`,
+        ]
+      }
+      case CommandType.PERMIT2_PERMIT_BATCH: {
+        const [permit] = command.params
+        return [
+          `permit ${this.address(permit.value.spender, self)} to spend via Permit2`,
+          ...indent(permit.value.details.map((details) => this.permitDetails(details))),
+        ]
+      }
+      case CommandType.PERMIT2_TRANSFER_FROM: {
+        const [token, recipient, amount] = command.params
+        return [
+          `transfer ${this.amount(token.value, amount.value, self)} from msg.sender to ${this.address(recipient.value, self)} via Permit2`,
+        ]
+      }
+      case CommandType.PERMIT2_TRANSFER_FROM_BATCH: {
+        const [transferDetails] = command.params
+        return transferDetails.value.map(
+          ({ from, to, amount, token }) =>
+            `transfer ${this.amount(token, amount, self)} from ${this.address(from, self)} to ${this.address(to, self)} via Permit2`
+        )
+      }
+      case CommandType.SWEEP: {
+        const [token, recipient, amountMin] = command.params
+        return [`sweep ≥${this.amount(token.value, amountMin.value, self)} to ${this.address(recipient.value, self)}`]
+      }
+      case CommandType.TRANSFER: {
+        const [token, recipient, value] = command.params
+        return [`transfer ${this.amount(token.value, value.value, self)} to ${this.address(recipient.value, self)}`]
+      }
+      case CommandType.PAY_PORTION: {
+        const [token, recipient, bips] = command.params
+        return [
+          `pay ${this.bips(bips.value)} of ${this.currency(token.value)} to ${this.address(recipient.value, self)}`,
+        ]
+      }
+      case CommandType.WRAP_ETH: {
+        const [recipient, amount] = command.params
+        return [`wrap ${this.amount(ADDRESS_ZERO, amount.value, self)} to ${this.address(recipient.value, self)}`]
+      }
+      case CommandType.UNWRAP_WETH: {
+        const [recipient, amountMin] = command.params
+        return [`unwrap ≥${this.amount(ADDRESS_ZERO, amountMin.value, self)} to ${this.address(recipient.value, self)}`]
+      }
+      case CommandType.BALANCE_CHECK_ERC20: {
+        const [owner, token, minBalance] = command.params
+        return [`check ${this.address(owner.value, self)} holds ≥${this.amount(token.value, minBalance.value, self)}`]
+      }
+      case CommandType.V3_POSITION_MANAGER_PERMIT:
+      case CommandType.V3_POSITION_MANAGER_CALL: {
+        const [calldata] = command.params
+        return [`V3 position manager call ${calldata.value.slice(0, 10)}`]
+      }
+      case CommandType.V4_INITIALIZE_POOL: {
+        const [poolKey, sqrtPriceX96] = command.params
+        return [`initialize ${this.pool(poolKey.value)} at sqrtPriceX96 ${sqrtPriceX96.value}`]
+      }
+      case CommandType.V4_POSITION_MANAGER_CALL:
+        return ['V4 position manager call', ...indent(this.positionManagerCall(command.positionManagerCall))]
+      case CommandType.EXECUTE_SUB_PLAN:
+        return ['sub plan', ...indent(this.commands(command.subPlan))]
+    }
+  }
+
+  private actions(actions: readonly V4RouterAction[], self: string): string[] {
+    return actions.map((action) => this.action(action, self))
+  }
+
+  private action(action: V4RouterAction, self: string): string {
+    switch (action.actionType) {
+      case Actions.SWAP_EXACT_IN_SINGLE: {
+        const { poolKey, zeroForOne, amountIn, amountOutMinimum } = action.params[0].value
+        const [currencyIn, currencyOut] = zeroForOne
+          ? [poolKey.currency0, poolKey.currency1]
+          : [poolKey.currency1, poolKey.currency0]
+        return `swap ${this.delta(currencyIn, amountIn, self)} → ≥${this.amount(currencyOut, amountOutMinimum, self)} via pool ${poolId(poolKey)}`
+      }
+      case Actions.SWAP_EXACT_IN: {
+        const { currencyIn, path, amountIn, amountOutMinimum } = action.params[0].value
+        const currencies = [currencyIn, ...path.map(({ intermediateCurrency }) => intermediateCurrency)]
+        const currencyOut = currencies[currencies.length - 1]!
+        return `swap ${this.delta(currencyIn, amountIn, self)} → ≥${this.amount(currencyOut, amountOutMinimum, self)} via ${this.pools(pathPoolKeys(currencies, path))}`
+      }
+      case Actions.SWAP_EXACT_OUT_SINGLE: {
+        const { poolKey, zeroForOne, amountOut, amountInMaximum } = action.params[0].value
+        const [currencyIn, currencyOut] = zeroForOne
+          ? [poolKey.currency0, poolKey.currency1]
+          : [poolKey.currency1, poolKey.currency0]
+        return `swap ≤${this.amount(currencyIn, amountInMaximum, self)} → ${this.delta(currencyOut, amountOut, self)} via pool ${poolId(poolKey)}`
+      }
+      case Actions.SWAP_EXACT_OUT: {
+        const { currencyOut, path, amountOut, amountInMaximum } = action.params[0].value
+        const currencies = [...path.map(({ intermediateCurrency }) => intermediateCurrency), currencyOut]
+        const currencyIn = currencies[0]!
+        return `swap ≤${this.amount(currencyIn, amountInMaximum, self)} → ${this.delta(currencyOut, amountOut, self)} via ${this.pools(pathPoolKeys(currencies, path))}`
+      }
+      case Actions.SETTLE: {
+        const [currency, amount, payerIsUser] = action.params
+        return `settle ${this.delta(currency.value, amount.value, self)}, paid by ${this.payer(payerIsUser.value, self)}`
+      }
+      case Actions.SETTLE_ALL: {
+        const [currency, maxAmount] = action.params
+        return `settle all ${this.currency(currency.value)} up to ${this.amount(currency.value, maxAmount.value, self)}, paid by msg.sender`
+      }
+      case Actions.SETTLE_PAIR: {
+        const [currency0, currency1] = action.params
+        return `settle ${this.currency(currency0.value)} and ${this.currency(currency1.value)}, paid by msg.sender`
+      }
+      case Actions.TAKE: {
+        const [currency, recipient, amount] = action.params
+        return `take ${this.delta(currency.value, amount.value, self)} to ${this.address(recipient.value, self)}`
+      }
+      case Actions.TAKE_ALL: {
+        const [currency, minAmount] = action.params
+        return `take all ≥${this.amount(currency.value, minAmount.value, self)} to msg.sender`
+      }
+      case Actions.TAKE_PORTION: {
+        const [currency, recipient, bips] = action.params
+        return `take ${this.bips(bips.value)} of ${this.currency(currency.value)} to ${this.address(recipient.value, self)}`
+      }
+      case Actions.TAKE_PAIR: {
+        const [currency0, currency1, recipient] = action.params
+        return `take ${this.currency(currency0.value)} and ${this.currency(currency1.value)} to ${this.address(recipient.value, self)}`
+      }
+      case Actions.CLOSE_CURRENCY: {
+        const [currency] = action.params
+        return `close ${this.currency(currency.value)}`
+      }
+      case Actions.CLEAR_OR_TAKE: {
+        const [currency, amountMax] = action.params
+        return `clear up to ${this.amount(currency.value, amountMax.value, self)}, otherwise take it to msg.sender`
+      }
+      case Actions.SWEEP: {
+        const [currency, recipient] = action.params
+        return `sweep ${this.currency(currency.value)} to ${this.address(recipient.value, self)}`
+      }
+      case Actions.WRAP: {
+        const [amount] = action.params
+        return `wrap ${this.delta(ADDRESS_ZERO, amount.value, self)}`
+      }
+      case Actions.UNWRAP: {
+        const [amount] = action.params
+        return `unwrap ${this.delta(ADDRESS_ZERO, amount.value, self)}`
+      }
+      case Actions.MINT_POSITION: {
+        const [poolKey, tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner] = action.params
+        const { currency0, currency1 } = poolKey.value
+        return `mint liquidity ${liquidity.value} in ${this.pool(poolKey.value)} between ticks ${tickLower.value} and ${tickUpper.value}, paying ≤${this.amount(currency0, amount0Max.value, self)} and ≤${this.amount(currency1, amount1Max.value, self)}, to ${this.address(owner.value, self)}`
+      }
+      case Actions.MINT_POSITION_FROM_DELTAS: {
+        const [poolKey, tickLower, tickUpper, amount0Max, amount1Max, owner] = action.params
+        const { currency0, currency1 } = poolKey.value
+        return `mint from deltas in ${this.pool(poolKey.value)} between ticks ${tickLower.value} and ${tickUpper.value}, paying ≤${this.amount(currency0, amount0Max.value, self)} and ≤${this.amount(currency1, amount1Max.value, self)}, to ${this.address(owner.value, self)}`
+      }
+      case Actions.INCREASE_LIQUIDITY: {
+        const [tokenId, liquidity, amount0Max, amount1Max] = action.params
+        return `increase liquidity of position #${tokenId.value} by ${liquidity.value}, paying ≤${amount0Max.value} of currency0 and ≤${amount1Max.value} of currency1`
+      }
+      case Actions.INCREASE_LIQUIDITY_FROM_DELTAS: {
+        const [tokenId, amount0Max, amount1Max] = action.params
+        return `increase liquidity of position #${tokenId.value} from deltas, paying ≤${amount0Max.value} of currency0 and ≤${amount1Max.value} of currency1`
+      }
+      case Actions.DECREASE_LIQUIDITY: {
+        const [tokenId, liquidity, amount0Min, amount1Min] = action.params
+        return `decrease liquidity of position #${tokenId.value} by ${liquidity.value}, receiving ≥${amount0Min.value} of currency0 and ≥${amount1Min.value} of currency1`
+      }
+      case Actions.BURN_POSITION: {
+        const [tokenId, amount0Min, amount1Min] = action.params
+        return `burn position #${tokenId.value}, receiving ≥${amount0Min.value} of currency0 and ≥${amount1Min.value} of currency1`
+      }
+      case Actions.DONATE: {
+        const [poolKey, amount0, amount1] = action.params
+        const { currency0, currency1 } = poolKey.value
+        return `donate ${this.amount(currency0, amount0.value, self)} and ${this.amount(currency1, amount1.value, self)} to ${this.pool(poolKey.value)}`
+      }
+      case Actions.MINT_6909: {
+        const [currency, recipient, amount] = action.params
+        return `mint claims for ${this.delta(currency.value, amount.value, self)} to ${this.address(recipient.value, self)}`
+      }
+      case Actions.BURN_6909: {
+        const [currency, owner, amount] = action.params
+        return `burn claims for ${this.delta(currency.value, amount.value, self)} from ${this.address(owner.value, self)}`
+      }
+    }
+  }
+
+  private permitDetails({ token, amount, expiration }: PermitDetails): string {
+    const allowance =
+      amount === MAX_UINT160 ? `unlimited ${this.currency(token)}` : this.amount(token, amount, 'the spender')
+    return `${allowance} until ${expiration}`
+  }
+
+  private address(address: string, self: string): string {
+    if (address.toLowerCase() === MSG_SENDER) return 'msg.sender'
+    if (address.toLowerCase() === ADDRESS_THIS) return self
+    return Address.checksum(address as Address.Address)
+  }
+
+  private payer(payerIsUser: boolean, self: string): string {
+    return payerIsUser ? 'msg.sender' : self
+  }
+
+  private currency(address: string): string {
+    const currency = this.currencies.get(address.toLowerCase())
+    if (currency?.symbol) return currency.symbol
+    if (address.toLowerCase() === ADDRESS_ZERO) return 'native currency'
+    return Address.checksum(address as Address.Address)
+  }
+
+  private amount(address: string, amount: bigint, self: string): string {
+    if (amount === CONTRACT_BALANCE) return `all ${this.currency(address)} held by ${self}`
+    const currency = this.currencies.get(address.toLowerCase())
+    if (!currency) return `${amount} ${this.currency(address)}`
+    // toExact pads to the currency decimals
+    const formatted = CurrencyAmount.fromRawAmount(currency, amount).toExact()
+    return `${formatted.includes('.') ? formatted.replace(/\.?0+$/, '') : formatted} ${this.currency(address)}`
+  }
+
+  // Amounts of V4 actions settle or take the open delta when zero
+  private delta(address: string, amount: bigint, self: string): string {
+    return amount === OPEN_DELTA ? `the open delta of ${this.currency(address)}` : this.amount(address, amount, self)
+  }
+
+  private bips(bips: bigint): string {
+    return `${Number(bips) / 100}%`
+  }
+
+  private pool(poolKey: PoolKey): string {
+    const hooks =
+      poolKey.hooks.toLowerCase() === ADDRESS_ZERO
+        ? ''
+        : `, hooks ${Address.checksum(poolKey.hooks as Address.Address)}`
+    const fee = poolKey.fee === DYNAMIC_FEE_FLAG ? 'dynamic fee' : `${poolKey.fee / 10_000}%`
+    return `pool ${poolId(poolKey)} (${this.currency(poolKey.currency0)}/${this.currency(poolKey.currency1)} ${fee}, tick spacing ${poolKey.tickSpacing}${hooks})`
+  }
+
+  private pools(poolKeys: readonly PoolKey[]): string {
+    return `${poolKeys.length === 1 ? 'pool' : 'pools'} ${poolKeys.map(poolId).join(', ')}`
+  }
+}
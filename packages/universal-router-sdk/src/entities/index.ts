@@ -0,0 +1,2 @@
+export * from './mixedRoute'
+export * from './mixedRouteTrade'
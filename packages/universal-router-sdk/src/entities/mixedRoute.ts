@@ -0,0 +1,111 @@
+import { type Currency, Price } from '@muniswap/sdk-core'
+import type { Pair } from '@muniswap/v2-sdk'
+import type { Pool as V3Pool } from '@muniswap/v3-sdk'
+import { Pool as V4Pool, getPathCurrency } from '@muniswap/v4-sdk'
+import invariant from 'tiny-invariant'
+
+/**
+ * A pool of any protocol a mixed route can swap through
+ */
+export type TPool = Pair | V3Pool | V4Pool
+
+/**
+ * The currency a pool swaps for the given currency. V2 and V3 pools only hold wrapped native,
+ * while V4 pools may hold native or wrapped native.
+ * @param currency The currency entering the pool
+ * @param pool The pool
+ * @returns The currency of the pool the swap starts from
+ */
+export function getPoolCurrency(currency: Currency, pool: TPool): Currency {
+  if (pool instanceof V4Pool) {
+    return getPathCurrency(currency, pool)
+  }
+  invariant(pool.involvesToken(currency.wrapped), 'PATH')
+  return currency.wrapped
+}
+
+function otherCurrency(pool: TPool, currency: Currency): Currency {
+  return currency.equals(pool.token0) ? pool.token1 : pool.token0
+}
+
+/**
+ * Represents a list of V2, V3 and V4 pools through which a swap can occur.
+ * Crossing between a V4 pool holding native currency and a pool holding wrapped native
+ * wraps or unwraps between the hops.
+ * @template TInput The input currency
+ * @template TOutput The output currency
+ */
+export class MixedRoute<TInput extends Currency, TOutput extends Currency> {
+  public readonly pools: TPool[]
+  /** The currency each pool swaps from, followed by the currency the last pool swaps to */
+  public readonly path: Currency[]
+  public readonly input: TInput
+  public readonly output: TOutput
+  public readonly pathInput: Currency // equivalent or wrapped/unwrapped input to match the first pool
+  public readonly pathOutput: Currency // equivalent or wrapped/unwrapped output to match the last pool
+
+  private _midPrice: Price<TInput, TOutput> | null = null
+
+  /**
+   * Creates an instance of a mixed route.
+   * @param pools An array of pools of any protocol, ordered by the route the swap will take
+   * @param input The input currency
+   * @param output The output currency
+   */
+  public constructor(pools: TPool[], input: TInput, output: TOutput) {
+    invariant(pools.length > 0, 'POOLS')
+
+    const chainId = pools[0]!.chainId
+    const allOnSameChain = pools.every((pool) => pool.chainId === chainId)
+    invariant(allOnSameChain, 'CHAIN_IDS')
+
+    // Throws if a pool does not involve the currency entering it or its native/wrapped equivalent
+    const path: Currency[] = []
+    let currency: Currency = input
+    for (const pool of pools) {
+      const poolCurrency = getPoolCurrency(currency, pool)
+      path.push(poolCurrency)
+      currency = otherCurrency(pool, poolCurrency)
+    }
+    path.push(currency)
+
+    const lastCurrency = path[path.length - 1]!
+    invariant(lastCurrency.wrapped.equals(output.wrapped), 'OUTPUT')
+
+    this.pools = pools
+    this.path = path
+    this.input = input
+    this.output = output
+    this.pathInput = path[0]!
+    this.pathOutput = lastCurrency
+  }
+
+  /**
+   * Returns the chain ID of the route
+   */
+  public get chainId(): number {
+    return this.pools[0]!.chainId
+  }
+
+  /**
+   * Returns the mid price of the route
+   */
+  public get midPrice(): Price<TInput, TOutput> {
+    if (this._midPrice !== null) return this._midPrice
+
+    // Native and wrapped native have the same decimals, so raw prices compose across the boundaries
+    const { numerator, denominator } = this.pools.reduce(
+      (price, pool, i) => {
+        const poolPrice = pool instanceof V4Pool ? pool.priceOf(this.path[i]!) : pool.priceOf(this.path[i]!.wrapped)
+        return {
+          numerator: price.numerator * poolPrice.numerator,
+          denominator: price.denominator * poolPrice.denominator,
+        }
+      },
+      { numerator: 1n, denominator: 1n }
+    )
+
+    this._midPrice = new Price(this.input, this.output, denominator, numerator)
+    return this._midPrice
+  }
+}
@@ -0,0 +1,328 @@
+import { type Currency, CurrencyAmount, Fraction, Percent, Price, TradeType } from '@muniswap/sdk-core'
+import { Pair } from '@muniswap/v2-sdk'
+import { Pool as V4Pool } from '@muniswap/v4-sdk'
+import invariant from 'tiny-invariant'
+import { type MixedRoute, type TPool, getPoolCurrency } from './mixedRoute'
+
+const ZERO_PERCENT = new Percent(0n)
+const ONE = 1n
+
+// Identifies a pool across protocols, to detect pools reused between routes
+function poolIdentifier(pool: TPool): string {
+  if (pool instanceof V4Pool) return `V4-${pool.poolId}`
+  if (pool instanceof Pair) return `V2-${pool.liquidityToken.address}`
+  return `V3-${pool.token0.address}-${pool.token1.address}-${pool.fee}`
+}
+
+/**
+ * Computes the output of swapping an amount through a list of pools of any protocol,
+ * wrapping or unwrapping native currency between the pools as needed
+ * @param pools The pools to swap through
+ * @param amountIn The amount entering the first pool
+ * @returns The amount leaving the last pool
+ */
+export async function getOutputOfPools(
+  pools: TPool[],
+  amountIn: CurrencyAmount<Currency>
+): Promise<CurrencyAmount<Currency>> {
+  let amount = amountIn
+  for (const pool of pools) {
+    const poolCurrency = getPoolCurrency(amount.currency, pool)
+    const poolAmount = CurrencyAmount.fromFractionalAmount(poolCurrency, amount.numerator, amount.denominator)
+    if (pool instanceof V4Pool) {
+      ;[amount] = await pool.getOutputAmount(poolAmount)
+    } else if (pool instanceof Pair) {
+      ;[amount] = pool.getOutputAmount(poolAmount.wrapped)
+    } else {
+      ;[amount] = await pool.getOutputAmount(poolAmount.wrapped)
+    }
+  }
+  return amount
+}
+
+/**
+ * Represents a trade executed against a set of mixed routes where some percentage of the input is
+ * split across each route.
+ *
+ * Mixed routes can only be traded with an exact input, since the Universal Router swaps each protocol
+ * section of a route with the full output of the previous section.
+ *
+ * @template TInput The input currency
+ * @template TOutput The output currency
+ * @template TTradeType The trade type, always exact input
+ */
+export class MixedRouteTrade<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType> {
+  /**
+   * @deprecated Use 'swaps' property instead. If the trade consists of multiple routes, this will throw.
+   */
+  public get route(): MixedRoute<TInput, TOutput> {
+    invariant(this.swaps.length === 1, 'MULTIPLE_ROUTES')
+    return this.swaps[0]!.route
+  }
+
+  /**
+   * The swaps of the trade, i.e. which routes and how much is swapped in each
+   */
+  public readonly swaps: {
+    route: MixedRoute<TInput, TOutput>
+    inputAmount: CurrencyAmount<TInput>
+    outputAmount: CurrencyAmount<TOutput>
+  }[]
+
+  /**
+   * The type of the trade, always exact in
+   */
+  public readonly tradeType: TTradeType
+
+  private _inputAmount: CurrencyAmount<TInput> | undefined
+  private _outputAmount: CurrencyAmount<TOutput> | undefined
+  private _executionPrice: Price<TInput, TOutput> | undefined
+  private _priceImpact: Percent | undefined
+
+  /**
+   * The input amount for the trade assuming no slippage
+   */
+  public get inputAmount(): CurrencyAmount<TInput> {
+    if (this._inputAmount) {
+      return this._inputAmount
+    }
+
+    const inputCurrency = this.swaps[0]!.inputAmount.currency
+    this._inputAmount = this.swaps
+      .map(({ inputAmount }) => inputAmount)
+      .reduce((total, cur) => total.add(cur), CurrencyAmount.fromRawAmount(inputCurrency, 0))
+    return this._inputAmount
+  }
+
+  /**
+   * The output amount for the trade assuming no slippage
+   */
+  public get outputAmount(): CurrencyAmount<TOutput> {
+    if (this._outputAmount) {
+      return this._outputAmount
+    }
+
+    const outputCurrency = this.swaps[0]!.outputAmount.currency
+    this._outputAmount = this.swaps
+      .map(({ outputAmount }) => outputAmount)
+      .reduce((total, cur) => total.add(cur), CurrencyAmount.fromRawAmount(outputCurrency, 0))
+    return this._outputAmount
+  }
+
+  /**
+   * The price expressed in terms of output amount/input amount
+   */
+  public get executionPrice(): Price<TInput, TOutput> {
+    if (this._executionPrice === undefined) {
+      this._executionPrice = new Price(
+        this.inputAmount.currency,
+        this.outputAmount.currency,
+        this.inputAmount.quotient,
+        this.outputAmount.quotient
+      )
+    }
+    return this._executionPrice
+  }
+
+  /**
+   * Returns the percent difference between the route's mid price and the execution price
+   */
+  public get priceImpact(): Percent {
+    if (this._priceImpact) {
+      return this._priceImpact
+    }
+
+    let spotOutputAmount = CurrencyAmount.fromRawAmount(this.outputAmount.currency, 0)
+    for (const { route, inputAmount } of this.swaps) {
+      spotOutputAmount = spotOutputAmount.add(route.midPrice.quote(inputAmount))
+    }
+
+    const priceImpact = spotOutputAmount.subtract(this.outputAmount).divide(spotOutputAmount)
+    this._priceImpact = new Percent(priceImpact.numerator, priceImpact.denominator)
+
+    return this._priceImpact
+  }
+
+  /**
+   * Constructs a trade by simulating swaps through the given route
+   * @param route Route to swap through
+   * @param amount The exact input amount
+   * @param tradeType The trade type, which must be exact input
+   * @returns The trade
+   */
+  public static async fromRoute<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType>(
+    route: MixedRoute<TInput, TOutput>,
+    amount: CurrencyAmount<TInput>,
+    tradeType: TTradeType
+  ): Promise<MixedRouteTrade<TInput, TOutput, TTradeType>> {
+    invariant(tradeType === TradeType.EXACT_INPUT, 'TRADE_TYPE')
+    invariant(amount.currency.equals(route.input), 'INPUT')
+
+    const amountOut = await getOutputOfPools(route.pools, amount)
+    const inputAmount = CurrencyAmount.fromFractionalAmount(route.input, amount.numerator, amount.denominator)
+    const outputAmount = CurrencyAmount.fromFractionalAmount(route.output, amountOut.numerator, amountOut.denominator)
+
+    return new MixedRouteTrade({
+      routes: [{ inputAmount, outputAmount, route }],
+      tradeType,
+    })
+  }
+
+  /**
+   * Constructs a trade from routes by simulating swaps
+   * @param routes The routes to swap through and how much of the input should be routed through each
+   * @param tradeType The trade type, which must be exact input
+   * @returns The trade
+   */
+  public static async fromRoutes<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType>(
+    routes: {
+      amount: CurrencyAmount<TInput>
+      route: MixedRoute<TInput, TOutput>
+    }[],
+    tradeType: TTradeType
+  ): Promise<MixedRouteTrade<TInput, TOutput, TTradeType>> {
+    const swaps = await Promise.all(
+      routes.map(async ({ amount, route }) => {
+        const trade = await MixedRouteTrade.fromRoute(route, amount, tradeType)
+        return trade.swaps[0]!
+      })
+    )
+
+    return new MixedRouteTrade({
+      routes: swaps,
+      tradeType,
+    })
+  }
+
+  /**
+   * Creates a trade without computing the result of swapping through the route
+   * Useful when you have simulated the trade elsewhere and do not have any tick data
+   * @param constructorArguments The arguments passed to the trade constructor
+   * @returns The unchecked trade
+   */
+  public static createUncheckedTrade<
+    TInput extends Currency,
+    TOutput extends Currency,
+    TTradeType extends TradeType,
+  >(constructorArguments: {
+    route: MixedRoute<TInput, TOutput>
+    inputAmount: CurrencyAmount<TInput>
+    outputAmount: CurrencyAmount<TOutput>
+    tradeType: TTradeType
+  }): MixedRouteTrade<TInput, TOutput, TTradeType> {
+    return new MixedRouteTrade({
+      ...constructorArguments,
+      routes: [
+        {
+          inputAmount: constructorArguments.inputAmount,
+          outputAmount: constructorArguments.outputAmount,
+          route: constructorArguments.route,
+        },
+      ],
+    })
+  }
+
+  /**
+   * Creates a trade without computing the result of swapping through the routes
+   * Useful when you have simulated the trade elsewhere and do not have any tick data
+   * @param constructorArguments The arguments passed to the trade constructor
+   * @returns The unchecked trade
+   */
+  public static createUncheckedTradeWithMultipleRoutes<
+    TInput extends Currency,
+    TOutput extends Currency,
+    TTradeType extends TradeType,
+  >(constructorArguments: {
+    routes: {
+      route: MixedRoute<TInput, TOutput>
+      inputAmount: CurrencyAmount<TInput>
+      outputAmount: CurrencyAmount<TOutput>
+    }[]
+    tradeType: TTradeType
+  }): MixedRouteTrade<TInput, TOutput, TTradeType> {
+    return new MixedRouteTrade(constructorArguments)
+  }
+
+  /**
+   * Construct a trade by passing in the pre-computed property values
+   */
+  private constructor({
+    routes,
+    tradeType,
+  }: {
+    routes: {
+      route: MixedRoute<TInput, TOutput>
+      inputAmount: CurrencyAmount<TInput>
+      outputAmount: CurrencyAmount<TOutput>
+    }[]
+    tradeType: TTradeType
+  }) {
+    invariant(tradeType === TradeType.EXACT_INPUT, 'TRADE_TYPE')
+
+    const inputCurrency = routes[0]!.inputAmount.currency
+    const outputCurrency = routes[0]!.outputAmount.currency
+
+    invariant(
+      routes.every(({ route }) => inputCurrency.equals(route.input)),
+      'INPUT_CURRENCY_MATCH'
+    )
+    invariant(
+      routes.every(({ route }) => outputCurrency.equals(route.output)),
+      'OUTPUT_CURRENCY_MATCH'
+    )
+
+    const numPools = routes.map(({ route }) => route.pools.length).reduce((total, cur) => total + cur, 0)
+    const poolIdentifierSet = new Set<string>()
+    for (const { route } of routes) {
+      for (const pool of route.pools) {
+        poolIdentifierSet.add(poolIdentifier(pool))
+      }
+    }
+
+    invariant(numPools === poolIdentifierSet.size, 'POOLS_DUPLICATED')
+
+    this.swaps = routes
+    this.tradeType = tradeType
+  }
+
+  /**
+   * Get the minimum amount that must be received from this trade for the given slippage tolerance
+   * @param slippageTolerance The tolerance of unfavorable slippage from the execution price
+   * @param amountOut Optional amount out to use instead of the trade's output amount
+   * @returns The minimum amount out
+   */
+  public minimumAmountOut(slippageTolerance: Percent, amountOut = this.outputAmount): CurrencyAmount<TOutput> {
+    invariant(!slippageTolerance.lessThan(ZERO_PERCENT), 'SLIPPAGE_TOLERANCE')
+    const slippageAdjustedAmountOut = new Fraction(ONE)
+      .add(slippageTolerance)
+      .invert()
+      .multiply(amountOut.quotient).quotient
+    return CurrencyAmount.fromRawAmount(amountOut.currency, slippageAdjustedAmountOut)
+  }
+
+  /**
+   * Get the maximum amount in that can be spent via this trade for the given slippage tolerance,
+   * which is the exact input amount
+   * @param slippageTolerance The tolerance of unfavorable slippage from the execution price
+   * @param amountIn Optional amount in to use instead of the trade's input amount
+   * @returns The maximum amount in
+   */
+  public maximumAmountIn(slippageTolerance: Percent, amountIn = this.inputAmount): CurrencyAmount<TInput> {
+    invariant(!slippageTolerance.lessThan(ZERO_PERCENT), 'SLIPPAGE_TOLERANCE')
+    return amountIn
+  }
+
+  /**
+   * Return the execution price after accounting for slippage tolerance
+   * @param slippageTolerance The allowed tolerated slippage
+   * @returns The worst execution price
+   */
+  public worstExecutionPrice(slippageTolerance: Percent): Price<TInput, TOutput> {
+    return new Price(
+      this.inputAmount.currency,
+      this.outputAmount.currency,
+      this.maximumAmountIn(slippageTolerance).quotient,
+      this.minimumAmountOut(slippageTolerance).quotient
+    )
+  }
+}
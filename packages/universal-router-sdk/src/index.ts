@@ -0,0 +1,14 @@
+// Re-export utilities
+export * from './utils'
+
+// Re-export entities
+export * from './entities'
+
+// Re-export contract interfaces
+export * from './swapRouter'
+
+// Re-export calldata decoding
+export * from './calldataDecoder'
+
+// Re-export pool loading
+export * from './poolLoader'
@@ -0,0 +1,277 @@
+import {
+  type BlockTag,
+  CHAIN_TO_ADDRESSES_MAP,
+  type Currency,
+  CurrencyAmount,
+  type MulticallCall,
+  type MulticallResult,
+  type SupportedChainsType,
+  type Token,
+  type Transport,
+  V3_CORE_FACTORY_ADDRESSES,
+  multicall,
+} from '@muniswap/sdk-core'
+import { Pair } from '@muniswap/v2-sdk'
+import { type FeeAmount, TICK_SPACINGS, TickLensDataProvider, Pool as V3Pool } from '@muniswap/v3-sdk'
+import { DYNAMIC_FEE_FLAG, StateView, StateViewTickDataProvider, Pool as V4Pool } from '@muniswap/v4-sdk'
+import { AbiFunction } from 'ox'
+import invariant from 'tiny-invariant'
+
+const GET_RESERVES_ABI = AbiFunction.from(
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+)
+const SLOT0_ABI = AbiFunction.from(
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+)
+const LIQUIDITY_ABI = AbiFunction.from('function liquidity() view returns (uint128)')
+
+/**
+ * A pool to load, identified the same way as the pool entity of its protocol
+ */
+export type PoolRequest =
+  | { protocol: 'V2'; tokenA: Token; tokenB: Token }
+  | { protocol: 'V3'; tokenA: Token; tokenB: Token; fee: FeeAmount }
+  | {
+      protocol: 'V4'
+      currencyA: Currency
+      currencyB: Currency
+      fee: number
+      tickSpacing: number
+      hooks: string
+    }
+
+/**
+ * The pool entity loaded for a request
+ */
+export type LoadedPool<TRequest extends PoolRequest> = TRequest extends { protocol: 'V2' }
+  ? Pair
+  : TRequest extends { protocol: 'V3' }
+    ? V3Pool
+    : V4Pool
+
+export interface PoolLoaderOptions {
+  /** The transport to read through */
+  transport: Transport
+  /** The chain the pools are on */
+  chainId: number
+  /** The maximum number of calls per eth_call (default: 100) */
+  batchSize?: number
+  /** The multicall contract (default: MULTICALL_ADDRESSES[chainId]) */
+  multicallAddress?: string
+  /** The V4 StateView contract (default: the StateView of the chain) */
+  stateViewAddress?: string
+  /** The V3 TickLens contract (default: TICK_LENS_ADDRESSES[chainId]) */
+  tickLensAddress?: string
+  /**
+   * Whether to give V3 and V4 pools tick data providers that load ticks on demand at the block of the load
+   * (default: false)
+   */
+  loadTicks?: boolean
+}
+
+/**
+ * Decodes the result of a call, or returns undefined if the call failed or hit an address without code
+ */
+function decodeResult<const TAbi extends AbiFunction.AbiFunction>(
+  abi: TAbi,
+  result: MulticallResult | undefined
+): AbiFunction.decodeResult.ReturnType<TAbi> | undefined {
+  if (!isSuccess(result)) return undefined
+  return AbiFunction.decodeResult(abi, result.returnData)
+}
+
+function isSuccess(result: MulticallResult | undefined): result is MulticallResult {
+  return result?.success === true && result.returnData !== '0x'
+}
+
+/**
+ * Loads the state of V2, V3 and V4 pools through a transport. All reads of a load are batched through
+ * multicall and pinned to one block, so the pools are consistent with each other.
+ *
+ * Dynamic fee V4 pools are loaded with the current LP fee from StateView's getSlot0.
+ *
+ * Unless `loadTicks` is set, loaded V3 and V4 pools have no tick data, so they can only price swaps that stay
+ * within the current tick.
+ */
+export class PoolLoader {
+  public readonly transport: Transport
+  public readonly chainId: number
+  private readonly batchSize: number | undefined
+  private readonly multicallAddress: string | undefined
+  private readonly stateViewAddress: string | undefined
+  private readonly tickLensAddress: string | undefined
+  private readonly loadTicks: boolean
+
+  public constructor({
+    transport,
+    chainId,
+    batchSize,
+    multicallAddress,
+    stateViewAddress,
+    tickLensAddress,
+    loadTicks = false,
+  }: PoolLoaderOptions) {
+    this.transport = transport
+    this.chainId = chainId
+    this.batchSize = batchSize
+    this.multicallAddress = multicallAddress
+    this.tickLensAddress = tickLensAddress
+    this.loadTicks = loadTicks
+    this.stateViewAddress =
+      stateViewAddress ?? (CHAIN_TO_ADDRESSES_MAP[chainId as SupportedChainsType] ?? undefined)?.v4StateView
+  }
+
+  /**
+   * Loads pools at one block
+   * @param requests The pools to load
+   * @param blockTag The block to load the pools at (default: latest)
+   * @returns The block number read at and the pool for each request, or undefined for pools that do not
+   * exist or are not initialized
+   */
+  public async load<const TRequests extends readonly PoolRequest[]>(
+    requests: TRequests,
+    blockTag: BlockTag = 'latest'
+  ): Promise<{
+    blockNumber: bigint
+    pools: { -readonly [K in keyof TRequests]: LoadedPool<TRequests[K]> | undefined }
+  }> {
+    const calls: MulticallCall[] = []
+    const offsets = requests.map((request) => {
+      const offset = calls.length
+      calls.push(...this.callsFor(request))
+      return offset
+    })
+
+    const { blockNumber, results } = await multicall(this.transport, this.chainId, calls, {
+      blockTag,
+      ...(this.batchSize !== undefined && { batchSize: this.batchSize }),
+      ...(this.multicallAddress !== undefined && { multicallAddress: this.multicallAddress }),
+    })
+
+    const pools = requests.map((request, i) => this.decodePool(request, results.slice(offsets[i]!), blockNumber))
+    return { blockNumber, pools: pools as { -readonly [K in keyof TRequests]: LoadedPool<TRequests[K]> | undefined } }
+  }
+
+  private callsFor(request: PoolRequest): MulticallCall[] {
+    switch (request.protocol) {
+      case 'V2': {
+        this.validateChainId(request.tokenA, request.tokenB)
+        const target = Pair.getAddress(request.tokenA, request.tokenB)
+        return [{ target, callData: AbiFunction.encodeData(GET_RESERVES_ABI) }]
+      }
+      case 'V3': {
+        this.validateChainId(request.tokenA, request.tokenB)
+        const target = V3Pool.getAddress(
+          request.tokenA,
+          request.tokenB,
+          request.fee,
+          undefined,
+          V3_CORE_FACTORY_ADDRESSES[this.chainId]
+        )
+        return [
+          { target, callData: AbiFunction.encodeData(SLOT0_ABI) },
+          { target, callData: AbiFunction.encodeData(LIQUIDITY_ABI) },
+        ]
+      }
+      case 'V4': {
+        this.validateChainId(request.currencyA, request.currencyB)
+        invariant(this.stateViewAddress !== undefined, 'STATE_VIEW_ADDRESS')
+        const poolId = V4Pool.getPoolId(
+          request.currencyA,
+          request.currencyB,
+          request.fee,
+          request.tickSpacing,
+          request.hooks
+        )
+        return [
+          { target: this.stateViewAddress, callData: StateView.encodeGetSlot0(poolId) },
+          { target: this.stateViewAddress, callData: StateView.encodeGetLiquidity(poolId) },
+        ]
+      }
+    }
+  }
+
+  private decodePool(
+    request: PoolRequest,
+    results: MulticallResult[],
+    blockNumber: bigint
+  ): Pair | V3Pool | V4Pool | undefined {
+    const providerOptions = {
+      transport: this.transport,
+      chainId: this.chainId,
+      blockTag: blockNumber,
+      ...(this.batchSize !== undefined && { batchSize: this.batchSize }),
+      ...(this.multicallAddress !== undefined && { multicallAddress: this.multicallAddress }),
+    }
+
+    switch (request.protocol) {
+      case 'V2': {
+        const reserves = decodeResult(GET_RESERVES_ABI, results[0])
+        if (!reserves) return undefined
+        const [token0, token1] = request.tokenA.sortsBefore(request.tokenB)
+          ? [request.tokenA, request.tokenB]
+          : [request.tokenB, request.tokenA]
+        return new Pair(
+          CurrencyAmount.fromRawAmount(token0, reserves[0]),
+          CurrencyAmount.fromRawAmount(token1, reserves[1])
+        )
+      }
+      case 'V3': {
+        const slot0 = decodeResult(SLOT0_ABI, results[0])
+        const liquidity = decodeResult(LIQUIDITY_ABI, results[1])
+        if (!slot0 || liquidity === undefined || slot0[0] === 0n) return undefined
+        const ticks = this.loadTicks
+          ? new TickLensDataProvider({
+              ...providerOptions,
+              tickSpacing: TICK_SPACINGS[request.fee],
+              poolAddress: V3Pool.getAddress(
+                request.tokenA,
+                request.tokenB,
+                request.fee,
+                undefined,
+                V3_CORE_FACTORY_ADDRESSES[this.chainId]
+              ),
+              ...(this.tickLensAddress !== undefined && { tickLensAddress: this.tickLensAddress }),
+            })
+          : undefined
+        return new V3Pool(request.tokenA, request.tokenB, request.fee, slot0[0], liquidity, slot0[1], ticks)
+      }
+      case 'V4': {
+        if (!isSuccess(results[0]) || !isSuccess(results[1])) return undefined
+        const slot0 = StateView.decodeGetSlot0(results[0].returnData)
+        const liquidity = StateView.decodeGetLiquidity(results[1].returnData)
+        if (slot0.sqrtPriceX96 === 0n) return undefined
+        const ticks = this.loadTicks
+          ? new StateViewTickDataProvider({
+              ...providerOptions,
+              tickSpacing: request.tickSpacing,
+              poolId: V4Pool.getPoolId(
+                request.currencyA,
+                request.currencyB,
+                request.fee,
+                request.tickSpacing,
+                request.hooks
+              ),
+              ...(this.stateViewAddress !== undefined && { stateViewAddress: this.stateViewAddress }),
+            })
+          : undefined
+        return new V4Pool(
+          request.currencyA,
+          request.currencyB,
+          request.fee,
+          request.tickSpacing,
+          request.hooks,
+          slot0.sqrtPriceX96,
+          liquidity,
+          slot0.tick,
+          ticks,
+          request.fee === DYNAMIC_FEE_FLAG ? slot0.lpFee : undefined
+        )
+      }
+    }
+  }
+
+  private validateChainId(currencyA: Currency, currencyB: Currency): void {
+    invariant(currencyA.chainId === this.chainId && currencyB.chainId === this.chainId, 'CHAIN_ID')
+  }
+}
@@ -0,0 +1,515 @@
+import {
+  type BigintIsh,
+  CHAIN_TO_ADDRESSES_MAP,
+  type Currency,
+  CurrencyAmount,
+  Percent,
+  type SupportedChainsType,
+  TradeType,
+  validateAndParseAddress,
+} from '@muniswap/sdk-core'
+import { Trade as V2Trade } from '@muniswap/v2-sdk'
+import {
+  type Position as V3Position,
+  Route as V3Route,
+  Trade as V3Trade,
+  encodeRouteToPath as encodeV3RouteToPath,
+  removeCallParameters as removeV3CallParameters,
+} from '@muniswap/v3-sdk'
+import {
+  ADDRESS_THIS,
+  ADDRESS_ZERO,
+  Actions,
+  CONTRACT_BALANCE,
+  MSG_SENDER,
+  type MethodParameters,
+  Multicall,
+  OPEN_DELTA,
+  V4Planner,
+  type Position as V4Position,
+  V4PositionManager,
+  Route as V4Route,
+  Trade as V4Trade,
+  encodeRouteToPath as encodeV4RouteToPath,
+  toHex,
+} from '@muniswap/v4-sdk'
+import { AbiFunction, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import { MixedRouteTrade } from './entities/mixedRouteTrade'
+import { partitionMixedRouteByProtocol } from './utils/encodeMixedRouteToPath'
+import { CommandType, type PermitSingle, RoutePlanner } from './utils/routerCommands'
+import { universalRouterAbi } from './utils/universalRouterAbi'
+
+const BIPS_BASE = 10_000n
+
+const [executeWithDeadlineAbi, executeAbi] = universalRouterAbi
+
+const V3_PERMIT_ABI = AbiFunction.from(
+  'function permit(address spender, uint256 tokenId, uint256 deadline, uint8 v, bytes32 r, bytes32 s) payable'
+)
+
+/**
+ * A trade the Universal Router can execute
+ */
+export type RouterTrade<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType> =
+  | V2Trade<TInput, TOutput, TTradeType>
+  | V3Trade<TInput, TOutput, TTradeType>
+  | V4Trade<TInput, TOutput, TTradeType>
+  | MixedRouteTrade<TInput, TOutput, TTradeType>
+
+/**
+ * A signed Permit2 allowance, executed with a PERMIT2_PERMIT command
+ */
+export interface Permit2Permit extends PermitSingle {
+  signature: string
+}
+
+/**
+ * A portion of the output paid to a fee recipient
+ */
+export interface FeeOptions {
+  /** The portion of the output to pay */
+  fee: Percent
+  /** The recipient of the fee */
+  recipient: string
+}
+
+/**
+ * Options for producing the calldata to execute a trade through the Universal Router
+ */
+export interface SwapOptions {
+  /** How much the execution price is allowed to move unfavorably from the trade execution price */
+  slippageTolerance: Percent
+  /** The account that receives the output (default: MSG_SENDER) */
+  recipient?: string
+  /** When the transaction expires, in epoch seconds (default: no deadline) */
+  deadline?: BigintIsh
+  /** The optional Permit2 signature for the input token */
+  inputTokenPermit?: Permit2Permit
+  /** The optional fee taken from the output */
+  fee?: FeeOptions
+}
+
+/**
+ * Options for encoding an execute call
+ */
+export interface ExecuteOptions {
+  /** When the transaction expires, in epoch seconds (default: no deadline) */
+  deadline?: BigintIsh
+  /** The amount of ether (wei) to send with the call */
+  value?: BigintIsh
+}
+
+/**
+ * A signed ERC721 permit of a V3 position, executed with a V3_POSITION_MANAGER_PERMIT command
+ */
+export interface V3PositionPermit {
+  /** The approved account, i.e. the Universal Router */
+  spender: string
+  /** When the permit expires, in epoch seconds */
+  deadline: BigintIsh
+  v: 0 | 1 | 27 | 28
+  r: string
+  s: string
+}
+
+/**
+ * Options for producing the calldata to migrate a V3 position to V4 through the Universal Router
+ */
+export interface MigrateV3ToV4Options {
+  /** The id of the V3 position, which is fully removed and burned */
+  tokenId: BigintIsh
+  /** How much the prices of the V3 and V4 pools are allowed to move */
+  slippageTolerance: Percent
+  /** The account that receives the V4 position and the currencies the V4 mint does not spend */
+  recipient: string
+  /** When the transaction expires, in epoch seconds */
+  deadline: BigintIsh
+  /** The optional permit of the V3 position to the Universal Router, if the router is not approved */
+  v3Permit?: V3PositionPermit
+  /** Initial price of the V4 pool, which is created if set */
+  sqrtPriceX96?: BigintIsh
+  /** Optional data to pass to the V4 hooks */
+  hookData?: string
+  /** The V4 PositionManager (default: the V4 PositionManager of the chain) */
+  v4PositionManagerAddress?: string
+}
+
+// A single route of a trade, as a trade of its own
+type RouteSwap =
+  | { protocol: 'V2'; trade: V2Trade<Currency, Currency, TradeType> }
+  | { protocol: 'V3'; trade: V3Trade<Currency, Currency, TradeType> }
+  | { protocol: 'V4'; trade: V4Trade<Currency, Currency, TradeType> }
+  | { protocol: 'MIXED'; trade: MixedRouteTrade<Currency, Currency, TradeType> }
+
+function toRouteSwaps(trade: RouterTrade<Currency, Currency, TradeType>): RouteSwap[] {
+  if (trade instanceof V2Trade) {
+    return [{ protocol: 'V2', trade }]
+  }
+  if (trade instanceof V3Trade) {
+    return trade.swaps.map((swap) => ({
+      protocol: 'V3',
+      trade: V3Trade.createUncheckedTrade({ ...swap, tradeType: trade.tradeType }),
+    }))
+  }
+  if (trade instanceof MixedRouteTrade) {
+    return trade.swaps.map((swap) => ({
+      protocol: 'MIXED',
+      trade: MixedRouteTrade.createUncheckedTrade({ ...swap, tradeType: trade.tradeType }),
+    }))
+  }
+  return trade.swaps.map((swap) => ({
+    protocol: 'V4',
+    trade: V4Trade.createUncheckedTrade({ ...swap, tradeType: trade.tradeType }),
+  }))
+}
+
+// The currency a route starts from; V2 and V3 pools only hold wrapped native
+function pathInput(swap: RouteSwap): Currency {
+  return swap.protocol === 'V4' || swap.protocol === 'MIXED'
+    ? swap.trade.route.pathInput
+    : swap.trade.inputAmount.currency.wrapped
+}
+
+// The currency a route ends in; V2 and V3 pools only hold wrapped native
+function pathOutput(swap: RouteSwap): Currency {
+  return swap.protocol === 'V4' || swap.protocol === 'MIXED'
+    ? swap.trade.route.pathOutput
+    : swap.trade.outputAmount.currency.wrapped
+}
+
+function uniqueCurrencies(currencies: Currency[]): Currency[] {
+  return currencies.filter((currency, i) => currencies.findIndex((other) => other.equals(currency)) === i)
+}
+
+function currencyAddress(currency: Currency): string {
+  return currency.isNative ? ADDRESS_ZERO : currency.address
+}
+
+/**
+ * Adds the commands swapping a mixed route, one per section of consecutive pools of the same protocol.
+ * The first section spends the input amount, later sections spend the router's whole balance of the previous
+ * section's output, wrapping or unwrapping native currency between sections.
+ */
+function addMixedRouteSwap(
+  planner: RoutePlanner,
+  trade: MixedRouteTrade<Currency, Currency, TradeType>,
+  options: { amountIn: bigint; amountOutMinimum: bigint; payerIsUser: boolean; recipient: string }
+): void {
+  const sections = partitionMixedRouteByProtocol(trade.route)
+
+  for (const [i, section] of sections.entries()) {
+    const isFirst = i === 0
+    const isLast = i === sections.length - 1
+    const input = section.path[0]!
+    const output = section.path[section.path.length - 1]!
+
+    if (!isFirst) {
+      const previousPath = sections[i - 1]!.path
+      const previousOutput = previousPath[previousPath.length - 1]!
+      if (previousOutput.isNative && !input.isNative) {
+        planner.addCommand(CommandType.WRAP_ETH, [ADDRESS_THIS, CONTRACT_BALANCE])
+      } else if (!previousOutput.isNative && input.isNative) {
+        planner.addCommand(CommandType.UNWRAP_WETH, [ADDRESS_THIS, 0n])
+      }
+    }
+
+    const amountIn = isFirst ? options.amountIn : CONTRACT_BALANCE
+    const amountOutMinimum = isLast ? options.amountOutMinimum : 0n
+    const payerIsUser = isFirst && options.payerIsUser
+    const recipient = isLast ? options.recipient : ADDRESS_THIS
+
+    switch (section.protocol) {
+      case 'V2': {
+        const path = section.path.map((currency) => currency.wrapped.address)
+        planner.addCommand(CommandType.V2_SWAP_EXACT_IN, [recipient, amountIn, amountOutMinimum, path, payerIsUser])
+        break
+      }
+      case 'V3': {
+        const path = encodeV3RouteToPath(new V3Route(section.pools, input.wrapped, output.wrapped), false)
+        planner.addCommand(CommandType.V3_SWAP_EXACT_IN, [recipient, amountIn, amountOutMinimum, path, payerIsUser])
+        break
+      }
+      case 'V4': {
+        const v4Planner = new V4Planner()
+        v4Planner.addSettle(input, payerIsUser, amountIn)
+        v4Planner.addAction(Actions.SWAP_EXACT_IN, [
+          {
+            currencyIn: currencyAddress(input),
+            path: encodeV4RouteToPath(new V4Route(section.pools, input, output)),
+            amountIn: OPEN_DELTA,
+            amountOutMinimum,
+          },
+        ])
+        v4Planner.addTake(output, recipient)
+        planner.addV4Swap(v4Planner)
+        break
+      }
+    }
+  }
+}
+
+/**
+ * Encodes the execute call for a plan
+ * @param planner The commands to execute
+ * @param options The deadline and value of the call
+ * @returns The call parameters
+ */
+export function executeCallParameters(planner: RoutePlanner, options: ExecuteOptions = {}): MethodParameters {
+  const commands = planner.commands as Hex.Hex
+  const inputs = planner.inputs as Hex.Hex[]
+  const calldata =
+    options.deadline === undefined
+      ? AbiFunction.encodeData(executeAbi, [commands, inputs])
+      : AbiFunction.encodeData(executeWithDeadlineAbi, [commands, inputs, BigInt(options.deadline)])
+
+  return { calldata, value: toHex(options.value ?? 0) }
+}
+
+/**
+ * Produces the calldata for executing trades through the Universal Router.
+ * V2 and V3 routes are encoded as their own swap commands, V4 routes are combined into a single V4_SWAP
+ * command built with V4Planner. Mixed routes are encoded as one command per protocol section. Native input is wrapped for V2/V3 routes, and the output is collected by the
+ * router whenever it has to be unwrapped or a fee is taken.
+ *
+ * @param trades The trade(s) to execute, all with the same input, output and trade type
+ * @param options Options for the call parameters
+ * @returns The call parameters
+ */
+export function swapCallParameters<TInput extends Currency, TOutput extends Currency>(
+  trades: RouterTrade<TInput, TOutput, TradeType> | RouterTrade<TInput, TOutput, TradeType>[],
+  options: SwapOptions
+): MethodParameters {
+  const tradeList = Array.isArray(trades) ? trades : [trades]
+
+  const sampleTrade = tradeList[0]
+  invariant(sampleTrade !== undefined, 'NO_TRADES')
+  const inputCurrency: Currency = sampleTrade.inputAmount.currency
+  const outputCurrency: Currency = sampleTrade.outputAmount.currency
+  invariant(
+    tradeList.every((trade) => trade.inputAmount.currency.equals(inputCurrency)),
+    'TOKEN_IN_DIFF'
+  )
+  invariant(
+    tradeList.every((trade) => trade.outputAmount.currency.equals(outputCurrency)),
+    'TOKEN_OUT_DIFF'
+  )
+  invariant(
+    tradeList.every((trade) => trade.tradeType === sampleTrade.tradeType),
+    'TRADE_TYPE_DIFF'
+  )
+
+  const { slippageTolerance } = options
+  const exactOutput = sampleTrade.tradeType === TradeType.EXACT_OUTPUT
+  const inputIsNative = inputCurrency.isNative
+  const outputIsNative = outputCurrency.isNative
+  const recipient = validateAndParseAddress(options.recipient ?? MSG_SENDER)
+
+  const swaps = tradeList.flatMap(toRouteSwaps)
+  // Native input is sent as value, so the router pays from its own balance
+  const payerIsUser = !inputIsNative
+  // The router collects the output when it has to be converted or a fee is taken
+  const routerMustCustody = !!options.fee || swaps.some((swap) => !pathOutput(swap).equals(outputCurrency))
+  const swapRecipient = routerMustCustody ? ADDRESS_THIS : recipient
+
+  const planner = new RoutePlanner()
+
+  if (options.inputTokenPermit) {
+    invariant(!inputIsNative, 'NATIVE_PERMIT')
+    const { signature, ...permit } = options.inputTokenPermit
+    planner.addCommand(CommandType.PERMIT2_PERMIT, [permit, signature])
+  }
+
+  const wrapAmount = inputIsNative
+    ? swaps
+        .filter((swap) => !pathInput(swap).isNative)
+        .reduce((total, swap) => total + swap.trade.maximumAmountIn(slippageTolerance).quotient, 0n)
+    : 0n
+  if (wrapAmount > 0n) {
+    planner.addCommand(CommandType.WRAP_ETH, [ADDRESS_THIS, wrapAmount])
+  }
+
+  const v4Planner = new V4Planner()
+  for (const swap of swaps) {
+    const amountIn = swap.trade.maximumAmountIn(slippageTolerance).quotient
+    const amountOut = swap.trade.minimumAmountOut(slippageTolerance).quotient
+
+    switch (swap.protocol) {
+      case 'V2': {
+        const path = swap.trade.route.path.map((token) => token.address)
+        if (exactOutput) {
+          planner.addCommand(CommandType.V2_SWAP_EXACT_OUT, [swapRecipient, amountOut, amountIn, path, payerIsUser])
+        } else {
+          planner.addCommand(CommandType.V2_SWAP_EXACT_IN, [swapRecipient, amountIn, amountOut, path, payerIsUser])
+        }
+        break
+      }
+      case 'V3': {
+        const path = encodeV3RouteToPath(swap.trade.route, exactOutput)
+        if (exactOutput) {
+          planner.addCommand(CommandType.V3_SWAP_EXACT_OUT, [swapRecipient, amountOut, amountIn, path, payerIsUser])
+        } else {
+          planner.addCommand(CommandType.V3_SWAP_EXACT_IN, [swapRecipient, amountIn, amountOut, path, payerIsUser])
+        }
+        break
+      }
+      case 'V4':
+        v4Planner.addTrade(swap.trade, slippageTolerance)
+        break
+      case 'MIXED':
+        addMixedRouteSwap(planner, swap.trade, {
+          amountIn,
+          amountOutMinimum: amountOut,
+          payerIsUser,
+          recipient: swapRecipient,
+        })
+        break
+    }
+  }
+
+  const v4Swaps = swaps.filter((swap) => swap.protocol === 'V4')
+  if (v4Swaps.length > 0) {
+    for (const currency of uniqueCurrencies(v4Swaps.map(pathInput))) {
+      v4Planner.addSettle(currency, payerIsUser)
+    }
+    for (const currency of uniqueCurrencies(v4Swaps.map(pathOutput))) {
+      v4Planner.addTake(currency, swapRecipient)
+    }
+    planner.addV4Swap(v4Planner)
+  }
+
+  if (routerMustCustody) {
+    if (swaps.some((swap) => pathOutput(swap).isNative !== outputIsNative)) {
+      if (outputIsNative) planner.addCommand(CommandType.UNWRAP_WETH, [ADDRESS_THIS, 0n])
+      else planner.addCommand(CommandType.WRAP_ETH, [ADDRESS_THIS, CONTRACT_BALANCE])
+    }
+
+    const outputAddress = currencyAddress(outputCurrency)
+    let minimumAmountOut = tradeList.reduce(
+      (total, trade) => total + trade.minimumAmountOut(slippageTolerance).quotient,
+      0n
+    )
+    if (options.fee) {
+      const feeBips = options.fee.fee.multiply(BIPS_BASE).quotient
+      planner.addCommand(CommandType.PAY_PORTION, [
+        outputAddress,
+        validateAndParseAddress(options.fee.recipient),
+        feeBips,
+      ])
+      minimumAmountOut -= (minimumAmountOut * feeBips) / BIPS_BASE
+    }
+    planner.addCommand(CommandType.SWEEP, [outputAddress, recipient, minimumAmountOut])
+  }
+
+  // Refund the native input an exact output trade did not spend
+  if (inputIsNative && exactOutput) {
+    if (wrapAmount > 0n) planner.addCommand(CommandType.UNWRAP_WETH, [MSG_SENDER, 0n])
+    planner.addCommand(CommandType.SWEEP, [ADDRESS_ZERO, MSG_SENDER, 0n])
+  }
+
+  const value = inputIsNative
+    ? tradeList.reduce((total, trade) => total + trade.maximumAmountIn(slippageTolerance).quotient, 0n)
+    : 0n
+
+  return executeCallParameters(
+    planner,
+    options.deadline === undefined ? { value } : { deadline: options.deadline, value }
+  )
+}
+
+/**
+ * Produces the calldata for migrating a V3 position to V4 through the Universal Router.
+ * The V3 position is fully removed and burned, with its currencies collected to the V4 PositionManager, which mints
+ * the V4 position from them. For V4 pools of native currency the PositionManager unwraps the WETH it needs, and it
+ * sweeps the currencies it does not spend to the recipient.
+ *
+ * @param v3Position The V3 position to migrate
+ * @param v4Position The V4 position to mint, whose slippage-adjusted maximum amounts the V3 position must cover
+ * @param options Options for the call parameters
+ * @returns The call parameters
+ */
+export function migrateV3ToV4CallParameters(
+  v3Position: V3Position,
+  v4Position: V4Position,
+  options: MigrateV3ToV4Options
+): MethodParameters {
+  const { token0, token1, chainId } = v3Position.pool
+  const { currency0, currency1 } = v4Position.pool
+  invariant(
+    (token0.equals(currency0.wrapped) && token1.equals(currency1.wrapped)) ||
+      (token0.equals(currency1.wrapped) && token1.equals(currency0.wrapped)),
+    'TOKEN_MISMATCH'
+  )
+
+  // The V3 amounts must cover the V4 mint even if both prices move by the slippage tolerance
+  const v3Minimums = v3Position.burnAmountsWithSlippage(options.slippageTolerance)
+  const v4Maximums = v4Position.mintAmountsWithSlippage(options.slippageTolerance)
+  const v3Minimum0 = token0.equals(currency0.wrapped) ? v3Minimums.amount0 : v3Minimums.amount1
+  const v3Minimum1 = token0.equals(currency0.wrapped) ? v3Minimums.amount1 : v3Minimums.amount0
+  invariant(v3Minimum0 >= v4Maximums.amount0 && v3Minimum1 >= v4Maximums.amount1, 'INSUFFICIENT_AMOUNT')
+
+  const positionManager =
+    options.v4PositionManagerAddress ??
+    (CHAIN_TO_ADDRESSES_MAP[chainId as SupportedChainsType] ?? undefined)?.v4PositionManagerAddress
+  invariant(positionManager !== undefined, 'V4_POSITION_MANAGER_ADDRESS')
+
+  const planner = new RoutePlanner()
+
+  if (options.v3Permit) {
+    const { spender, deadline, v, r, s } = options.v3Permit
+    planner.addCommand(CommandType.V3_POSITION_MANAGER_PERMIT, [
+      AbiFunction.encodeData(V3_PERMIT_ABI, [
+        validateAndParseAddress(spender) as Hex.Hex,
+        BigInt(options.tokenId),
+        BigInt(deadline),
+        v,
+        r as Hex.Hex,
+        s as Hex.Hex,
+      ]),
+    ])
+  }
+
+  // The router calls the V3 PositionManager once per call, so the decrease, collect and burn are separate commands
+  const { calldata: v3Calldata } = removeV3CallParameters(v3Position, {
+    tokenId: options.tokenId,
+    liquidityPercentage: new Percent(1),
+    slippageTolerance: options.slippageTolerance,
+    deadline: BigInt(options.deadline),
+    burnToken: true,
+    collectOptions: {
+      tokenId: options.tokenId,
+      expectedCurrencyOwed0: CurrencyAmount.fromRawAmount(token0, 0),
+      expectedCurrencyOwed1: CurrencyAmount.fromRawAmount(token1, 0),
+      recipient: positionManager,
+    },
+  })
+  for (const calldata of Multicall.decodeMulticall(v3Calldata)) {
+    planner.addCommand(CommandType.V3_POSITION_MANAGER_CALL, [calldata as Hex.Hex])
+  }
+
+  if (options.sqrtPriceX96 !== undefined) {
+    const { poolKey } = v4Position.pool
+    planner.addCommand(CommandType.V4_INITIALIZE_POOL, [
+      {
+        currency0: poolKey.currency0 as Hex.Hex,
+        currency1: poolKey.currency1 as Hex.Hex,
+        fee: poolKey.fee,
+        tickSpacing: poolKey.tickSpacing,
+        hooks: poolKey.hooks as Hex.Hex,
+      },
+      BigInt(options.sqrtPriceX96),
+    ])
+  }
+
+  const { calldata: v4Calldata } = V4PositionManager.addCallParameters(v4Position, {
+    recipient: options.recipient,
+    migrate: true,
+    slippageTolerance: options.slippageTolerance,
+    deadline: options.deadline,
+    ...(options.hookData === undefined ? {} : { hookData: options.hookData }),
+    ...(currency0.isNative ? { useNative: currency0 } : {}),
+  })
+  planner.addCommand(CommandType.V4_POSITION_MANAGER_CALL, [v4Calldata as Hex.Hex])
+
+  return executeCallParameters(planner, { deadline: options.deadline })
+}
@@ -0,0 +1,328 @@
+import { type PoolKey, V4BaseActionsParser, type V4RouterAction } from '@muniswap/v4-sdk'
+import { AbiFunction, AbiParameters, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import { type PositionManagerCall, PositionManagerParser } from './positionManagerParser'
+import {
+  ALLOW_REVERT_FLAG,
+  type AllowanceTransferDetails,
+  COMMAND_DEFINITION,
+  type CommandParams,
+  CommandType,
+  type PermitBatch,
+  type PermitDetails,
+  type PermitSingle,
+  commandAbiParameters,
+  isRawCalldataCommand,
+} from './routerCommands'
+import { universalRouterAbi } from './universalRouterAbi'
+
+const [executeWithDeadlineAbi, executeAbi] = universalRouterAbi
+
+// The calls nested in a command's input, decoded alongside its params
+type NestedCall<TCommand extends CommandType> = TCommand extends CommandType.V4_SWAP
+  ? { readonly v4Actions: readonly V4RouterAction[] }
+  : TCommand extends CommandType.EXECUTE_SUB_PLAN
+    ? { readonly subPlan: readonly UniversalRouterCommand[] }
+    : TCommand extends CommandType.V4_POSITION_MANAGER_CALL
+      ? { readonly positionManagerCall: PositionManagerCall }
+      : unknown
+
+/**
+ * A decoded command. Narrowing on commandType types params by COMMAND_DEFINITION.
+ */
+export type UniversalRouterCommand<TCommand extends CommandType = CommandType> = TCommand extends CommandType
+  ? {
+      readonly commandName: string
+      readonly commandType: TCommand
+      readonly allowRevert: boolean
+      readonly params: CommandParams<TCommand>
+    } & NestedCall<TCommand>
+  : never
+
+/**
+ * A decoded Universal Router execute call
+ */
+export type UniversalRouterCall = {
+  readonly functionName: 'execute'
+  readonly commands: readonly UniversalRouterCommand[]
+  readonly deadline?: bigint
+}
+
+// The raw input of a command, which nested calls are decoded from
+type CommandInput = { readonly input: Hex.Hex; readonly allowRevert: boolean }
+
+// ox decodes named tuple components into objects keyed by component name
+type DecodedStruct = Record<string, unknown>
+
+function bigintValue(value: unknown): bigint {
+  invariant(typeof value === 'bigint', 'PARAM_TYPE')
+  return value
+}
+
+function numberValue(value: unknown): number {
+  invariant(typeof value === 'number', 'PARAM_TYPE')
+  return value
+}
+
+function stringValue(value: unknown): string {
+  invariant(typeof value === 'string', 'PARAM_TYPE')
+  return value
+}
+
+function stringArrayValue(value: unknown): string[] {
+  invariant(Array.isArray(value), 'PARAM_TYPE')
+  return value.map(stringValue)
+}
+
+function booleanValue(value: unknown): boolean {
+  invariant(typeof value === 'boolean', 'PARAM_TYPE')
+  return value
+}
+
+function parsePermitDetails(data: DecodedStruct): PermitDetails {
+  return {
+    token: stringValue(data.token),
+    amount: bigintValue(data.amount),
+    expiration: numberValue(data.expiration),
+    nonce: numberValue(data.nonce),
+  }
+}
+
+function parsePermitSingle(data: DecodedStruct): PermitSingle {
+  return {
+    details: parsePermitDetails(data.details as DecodedStruct),
+    spender: stringValue(data.spender),
+    sigDeadline: bigintValue(data.sigDeadline),
+  }
+}
+
+function parsePermitBatch(data: DecodedStruct): PermitBatch {
+  return {
+    details: (data.details as DecodedStruct[]).map(parsePermitDetails),
+    spender: stringValue(data.spender),
+    sigDeadline: bigintValue(data.sigDeadline),
+  }
+}
+
+function parseAllowanceTransferDetails(data: DecodedStruct[]): AllowanceTransferDetails[] {
+  return data.map(({ from, to, amount, token }) => ({
+    from: stringValue(from),
+    to: stringValue(to),
+    amount: bigintValue(amount),
+    token: stringValue(token),
+  }))
+}
+
+function parsePoolKey(data: DecodedStruct): PoolKey {
+  return {
+    currency0: stringValue(data.currency0),
+    currency1: stringValue(data.currency1),
+    fee: numberValue(data.fee),
+    tickSpacing: numberValue(data.tickSpacing),
+    hooks: stringValue(data.hooks),
+  }
+}
+
+function command<TCommand extends CommandType>(
+  commandType: TCommand,
+  allowRevert: boolean,
+  params: CommandParams<TCommand>
+) {
+  return { commandName: CommandType[commandType], commandType, allowRevert, params }
+}
+
+// builds each command from its values in COMMAND_DEFINITION order, checked against CommandParams
+const COMMAND_PARSERS: {
+  readonly [TCommand in CommandType]: (
+    values: readonly unknown[],
+    input: CommandInput
+  ) => UniversalRouterCommand<TCommand>
+} = {
+  [CommandType.V3_SWAP_EXACT_IN]: ([recipient, amountIn, amountOutMin, path, payerIsUser], { allowRevert }) =>
+    command(CommandType.V3_SWAP_EXACT_IN, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountIn', value: bigintValue(amountIn) },
+      { name: 'amountOutMin', value: bigintValue(amountOutMin) },
+      { name: 'path', value: stringValue(path) },
+      { name: 'payerIsUser', value: booleanValue(payerIsUser) },
+    ]),
+  [CommandType.V3_SWAP_EXACT_OUT]: ([recipient, amountOut, amountInMax, path, payerIsUser], { allowRevert }) =>
+    command(CommandType.V3_SWAP_EXACT_OUT, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountOut', value: bigintValue(amountOut) },
+      { name: 'amountInMax', value: bigintValue(amountInMax) },
+      { name: 'path', value: stringValue(path) },
+      { name: 'payerIsUser', value: booleanValue(payerIsUser) },
+    ]),
+  [CommandType.V2_SWAP_EXACT_IN]: ([recipient, amountIn, amountOutMin, path, payerIsUser], { allowRevert }) =>
+    command(CommandType.V2_SWAP_EXACT_IN, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountIn', value: bigintValue(amountIn) },
+      { name: 'amountOutMin', value: bigintValue(amountOutMin) },
+      { name: 'path', value: stringArrayValue(path) },
+      { name: 'payerIsUser', value: booleanValue(payerIsUser) },
+    ]),
+  [CommandType.V2_SWAP_EXACT_OUT]: ([recipient, amountOut, amountInMax, path, payerIsUser], { allowRevert }) =>
+    command(CommandType.V2_SWAP_EXACT_OUT, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountOut', value: bigintValue(amountOut) },
+      { name: 'amountInMax', value: bigintValue(amountInMax) },
+      { name: 'path', value: stringArrayValue(path) },
+      { name: 'payerIsUser', value: booleanValue(payerIsUser) },
+    ]),
+  [CommandType.V4_SWAP]: ([actions, params], { allowRevert, input }) => ({
+    ...command(CommandType.V4_SWAP, allowRevert, [
+      { name: 'actions', value: stringValue(actions) },
+      { name: 'params', value: stringArrayValue(params) },
+    ]),
+    v4Actions: V4BaseActionsParser.parseCalldata(input).actions,
+  }),
+  [CommandType.PERMIT2_PERMIT]: ([permit, signature], { allowRevert }) =>
+    command(CommandType.PERMIT2_PERMIT, allowRevert, [
+      { name: 'permit', value: parsePermitSingle(permit as DecodedStruct) },
+      { name: 'signature', value: stringValue(signature) },
+    ]),
+  [CommandType.PERMIT2_PERMIT_BATCH]: ([permit, signature], { allowRevert }) =>
+    command(CommandType.PERMIT2_PERMIT_BATCH, allowRevert, [
+      { name: 'permit', value: parsePermitBatch(permit as DecodedStruct) },
+      { name: 'signature', value: stringValue(signature) },
+    ]),
+  [CommandType.PERMIT2_TRANSFER_FROM]: ([token, recipient, amount], { allowRevert }) =>
+    command(CommandType.PERMIT2_TRANSFER_FROM, allowRevert, [
+      { name: 'token', value: stringValue(token) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amount', value: bigintValue(amount) },
+    ]),
+  [CommandType.PERMIT2_TRANSFER_FROM_BATCH]: ([transferDetails], { allowRevert }) =>
+    command(CommandType.PERMIT2_TRANSFER_FROM_BATCH, allowRevert, [
+      { name: 'transferDetails', value: parseAllowanceTransferDetails(transferDetails as DecodedStruct[]) },
+    ]),
+  [CommandType.SWEEP]: ([token, recipient, amountMin], { allowRevert }) =>
+    command(CommandType.SWEEP, allowRevert, [
+      { name: 'token', value: stringValue(token) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountMin', value: bigintValue(amountMin) },
+    ]),
+  [CommandType.TRANSFER]: ([token, recipient, value], { allowRevert }) =>
+    command(CommandType.TRANSFER, allowRevert, [
+      { name: 'token', value: stringValue(token) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'value', value: bigintValue(value) },
+    ]),
+  [CommandType.PAY_PORTION]: ([token, recipient, bips], { allowRevert }) =>
+    command(CommandType.PAY_PORTION, allowRevert, [
+      { name: 'token', value: stringValue(token) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'bips', value: bigintValue(bips) },
+    ]),
+  [CommandType.WRAP_ETH]: ([recipient, amountMin], { allowRevert }) =>
+    command(CommandType.WRAP_ETH, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountMin', value: bigintValue(amountMin) },
+    ]),
+  [CommandType.UNWRAP_WETH]: ([recipient, amountMin], { allowRevert }) =>
+    command(CommandType.UNWRAP_WETH, allowRevert, [
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amountMin', value: bigintValue(amountMin) },
+    ]),
+  [CommandType.BALANCE_CHECK_ERC20]: ([owner, token, minBalance], { allowRevert }) =>
+    command(CommandType.BALANCE_CHECK_ERC20, allowRevert, [
+      { name: 'owner', value: stringValue(owner) },
+      { name: 'token', value: stringValue(token) },
+      { name: 'minBalance', value: bigintValue(minBalance) },
+    ]),
+  [CommandType.V3_POSITION_MANAGER_PERMIT]: ([calldata], { allowRevert }) =>
+    command(CommandType.V3_POSITION_MANAGER_PERMIT, allowRevert, [{ name: 'calldata', value: stringValue(calldata) }]),
+  [CommandType.V3_POSITION_MANAGER_CALL]: ([calldata], { allowRevert }) =>
+    command(CommandType.V3_POSITION_MANAGER_CALL, allowRevert, [{ name: 'calldata', value: stringValue(calldata) }]),
+  [CommandType.V4_INITIALIZE_POOL]: ([poolKey, sqrtPriceX96], { allowRevert }) =>
+    command(CommandType.V4_INITIALIZE_POOL, allowRevert, [
+      { name: 'poolKey', value: parsePoolKey(poolKey as DecodedStruct) },
+      { name: 'sqrtPriceX96', value: bigintValue(sqrtPriceX96) },
+    ]),
+  [CommandType.V4_POSITION_MANAGER_CALL]: ([calldata], { allowRevert, input }) => ({
+    ...command(CommandType.V4_POSITION_MANAGER_CALL, allowRevert, [{ name: 'calldata', value: stringValue(calldata) }]),
+    positionManagerCall: PositionManagerParser.parseCalldata(input),
+  }),
+  [CommandType.EXECUTE_SUB_PLAN]: ([commands, inputs], { allowRevert }) => ({
+    ...command(CommandType.EXECUTE_SUB_PLAN, allowRevert, [
+      { name: 'commands', value: stringValue(commands) },
+      { name: 'inputs', value: stringArrayValue(inputs) },
+    ]),
+    subPlan: CommandParser.parseCommands(stringValue(commands), stringArrayValue(inputs)),
+  }),
+}
+
+/**
+ * CommandParser parses calldata sent to the Universal Router.
+ */
+export abstract class CommandParser {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Whether the calldata calls Universal Router execute
+   * @param calldata The transaction calldata
+   */
+  public static isExecuteCall(calldata: string): boolean {
+    const selector = calldata.slice(0, 10).toLowerCase()
+    return (
+      selector === AbiFunction.getSelector(executeAbi) || selector === AbiFunction.getSelector(executeWithDeadlineAbi)
+    )
+  }
+
+  /**
+   * Parse execute calldata into its commands, decoding V4 actions, sub plans and position manager calls
+   * @param calldata The transaction calldata
+   * @returns The decoded call
+   */
+  public static parseCalldata(calldata: string): UniversalRouterCall {
+    invariant(CommandParser.isExecuteCall(calldata), 'UNKNOWN_SELECTOR')
+    const data = calldata as Hex.Hex
+
+    if (data.slice(0, 10).toLowerCase() === AbiFunction.getSelector(executeAbi)) {
+      const [commands, inputs] = AbiFunction.decodeData(executeAbi, data)
+      return { functionName: 'execute', commands: CommandParser.parseCommands(commands, inputs) }
+    }
+    const [commands, inputs, deadline] = AbiFunction.decodeData(executeWithDeadlineAbi, data)
+    return { functionName: 'execute', commands: CommandParser.parseCommands(commands, inputs), deadline }
+  }
+
+  /**
+   * Parse the commands and inputs of a plan
+   * @param commands The command bytes
+   * @param inputs The encoded input of each command
+   * @returns The decoded commands
+   */
+  public static parseCommands(commands: string, inputs: readonly string[]): UniversalRouterCommand[] {
+    const commandBytes = CommandParser.getCommands(commands)
+    invariant(commandBytes.length === inputs.length, 'INPUTS_LENGTH')
+
+    return commandBytes.map((commandByte, i) => {
+      const commandType = (commandByte & ~ALLOW_REVERT_FLAG) as CommandType
+      invariant(commandType in COMMAND_DEFINITION, 'UNKNOWN_COMMAND')
+      const input = inputs[i] as Hex.Hex
+
+      const values = isRawCalldataCommand(commandType)
+        ? [input]
+        : AbiParameters.decode(commandAbiParameters(commandType), input)
+
+      return COMMAND_PARSERS[commandType](values, { input, allowRevert: (commandByte & ALLOW_REVERT_FLAG) !== 0 })
+    })
+  }
+
+  /**
+   * Parse command bytes, including their allow revert flag, from a bytes string
+   */
+  private static getCommands(commands: string): number[] {
+    const commandBytes: number[] = []
+
+    for (let i = 2; i < commands.length; i += 2) {
+      commandBytes.push(Number.parseInt(commands.substring(i, i + 2), 16))
+    }
+
+    return commandBytes
+  }
+}
@@ -0,0 +1,89 @@
+import type { Currency } from '@muniswap/sdk-core'
+import { Pair } from '@muniswap/v2-sdk'
+import type { Pool as V3Pool } from '@muniswap/v3-sdk'
+import { Pool as V4Pool } from '@muniswap/v4-sdk'
+import { AbiParameters, type Address, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import type { MixedRoute, TPool } from '../entities/mixedRoute'
+
+/**
+ * The fee MixedRouteQuoterV1 reads as a V2 hop
+ */
+export const V2_FEE_PATH_PLACEHOLDER = 8388608
+
+/**
+ * A run of consecutive pools of the same protocol in a mixed route, with the currency each pool swaps from
+ * followed by the currency the section swaps to
+ */
+export type MixedRouteSection =
+  | { protocol: 'V2'; pools: Pair[]; path: Currency[] }
+  | { protocol: 'V3'; pools: V3Pool[]; path: Currency[] }
+  | { protocol: 'V4'; pools: V4Pool[]; path: Currency[] }
+
+function poolProtocol(pool: TPool): MixedRouteSection['protocol'] {
+  if (pool instanceof V4Pool) return 'V4'
+  if (pool instanceof Pair) return 'V2'
+  return 'V3'
+}
+
+/**
+ * Splits a mixed route into sections of consecutive pools of the same protocol, each of which the
+ * Universal Router swaps with a single command. V4 pools are also split where the route wraps or
+ * unwraps native currency between them.
+ * @param route The mixed route
+ * @returns The sections of the route
+ */
+export function partitionMixedRouteByProtocol(route: MixedRoute<Currency, Currency>): MixedRouteSection[] {
+  const sections: MixedRouteSection[] = []
+
+  let start = 0
+  let path: Currency[] = [route.path[0]!]
+  for (const [i, pool] of route.pools.entries()) {
+    const input = route.path[i]!
+    const output = input.equals(pool.token0) ? pool.token1 : pool.token0
+    path.push(output)
+
+    const nextPool = route.pools[i + 1]
+    const continuesSection =
+      nextPool !== undefined && poolProtocol(nextPool) === poolProtocol(pool) && output.equals(route.path[i + 1]!)
+    if (!continuesSection) {
+      sections.push({
+        protocol: poolProtocol(pool),
+        pools: route.pools.slice(start, i + 1),
+        path,
+      } as MixedRouteSection)
+      start = i + 1
+      path = [route.path[start]!]
+    }
+  }
+
+  return sections
+}
+
+/**
+ * Converts a mixed route of V2 and V3 pools to a hex encoded path for MixedRouteQuoterV1.
+ * The path is encoded as a packed sequence of (token, fee, token, fee, ..., token), with
+ * V2_FEE_PATH_PLACEHOLDER as the fee of V2 hops.
+ *
+ * @param route The mixed route, which may not contain V4 pools
+ * @returns The hex encoded path
+ */
+export function encodeMixedRouteToPath(route: MixedRoute<Currency, Currency>): Hex.Hex {
+  invariant(
+    route.pools.every((pool) => !(pool instanceof V4Pool)),
+    'V4_POOL'
+  )
+
+  const types: ('address' | 'uint24')[] = ['address']
+  const values: (Address.Address | number)[] = [route.pathInput.wrapped.address as Address.Address]
+
+  for (const [i, pool] of route.pools.entries()) {
+    types.push('uint24', 'address')
+    values.push(
+      pool instanceof Pair ? V2_FEE_PATH_PLACEHOLDER : (pool as V3Pool).fee,
+      route.path[i + 1]!.wrapped.address as Address.Address
+    )
+  }
+
+  return AbiParameters.encodePacked(types, values) as Hex.Hex
+}
@@ -0,0 +1,5 @@
+export * from './commandParser'
+export * from './encodeMixedRouteToPath'
+export * from './positionManagerParser'
+export * from './routerCommands'
+export * from './universalRouterAbi'
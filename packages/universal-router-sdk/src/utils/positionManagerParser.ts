@@ -0,0 +1,158 @@
+import { type PoolKey, V4BaseActionsParser, type V4RouterAction } from '@muniswap/v4-sdk'
+import { AbiFunction, AbiParameters, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import type { PermitBatch } from './routerCommands'
+
+const POOL_KEY_STRUCT = '(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks)'
+
+const PERMIT_BATCH_STRUCT =
+  '((address token,uint160 amount,uint48 expiration,uint48 nonce)[] details,address spender,uint256 sigDeadline)'
+
+// The V4 PositionManager functions calldata is decoded for
+const MULTICALL_ABI = AbiFunction.from('function multicall(bytes[] data) payable returns (bytes[] results)')
+const MODIFY_LIQUIDITIES_ABI = AbiFunction.from(
+  'function modifyLiquidities(bytes unlockData, uint256 deadline) payable'
+)
+const MODIFY_LIQUIDITIES_WITHOUT_UNLOCK_ABI = AbiFunction.from(
+  'function modifyLiquiditiesWithoutUnlock(bytes actions, bytes[] params) payable'
+)
+const INITIALIZE_POOL_ABI = AbiFunction.from(
+  `function initializePool(${POOL_KEY_STRUCT} key, uint160 sqrtPriceX96) payable returns (int24)`
+)
+const PERMIT_BATCH_ABI = AbiFunction.from(
+  `function permitBatch(address owner, ${PERMIT_BATCH_STRUCT} _permitBatch, bytes signature) payable returns (bytes err)`
+)
+const ERC721_PERMIT_ABI = AbiFunction.from(
+  'function permit(address spender, uint256 tokenId, uint256 deadline, uint256 nonce, bytes signature) payable'
+)
+const SAFE_TRANSFER_FROM_ABI = AbiFunction.from(
+  'function safeTransferFrom(address from, address to, uint256 id, bytes data) payable'
+)
+const SUBSCRIBE_ABI = AbiFunction.from('function subscribe(uint256 tokenId, address newSubscriber, bytes data) payable')
+const UNSUBSCRIBE_ABI = AbiFunction.from('function unsubscribe(uint256 tokenId) payable')
+
+/**
+ * A decoded call to the V4 PositionManager
+ */
+export type PositionManagerCall =
+  | {
+      readonly functionName: 'multicall'
+      readonly calls: readonly PositionManagerCall[]
+    }
+  | {
+      readonly functionName: 'modifyLiquidities'
+      readonly actions: readonly V4RouterAction[]
+      readonly deadline: bigint
+    }
+  | {
+      readonly functionName: 'modifyLiquiditiesWithoutUnlock'
+      readonly actions: readonly V4RouterAction[]
+    }
+  | {
+      readonly functionName: 'initializePool'
+      readonly poolKey: PoolKey
+      readonly sqrtPriceX96: bigint
+    }
+  | {
+      readonly functionName: 'permitBatch'
+      readonly owner: string
+      readonly permitBatch: PermitBatch
+      readonly signature: string
+    }
+  | {
+      readonly functionName: 'permit'
+      readonly spender: string
+      readonly tokenId: bigint
+      readonly deadline: bigint
+      readonly nonce: bigint
+      readonly signature: string
+    }
+  | {
+      readonly functionName: 'safeTransferFrom'
+      readonly from: string
+      readonly to: string
+      readonly tokenId: bigint
+      readonly data: string
+    }
+  | {
+      readonly functionName: 'subscribe'
+      readonly tokenId: bigint
+      readonly subscriber: string
+      readonly data: string
+    }
+  | {
+      readonly functionName: 'unsubscribe'
+      readonly tokenId: bigint
+    }
+
+function hasSelector(calldata: Hex.Hex, fn: AbiFunction.AbiFunction): boolean {
+  return calldata.slice(0, 10).toLowerCase() === AbiFunction.getSelector(fn)
+}
+
+/**
+ * PositionManagerParser parses calldata sent to the V4 PositionManager.
+ */
+export abstract class PositionManagerParser {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Parse PositionManager calldata into a structured call, decoding multicalls and V4 actions
+   * @param calldata The transaction calldata
+   * @returns The decoded call
+   */
+  public static parseCalldata(calldata: string): PositionManagerCall {
+    const data = calldata as Hex.Hex
+
+    if (hasSelector(data, MULTICALL_ABI)) {
+      const [calls] = AbiFunction.decodeData(MULTICALL_ABI, data)
+      return { functionName: 'multicall', calls: calls.map((call) => PositionManagerParser.parseCalldata(call)) }
+    }
+    if (hasSelector(data, MODIFY_LIQUIDITIES_ABI)) {
+      const [unlockData, deadline] = AbiFunction.decodeData(MODIFY_LIQUIDITIES_ABI, data)
+      return {
+        functionName: 'modifyLiquidities',
+        actions: V4BaseActionsParser.parseCalldata(unlockData).actions,
+        deadline,
+      }
+    }
+    if (hasSelector(data, MODIFY_LIQUIDITIES_WITHOUT_UNLOCK_ABI)) {
+      const [actions, params] = AbiFunction.decodeData(MODIFY_LIQUIDITIES_WITHOUT_UNLOCK_ABI, data)
+      const encodedPlan = AbiParameters.encode(AbiParameters.from('bytes, bytes[]'), [actions, params])
+      return {
+        functionName: 'modifyLiquiditiesWithoutUnlock',
+        actions: V4BaseActionsParser.parseCalldata(encodedPlan).actions,
+      }
+    }
+    if (hasSelector(data, INITIALIZE_POOL_ABI)) {
+      const [poolKey, sqrtPriceX96] = AbiFunction.decodeData(INITIALIZE_POOL_ABI, data)
+      return { functionName: 'initializePool', poolKey, sqrtPriceX96 }
+    }
+    if (hasSelector(data, PERMIT_BATCH_ABI)) {
+      const [owner, permitBatch, signature] = AbiFunction.decodeData(PERMIT_BATCH_ABI, data)
+      return {
+        functionName: 'permitBatch',
+        owner,
+        permitBatch: { ...permitBatch, details: [...permitBatch.details] },
+        signature,
+      }
+    }
+    if (hasSelector(data, SAFE_TRANSFER_FROM_ABI)) {
+      const [from, to, tokenId, transferData] = AbiFunction.decodeData(SAFE_TRANSFER_FROM_ABI, data)
+      return { functionName: 'safeTransferFrom', from, to, tokenId, data: transferData }
+    }
+    if (hasSelector(data, SUBSCRIBE_ABI)) {
+      const [tokenId, subscriber, subscriberData] = AbiFunction.decodeData(SUBSCRIBE_ABI, data)
+      return { functionName: 'subscribe', tokenId, subscriber, data: subscriberData }
+    }
+    if (hasSelector(data, UNSUBSCRIBE_ABI)) {
+      const [tokenId] = AbiFunction.decodeData(UNSUBSCRIBE_ABI, data)
+      return { functionName: 'unsubscribe', tokenId }
+    }
+    invariant(hasSelector(data, ERC721_PERMIT_ABI), 'UNKNOWN_SELECTOR')
+    const [spender, tokenId, deadline, nonce, signature] = AbiFunction.decodeData(ERC721_PERMIT_ABI, data)
+    return { functionName: 'permit', spender, tokenId, deadline, nonce, signature }
+  }
+}
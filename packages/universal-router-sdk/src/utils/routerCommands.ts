@@ -0,0 +1,322 @@
+import type { PoolKey, V4Planner } from '@muniswap/v4-sdk'
+import { AbiParameters } from 'ox'
+import invariant from 'tiny-invariant'
+
+/**
+ * Commands supported by the Universal Router
+ */
+export enum CommandType {
+  // Swaps and payments
+  V3_SWAP_EXACT_IN = 0x00,
+  V3_SWAP_EXACT_OUT = 0x01,
+  PERMIT2_TRANSFER_FROM = 0x02,
+  PERMIT2_PERMIT_BATCH = 0x03,
+  SWEEP = 0x04,
+  TRANSFER = 0x05,
+  PAY_PORTION = 0x06,
+
+  V2_SWAP_EXACT_IN = 0x08,
+  V2_SWAP_EXACT_OUT = 0x09,
+  PERMIT2_PERMIT = 0x0a,
+  WRAP_ETH = 0x0b,
+  UNWRAP_WETH = 0x0c,
+  PERMIT2_TRANSFER_FROM_BATCH = 0x0d,
+  BALANCE_CHECK_ERC20 = 0x0e,
+
+  // V4 and position managers
+  V4_SWAP = 0x10,
+  V3_POSITION_MANAGER_PERMIT = 0x11,
+  V3_POSITION_MANAGER_CALL = 0x12,
+  V4_INITIALIZE_POOL = 0x13,
+  V4_POSITION_MANAGER_CALL = 0x14,
+
+  EXECUTE_SUB_PLAN = 0x21,
+}
+
+/**
+ * Set on a command byte to let the router continue when the command reverts
+ */
+export const ALLOW_REVERT_FLAG = 0x80
+
+// Commands whose input is forwarded to the target contract as raw calldata instead of being ABI encoded
+const RAW_CALLDATA_COMMANDS = new Set<CommandType>([
+  CommandType.V3_POSITION_MANAGER_PERMIT,
+  CommandType.V3_POSITION_MANAGER_CALL,
+  CommandType.V4_POSITION_MANAGER_CALL,
+])
+
+export type CommandParamType = {
+  readonly name: string
+  readonly type: string
+}
+
+const PERMIT_DETAILS_STRUCT = '(address token,uint160 amount,uint48 expiration,uint48 nonce)'
+
+const PERMIT_SINGLE_STRUCT = `(${PERMIT_DETAILS_STRUCT} details,address spender,uint256 sigDeadline)` as const
+
+const PERMIT_BATCH_STRUCT = `(${PERMIT_DETAILS_STRUCT}[] details,address spender,uint256 sigDeadline)` as const
+
+const ALLOWANCE_TRANSFER_DETAILS_STRUCT = '(address from,address to,uint160 amount,address token)[]' as const
+
+const POOL_KEY_STRUCT = '(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks)' as const
+
+export const COMMAND_DEFINITION = {
+  // Swap commands
+  [CommandType.V3_SWAP_EXACT_IN]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountIn', type: 'uint256' },
+    { name: 'amountOutMin', type: 'uint256' },
+    { name: 'path', type: 'bytes' },
+    { name: 'payerIsUser', type: 'bool' },
+  ],
+  [CommandType.V3_SWAP_EXACT_OUT]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountOut', type: 'uint256' },
+    { name: 'amountInMax', type: 'uint256' },
+    { name: 'path', type: 'bytes' },
+    { name: 'payerIsUser', type: 'bool' },
+  ],
+  [CommandType.V2_SWAP_EXACT_IN]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountIn', type: 'uint256' },
+    { name: 'amountOutMin', type: 'uint256' },
+    { name: 'path', type: 'address[]' },
+    { name: 'payerIsUser', type: 'bool' },
+  ],
+  [CommandType.V2_SWAP_EXACT_OUT]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountOut', type: 'uint256' },
+    { name: 'amountInMax', type: 'uint256' },
+    { name: 'path', type: 'address[]' },
+    { name: 'payerIsUser', type: 'bool' },
+  ],
+  [CommandType.V4_SWAP]: [
+    { name: 'actions', type: 'bytes' },
+    { name: 'params', type: 'bytes[]' },
+  ],
+
+  // Permit2 commands
+  [CommandType.PERMIT2_PERMIT]: [
+    { name: 'permit', type: PERMIT_SINGLE_STRUCT },
+    { name: 'signature', type: 'bytes' },
+  ],
+  [CommandType.PERMIT2_PERMIT_BATCH]: [
+    { name: 'permit', type: PERMIT_BATCH_STRUCT },
+    { name: 'signature', type: 'bytes' },
+  ],
+  [CommandType.PERMIT2_TRANSFER_FROM]: [
+    { name: 'token', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint160' },
+  ],
+  [CommandType.PERMIT2_TRANSFER_FROM_BATCH]: [{ name: 'transferDetails', type: ALLOWANCE_TRANSFER_DETAILS_STRUCT }],
+
+  // Payment commands
+  [CommandType.SWEEP]: [
+    { name: 'token', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amountMin', type: 'uint256' },
+  ],
+  [CommandType.TRANSFER]: [
+    { name: 'token', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'value', type: 'uint256' },
+  ],
+  [CommandType.PAY_PORTION]: [
+    { name: 'token', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'bips', type: 'uint256' },
+  ],
+  [CommandType.WRAP_ETH]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountMin', type: 'uint256' },
+  ],
+  [CommandType.UNWRAP_WETH]: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amountMin', type: 'uint256' },
+  ],
+  [CommandType.BALANCE_CHECK_ERC20]: [
+    { name: 'owner', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'minBalance', type: 'uint256' },
+  ],
+
+  // Position manager commands
+  [CommandType.V3_POSITION_MANAGER_PERMIT]: [{ name: 'calldata', type: 'bytes' }],
+  [CommandType.V3_POSITION_MANAGER_CALL]: [{ name: 'calldata', type: 'bytes' }],
+  [CommandType.V4_INITIALIZE_POOL]: [
+    { name: 'poolKey', type: POOL_KEY_STRUCT },
+    { name: 'sqrtPriceX96', type: 'uint160' },
+  ],
+  [CommandType.V4_POSITION_MANAGER_CALL]: [{ name: 'calldata', type: 'bytes' }],
+
+  [CommandType.EXECUTE_SUB_PLAN]: [
+    { name: 'commands', type: 'bytes' },
+    { name: 'inputs', type: 'bytes[]' },
+  ],
+} as const satisfies { [key in CommandType]: readonly CommandParamType[] }
+
+/**
+ * The amount and validity of a Permit2 allowance
+ */
+export type PermitDetails = {
+  token: string
+  amount: bigint
+  expiration: number
+  nonce: number
+}
+
+/**
+ * A Permit2 allowance for a single token
+ */
+export type PermitSingle = {
+  details: PermitDetails
+  spender: string
+  sigDeadline: bigint
+}
+
+/**
+ * A Permit2 allowance for several tokens
+ */
+export type PermitBatch = {
+  details: PermitDetails[]
+  spender: string
+  sigDeadline: bigint
+}
+
+/**
+ * A Permit2 transfer out of an allowance
+ */
+export type AllowanceTransferDetails = {
+  from: string
+  to: string
+  amount: bigint
+  token: string
+}
+
+type CommandDefinitions = typeof COMMAND_DEFINITION
+
+// Maps a type from COMMAND_DEFINITION to the value encoded for it
+type CommandParamValue<T extends string> = T extends typeof PERMIT_SINGLE_STRUCT
+  ? PermitSingle
+  : T extends typeof PERMIT_BATCH_STRUCT
+    ? PermitBatch
+    : T extends typeof ALLOWANCE_TRANSFER_DETAILS_STRUCT
+      ? AllowanceTransferDetails[]
+      : T extends typeof POOL_KEY_STRUCT
+        ? PoolKey
+        : T extends 'address' | 'bytes'
+          ? string
+          : T extends 'address[]' | 'bytes[]'
+            ? string[]
+            : T extends 'bool'
+              ? boolean
+              : T extends `uint${string}`
+                ? bigint
+                : never
+
+type CommandParameterValues<TParams extends readonly CommandParamType[]> = {
+  -readonly [K in keyof TParams]: TParams[K] extends CommandParamType ? CommandParamValue<TParams[K]['type']> : never
+}
+
+type NamedCommandParameterValues<TParams extends readonly CommandParamType[]> = {
+  readonly [K in keyof TParams]: TParams[K] extends CommandParamType
+    ? { readonly name: TParams[K]['name']; readonly value: CommandParamValue<TParams[K]['type']> }
+    : never
+}
+
+/**
+ * The parameter tuple of a command, in the order of COMMAND_DEFINITION
+ */
+export type CommandParameters<TCommand extends CommandType> = CommandParameterValues<CommandDefinitions[TCommand]>
+
+/**
+ * The named parameters of a command as decoded by CommandParser
+ */
+export type CommandParams<TCommand extends CommandType> = NamedCommandParameterValues<CommandDefinitions[TCommand]>
+
+type RouterCommand = {
+  type: CommandType
+  encodedInput: string
+}
+
+/**
+ * Whether the input of a command is raw calldata for the target contract
+ */
+export function isRawCalldataCommand(type: CommandType): boolean {
+  return RAW_CALLDATA_COMMANDS.has(type)
+}
+
+/**
+ * The ABI parameters a command input is encoded with
+ */
+export function commandAbiParameters(type: CommandType): readonly AbiParameters.Parameter[] {
+  const definition: readonly CommandParamType[] = COMMAND_DEFINITION[type]
+  return AbiParameters.from(definition.map(({ name, type }) => `${type} ${name}`).join(', '))
+}
+
+function createCommand<TCommand extends CommandType>(
+  type: TCommand,
+  parameters: CommandParameters<TCommand>
+): RouterCommand {
+  if (isRawCalldataCommand(type)) {
+    return { type, encodedInput: parameters[0] as string }
+  }
+
+  const encodedInput = AbiParameters.encode(commandAbiParameters(type), parameters as unknown[])
+
+  return { type, encodedInput }
+}
+
+/**
+ * RoutePlanner builds the commands and inputs of a Universal Router execute call.
+ */
+export class RoutePlanner {
+  commands: string
+  inputs: string[]
+
+  constructor() {
+    this.commands = '0x'
+    this.inputs = []
+  }
+
+  /**
+   * Add a command to the plan
+   * @param type The command type
+   * @param parameters The parameters for the command, typed by COMMAND_DEFINITION
+   * @param allowRevert Whether the router continues if the command reverts
+   * @returns This planner for chaining
+   */
+  addCommand<TCommand extends CommandType>(
+    type: TCommand,
+    parameters: CommandParameters<TCommand>,
+    allowRevert = false
+  ): RoutePlanner {
+    const command = createCommand(type, parameters)
+    this.inputs.push(command.encodedInput)
+    const commandByte = allowRevert ? command.type | ALLOW_REVERT_FLAG : command.type
+    this.commands = this.commands.concat(commandByte.toString(16).padStart(2, '0'))
+    return this
+  }
+
+  /**
+   * Add the actions of a V4Planner as a V4_SWAP command
+   * @param planner The V4 plan to execute
+   * @param allowRevert Whether the router continues if the V4 plan reverts
+   * @returns This planner for chaining
+   */
+  addV4Swap(planner: V4Planner, allowRevert = false): RoutePlanner {
+    invariant(planner.params.length > 0, 'EMPTY_V4_PLAN')
+    return this.addCommand(CommandType.V4_SWAP, [planner.actions, planner.params], allowRevert)
+  }
+
+  /**
+   * Add a nested plan as an EXECUTE_SUB_PLAN command
+   * @param subplan The plan to execute
+   * @param allowRevert Whether the router continues if the nested plan reverts
+   * @returns This planner for chaining
+   */
+  addSubPlan(subplan: RoutePlanner, allowRevert = true): RoutePlanner {
+    return this.addCommand(CommandType.EXECUTE_SUB_PLAN, [subplan.commands, subplan.inputs], allowRevert)
+  }
+}
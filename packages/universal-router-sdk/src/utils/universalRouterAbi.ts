@@ -0,0 +1,23 @@
+export const universalRouterAbi = [
+  {
+    type: 'function',
+    name: 'execute',
+    inputs: [
+      { name: 'commands', type: 'bytes', internalType: 'bytes' },
+      { name: 'inputs', type: 'bytes[]', internalType: 'bytes[]' },
+      { name: 'deadline', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'execute',
+    inputs: [
+      { name: 'commands', type: 'bytes', internalType: 'bytes' },
+      { name: 'inputs', type: 'bytes[]', internalType: 'bytes[]' },
+    ],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+] as const
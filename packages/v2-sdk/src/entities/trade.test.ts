@@ -1,5 +1,6 @@
 import { CurrencyAmount, Ether, Percent, Price, Token, TradeType, WETH9 } from '@muniswap/sdk-core'
 import { describe, expect, it } from 'vitest'
+import { DefaultGasModel } from '../gasModel'
 import { Pair } from './pair'
 import { Route } from './route'
 import { Trade } from './trade'
@@ -405,4 +406,52 @@ describe('Trade', () => {
       expect(result[1]!.outputAmount.currency).toEqual(ETHER)
     })
   })
+
+  describe('gas', () => {
+    const deep = 10n ** 21n
+    const direct_0_2 = new Pair(CurrencyAmount.fromRawAmount(token0, deep), CurrencyAmount.fromRawAmount(token2, deep))
+    const deep_0_1 = new Pair(
+      CurrencyAmount.fromRawAmount(token0, deep),
+      CurrencyAmount.fromRawAmount(token1, (deep * 101n) / 100n)
+    )
+    const deep_1_2 = new Pair(CurrencyAmount.fromRawAmount(token1, deep), CurrencyAmount.fromRawAmount(token2, deep))
+    const gas = { gasPriceWei: 10n ** 9n, nativeCurrencyPrice: new Price(ETHER, token2, 1n, 1n) }
+
+    it('charges each hop', () => {
+      const trade = new Trade(
+        new Route([deep_0_1, deep_1_2], token0, token2),
+        CurrencyAmount.fromRawAmount(token0, 10n ** 15n),
+        TradeType.EXACT_INPUT
+      )
+      expect(trade.estimateGas()).toEqual(120_000n)
+      expect(trade.estimateGas(new DefaultGasModel(100n))).toEqual(200n)
+      expect(trade.gasCost(gas).quotient).toEqual(120_000n * 10n ** 9n)
+      expect(() => trade.gasCost({ ...gas, nativeCurrencyPrice: new Price(ETHER, token0, 1n, 1n) })).toThrow(
+        'GAS_PRICE_CURRENCY'
+      )
+    })
+
+    it('ranks a direct pair above a longer route with a slightly better output', () => {
+      const amountIn = CurrencyAmount.fromRawAmount(token0, 10n ** 15n)
+      const pairs = [direct_0_2, deep_0_1, deep_1_2]
+
+      const [bestTrade] = Trade.bestTradeExactIn(pairs, amountIn, token2)
+      const [bestTradeNetOfGas] = Trade.bestTradeExactIn(pairs, amountIn, token2, { gas })
+
+      expect(bestTrade!.route.path).toEqual([token0, token1, token2])
+      expect(bestTradeNetOfGas!.route.path).toEqual([token0, token2])
+    })
+
+    it('ranks exact output trades on their input including gas', () => {
+      const amountOut = CurrencyAmount.fromRawAmount(token2, 10n ** 15n)
+      const pairs = [direct_0_2, deep_0_1, deep_1_2]
+      const inputGas = { ...gas, nativeCurrencyPrice: new Price(ETHER, token0, 1n, 1n) }
+
+      const [bestTrade] = Trade.bestTradeExactOut(pairs, token0, amountOut)
+      const [bestTradeNetOfGas] = Trade.bestTradeExactOut(pairs, token0, amountOut, { gas: inputGas })
+
+      expect(bestTrade!.route.path).toEqual([token0, token1, token2])
+      expect(bestTradeNetOfGas!.route.path).toEqual([token0, token2])
+    })
+  })
 })
@@ -1,17 +1,21 @@
 import {
+  type BigintIsh,
   type Currency,
   CurrencyAmount,
   Fraction,
+  type GasModel,
   type Percent,
   Price,
   type Token,
   TradeType,
   computePriceImpact,
+  gasCostInCurrency,
   sortedInsert,
 } from '@muniswap/sdk-core'
 import invariant from 'tiny-invariant'
 
 import { ONE, ZERO } from '../constants'
+import { DefaultGasModel } from '../gasModel'
 import type { Pair } from './pair'
 import { Route } from './route'
 
@@ -74,6 +78,43 @@ export interface BestTradeOptions {
   maxNumResults?: number
   // the maximum number of hops a trade should contain
   maxHops?: number
+  // ranks trades on their output net of gas, or their input including gas for exact output
+  gas?: TradeGasOptions
+}
+
+export interface TradeGasOptions {
+  // the gas price in wei
+  gasPriceWei: BigintIsh
+  // the price of the native currency in the output currency for exact input trades, or in the input currency for
+  // exact output trades
+  nativeCurrencyPrice: Price<Currency, Currency>
+  // the gas model, DefaultGasModel by default
+  gasModel?: GasModel<Pair>
+}
+
+const DEFAULT_GAS_MODEL = new DefaultGasModel()
+
+// sorts trades best first, on their output net of gas for exact input or their input including gas for exact output
+function rankTrades<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType>(
+  trades: Trade<TInput, TOutput, TTradeType>[],
+  gas: TradeGasOptions
+): Trade<TInput, TOutput, TTradeType>[] {
+  return trades
+    .map((trade) => {
+      const gasCost = trade.gasCost(gas).quotient
+      const netAmount =
+        trade.tradeType === TradeType.EXACT_INPUT
+          ? trade.outputAmount.quotient - gasCost
+          : trade.inputAmount.quotient + gasCost
+      return { trade, netAmount }
+    })
+    .sort((a, b) => {
+      if (a.netAmount === b.netAmount) return tradeComparator(a.trade, b.trade)
+      const aIsBetter =
+        a.trade.tradeType === TradeType.EXACT_INPUT ? a.netAmount > b.netAmount : a.netAmount < b.netAmount
+      return aIsBetter ? -1 : 1
+    })
+    .map(({ trade }) => trade)
 }
 
 /**
@@ -212,6 +253,25 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     return CurrencyAmount.fromRawAmount(this.inputAmount.currency, slippageAdjustedAmountIn)
   }
 
+  /**
+   * Estimates the gas used to execute the trade
+   * @param gasModel the gas model, DefaultGasModel by default
+   */
+  public estimateGas(gasModel: GasModel<Pair> = DEFAULT_GAS_MODEL): bigint {
+    return this.route.pairs.reduce((gas, pair) => gas + gasModel.estimateSwapGas(pair, 0), ZERO)
+  }
+
+  /**
+   * Get the cost of the gas used to execute the trade, in the output currency for exact input trades or the input
+   * currency for exact output trades
+   * @param gas the price of gas
+   */
+  public gasCost({ gasPriceWei, nativeCurrencyPrice, gasModel }: TradeGasOptions): CurrencyAmount<Currency> {
+    const currency = this.tradeType === TradeType.EXACT_INPUT ? this.outputAmount.currency : this.inputAmount.currency
+    invariant(nativeCurrencyPrice.quoteCurrency.equals(currency), 'GAS_PRICE_CURRENCY')
+    return gasCostInCurrency(this.estimateGas(gasModel), gasPriceWei, nativeCurrencyPrice)
+  }
+
   /**
    * Given a list of pairs, and a fixed amount in, returns the top `maxNumResults` trades that go from an input token
    * amount to an output token, making at most `maxHops` hops.
@@ -222,6 +282,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
    * @param currencyOut the desired currency out
    * @param maxNumResults maximum number of results to return
    * @param maxHops maximum number of hops a returned trade can make, e.g. 1 hop goes through a single pair
+   * @param gas ranks the trades on their output net of gas
    * @param currentPairs used in recursion; the current list of pairs
    * @param currencyAmountIn used in recursion; the original value of the currencyAmountIn parameter
    * @param bestTrades used in recursion; the current list of best trades
@@ -230,7 +291,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     pairs: Pair[],
     currencyAmountIn: CurrencyAmount<TInput>,
     currencyOut: TOutput,
-    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {},
+    { maxNumResults = 3, maxHops = 3, gas }: BestTradeOptions = {},
     // used in recursion.
     currentPairs: Pair[] = [],
     nextAmountIn: CurrencyAmount<Currency> = currencyAmountIn,
@@ -240,6 +301,14 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(currencyAmountIn === nextAmountIn || currentPairs.length > 0, 'INVALID_RECURSION')
 
+    if (gas !== undefined) {
+      const trades = Trade.bestTradeExactIn(pairs, currencyAmountIn, currencyOut, {
+        maxNumResults: Number.POSITIVE_INFINITY,
+        maxHops,
+      })
+      return rankTrades(trades, gas).slice(0, maxNumResults)
+    }
+
     const amountIn = nextAmountIn.wrapped
     const tokenOut = currencyOut.wrapped
     for (let i = 0; i < pairs.length; i++) {
@@ -316,6 +385,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
    * @param nextAmountOut the exact amount of currency out
    * @param maxNumResults maximum number of results to return
    * @param maxHops maximum number of hops a returned trade can make, e.g. 1 hop goes through a single pair
+   * @param gas ranks the trades on their input including gas
    * @param currentPairs used in recursion; the current list of pairs
    * @param currencyAmountOut used in recursion; the original value of the currencyAmountOut parameter
    * @param bestTrades used in recursion; the current list of best trades
@@ -324,7 +394,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     pairs: Pair[],
     currencyIn: TInput,
     currencyAmountOut: CurrencyAmount<TOutput>,
-    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {},
+    { maxNumResults = 3, maxHops = 3, gas }: BestTradeOptions = {},
     // used in recursion.
     currentPairs: Pair[] = [],
     nextAmountOut: CurrencyAmount<Currency> = currencyAmountOut,
@@ -334,6 +404,14 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(currencyAmountOut === nextAmountOut || currentPairs.length > 0, 'INVALID_RECURSION')
 
+    if (gas !== undefined) {
+      const trades = Trade.bestTradeExactOut(pairs, currencyIn, currencyAmountOut, {
+        maxNumResults: Number.POSITIVE_INFINITY,
+        maxHops,
+      })
+      return rankTrades(trades, gas).slice(0, maxNumResults)
+    }
+
     const amountOut = nextAmountOut.wrapped
     const tokenIn = currencyIn.wrapped
     for (let i = 0; i < pairs.length; i++) {
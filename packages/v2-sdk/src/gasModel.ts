@@ -0,0 +1,16 @@
+import type { GasModel } from '@muniswap/sdk-core'
+import type { Pair } from './entities/pair'
+
+/**
+ * A gas model charging a fixed cost per hop
+ */
+export class DefaultGasModel implements GasModel<Pair> {
+  /**
+   * @param perHopGas the gas used by each hop
+   */
+  public constructor(public readonly perHopGas: bigint = 60_000n) {}
+
+  public estimateSwapGas(_pair: Pair): bigint {
+    return this.perHopGas
+  }
+}
@@ -2,4 +2,5 @@ export { FACTORY_ADDRESS_MAP, INIT_CODE_HASH, MINIMUM_LIQUIDITY } from './consta
 
 export * from './errors'
 export * from './entities'
+export * from './gasModel'
 export * from './router'
@@ -0,0 +1,96 @@
+import { Token } from '@muniswap/sdk-core'
+import { describe, expect, it } from 'vitest'
+import { FeeAmount } from '../constants'
+import { Pool } from '../entities/pool'
+import { Position } from '../entities/position'
+import { getSqrtRatioAtTick } from '../utils/tickMath'
+
+describe('Position', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+
+  const Q128 = 2n ** 128n
+  const Q256 = 2n ** 256n
+  const LIQUIDITY = 10n ** 18n
+
+  const positionAt = (tickCurrent: number) =>
+    new Position({
+      pool: new Pool(DAI, USDC, FeeAmount.MEDIUM, getSqrtRatioAtTick(tickCurrent), LIQUIDITY, tickCurrent),
+      liquidity: LIQUIDITY,
+      tickLower: -60,
+      tickUpper: 60,
+    })
+
+  describe('#feesOwed', () => {
+    it('is the fee growth inside the range when the pool is in range', () => {
+      const { amount0, amount1 } = positionAt(0).feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 2n * Q128, feeGrowthOutside1X128: 3n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 5n * Q128, feeGrowthOutside1X128: 7n * Q128 },
+        feeGrowthGlobal0X128: 10n * Q128,
+        feeGrowthGlobal1X128: 20n * Q128,
+        feeGrowthInside0LastX128: Q128,
+        feeGrowthInside1LastX128: 0n,
+      })
+
+      expect(amount0.currency.equals(DAI)).toBe(true)
+      expect(amount0.quotient).toEqual(2n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(10n * LIQUIDITY)
+    })
+
+    it('is the growth between the ticks when the pool is below the range', () => {
+      const { amount0, amount1 } = positionAt(-120).feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 6n * Q128, feeGrowthOutside1X128: 9n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 2n * Q128, feeGrowthOutside1X128: 4n * Q128 },
+        feeGrowthGlobal0X128: 10n * Q128,
+        feeGrowthGlobal1X128: 20n * Q128,
+        feeGrowthInside0LastX128: 0n,
+        feeGrowthInside1LastX128: 0n,
+      })
+
+      expect(amount0.quotient).toEqual(4n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(5n * LIQUIDITY)
+    })
+
+    it('is the growth between the ticks when the pool is above the range', () => {
+      const { amount0, amount1 } = positionAt(120).feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 2n * Q128, feeGrowthOutside1X128: 4n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 5n * Q128, feeGrowthOutside1X128: 7n * Q128 },
+        feeGrowthGlobal0X128: 10n * Q128,
+        feeGrowthGlobal1X128: 20n * Q128,
+        feeGrowthInside0LastX128: 0n,
+        feeGrowthInside1LastX128: Q128,
+      })
+
+      expect(amount0.quotient).toEqual(3n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(2n * LIQUIDITY)
+    })
+
+    it('wraps fee growth around uint256 like the pool', () => {
+      const { amount0, amount1 } = positionAt(0).feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: Q256 - 2n * Q128, feeGrowthOutside1X128: 0n },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 0n, feeGrowthOutside1X128: 0n },
+        feeGrowthGlobal0X128: Q128,
+        feeGrowthGlobal1X128: 2n * Q128,
+        feeGrowthInside0LastX128: Q256 - Q128,
+        feeGrowthInside1LastX128: Q256 - Q128,
+      })
+
+      expect(amount0.quotient).toEqual(4n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(3n * LIQUIDITY)
+    })
+
+    it('is zero when the fee growth inside has not changed', () => {
+      const { amount0, amount1 } = positionAt(0).feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 2n * Q128, feeGrowthOutside1X128: 3n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 5n * Q128, feeGrowthOutside1X128: 7n * Q128 },
+        feeGrowthGlobal0X128: 10n * Q128,
+        feeGrowthGlobal1X128: 20n * Q128,
+        feeGrowthInside0LastX128: 3n * Q128,
+        feeGrowthInside1LastX128: 10n * Q128,
+      })
+
+      expect(amount0.quotient).toEqual(0n)
+      expect(amount1.quotient).toEqual(0n)
+    })
+  })
+})
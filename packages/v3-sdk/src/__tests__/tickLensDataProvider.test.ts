@@ -0,0 +1,156 @@
+import { CurrencyAmount, Token, type Transport } from '@muniswap/sdk-core'
+import { AbiFunction, type Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { FeeAmount, TICK_SPACINGS } from '../constants'
+import { Pool } from '../entities/pool'
+import { TickLensDataProvider } from '../entities/tickLensDataProvider'
+import { TickListDataProvider } from '../entities/tickListDataProvider'
+import { encodeSqrtRatioX96 } from '../utils/encodeSqrtRatioX96'
+import { nearestUsableTick } from '../utils/nearestUsableTick'
+import { MAX_TICK, MIN_TICK } from '../utils/tickMath'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+const getPopulatedTicksInWordAbi = AbiFunction.from(
+  'function getPopulatedTicksInWord(address pool, int16 tickBitmapIndex) view returns ((int24 tick, int128 liquidityNet, uint128 liquidityGross)[] populatedTicks)'
+)
+
+type TickData = { index: number; liquidityNet: bigint; liquidityGross: bigint }
+
+// Serves the populated ticks of a pool from a tick list, recording the lens, pools and words read
+function fakeTickLens(ticks: TickData[], tickSpacing: number, failingWords: number[] = []) {
+  const wordsRead: number[] = []
+  const poolsRead = new Set<string>()
+  const targetsRead = new Set<string>()
+
+  const transport: Transport = {
+    async request({ method, params }) {
+      if (method === 'eth_blockNumber') return '0x64'
+      const [{ data }] = params as [{ data: Hex.Hex }]
+      const [calls] = AbiFunction.decodeData(multicallAbi, data)
+      return AbiFunction.encodeResult(multicallAbi, [
+        100n,
+        calls.map(({ target, callData }) => {
+          const [pool, wordPos] = AbiFunction.decodeData(getPopulatedTicksInWordAbi, callData)
+          targetsRead.add(target.toLowerCase())
+          poolsRead.add(pool.toLowerCase())
+          wordsRead.push(wordPos)
+          // TickLens returns the populated ticks of a word from the highest bit down
+          const populatedTicks = ticks
+            .filter(({ index }) => Math.floor(index / tickSpacing) >> 8 === wordPos)
+            .map(({ index, liquidityNet, liquidityGross }) => ({ tick: index, liquidityNet, liquidityGross }))
+            .reverse()
+          return {
+            success: !failingWords.includes(wordPos),
+            gasUsed: 0n,
+            returnData: AbiFunction.encodeResult(getPopulatedTicksInWordAbi, populatedTicks),
+          }
+        }),
+      ])
+    },
+  }
+  return { transport, wordsRead, poolsRead, targetsRead }
+}
+
+describe('TickLensDataProvider', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const TICK_SPACING = TICK_SPACINGS[FeeAmount.LOW]
+  const LIQUIDITY = 10n ** 21n
+  const poolAddress = Pool.getAddress(USDC, DAI, FeeAmount.LOW)
+  const tickLensAddress = '0xbfd8137f7d1516D3ea5cA83523914859ec47F573'
+
+  const ticks: TickData[] = [
+    { index: nearestUsableTick(MIN_TICK, TICK_SPACING), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: -5000, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: -20, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: 30, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: 2570, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: nearestUsableTick(MAX_TICK, TICK_SPACING), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+  ]
+
+  it('finds the same ticks as a tick list', async () => {
+    const { transport, poolsRead, targetsRead } = fakeTickLens(ticks, TICK_SPACING)
+    const provider = new TickLensDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolAddress,
+      tickLensAddress,
+    })
+    const tickList = new TickListDataProvider(ticks, TICK_SPACING)
+
+    for (const tick of [-5000, -2561, -25, -20, -1, 0, 29, 30, 2560, 2569, 2570]) {
+      for (const lte of [true, false]) {
+        expect(await provider.nextInitializedTickWithinOneWord(tick, lte, TICK_SPACING)).toEqual(
+          await tickList.nextInitializedTickWithinOneWord(tick, lte, TICK_SPACING)
+        )
+      }
+    }
+    expect(await provider.getTick(-20)).toEqual({ liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY })
+    expect(await provider.getTick(30)).toEqual({ liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY })
+    expect(await provider.getTick(-10)).toEqual({ liquidityNet: 0n, liquidityGross: 0n })
+    expect(poolsRead).toEqual(new Set([poolAddress.toLowerCase()]))
+    expect(targetsRead).toEqual(new Set([tickLensAddress.toLowerCase()]))
+  })
+
+  it('prefetches neighbouring words and caches them', async () => {
+    const { transport, wordsRead } = fakeTickLens(ticks, TICK_SPACING)
+    const provider = new TickLensDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolAddress,
+      tickLensAddress,
+      prefetchWords: 1,
+    })
+
+    expect(await provider.nextInitializedTickWithinOneWord(35, true, TICK_SPACING)).toEqual([30, true])
+    expect(wordsRead).toEqual([-1, 0, 1])
+
+    // Word 1 was prefetched, so only word 2 and its unloaded neighbour are read
+    expect(await provider.nextInitializedTickWithinOneWord(5200, true, TICK_SPACING)).toEqual([5120, false])
+    expect(wordsRead).toEqual([-1, 0, 1, 2, 3])
+    expect(provider.getLoadedTicks().wordPositions).toEqual([-1, 0, 1, 2, 3])
+  })
+
+  it('loads only the words a swap walks', async () => {
+    const { transport, wordsRead } = fakeTickLens(ticks, TICK_SPACING)
+    const provider = new TickLensDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolAddress,
+      tickLensAddress,
+      prefetchWords: 1,
+    })
+    const pool = new Pool(USDC, DAI, FeeAmount.LOW, encodeSqrtRatioX96(1, 1), 3n * LIQUIDITY, 0, provider)
+    const poolWithTickList = new Pool(USDC, DAI, FeeAmount.LOW, encodeSqrtRatioX96(1, 1), 3n * LIQUIDITY, 0, ticks)
+    const amountIn = CurrencyAmount.fromRawAmount(USDC, 5n * 10n ** 20n)
+
+    const [amountOut] = await pool.getOutputAmount(amountIn)
+    const [expectedAmountOut] = await poolWithTickList.getOutputAmount(amountIn)
+
+    expect(amountOut.equalTo(expectedAmountOut)).toBe(true)
+    expect(wordsRead).toEqual([-1, 0, 1, 2, 3])
+  })
+
+  it('throws when TickLens fails and retries the word', async () => {
+    const failingWords = [-1]
+    const { transport, wordsRead } = fakeTickLens(ticks, TICK_SPACING, failingWords)
+    const provider = new TickLensDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolAddress,
+      tickLensAddress,
+      prefetchWords: 0,
+    })
+
+    await expect(provider.getTick(-20)).rejects.toThrow('TICK_LENS')
+    failingWords.pop()
+    expect(await provider.getTick(-20)).toEqual({ liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY })
+    expect(wordsRead).toEqual([-1, -1])
+  })
+})
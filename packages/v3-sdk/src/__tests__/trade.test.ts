@@ -0,0 +1,174 @@
+import { CurrencyAmount, Ether, Price, Token, WETH9 } from '@muniswap/sdk-core'
+import { describe, expect, it } from 'vitest'
+import { FeeAmount, TICK_SPACINGS } from '../constants'
+import { Pool } from '../entities/pool'
+import { Trade } from '../entities/trade'
+import { encodeSqrtRatioX96 } from '../utils/encodeSqrtRatioX96'
+import { DefaultGasModel } from '../utils/gasModel'
+import { nearestUsableTick } from '../utils/nearestUsableTick'
+import { MAX_TICK, MIN_TICK } from '../utils/tickMath'
+
+describe('Trade', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const WETH = WETH9[1]!
+
+  const LIQUIDITY = 10n ** 21n
+  function fullRangePool(tokenA: Token, tokenB: Token, fee: FeeAmount): Pool {
+    const tickSpacing = TICK_SPACINGS[fee]
+    return new Pool(tokenA, tokenB, fee, encodeSqrtRatioX96(1, 1), LIQUIDITY, 0, [
+      { index: nearestUsableTick(MIN_TICK, tickSpacing), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+      { index: nearestUsableTick(MAX_TICK, tickSpacing), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    ])
+  }
+
+  const USDC_DAI_LOW = fullRangePool(USDC, DAI, FeeAmount.LOW)
+  const USDC_DAI_MEDIUM = fullRangePool(USDC, DAI, FeeAmount.MEDIUM)
+  const USDC_WETH = fullRangePool(USDC, WETH, FeeAmount.LOW)
+  const WETH_DAI_LOW = fullRangePool(WETH, DAI, FeeAmount.LOW)
+  const WETH_DAI_MEDIUM = fullRangePool(WETH, DAI, FeeAmount.MEDIUM)
+
+  describe('#bestTradeExactInWithSplits', () => {
+    it('splits a large order across routes to increase the output', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 2n * 10n ** 20n)
+      const pools = [USDC_DAI_LOW, USDC_DAI_MEDIUM]
+
+      const trade = await Trade.bestTradeExactInWithSplits(pools, amountIn, DAI)
+      const [bestSingleTrade] = await Trade.bestTradeExactIn(pools, amountIn, DAI)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.inputAmount.equalTo(amountIn)).toBe(true)
+      expect(trade!.outputAmount.greaterThan(bestSingleTrade!.outputAmount)).toBe(true)
+      // The cheaper pool takes at least half
+      const lowFeeSwap = trade!.swaps.find(({ route }) => route.pools[0] === USDC_DAI_LOW)!
+      expect(lowFeeSwap.inputAmount.multiply(2n).lessThan(amountIn)).toBe(false)
+    })
+
+    it('splits across routes that share a pool, executed one after the other', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 2n * 10n ** 20n)
+
+      const trade = await Trade.bestTradeExactInWithSplits([USDC_WETH, WETH_DAI_LOW, WETH_DAI_MEDIUM], amountIn, DAI)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.swaps.every(({ route }) => route.pools[0] === USDC_WETH)).toBe(true)
+      expect(trade!.inputAmount.equalTo(amountIn)).toBe(true)
+
+      // The second route swaps through the shared pool after the first one moved its price
+      let sharedPool = USDC_WETH
+      for (const { route, inputAmount, outputAmount } of trade!.swaps) {
+        let wethAmount: CurrencyAmount<Token>
+        ;[wethAmount, sharedPool] = await sharedPool.getOutputAmount(inputAmount.wrapped)
+        const [daiAmount] = await route.pools[1]!.getOutputAmount(wethAmount)
+        expect(outputAmount.quotient).toEqual(daiAmount.quotient)
+      }
+    })
+
+    it('keeps a small order on a single route', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 6n)
+
+      const trade = await Trade.bestTradeExactInWithSplits([USDC_DAI_LOW, USDC_DAI_MEDIUM], amountIn, DAI, {
+        distributionPercent: 10,
+      })
+
+      expect(trade!.swaps).toHaveLength(1)
+      expect(trade!.route.pools[0]).toBe(USDC_DAI_LOW)
+    })
+
+    it('requires the distribution percent to be an integer dividing 100', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 6n)
+
+      await expect(
+        Trade.bestTradeExactInWithSplits([USDC_DAI_LOW], amountIn, DAI, { distributionPercent: 30 })
+      ).rejects.toThrow('DISTRIBUTION_PERCENT')
+      await expect(
+        Trade.bestTradeExactInWithSplits([USDC_DAI_LOW], amountIn, DAI, { distributionPercent: 2.5 })
+      ).rejects.toThrow('DISTRIBUTION_PERCENT')
+    })
+  })
+
+  describe('#bestTradeExactOutWithSplits', () => {
+    it('splits a large order across routes to decrease the input', async () => {
+      const amountOut = CurrencyAmount.fromRawAmount(DAI, 2n * 10n ** 20n)
+      const pools = [USDC_DAI_LOW, USDC_DAI_MEDIUM]
+
+      const trade = await Trade.bestTradeExactOutWithSplits(pools, USDC, amountOut)
+      const [bestSingleTrade] = await Trade.bestTradeExactOut(pools, USDC, amountOut)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.outputAmount.equalTo(amountOut)).toBe(true)
+      expect(trade!.inputAmount.lessThan(bestSingleTrade!.inputAmount)).toBe(true)
+    })
+
+    it('splits across routes that share a pool, executed one after the other', async () => {
+      const amountOut = CurrencyAmount.fromRawAmount(DAI, 2n * 10n ** 20n)
+
+      const trade = await Trade.bestTradeExactOutWithSplits([USDC_WETH, WETH_DAI_LOW, WETH_DAI_MEDIUM], USDC, amountOut)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.outputAmount.equalTo(amountOut)).toBe(true)
+
+      let sharedPool = USDC_WETH
+      for (const { route, inputAmount, outputAmount } of trade!.swaps) {
+        const [wethAmount] = await route.pools[1]!.getInputAmount(outputAmount.wrapped)
+        let usdcAmount: CurrencyAmount<Token>
+        ;[usdcAmount, sharedPool] = await sharedPool.getInputAmount(wethAmount)
+        expect(inputAmount.quotient).toEqual(usdcAmount.quotient)
+      }
+    })
+  })
+
+  describe('gas', () => {
+    const ETH = Ether.onChain(1)
+    // 2000 DAI per ETH
+    const gas = { gasPriceWei: 30n * 10n ** 9n, nativeCurrencyPrice: new Price(ETH, DAI, 1n, 2000n) }
+
+    it('charges each hop and initialized tick crossed', () => {
+      const gasModel = new DefaultGasModel({ perHopGas: 100n, perInitializedTickGas: 10n })
+
+      expect(gasModel.estimateSwapGas(USDC_DAI_MEDIUM, 0)).toEqual(100n)
+      expect(gasModel.estimateSwapGas(USDC_DAI_MEDIUM, 2)).toEqual(120n)
+    })
+
+    it('counts the initialized ticks a trade crosses', async () => {
+      const pool = new Pool(USDC, DAI, FeeAmount.LOW, encodeSqrtRatioX96(1, 1), LIQUIDITY, 0, [
+        { index: nearestUsableTick(MIN_TICK, 10), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: -20, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: -10, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: nearestUsableTick(MAX_TICK, 10), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+      ])
+      const amountIn = CurrencyAmount.fromRawAmount(DAI, 10n ** 19n)
+
+      const [trade] = await Trade.bestTradeExactIn([pool], amountIn, USDC)
+
+      expect(await trade!.estimateGas()).toEqual(80_000n + 2n * 30_000n)
+    })
+
+    it('ranks a direct route above a longer route with a slightly better output', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 15n)
+      const pools = [USDC_DAI_MEDIUM, USDC_WETH, WETH_DAI_LOW]
+
+      const [bestTrade] = await Trade.bestTradeExactIn(pools, amountIn, DAI)
+      const [bestTradeNetOfGas] = await Trade.bestTradeExactIn(pools, amountIn, DAI, { gas })
+
+      expect(bestTrade!.route.pools).toHaveLength(2)
+      expect(bestTradeNetOfGas!.route.pools).toEqual([USDC_DAI_MEDIUM])
+      expect((await bestTradeNetOfGas!.gasCost(gas)).quotient).toEqual(80_000n * 30n * 10n ** 9n * 2000n)
+      await expect(
+        bestTradeNetOfGas!.gasCost({ ...gas, nativeCurrencyPrice: new Price(ETH, USDC, 1n, 1n) })
+      ).rejects.toThrow('GAS_PRICE_CURRENCY')
+    })
+
+    it('ranks exact output trades on their input including gas', async () => {
+      const amountOut = CurrencyAmount.fromRawAmount(DAI, 10n ** 15n)
+      const pools = [USDC_DAI_MEDIUM, USDC_WETH, WETH_DAI_LOW]
+      // Gas is charged in the input currency, which the pools trade one to one with DAI in raw amounts
+      const inputGas = { ...gas, nativeCurrencyPrice: new Price(ETH, USDC, 1n, 2000n) }
+
+      const [bestTrade] = await Trade.bestTradeExactOut(pools, USDC, amountOut)
+      const [bestTradeWithGas] = await Trade.bestTradeExactOut(pools, USDC, amountOut, { gas: inputGas })
+
+      expect(bestTrade!.route.pools).toHaveLength(2)
+      expect(bestTradeWithGas!.route.pools).toEqual([USDC_DAI_MEDIUM])
+    })
+  })
+})
@@ -1,7 +1,11 @@
+export * from './lazyTickDataProvider'
+export * from './loadedTickDataProvider'
 export * from './pool'
 export * from './position'
 export * from './route'
 export * from './tick'
 export * from './tickDataProvider'
+export * from './tickLensDataProvider'
 export * from './tickListDataProvider'
+export * from './tickWordDataProvider'
 export * from './trade'
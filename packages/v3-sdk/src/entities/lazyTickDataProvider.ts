@@ -0,0 +1,134 @@
+import {
+  type BlockTag,
+  type MulticallCall,
+  type MulticallResult,
+  type Transport,
+  getBlockNumber,
+  multicall,
+} from '@muniswap/sdk-core'
+import invariant from 'tiny-invariant'
+import { MAX_TICK, MIN_TICK } from '../utils/tickMath'
+import type { Tick } from './tick'
+import { TickWordDataProvider } from './tickWordDataProvider'
+
+export interface LazyTickDataProviderOptions {
+  /** The transport to read through */
+  transport: Transport
+  /** The chain the pool is on */
+  chainId: number
+  /** The tick spacing of the pool */
+  tickSpacing: number
+  /** The block to read at (default: latest). A block tag is resolved to a block number on the first read. */
+  blockTag?: BlockTag
+  /** The number of neighbouring words on each side to load along with a word (default: 2) */
+  prefetchWords?: number
+  /** The maximum number of calls per eth_call (default: 100) */
+  batchSize?: number
+  /** The multicall contract (default: MULTICALL_ADDRESSES[chainId]) */
+  multicallAddress?: string
+}
+
+/**
+ * A tick data provider that loads the ticks of a pool on demand, one 256-tick bitmap word at a time.
+ * Loaded words are cached, and neighbouring words are loaded in the same batch, so a swap simulation
+ * only reads the words it walks through. Every read is pinned to the same block.
+ */
+export abstract class LazyTickDataProvider extends TickWordDataProvider {
+  public readonly transport: Transport
+  public readonly chainId: number
+  public readonly prefetchWords: number
+  private readonly batchSize: number | undefined
+  private readonly multicallAddress: string | undefined
+  private readonly blockTag: BlockTag
+  private blockNumber: Promise<bigint> | undefined
+  private readonly words = new Map<number, Promise<readonly Tick[]>>()
+  private readonly loadedWords = new Map<number, readonly Tick[]>()
+
+  protected constructor({
+    transport,
+    chainId,
+    tickSpacing,
+    blockTag = 'latest',
+    prefetchWords = 2,
+    batchSize,
+    multicallAddress,
+  }: LazyTickDataProviderOptions) {
+    super(tickSpacing)
+    invariant(Number.isInteger(prefetchWords) && prefetchWords >= 0, 'PREFETCH_WORDS')
+    this.transport = transport
+    this.chainId = chainId
+    this.prefetchWords = prefetchWords
+    this.batchSize = batchSize
+    this.multicallAddress = multicallAddress
+    this.blockTag = blockTag
+  }
+
+  /**
+   * Loads the initialized ticks of bitmap words
+   * @param wordPositions The positions of the words in the tick bitmap
+   * @returns The initialized ticks of each word
+   */
+  protected abstract loadWords(wordPositions: number[]): Promise<Tick[][]>
+
+  /**
+   * Executes calls through multicall at the block the provider is pinned to
+   * @param calls The calls to execute
+   * @returns The result of each call, in order
+   */
+  protected async multicall(calls: MulticallCall[]): Promise<MulticallResult[]> {
+    const { results } = await multicall(this.transport, this.chainId, calls, {
+      blockTag: await this.getBlockNumber(),
+      ...(this.batchSize !== undefined && { batchSize: this.batchSize }),
+      ...(this.multicallAddress !== undefined && { multicallAddress: this.multicallAddress }),
+    })
+    return results
+  }
+
+  /**
+   * Returns the number of the block the provider reads at
+   */
+  public getBlockNumber(): Promise<bigint> {
+    this.blockNumber ??= getBlockNumber(this.transport, this.blockTag)
+    return this.blockNumber
+  }
+
+  /**
+   * Returns the positions of the bitmap words loaded so far in ascending order, and their initialized ticks
+   * sorted by index
+   */
+  public getLoadedTicks(): { wordPositions: number[]; ticks: Tick[] } {
+    const wordPositions = [...this.loadedWords.keys()].sort((a, b) => a - b)
+    return { wordPositions, ticks: wordPositions.flatMap((position) => [...this.loadedWords.get(position)!]) }
+  }
+
+  /**
+   * Returns the initialized ticks of a word, sorted by index, loading it and its neighbours if it is not cached
+   */
+  protected getWord(wordPos: number): Promise<readonly Tick[]> {
+    const cached = this.words.get(wordPos)
+    if (cached) return cached
+
+    const minWordPos = Math.floor(MIN_TICK / this.tickSpacing) >> 8
+    const maxWordPos = Math.floor(MAX_TICK / this.tickSpacing) >> 8
+    const wordPositions: number[] = []
+    for (let i = wordPos - this.prefetchWords; i <= wordPos + this.prefetchWords; i++) {
+      if (i === wordPos || (i >= minWordPos && i <= maxWordPos && !this.words.has(i))) wordPositions.push(i)
+    }
+
+    const loaded = this.loadWords(wordPositions)
+    for (const [i, position] of wordPositions.entries()) {
+      const word = loaded.then((words) => [...words[i]!].sort((a, b) => a.index - b.index))
+      word.then(
+        (ticks) => {
+          this.loadedWords.set(position, ticks)
+        },
+        // Drop failed words so they are retried
+        () => {
+          this.words.delete(position)
+        }
+      )
+      this.words.set(position, word)
+    }
+    return this.words.get(wordPos)!
+  }
+}
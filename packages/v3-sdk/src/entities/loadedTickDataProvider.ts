@@ -0,0 +1,38 @@
+import invariant from 'tiny-invariant'
+import { Tick, type TickConstructorArgs } from './tick'
+import { TickWordDataProvider } from './tickWordDataProvider'
+
+/**
+ * A tick data provider backed by the initialized ticks of some bitmap words of a pool, such as the words a
+ * {@link LazyTickDataProvider} has loaded. Reading a tick outside of those words throws, rather than treating
+ * the ticks there as uninitialized.
+ */
+export class LoadedTickDataProvider extends TickWordDataProvider {
+  public readonly ticks: readonly Tick[]
+  public readonly wordPositions: readonly number[]
+  private readonly words: Map<number, Tick[]>
+
+  /**
+   * @param ticks - The initialized ticks of the words
+   * @param tickSpacing - The tick spacing of the pool
+   * @param wordPositions - The positions of the words in the tick bitmap
+   */
+  constructor(ticks: (Tick | TickConstructorArgs)[], tickSpacing: number, wordPositions: number[]) {
+    super(tickSpacing)
+    this.words = new Map([...wordPositions].sort((a, b) => a - b).map((position) => [position, []]))
+    this.ticks = ticks.map((t) => (t instanceof Tick ? t : new Tick(t))).sort((a, b) => a.index - b.index)
+    for (const tick of this.ticks) {
+      invariant(tick.index % tickSpacing === 0, 'TICK_SPACING')
+      const word = this.words.get(Math.floor(tick.index / tickSpacing) >> 8)
+      invariant(word !== undefined, 'TICK_WORD')
+      word.push(tick)
+    }
+    this.wordPositions = [...this.words.keys()]
+  }
+
+  protected async getWord(wordPos: number): Promise<readonly Tick[]> {
+    const word = this.words.get(wordPos)
+    invariant(word !== undefined, 'TICK_NOT_LOADED')
+    return word
+  }
+}
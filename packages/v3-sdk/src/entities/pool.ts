@@ -1,11 +1,22 @@
-import { type BigintIsh, CurrencyAmount, Price, type Token } from '@muniswap/sdk-core'
+import {
+  type BigintIsh,
+  CurrencyAmount,
+  Price,
+  SERIALIZATION_VERSION,
+  type TickJSON,
+  Token,
+  type V3PoolJSON,
+  v3PoolJSONSchema,
+} from '@muniswap/sdk-core'
 import type { Address } from 'ox'
 import invariant from 'tiny-invariant'
 import { FACTORY_ADDRESS, type FeeAmount, TICK_SPACINGS } from '../constants'
 import { NEGATIVE_ONE, Q192 } from '../internalConstants'
 import { computePoolAddress } from '../utils/computePoolAddress'
 import { getSqrtRatioAtTick } from '../utils/tickMath'
-import { v3Swap } from '../utils/v3swap'
+import { type SwapResult, v3Swap } from '../utils/v3swap'
+import { LazyTickDataProvider } from './lazyTickDataProvider'
+import { LoadedTickDataProvider } from './loadedTickDataProvider'
 import type { Tick, TickConstructorArgs } from './tick'
 import { NoTickDataProvider, type TickDataProvider } from './tickDataProvider'
 import { TickListDataProvider } from './tickListDataProvider'
@@ -15,6 +26,33 @@ import { TickListDataProvider } from './tickListDataProvider'
  */
 const NO_TICK_DATA_PROVIDER_DEFAULT = new NoTickDataProvider()
 
+/**
+ * Serializes the ticks a tick data provider holds: every tick of a tick list, or the ticks of the words a lazy or
+ * loaded provider has, along with the positions of those words. Other providers have no ticks to serialize.
+ *
+ * @param tickDataProvider - The tick data provider of a pool
+ */
+export function tickDataToJSON(tickDataProvider: TickDataProvider): { ticks?: TickJSON[]; tickWords?: number[] } {
+  const toJSON = (ticks: readonly Tick[]): TickJSON[] =>
+    ticks.map(({ index, liquidityGross, liquidityNet }) => ({
+      index,
+      liquidityGross: liquidityGross.toString(),
+      liquidityNet: liquidityNet.toString(),
+    }))
+
+  if (tickDataProvider instanceof TickListDataProvider) {
+    return { ticks: toJSON(tickDataProvider.ticks) }
+  }
+  if (tickDataProvider instanceof LazyTickDataProvider) {
+    const { wordPositions, ticks } = tickDataProvider.getLoadedTicks()
+    return { ticks: toJSON(ticks), tickWords: wordPositions }
+  }
+  if (tickDataProvider instanceof LoadedTickDataProvider) {
+    return { ticks: toJSON(tickDataProvider.ticks), tickWords: [...tickDataProvider.wordPositions] }
+  }
+  return {}
+}
+
 /**
  * Represents a V3 pool with its current state.
  */
@@ -148,17 +186,57 @@ export class Pool {
     return TICK_SPACINGS[this.fee]
   }
 
+  /**
+   * Serializes the pool into a versioned, JSON-compatible object.
+   * Ticks are included if the pool is backed by a tick list, or by a lazy provider, whose loaded ticks are included
+   * with the words they were loaded for.
+   */
+  public toJSON(): V3PoolJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      token0: this.token0.toJSON(),
+      token1: this.token1.toJSON(),
+      fee: this.fee,
+      sqrtRatioX96: this.sqrtRatioX96.toString(),
+      liquidity: this.liquidity.toString(),
+      tickCurrent: this.tickCurrent,
+      ...tickDataToJSON(this.tickDataProvider),
+    }
+  }
+
+  /**
+   * Deserializes a pool produced by {@link Pool#toJSON}. Ticks serialized from a lazy provider are restored into a
+   * {@link LoadedTickDataProvider}, which throws when a swap reaches a word that was not loaded.
+   *
+   * @param json - The serialized pool
+   * @throws ZodError if the input is not a serialized pool
+   */
+  public static fromJSON(json: unknown): Pool {
+    const { token0, token1, fee, sqrtRatioX96, liquidity, tickCurrent, ticks, tickWords } = v3PoolJSONSchema.parse(json)
+    return new Pool(
+      Token.fromJSON(token0),
+      Token.fromJSON(token1),
+      fee,
+      sqrtRatioX96,
+      liquidity,
+      tickCurrent,
+      tickWords
+        ? new LoadedTickDataProvider(ticks ?? [], TICK_SPACINGS[fee as FeeAmount], tickWords)
+        : (ticks ?? NO_TICK_DATA_PROVIDER_DEFAULT)
+    )
+  }
+
   /**
    * Given an input amount of a token, return the computed output amount and a pool with updated state.
    *
    * @param inputAmount - The input amount for which to quote the output amount
    * @param sqrtPriceLimitX96 - The Q64.96 sqrt price limit
-   * @returns The output amount and the pool with updated state
+   * @returns The output amount, the pool with updated state and the number of initialized ticks crossed
    */
   public async getOutputAmount(
     inputAmount: CurrencyAmount<Token>,
     sqrtPriceLimitX96?: bigint
-  ): Promise<[CurrencyAmount<Token>, Pool]> {
+  ): Promise<[CurrencyAmount<Token>, Pool, number]> {
     invariant(this.involvesToken(inputAmount.currency), 'TOKEN')
 
     const zeroForOne = inputAmount.currency.equals(this.token0)
@@ -168,12 +246,14 @@ export class Pool {
       sqrtRatioX96,
       liquidity,
       tickCurrent,
+      initializedTicksCrossed,
     } = await this.swap(zeroForOne, inputAmount.quotient, sqrtPriceLimitX96)
 
     const outputToken = zeroForOne ? this.token1 : this.token0
     return [
       CurrencyAmount.fromRawAmount(outputToken, outputAmount * NEGATIVE_ONE),
       new Pool(this.token0, this.token1, this.fee, sqrtRatioX96, liquidity, tickCurrent, this.tickDataProvider),
+      initializedTicksCrossed,
     ]
   }
 
@@ -182,12 +262,12 @@ export class Pool {
    *
    * @param outputAmount - The output amount for which to quote the input amount
    * @param sqrtPriceLimitX96 - The Q64.96 sqrt price limit
-   * @returns The input amount and the pool with updated state
+   * @returns The input amount, the pool with updated state and the number of initialized ticks crossed
    */
   public async getInputAmount(
     outputAmount: CurrencyAmount<Token>,
     sqrtPriceLimitX96?: bigint
-  ): Promise<[CurrencyAmount<Token>, Pool]> {
+  ): Promise<[CurrencyAmount<Token>, Pool, number]> {
     invariant(outputAmount.currency.isToken && this.involvesToken(outputAmount.currency), 'TOKEN')
 
     const zeroForOne = outputAmount.currency.equals(this.token1)
@@ -197,12 +277,14 @@ export class Pool {
       sqrtRatioX96,
       liquidity,
       tickCurrent,
+      initializedTicksCrossed,
     } = await this.swap(zeroForOne, outputAmount.quotient * NEGATIVE_ONE, sqrtPriceLimitX96)
 
     const inputToken = zeroForOne ? this.token0 : this.token1
     return [
       CurrencyAmount.fromRawAmount(inputToken, inputAmount),
       new Pool(this.token0, this.token1, this.fee, sqrtRatioX96, liquidity, tickCurrent, this.tickDataProvider),
+      initializedTicksCrossed,
     ]
   }
 
@@ -214,11 +296,7 @@ export class Pool {
    * @param sqrtPriceLimitX96 - The Q64.96 sqrt price limit
    * @returns The swap result
    */
-  private async swap(
-    zeroForOne: boolean,
-    amountSpecified: bigint,
-    sqrtPriceLimitX96?: bigint
-  ): Promise<{ amountCalculated: bigint; sqrtRatioX96: bigint; liquidity: bigint; tickCurrent: number }> {
+  private async swap(zeroForOne: boolean, amountSpecified: bigint, sqrtPriceLimitX96?: bigint): Promise<SwapResult> {
     return v3Swap(
       BigInt(this.fee),
       this.sqrtRatioX96,
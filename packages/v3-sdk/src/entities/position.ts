@@ -2,7 +2,9 @@ import { type BigintIsh, CurrencyAmount, type Percent, type Token } from '@munis
 import invariant from 'tiny-invariant'
 import { ZERO } from '../internalConstants'
 import { maxLiquidityForAmounts } from '../utils/maxLiquidityForAmounts'
+import { getTokensOwed } from '../utils/positionLibrary'
 import { getAmount0Delta, getAmount1Delta } from '../utils/sqrtPriceMath'
+import { type FeeGrowthOutside, getFeeGrowthInside } from '../utils/tickLibrary'
 import { getSqrtRatioAtTick } from '../utils/tickMath'
 import type { Pool } from './pool'
 
@@ -16,6 +18,24 @@ interface PositionConstructorArgs {
   tickUpper: number
 }
 
+/**
+ * The fee growth state needed to compute the fees owed to a position.
+ */
+export interface PositionFeeGrowth {
+  /** The fee growth outside the lower tick of the position */
+  feeGrowthOutsideLower: FeeGrowthOutside
+  /** The fee growth outside the upper tick of the position */
+  feeGrowthOutsideUpper: FeeGrowthOutside
+  /** The global fee growth of token0 of the pool */
+  feeGrowthGlobal0X128: bigint
+  /** The global fee growth of token1 of the pool */
+  feeGrowthGlobal1X128: bigint
+  /** The fee growth of token0 inside the range when the position was last updated */
+  feeGrowthInside0LastX128: bigint
+  /** The fee growth of token1 inside the range when the position was last updated */
+  feeGrowthInside1LastX128: bigint
+}
+
 /**
  * Represents a position on a Uniswap V3 Pool.
  */
@@ -189,6 +209,45 @@ export class Position {
     }
   }
 
+  /**
+   * Returns the fees earned by the position since it was last updated, at the current tick of the pool.
+   * Fees already credited to the position, e.g. the tokensOwed of a position manager position, are not included.
+   *
+   * @param feeGrowth - The fee growth of the ticks of the position and of the pool, and the last fee growth
+   * inside the position
+   * @returns The fees owed in token0 and token1
+   */
+  public feesOwed({
+    feeGrowthOutsideLower,
+    feeGrowthOutsideUpper,
+    feeGrowthGlobal0X128,
+    feeGrowthGlobal1X128,
+    feeGrowthInside0LastX128,
+    feeGrowthInside1LastX128,
+  }: PositionFeeGrowth): { amount0: CurrencyAmount<Token>; amount1: CurrencyAmount<Token> } {
+    const [feeGrowthInside0X128, feeGrowthInside1X128] = getFeeGrowthInside(
+      feeGrowthOutsideLower,
+      feeGrowthOutsideUpper,
+      this.tickLower,
+      this.tickUpper,
+      this.pool.tickCurrent,
+      feeGrowthGlobal0X128,
+      feeGrowthGlobal1X128
+    )
+    const [amount0, amount1] = getTokensOwed(
+      feeGrowthInside0LastX128,
+      feeGrowthInside1LastX128,
+      this.liquidity,
+      feeGrowthInside0X128,
+      feeGrowthInside1X128
+    )
+
+    return {
+      amount0: CurrencyAmount.fromRawAmount(this.pool.token0, amount0),
+      amount1: CurrencyAmount.fromRawAmount(this.pool.token1, amount1),
+    }
+  }
+
   /**
    * Creates a position from the specified amounts.
    *
@@ -1,6 +1,14 @@
-import { type Currency, Price, type Token } from '@muniswap/sdk-core'
+import {
+  type Currency,
+  Price,
+  SERIALIZATION_VERSION,
+  type Token,
+  type V3RouteJSON,
+  currencyFromJSON,
+  v3RouteJSONSchema,
+} from '@muniswap/sdk-core'
 import invariant from 'tiny-invariant'
-import type { Pool } from './pool'
+import { Pool } from './pool'
 
 /**
  * Represents a route through V3 pools for a swap.
@@ -88,4 +96,27 @@ export class Route<TInput extends Currency, TOutput extends Currency> {
     this._midPrice = new Price(this.input, this.output, price.denominator, price.numerator)
     return this._midPrice
   }
+
+  /**
+   * Serializes the route into a versioned, JSON-compatible object.
+   */
+  public toJSON(): V3RouteJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      pools: this.pools.map((pool) => pool.toJSON()),
+      input: this.input.toJSON(),
+      output: this.output.toJSON(),
+    }
+  }
+
+  /**
+   * Deserializes a route produced by {@link Route#toJSON}
+   *
+   * @param json - The serialized route
+   * @throws ZodError if the input is not a serialized route
+   */
+  public static fromJSON(json: unknown): Route<Currency, Currency> {
+    const { pools, input, output } = v3RouteJSONSchema.parse(json)
+    return new Route(pools.map(Pool.fromJSON), currencyFromJSON(input), currencyFromJSON(output))
+  }
 }
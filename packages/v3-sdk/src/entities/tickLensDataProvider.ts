@@ -0,0 +1,48 @@
+import { TICK_LENS_ADDRESSES } from '@muniswap/sdk-core'
+import { AbiFunction, type Address } from 'ox'
+import invariant from 'tiny-invariant'
+import { LazyTickDataProvider, type LazyTickDataProviderOptions } from './lazyTickDataProvider'
+import { Tick } from './tick'
+
+const GET_POPULATED_TICKS_IN_WORD_ABI = AbiFunction.from(
+  'function getPopulatedTicksInWord(address pool, int16 tickBitmapIndex) view returns ((int24 tick, int128 liquidityNet, uint128 liquidityGross)[] populatedTicks)'
+)
+
+export interface TickLensDataProviderOptions extends LazyTickDataProviderOptions {
+  /** The address of the pool */
+  poolAddress: string
+  /** The TickLens contract (default: TICK_LENS_ADDRESSES[chainId]) */
+  tickLensAddress?: string
+}
+
+/**
+ * A tick data provider that loads the ticks of a V3 pool on demand through TickLens
+ */
+export class TickLensDataProvider extends LazyTickDataProvider {
+  public readonly poolAddress: Address.Address
+  public readonly tickLensAddress: string
+
+  constructor({ poolAddress, tickLensAddress, ...options }: TickLensDataProviderOptions) {
+    super(options)
+    const lens = tickLensAddress ?? TICK_LENS_ADDRESSES[options.chainId]
+    invariant(lens !== undefined, 'TICK_LENS_ADDRESS')
+    this.poolAddress = poolAddress as Address.Address
+    this.tickLensAddress = lens
+  }
+
+  protected async loadWords(wordPositions: number[]): Promise<Tick[][]> {
+    const results = await this.multicall(
+      wordPositions.map((wordPos) => ({
+        target: this.tickLensAddress,
+        callData: AbiFunction.encodeData(GET_POPULATED_TICKS_IN_WORD_ABI, [this.poolAddress, wordPos]),
+      }))
+    )
+
+    return results.map(({ success, returnData }) => {
+      invariant(success, 'TICK_LENS')
+      return AbiFunction.decodeResult(GET_POPULATED_TICKS_IN_WORD_ABI, returnData).map(
+        ({ tick, liquidityNet, liquidityGross }) => new Tick({ index: tick, liquidityNet, liquidityGross })
+      )
+    })
+  }
+}
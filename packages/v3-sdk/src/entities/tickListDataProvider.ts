@@ -7,7 +7,7 @@ import type { TickDataProvider } from './tickDataProvider'
  * A data provider for ticks that is backed by an in-memory array of ticks.
  */
 export class TickListDataProvider implements TickDataProvider {
-  private ticks: readonly Tick[]
+  public readonly ticks: readonly Tick[]
 
   constructor(ticks: (Tick | TickConstructorArgs)[], tickSpacing: number) {
     const ticksMapped: Tick[] = ticks.map((t) => (t instanceof Tick ? t : new Tick(t)))
@@ -0,0 +1,48 @@
+import type { BigintIsh } from '@muniswap/sdk-core'
+import invariant from 'tiny-invariant'
+import type { Tick } from './tick'
+import type { TickDataProvider } from './tickDataProvider'
+
+/**
+ * A tick data provider that reads the initialized ticks of a pool one 256-tick bitmap word at a time.
+ */
+export abstract class TickWordDataProvider implements TickDataProvider {
+  public readonly tickSpacing: number
+
+  protected constructor(tickSpacing: number) {
+    invariant(Number.isInteger(tickSpacing) && tickSpacing > 0, 'TICK_SPACING')
+    this.tickSpacing = tickSpacing
+  }
+
+  /**
+   * Returns the initialized ticks of a bitmap word, sorted by index
+   * @param wordPos - The position of the word in the tick bitmap
+   */
+  protected abstract getWord(wordPos: number): Promise<readonly Tick[]>
+
+  async getTick(tick: number): Promise<{ liquidityNet: BigintIsh; liquidityGross: BigintIsh }> {
+    const ticks = await this.getWord(Math.floor(tick / this.tickSpacing) >> 8)
+    const tickData = ticks.find(({ index }) => index === tick)
+    return {
+      liquidityNet: tickData?.liquidityNet ?? 0n,
+      liquidityGross: tickData?.liquidityGross ?? 0n,
+    }
+  }
+
+  async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]> {
+    invariant(tickSpacing === this.tickSpacing, 'TICK_SPACING')
+    const compressed = Math.floor(tick / tickSpacing)
+
+    if (lte) {
+      const wordPos = compressed >> 8
+      const ticks = await this.getWord(wordPos)
+      const next = ticks.filter(({ index }) => index / tickSpacing <= compressed).at(-1)
+      return next ? [next.index, true] : [(wordPos << 8) * tickSpacing, false]
+    }
+
+    const wordPos = (compressed + 1) >> 8
+    const ticks = await this.getWord(wordPos)
+    const next = ticks.find(({ index }) => index / tickSpacing > compressed)
+    return next ? [next.index, true] : [(((wordPos + 1) << 8) - 1) * tickSpacing, false]
+  }
+}
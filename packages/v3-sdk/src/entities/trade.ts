@@ -1,23 +1,253 @@
 import {
+  type BigintIsh,
   type Currency,
   CurrencyAmount,
+  type CurrencyAmountJSON,
+  type GasModel,
   Percent,
   Price,
+  SERIALIZATION_VERSION,
   type Token,
   TradeType,
+  type V3TradeJSON,
+  gasCostInCurrency,
   sortedInsert,
+  v3TradeJSONSchema,
 } from '@muniswap/sdk-core'
 import invariant from 'tiny-invariant'
 import { ONE, ZERO } from '../internalConstants'
+import { DefaultGasModel } from '../utils/gasModel'
 import type { Pool } from './pool'
 import { Route } from './route'
 
+// Deserializes an amount of a swap as an amount of the matching currency of its route
+function amountFromJSON<T extends Currency>(currency: T, json: CurrencyAmountJSON): CurrencyAmount<T> {
+  const amount = CurrencyAmount.fromJSON(json)
+  invariant(amount.currency.equals(currency), 'CURRENCY')
+  return CurrencyAmount.fromFractionalAmount(currency, amount.numerator, amount.denominator)
+}
+
 /**
  * Options for best trade calculation.
  */
 export interface BestTradeOptions {
   maxNumResults?: number
   maxHops?: number
+  /** Ranks trades on their output net of gas, or their input including gas for exact output */
+  gas?: TradeGasOptions
+}
+
+/**
+ * The price of gas, used to rank trades on their output net of gas.
+ */
+export interface TradeGasOptions {
+  /** The gas price in wei */
+  gasPriceWei: BigintIsh
+  /**
+   * The price of the native currency in the output currency for exact input trades, or in the input currency for
+   * exact output trades
+   */
+  nativeCurrencyPrice: Price<Currency, Currency>
+  /** The gas model (default: DefaultGasModel) */
+  gasModel?: GasModel<Pool>
+}
+
+const DEFAULT_GAS_MODEL = new DefaultGasModel()
+
+/**
+ * Options for split trade calculation.
+ */
+export interface SplitTradeOptions {
+  /** Maximum number of hops a route should contain */
+  maxHops?: number
+  /** Maximum number of candidate routes to split the amount across */
+  maxRoutes?: number
+  /** Maximum number of routes the trade may use */
+  maxSplits?: number
+  /** The percentage of the amount allocated at a time, which must be an integer dividing 100 */
+  distributionPercent?: number
+  /** Ranks routes and trades on their output net of gas, or their input including gas for exact output */
+  gas?: TradeGasOptions
+}
+
+type Swap<TInput extends Currency, TOutput extends Currency> = {
+  route: Route<TInput, TOutput>
+  inputAmount: CurrencyAmount<TInput>
+  outputAmount: CurrencyAmount<TOutput>
+}
+
+/**
+ * Sorts trades best first, on their output net of gas for exact input or their input including gas for exact output
+ * when gas options are given, otherwise with tradeComparator.
+ *
+ * @param trades - The trades to sort, all with the same trade type
+ * @param gas - The price of gas
+ * @returns The sorted trades
+ */
+async function rankTrades<TInput extends Currency, TOutput extends Currency, TTradeType extends TradeType>(
+  trades: Trade<TInput, TOutput, TTradeType>[],
+  gas: TradeGasOptions | undefined
+): Promise<Trade<TInput, TOutput, TTradeType>[]> {
+  if (gas === undefined) return [...trades].sort(tradeComparator)
+
+  const ranked = await Promise.all(
+    trades.map(async (trade) => {
+      const gasCost = (await trade.gasCost(gas)).quotient
+      const netAmount =
+        trade.tradeType === TradeType.EXACT_INPUT
+          ? trade.outputAmount.quotient - gasCost
+          : trade.inputAmount.quotient + gasCost
+      return { trade, netAmount }
+    })
+  )
+  return ranked
+    .sort((a, b) => {
+      if (a.netAmount === b.netAmount) return tradeComparator(a.trade, b.trade)
+      const aIsBetter =
+        a.trade.tradeType === TradeType.EXACT_INPUT ? a.netAmount > b.netAmount : a.netAmount < b.netAmount
+      return aIsBetter ? -1 : 1
+    })
+    .map(({ trade }) => trade)
+}
+
+// Identifies a pool across the updated copies produced by swaps
+function poolKey(pool: Pool): string {
+  return `${pool.token0.address}-${pool.token1.address}-${pool.fee}`
+}
+
+/**
+ * Quotes an amount through a route against the latest state of its pools.
+ *
+ * @param route - The route to quote
+ * @param amount - The input amount for exact input, or the output amount for exact output
+ * @param tradeType - Whether the amount is an exact input or exact output
+ * @param poolStates - The pools updated by earlier swaps, by pool key
+ * @returns The quoted amount, the route's pools after the swap and the initialized ticks crossed in each pool, or
+ * undefined if the pools cannot fill the amount
+ */
+async function quoteRoute(
+  route: Route<Currency, Currency>,
+  amount: CurrencyAmount<Currency>,
+  tradeType: TradeType,
+  poolStates: Map<string, Pool>
+): Promise<{ quote: bigint; pools: Pool[]; initializedTicksCrossed: number[] } | undefined> {
+  const pools = route.pools.map((pool) => poolStates.get(poolKey(pool)) ?? pool)
+  const initializedTicksCrossed = pools.map(() => 0)
+  const indices = tradeType === TradeType.EXACT_INPUT ? [...pools.keys()] : [...pools.keys()].reverse()
+
+  let tokenAmount = amount.wrapped
+  try {
+    for (const i of indices) {
+      const pool = pools[i]!
+      ;[tokenAmount, pools[i], initializedTicksCrossed[i]] =
+        tradeType === TradeType.EXACT_INPUT
+          ? await pool.getOutputAmount(tokenAmount)
+          : await pool.getInputAmount(tokenAmount)
+    }
+  } catch (error) {
+    const { isInsufficientInputAmountError, isInsufficientReservesError } = error as {
+      isInsufficientInputAmountError?: boolean
+      isInsufficientReservesError?: boolean
+    }
+    if (isInsufficientInputAmountError || isInsufficientReservesError) return undefined
+    throw error
+  }
+
+  return { quote: tokenAmount.quotient, pools, initializedTicksCrossed }
+}
+
+/**
+ * Splits an amount across routes in increments, giving each increment to the route with the best quote.
+ * Quotes are computed against pool states updated by the increments already allocated, so a route is quoted at
+ * its marginal price, including when it shares a pool with another route.
+ *
+ * @param routes - The candidate routes
+ * @param amount - The input amount for exact input, or the output amount for exact output
+ * @param tradeType - Whether the amount is an exact input or exact output
+ * @param distributionPercent - The percentage of the amount allocated at a time
+ * @param maxSplits - The maximum number of routes to allocate to
+ * @param gasCosts - The gas cost of each route in the quoted currency, charged to the first increment it is given
+ * @returns The amount allocated to each route, in the order the routes were first allocated to, or undefined if
+ * the routes cannot fill the amount
+ */
+async function allocateSplits<TInput extends Currency, TOutput extends Currency, TAmount extends Currency>(
+  routes: Route<TInput, TOutput>[],
+  amount: CurrencyAmount<TAmount>,
+  tradeType: TradeType,
+  distributionPercent: number,
+  maxSplits: number,
+  gasCosts: Map<Route<TInput, TOutput>, bigint>
+): Promise<{ route: Route<TInput, TOutput>; amount: CurrencyAmount<TAmount> }[] | undefined> {
+  const steps = 100 / distributionPercent
+  const increment = (amount.quotient * BigInt(distributionPercent)) / 100n
+  const poolStates = new Map<string, Pool>()
+  const allocations = new Map<Route<TInput, TOutput>, CurrencyAmount<TAmount>>()
+
+  let remaining = amount.quotient
+  for (let step = 0; step < steps && remaining > ZERO; step++) {
+    const chunk = CurrencyAmount.fromRawAmount(amount.currency, step === steps - 1 ? remaining : increment)
+    if (chunk.quotient === ZERO) continue
+
+    let best: { route: Route<TInput, TOutput>; quote: bigint; pools: Pool[] } | undefined
+    for (const route of routes) {
+      if (!allocations.has(route) && allocations.size >= maxSplits) continue
+
+      const result = await quoteRoute(route, chunk, tradeType, poolStates)
+      if (result === undefined) continue
+      const gasCost = allocations.has(route) ? ZERO : (gasCosts.get(route) ?? ZERO)
+      const quote = tradeType === TradeType.EXACT_INPUT ? result.quote - gasCost : result.quote + gasCost
+      const isBetter =
+        best === undefined || (tradeType === TradeType.EXACT_INPUT ? quote > best.quote : quote < best.quote)
+      if (isBetter) best = { route, quote, pools: result.pools }
+    }
+    if (best === undefined) return undefined
+
+    for (const pool of best.pools) {
+      poolStates.set(poolKey(pool), pool)
+    }
+    const allocated = allocations.get(best.route)
+    allocations.set(best.route, allocated ? allocated.add(chunk) : chunk)
+    remaining -= chunk.quotient
+  }
+
+  return [...allocations].map(([route, amount]) => ({ route, amount }))
+}
+
+/**
+ * Simulates the swaps of routes executed one after the other, so routes sharing a pool see the pool state left
+ * by the routes executed before them.
+ *
+ * @param allocations - The routes in execution order and the amount routed through each
+ * @param tradeType - Whether the amounts are exact inputs or exact outputs
+ * @returns The swaps, or undefined if the pools cannot fill the amounts
+ */
+async function simulateSplits<TInput extends Currency, TOutput extends Currency>(
+  allocations: { route: Route<TInput, TOutput>; amount: CurrencyAmount<Currency> }[],
+  tradeType: TradeType
+): Promise<Swap<TInput, TOutput>[] | undefined> {
+  const poolStates = new Map<string, Pool>()
+  const swaps: Swap<TInput, TOutput>[] = []
+  for (const { route, amount } of allocations) {
+    const result = await quoteRoute(route, amount, tradeType, poolStates)
+    if (result === undefined) return undefined
+    for (const pool of result.pools) {
+      poolStates.set(poolKey(pool), pool)
+    }
+    swaps.push(
+      tradeType === TradeType.EXACT_INPUT
+        ? {
+            route,
+            inputAmount: CurrencyAmount.fromFractionalAmount(route.input, amount.numerator, amount.denominator),
+            outputAmount: CurrencyAmount.fromRawAmount(route.output, result.quote),
+          }
+        : {
+            route,
+            inputAmount: CurrencyAmount.fromRawAmount(route.input, result.quote),
+            outputAmount: CurrencyAmount.fromFractionalAmount(route.output, amount.numerator, amount.denominator),
+          }
+    )
+  }
+  return swaps
 }
 
 /**
@@ -219,6 +449,42 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     return new Trade(args.routes, args.tradeType)
   }
 
+  /**
+   * Serializes the trade into a versioned, JSON-compatible object, including the pools of its routes.
+   */
+  public toJSON(): V3TradeJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      tradeType: this.tradeType,
+      swaps: this.swaps.map(({ route, inputAmount, outputAmount }) => ({
+        route: route.toJSON(),
+        inputAmount: inputAmount.toJSON(),
+        outputAmount: outputAmount.toJSON(),
+      })),
+    }
+  }
+
+  /**
+   * Deserializes a trade produced by {@link Trade#toJSON}
+   *
+   * @param json - The serialized trade
+   * @throws ZodError if the input is not a serialized trade
+   */
+  public static fromJSON(json: unknown): Trade<Currency, Currency, TradeType> {
+    const { tradeType, swaps } = v3TradeJSONSchema.parse(json)
+    return new Trade(
+      swaps.map((swap) => {
+        const route = Route.fromJSON(swap.route)
+        return {
+          route,
+          inputAmount: amountFromJSON(route.input, swap.inputAmount),
+          outputAmount: amountFromJSON(route.output, swap.outputAmount),
+        }
+      }),
+      tradeType
+    )
+  }
+
   /**
    * The routes for this trade.
    */
@@ -360,18 +626,59 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     )
   }
 
+  /**
+   * Estimates the gas used to execute the trade, by simulating the routes hop by hop, one after the other.
+   *
+   * @param gasModel - The gas model (default: DefaultGasModel)
+   * @returns The gas used
+   */
+  public async estimateGas(gasModel: GasModel<Pool> = DEFAULT_GAS_MODEL): Promise<bigint> {
+    let gas = ZERO
+    const poolStates = new Map<string, Pool>()
+    for (const { route, inputAmount, outputAmount } of this.swaps) {
+      const amount = this.tradeType === TradeType.EXACT_INPUT ? inputAmount : outputAmount
+      const result = await quoteRoute(route, amount, this.tradeType, poolStates)
+      invariant(result !== undefined, 'LIQUIDITY')
+      for (const pool of result.pools) {
+        poolStates.set(poolKey(pool), pool)
+      }
+      for (const [i, pool] of route.pools.entries()) {
+        gas += gasModel.estimateSwapGas(pool, result.initializedTicksCrossed[i]!)
+      }
+    }
+    return gas
+  }
+
+  /**
+   * Get the cost of the gas used to execute the trade, in the output currency for exact input trades or the input
+   * currency for exact output trades.
+   *
+   * @param gas - The price of gas
+   * @returns The gas cost
+   */
+  public async gasCost({
+    gasPriceWei,
+    nativeCurrencyPrice,
+    gasModel,
+  }: TradeGasOptions): Promise<CurrencyAmount<Currency>> {
+    const currency = this.tradeType === TradeType.EXACT_INPUT ? this.outputAmount.currency : this.inputAmount.currency
+    invariant(nativeCurrencyPrice.quoteCurrency.equals(currency), 'GAS_PRICE_CURRENCY')
+    return gasCostInCurrency(await this.estimateGas(gasModel), gasPriceWei, nativeCurrencyPrice)
+  }
+
   /**
    * Given a list of pools, and a fixed amount in, returns the top `maxNumResults` trades that go from an input token
    * amount to an output token, making at most `maxHops` hops.
    *
-   * Note this does not consider aggregation, as routes are linear. It's possible a better route exists by splitting
-   * the amount in among multiple routes.
+   * Note this does not consider aggregation, as routes are linear. Use bestTradeExactInWithSplits to split the amount
+   * in among multiple routes.
    *
    * @param pools - The pools to consider in finding the best trade
    * @param currencyAmountIn - The exact amount of input currency to spend
    * @param currencyOut - The desired currency out
    * @param maxNumResults - Maximum number of results to return
    * @param maxHops - Maximum number of hops a returned trade can make
+   * @param gas - Ranks the trades on their output net of gas
    * @param currentPools - Used in recursion; the current list of pools
    * @param nextAmountIn - Used in recursion; the exact amount of input currency to spend
    * @param bestTrades - Used in recursion; the current list of best trades
@@ -381,7 +688,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     pools: Pool[],
     currencyAmountIn: CurrencyAmount<TInput>,
     currencyOut: TOutput,
-    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {},
+    { maxNumResults = 3, maxHops = 3, gas }: BestTradeOptions = {},
     currentPools: Pool[] = [],
     nextAmountIn: CurrencyAmount<Currency> = currencyAmountIn,
     bestTrades: Trade<TInput, TOutput, TradeType.EXACT_INPUT>[] = []
@@ -390,6 +697,14 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(currencyAmountIn === nextAmountIn || currentPools.length > 0, 'INVALID_RECURSION')
 
+    if (gas !== undefined) {
+      const trades = await Trade.bestTradeExactIn(pools, currencyAmountIn, currencyOut, {
+        maxNumResults: Number.POSITIVE_INFINITY,
+        maxHops,
+      })
+      return (await rankTrades(trades, gas)).slice(0, maxNumResults)
+    }
+
     const amountIn = nextAmountIn.wrapped
     const tokenOut = currencyOut.wrapped
 
@@ -450,6 +765,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
    * @param currencyAmountOut - The desired currency amount out
    * @param maxNumResults - Maximum number of results to return
    * @param maxHops - Maximum number of hops a returned trade can make
+   * @param gas - Ranks the trades on their input including gas
    * @param currentPools - Used in recursion; the current list of pools
    * @param nextAmountOut - Used in recursion; the exact amount of currency out
    * @param bestTrades - Used in recursion; the current list of best trades
@@ -459,7 +775,7 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     pools: Pool[],
     currencyIn: TInput,
     currencyAmountOut: CurrencyAmount<TOutput>,
-    { maxNumResults = 3, maxHops = 3 }: BestTradeOptions = {},
+    { maxNumResults = 3, maxHops = 3, gas }: BestTradeOptions = {},
     currentPools: Pool[] = [],
     nextAmountOut: CurrencyAmount<Currency> = currencyAmountOut,
     bestTrades: Trade<TInput, TOutput, TradeType.EXACT_OUTPUT>[] = []
@@ -468,6 +784,14 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
     invariant(maxHops > 0, 'MAX_HOPS')
     invariant(currencyAmountOut === nextAmountOut || currentPools.length > 0, 'INVALID_RECURSION')
 
+    if (gas !== undefined) {
+      const trades = await Trade.bestTradeExactOut(pools, currencyIn, currencyAmountOut, {
+        maxNumResults: Number.POSITIVE_INFINITY,
+        maxHops,
+      })
+      return (await rankTrades(trades, gas)).slice(0, maxNumResults)
+    }
+
     const amountOut = nextAmountOut.wrapped
     const tokenIn = currencyIn.wrapped
 
@@ -517,6 +841,135 @@ export class Trade<TInput extends Currency, TOutput extends Currency, TTradeType
 
     return bestTrades
   }
+
+  /**
+   * Given a list of pools and a fixed amount in, returns the trade that maximizes the output by splitting the amount
+   * across up to `maxSplits` of the best `maxRoutes` routes, in increments of `distributionPercent`.
+   *
+   * Each increment goes to the route with the best output for it, quoted against pool states that include the
+   * increments already allocated, so routes sharing a pool are quoted consistently. The amounts of the returned trade
+   * are simulated with the routes executed one after the other. The whole amount through the best single route is
+   * returned if it beats the split. With gas options, the gas cost of a route is charged to the first increment it is
+   * given, and the trades are compared net of gas.
+   *
+   * @param pools - The pools to consider in finding the best trade
+   * @param currencyAmountIn - The exact amount of input currency to spend
+   * @param currencyOut - The desired currency out
+   * @param options - The split trade options
+   * @returns The best trade, or undefined if there is no route
+   */
+  public static async bestTradeExactInWithSplits<TInput extends Currency, TOutput extends Currency>(
+    pools: Pool[],
+    currencyAmountIn: CurrencyAmount<TInput>,
+    currencyOut: TOutput,
+    { maxHops = 3, maxRoutes = 5, maxSplits = 3, distributionPercent = 5, gas }: SplitTradeOptions = {}
+  ): Promise<Trade<TInput, TOutput, TradeType.EXACT_INPUT> | undefined> {
+    invariant(maxSplits > 0, 'MAX_SPLITS')
+    invariant(
+      Number.isInteger(distributionPercent) && distributionPercent > 0 && 100 % distributionPercent === 0,
+      'DISTRIBUTION_PERCENT'
+    )
+
+    const [bestSingleTrade] = await Trade.bestTradeExactIn(pools, currencyAmountIn, currencyOut, {
+      maxNumResults: 1,
+      maxHops,
+      ...(gas && { gas }),
+    })
+
+    // Candidate routes are ranked by the output of a single increment, so routes too shallow for the whole amount
+    // are still considered
+    const increment = CurrencyAmount.fromRawAmount(
+      currencyAmountIn.currency,
+      (currencyAmountIn.quotient * BigInt(distributionPercent)) / 100n
+    )
+    const candidateTrades = await Trade.bestTradeExactIn(
+      pools,
+      increment.quotient > ZERO ? increment : currencyAmountIn,
+      currencyOut,
+      { maxNumResults: maxRoutes, maxHops, ...(gas && { gas }) }
+    )
+    const gasCosts = new Map<Route<TInput, TOutput>, bigint>()
+    if (gas !== undefined) {
+      for (const trade of candidateTrades) {
+        gasCosts.set(trade.route, (await trade.gasCost(gas)).quotient)
+      }
+    }
+    const allocations = await allocateSplits(
+      candidateTrades.map(({ route }) => route),
+      currencyAmountIn,
+      TradeType.EXACT_INPUT,
+      distributionPercent,
+      maxSplits,
+      gasCosts
+    )
+    const swaps = allocations && (await simulateSplits(allocations, TradeType.EXACT_INPUT))
+    if (swaps === undefined) return bestSingleTrade
+
+    const splitTrade = new Trade(swaps, TradeType.EXACT_INPUT)
+    const [bestTrade] = await rankTrades(bestSingleTrade ? [splitTrade, bestSingleTrade] : [splitTrade], gas)
+    return bestTrade
+  }
+
+  /**
+   * Similar to bestTradeExactInWithSplits but targets a fixed output amount.
+   * Given a list of pools and a fixed amount out, returns the trade that minimizes the input by splitting the amount
+   * across up to `maxSplits` of the best `maxRoutes` routes, in increments of `distributionPercent`.
+   *
+   * @param pools - The pools to consider in finding the best trade
+   * @param currencyIn - The currency to spend
+   * @param currencyAmountOut - The desired currency amount out
+   * @param options - The split trade options
+   * @returns The best trade, or undefined if there is no route
+   */
+  public static async bestTradeExactOutWithSplits<TInput extends Currency, TOutput extends Currency>(
+    pools: Pool[],
+    currencyIn: TInput,
+    currencyAmountOut: CurrencyAmount<TOutput>,
+    { maxHops = 3, maxRoutes = 5, maxSplits = 3, distributionPercent = 5, gas }: SplitTradeOptions = {}
+  ): Promise<Trade<TInput, TOutput, TradeType.EXACT_OUTPUT> | undefined> {
+    invariant(maxSplits > 0, 'MAX_SPLITS')
+    invariant(
+      Number.isInteger(distributionPercent) && distributionPercent > 0 && 100 % distributionPercent === 0,
+      'DISTRIBUTION_PERCENT'
+    )
+
+    const [bestSingleTrade] = await Trade.bestTradeExactOut(pools, currencyIn, currencyAmountOut, {
+      maxNumResults: 1,
+      maxHops,
+      ...(gas && { gas }),
+    })
+
+    const increment = CurrencyAmount.fromRawAmount(
+      currencyAmountOut.currency,
+      (currencyAmountOut.quotient * BigInt(distributionPercent)) / 100n
+    )
+    const candidateTrades = await Trade.bestTradeExactOut(
+      pools,
+      currencyIn,
+      increment.quotient > ZERO ? increment : currencyAmountOut,
+      { maxNumResults: maxRoutes, maxHops, ...(gas && { gas }) }
+    )
+    const gasCosts = new Map<Route<TInput, TOutput>, bigint>()
+    if (gas !== undefined) {
+      for (const trade of candidateTrades) {
+        gasCosts.set(trade.route, (await trade.gasCost(gas)).quotient)
+      }
+    }
+    const allocations = await allocateSplits(
+      candidateTrades.map(({ route }) => route),
+      currencyAmountOut,
+      TradeType.EXACT_OUTPUT,
+      distributionPercent,
+      maxSplits,
+      gasCosts
+    )
+    const swaps = allocations && (await simulateSplits(allocations, TradeType.EXACT_OUTPUT))
+    if (swaps === undefined) return bestSingleTrade
+
+    const splitTrade = new Trade(swaps, TradeType.EXACT_OUTPUT)
+    const [bestTrade] = await rankTrades(bestSingleTrade ? [splitTrade, bestSingleTrade] : [splitTrade], gas)
+    return bestTrade
+  }
 }
 
 /**
@@ -0,0 +1,29 @@
+import type { GasModel } from '@muniswap/sdk-core'
+import type { Pool } from '../entities/pool'
+
+/**
+ * The gas costs of a swap through a pool.
+ */
+export interface GasModelOptions {
+  /** The gas used by each hop (default: 80,000) */
+  perHopGas?: bigint
+  /** The gas used by each initialized tick crossed (default: 30,000) */
+  perInitializedTickGas?: bigint
+}
+
+/**
+ * A gas model charging a base cost per hop and a cost per initialized tick crossed.
+ */
+export class DefaultGasModel implements GasModel<Pool> {
+  public readonly perHopGas: bigint
+  public readonly perInitializedTickGas: bigint
+
+  constructor({ perHopGas = 80_000n, perInitializedTickGas = 30_000n }: GasModelOptions = {}) {
+    this.perHopGas = perHopGas
+    this.perInitializedTickGas = perInitializedTickGas
+  }
+
+  estimateSwapGas(_pool: Pool, initializedTicksCrossed: number): bigint {
+    return this.perHopGas + this.perInitializedTickGas * BigInt(initializedTicksCrossed)
+  }
+}
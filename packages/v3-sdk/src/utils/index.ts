@@ -3,6 +3,7 @@ export * from './computePoolAddress'
 export * from './encodeRouteToPath'
 export * from './encodeSqrtRatioX96'
 export * from './fullMath'
+export * from './gasModel'
 export * from './isSorted'
 export * from './liquidityMath'
 export * from './maxLiquidityForAmounts'
@@ -102,7 +102,9 @@ export function computeSwapStep(
     // We didn't reach the target, so take the remainder of the maximum input as fee
     feeAmount = amountRemaining - amountIn
   } else {
-    feeAmount = mulDivRoundingUp(amountIn, feePipsBigInt, MAX_FEE - feePipsBigInt)
+    // A fee of 100% takes an amount equal to the input
+    feeAmount =
+      feePipsBigInt === MAX_FEE ? amountIn : mulDivRoundingUp(amountIn, feePipsBigInt, MAX_FEE - feePipsBigInt)
   }
 
   return {
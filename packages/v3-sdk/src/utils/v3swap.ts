@@ -20,6 +20,8 @@ export interface SwapResult {
   sqrtRatioX96: bigint
   liquidity: bigint
   tickCurrent: number
+  /** The number of initialized ticks the swap crossed */
+  initializedTicksCrossed: number
 }
 
 /**
@@ -70,6 +72,7 @@ export async function v3Swap(
     sqrtPriceX96: sqrtRatioX96,
     tick: tickCurrent,
     liquidity: liquidity,
+    initializedTicksCrossed: 0,
   }
 
   // Start swap while loop
@@ -131,6 +134,7 @@ export async function v3Swap(
         if (zeroForOne) liquidityNet = liquidityNet * NEGATIVE_ONE
 
         state.liquidity = addDelta(state.liquidity, liquidityNet)
+        state.initializedTicksCrossed++
       }
 
       state.tick = zeroForOne ? step.tickNext - 1 : step.tickNext
@@ -146,5 +150,6 @@ export async function v3Swap(
     sqrtRatioX96: state.sqrtPriceX96,
     liquidity: state.liquidity,
     tickCurrent: state.tick,
+    initializedTicksCrossed: state.initializedTicksCrossed,
   }
 }
@@ -1,5 +1,11 @@
-import { type BigintIsh, type NativeCurrency, type Percent, validateAndParseAddress } from '@muniswap/sdk-core'
-import { AbiFunction } from 'ox'
+import {
+  type BigintIsh,
+  type Currency,
+  type NativeCurrency,
+  type Percent,
+  validateAndParseAddress,
+} from '@muniswap/sdk-core'
+import { AbiFunction, type Hex } from 'ox'
 import invariant from 'tiny-invariant'
 import { MSG_SENDER } from './actionConstants'
 import { type PoolKey, Position } from './entities'
@@ -16,6 +22,8 @@ import {
 } from './internalConstants'
 import { Multicall } from './multicall'
 import { type MethodParameters, toHex } from './utils/calldata'
+import { toAddress } from './utils/currencyMap'
+import { type PositionInfo, decodePositionInfo } from './utils/positionInfo'
 import { positionManagerAbi } from './utils/positionManagerAbi'
 import { V4PositionPlanner } from './utils/v4PositionPlanner'
 
@@ -74,6 +82,28 @@ export interface TransferOptions {
   recipient: string
   /** The id of the token being sent */
   tokenId: BigintIsh
+  /** Optional data to pass to the recipient's onERC721Received (default: 0x) */
+  data?: string
+  /** The optional permit of the token ID being sent */
+  permit?: NFTPermitOptions
+}
+
+export interface SubscribeOptions {
+  /** The id of the position to subscribe */
+  tokenId: BigintIsh
+  /** The subscriber contract to notify of changes to the position */
+  subscriber: string
+  /** Optional data to pass to the subscriber (default: 0x) */
+  subscriberData?: string
+  /** The optional permit of the token ID being subscribed */
+  permit?: NFTPermitOptions
+}
+
+export interface UnsubscribeOptions {
+  /** The id of the position to unsubscribe */
+  tokenId: BigintIsh
+  /** The optional permit of the token ID being unsubscribed */
+  permit?: NFTPermitOptions
 }
 
 export interface PermitDetails {
@@ -101,6 +131,10 @@ export interface BatchPermitOptions {
   signature: string
 }
 
+const GET_POOL_AND_POSITION_INFO_ABI = AbiFunction.from(
+  'function getPoolAndPositionInfo(uint256 tokenId) view returns ((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, uint256 info)'
+)
+
 const NFT_PERMIT_TYPES = {
   Permit: [
     { name: 'spender', type: 'address' },
@@ -140,6 +174,58 @@ export type RemoveLiquidityOptions = CommonOptions & RemoveLiquiditySpecificOpti
 
 export type CollectOptions = CommonOptions & CollectSpecificOptions
 
+interface LiquidityOperationBase {
+  /** The position to operate on */
+  position: Position
+  /** Optional data to pass to hooks */
+  hookData?: string
+}
+
+interface ModifyLiquidityOperationBase extends LiquidityOperationBase, ModifyPositionSpecificOptions {
+  /** The optional permit of the token ID */
+  permit?: NFTPermitOptions
+}
+
+interface RemoveLiquidityOperationBase extends ModifyLiquidityOperationBase {
+  /** The account that should receive the removed currencies (default: msg.sender) */
+  recipient?: string
+}
+
+/**
+ * An operation on one position in a batch: mint a new position, increase or decrease the liquidity of an existing
+ * position by the liquidity of `position` or a percentage of it, collect its fees, or burn it
+ */
+export type LiquidityOperation =
+  | ({ type: 'mint'; recipient: string } & LiquidityOperationBase)
+  | ({ type: 'increase' } & ModifyLiquidityOperationBase)
+  | ({ type: 'decrease'; liquidityPercentage: Percent } & RemoveLiquidityOperationBase)
+  | ({ type: 'collect' } & RemoveLiquidityOperationBase)
+  | ({ type: 'burn' } & RemoveLiquidityOperationBase)
+
+export interface BatchOptions {
+  /** How much the pool prices are allowed to move, applied to every operation */
+  slippageTolerance: Percent
+  /** When the transaction expires, in epoch seconds */
+  deadline: BigintIsh
+  /** The optional permit2 batch permit parameters for spending the added currencies */
+  batchPermit?: BatchPermitOptions
+}
+
+// How a batch changes the balance of a currency
+interface CurrencyFlow {
+  currency: Currency
+  // Whether liquidity of the currency is added, i.e. it is owed by the caller
+  added: boolean
+  // Whether liquidity of the currency is removed, i.e. it is owed to the caller
+  removed: boolean
+  // The most of the currency that the additions can spend
+  addedMax: bigint
+  // The least of the currency that the removals return
+  removedMin: bigint
+  // The account the removals are taken to
+  recipient: string
+}
+
 // Type guard
 function isMint(options: AddLiquidityOptions): options is MintOptions {
   return Object.keys(options).some((k) => k === 'recipient')
@@ -153,6 +239,13 @@ function shouldCreatePool(options: MintOptions): boolean {
   return false
 }
 
+// Calls fn with consecutive pairs of currencies, and the last currency alone if the count is odd
+function forEachPair(currencies: Currency[], fn: (currency0: Currency, currency1?: Currency) => void): void {
+  for (let i = 0; i < currencies.length; i += 2) {
+    fn(currencies[i]!, currencies[i + 1])
+  }
+}
+
 // Helper to find a function in the ABI
 function findAbiFunction(name: string): Parameters<typeof AbiFunction.encodeData>[0] {
   const fn = positionManagerAbi.find((item) => item.type === 'function' && item.name === name)
@@ -297,15 +390,7 @@ export abstract class V4PositionManager {
 
       // If there is a permit, encode the ERC721Permit permit call
       if (options.permit) {
-        calldataList.push(
-          V4PositionManager.encodeERC721Permit(
-            options.permit.spender,
-            options.permit.tokenId,
-            options.permit.deadline,
-            options.permit.nonce,
-            options.permit.signature
-          )
-        )
+        calldataList.push(V4PositionManager.encodeNFTPermit(options.permit))
       }
 
       // Slippage-adjusted amounts derived from current position liquidity
@@ -374,6 +459,218 @@ export abstract class V4PositionManager {
     }
   }
 
+  /**
+   * Produces calldata for a batch of operations across positions and pools in a single modifyLiquidities call.
+   * Each currency is settled once after all operations: currencies that are only added are settled from the caller,
+   * currencies that are only removed are taken to the recipient of their removals, and currencies that are both are
+   * closed, which takes any net amount to the caller
+   * @param operations The operations, in execution order
+   * @param options Options for the batch
+   * @returns The call parameters
+   */
+  public static batchCallParameters(operations: LiquidityOperation[], options: BatchOptions): MethodParameters {
+    invariant(operations.length > 0, 'NO_OPERATIONS')
+
+    const calldataList: string[] = []
+    const planner = new V4PositionPlanner()
+    const flows = new Map<string, CurrencyFlow>()
+
+    const recordFlow = (currency: Currency, added: boolean, amount: bigint, recipient: string = MSG_SENDER) => {
+      const key = toAddress(currency)
+      const flow = flows.get(key) ?? {
+        currency,
+        added: false,
+        removed: false,
+        addedMax: ZERO,
+        removedMin: ZERO,
+        recipient,
+      }
+      if (added) {
+        flow.added = true
+        flow.addedMax += amount
+      } else {
+        // A currency is taken once, so all of its removals must go to the same recipient
+        invariant(!flow.removed || flow.recipient === recipient, 'RECIPIENT_CONFLICT')
+        flow.removed = true
+        flow.removedMin += amount
+        flow.recipient = recipient
+      }
+      flows.set(key, flow)
+    }
+
+    if (options.batchPermit) {
+      calldataList.push(
+        V4PositionManager.encodePermitBatch(
+          options.batchPermit.owner,
+          options.batchPermit.permitBatch,
+          options.batchPermit.signature
+        )
+      )
+    }
+
+    for (const operation of operations) {
+      const { position, hookData } = operation
+      const { currency0, currency1 } = position.pool
+
+      if (operation.type !== 'mint' && operation.permit) {
+        calldataList.push(V4PositionManager.encodeNFTPermit(operation.permit))
+      }
+
+      if (operation.type === 'mint' || operation.type === 'increase') {
+        invariant(position.liquidity > ZERO, ZERO_LIQUIDITY)
+        const { amount0, amount1 } = position.mintAmountsWithSlippage(options.slippageTolerance)
+        if (operation.type === 'mint') {
+          planner.addMint(
+            position.pool,
+            position.tickLower,
+            position.tickUpper,
+            position.liquidity,
+            amount0,
+            amount1,
+            validateAndParseAddress(operation.recipient),
+            hookData
+          )
+        } else {
+          planner.addIncrease(operation.tokenId, position.liquidity, amount0, amount1, hookData)
+        }
+        recordFlow(currency0, true, amount0)
+        recordFlow(currency1, true, amount1)
+        continue
+      }
+
+      const recipient = operation.recipient === undefined ? MSG_SENDER : validateAndParseAddress(operation.recipient)
+
+      if (operation.type === 'collect') {
+        planner.addDecrease(operation.tokenId, ZERO, ZERO, ZERO, hookData)
+        recordFlow(currency0, false, ZERO, recipient)
+        recordFlow(currency1, false, ZERO, recipient)
+        continue
+      }
+
+      const removedPosition =
+        operation.type === 'burn'
+          ? position
+          : new Position({
+              pool: position.pool,
+              liquidity: operation.liquidityPercentage.multiply(position.liquidity).quotient,
+              tickLower: position.tickLower,
+              tickUpper: position.tickUpper,
+            })
+      invariant(operation.type === 'burn' || removedPosition.liquidity > ZERO, ZERO_LIQUIDITY)
+      const { amount0, amount1 } = removedPosition.burnAmountsWithSlippage(options.slippageTolerance)
+      if (operation.type === 'burn') {
+        planner.addBurn(operation.tokenId, amount0, amount1, hookData)
+      } else {
+        planner.addDecrease(operation.tokenId, removedPosition.liquidity, amount0, amount1, hookData)
+      }
+      recordFlow(currency0, false, amount0, recipient)
+      recordFlow(currency1, false, amount1, recipient)
+    }
+
+    const settled: Currency[] = []
+    const taken = new Map<string, Currency[]>()
+    let native: Currency | undefined
+    let value = ZERO
+    for (const { currency, added, removed, addedMax, removedMin, recipient } of flows.values()) {
+      if (added && removed) {
+        // CLOSE_CURRENCY takes a net positive delta to the caller only
+        invariant(recipient === MSG_SENDER, 'RECIPIENT_CONFLICT')
+        planner.addCloseCurrency(currency)
+      } else if (added) {
+        settled.push(currency)
+      } else {
+        taken.set(recipient, [...(taken.get(recipient) ?? []), currency])
+      }
+      // Native currency is paid from the value sent, which must cover the additions less what the removals return
+      if (currency.isNative && added && addedMax > removedMin) {
+        native = currency
+        value = addedMax - removedMin
+      }
+    }
+    forEachPair(settled, (currency0, currency1) =>
+      currency1 ? planner.addSettlePair(currency0, currency1) : planner.addSettle(currency0, true)
+    )
+    for (const [recipient, currencies] of taken) {
+      forEachPair(currencies, (currency0, currency1) =>
+        currency1 ? planner.addTakePair(currency0, currency1, recipient) : planner.addTake(currency0, recipient)
+      )
+    }
+
+    // Refund the native currency left unspent
+    if (native) {
+      planner.addSweep(native, MSG_SENDER)
+    }
+
+    calldataList.push(V4PositionManager.encodeModifyLiquidities(planner.finalize(), options.deadline))
+
+    return {
+      calldata: Multicall.encodeMulticall(calldataList),
+      value: toHex(value),
+    }
+  }
+
+  /**
+   * Produces calldata for transferring a position NFT with safeTransferFrom
+   * @param options Options for the transfer
+   * @returns The call parameters
+   */
+  public static transferCallParameters(options: TransferOptions): MethodParameters {
+    const calldataList: string[] = []
+
+    if (options.permit) {
+      calldataList.push(V4PositionManager.encodeNFTPermit(options.permit))
+    }
+    calldataList.push(
+      V4PositionManager.encodeSafeTransferFrom(options.sender, options.recipient, options.tokenId, options.data)
+    )
+
+    return {
+      calldata: Multicall.encodeMulticall(calldataList),
+      value: toHex(0),
+    }
+  }
+
+  /**
+   * Produces calldata for subscribing a position to a subscriber contract, which is notified of every change to the
+   * position until it unsubscribes
+   * @param options Options for the subscribe operation
+   * @returns The call parameters
+   */
+  public static subscribeCallParameters(options: SubscribeOptions): MethodParameters {
+    const calldataList: string[] = []
+
+    if (options.permit) {
+      calldataList.push(V4PositionManager.encodeNFTPermit(options.permit))
+    }
+    calldataList.push(
+      V4PositionManager.encodeSubscribe(options.tokenId, options.subscriber, options.subscriberData ?? EMPTY_BYTES)
+    )
+
+    return {
+      calldata: Multicall.encodeMulticall(calldataList),
+      value: toHex(0),
+    }
+  }
+
+  /**
+   * Produces calldata for unsubscribing a position from its subscriber
+   * @param options Options for the unsubscribe operation
+   * @returns The call parameters
+   */
+  public static unsubscribeCallParameters(options: UnsubscribeOptions): MethodParameters {
+    const calldataList: string[] = []
+
+    if (options.permit) {
+      calldataList.push(V4PositionManager.encodeNFTPermit(options.permit))
+    }
+    calldataList.push(V4PositionManager.encodeUnsubscribe(options.tokenId))
+
+    return {
+      calldata: Multicall.encodeMulticall(calldataList),
+      value: toHex(0),
+    }
+  }
+
   // Initialize a pool
   private static encodeInitializePool(poolKey: PoolKey, sqrtPriceX96: BigintIsh): string {
     const fn = findAbiFunction(PositionFunctions.INITIALIZE_POOL)
@@ -422,6 +719,89 @@ export abstract class V4PositionManager {
     ])
   }
 
+  // Encode a safeTransferFrom call with data
+  public static encodeSafeTransferFrom(
+    sender: string,
+    recipient: string,
+    tokenId: BigintIsh,
+    data: string = EMPTY_BYTES
+  ): string {
+    // Find the safeTransferFrom function with 4 parameters (the one with data)
+    const fn = positionManagerAbi.find(
+      (item) => item.type === 'function' && item.name === 'safeTransferFrom' && item.inputs.length === 4
+    )
+    if (!fn || fn.type !== 'function') {
+      throw new Error('safeTransferFrom function not found in ABI')
+    }
+
+    return AbiFunction.encodeData(fn as Parameters<typeof AbiFunction.encodeData>[0], [
+      validateAndParseAddress(sender),
+      validateAndParseAddress(recipient),
+      BigInt(tokenId.toString()),
+      data,
+    ])
+  }
+
+  // Encode a subscribe call
+  public static encodeSubscribe(tokenId: BigintIsh, subscriber: string, data: string = EMPTY_BYTES): string {
+    const fn = findAbiFunction(PositionFunctions.SUBSCRIBE)
+    return AbiFunction.encodeData(fn, [BigInt(tokenId.toString()), validateAndParseAddress(subscriber), data])
+  }
+
+  // Encode an unsubscribe call
+  public static encodeUnsubscribe(tokenId: BigintIsh): string {
+    const fn = findAbiFunction(PositionFunctions.UNSUBSCRIBE)
+    return AbiFunction.encodeData(fn, [BigInt(tokenId.toString())])
+  }
+
+  /**
+   * Encodes a call to getPoolAndPositionInfo, reading the pool key and packed position info of a token
+   * @param tokenId The id of the position
+   * @returns The calldata
+   */
+  public static encodeGetPoolAndPositionInfo(tokenId: BigintIsh): string {
+    const fn = findAbiFunction(PositionFunctions.GET_POOL_AND_POSITION_INFO)
+    return AbiFunction.encodeData(fn, [BigInt(tokenId.toString())])
+  }
+
+  /**
+   * Decodes the result of getPoolAndPositionInfo
+   * @param data The return data
+   * @returns The pool key and the unpacked position info
+   */
+  public static decodeGetPoolAndPositionInfo(data: string): { poolKey: PoolKey; positionInfo: PositionInfo } {
+    const [{ currency0, currency1, fee, tickSpacing, hooks }, info] = AbiFunction.decodeResult(
+      GET_POOL_AND_POSITION_INFO_ABI,
+      data as Hex.Hex
+    )
+    return { poolKey: { currency0, currency1, fee, tickSpacing, hooks }, positionInfo: decodePositionInfo(info) }
+  }
+
+  /**
+   * Encodes a call to getPositionLiquidity, reading the liquidity of a token
+   * @param tokenId The id of the position
+   * @returns The calldata
+   */
+  public static encodeGetPositionLiquidity(tokenId: BigintIsh): string {
+    const fn = findAbiFunction(PositionFunctions.GET_POSITION_LIQUIDITY)
+    return AbiFunction.encodeData(fn, [BigInt(tokenId.toString())])
+  }
+
+  /**
+   * Decodes the result of getPositionLiquidity
+   * @param data The return data
+   * @returns The liquidity of the position
+   */
+  public static decodeGetPositionLiquidity(data: string): bigint {
+    const fn = findAbiFunction(PositionFunctions.GET_POSITION_LIQUIDITY)
+    return AbiFunction.decodeResult(fn, data as Hex.Hex) as bigint
+  }
+
+  // Encode a ERC721Permit permit call from its options
+  private static encodeNFTPermit({ spender, tokenId, deadline, nonce, signature }: NFTPermitOptions): string {
+    return V4PositionManager.encodeERC721Permit(spender, tokenId, deadline, nonce, signature)
+  }
+
   // Prepare the params for an EIP712 signTypedData request
   public static getPermitData(permit: NFTPermitValues, positionManagerAddress: string, chainId: number): NFTPermitData {
     return {
@@ -0,0 +1,268 @@
+import { Ether, Percent, Token } from '@muniswap/sdk-core'
+import { encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import { AbiFunction, type Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { type NFTPermitOptions, V4PositionManager } from '../PositionManager'
+import { MSG_SENDER } from '../actionConstants'
+import { Pool } from '../entities/pool'
+import { Position } from '../entities/position'
+import { ADDRESS_ZERO, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY } from '../internalConstants'
+import { Multicall } from '../multicall'
+import { V4BaseActionsParser } from '../utils/v4BaseActionsParser'
+
+describe('V4PositionManager', () => {
+  const SENDER = '0x0000000000000000000000000000000000000001'
+  const RECIPIENT = '0x0000000000000000000000000000000000000002'
+  const SUBSCRIBER = '0x0000000000000000000000000000000000000003'
+  const TOKEN_ID = 42n
+
+  const permitAbi = AbiFunction.from(
+    'function permit(address spender, uint256 tokenId, uint256 deadline, uint256 nonce, bytes signature)'
+  )
+  const safeTransferFromAbi = AbiFunction.from(
+    'function safeTransferFrom(address from, address to, uint256 id, bytes data)'
+  )
+  const subscribeAbi = AbiFunction.from('function subscribe(uint256 tokenId, address newSubscriber, bytes data)')
+  const unsubscribeAbi = AbiFunction.from('function unsubscribe(uint256 tokenId)')
+
+  const permit: NFTPermitOptions = {
+    spender: SUBSCRIBER,
+    tokenId: TOKEN_ID,
+    deadline: 123,
+    nonce: 1,
+    signature: `0x${'11'.repeat(65)}`,
+  }
+  const encodedPermit = AbiFunction.encodeData(permitAbi, [SUBSCRIBER, TOKEN_ID, 123n, 1n, permit.signature as Hex.Hex])
+
+  describe('#transferCallParameters', () => {
+    it('encodes a single safe transfer without a multicall', () => {
+      const { calldata, value } = V4PositionManager.transferCallParameters({
+        sender: SENDER,
+        recipient: RECIPIENT,
+        tokenId: TOKEN_ID,
+      })
+
+      expect(value).toEqual('0x00')
+      expect(calldata).toEqual(AbiFunction.encodeData(safeTransferFromAbi, [SENDER, RECIPIENT, TOKEN_ID, '0x']))
+    })
+
+    it('encodes the permit before the transfer', () => {
+      const { calldata } = V4PositionManager.transferCallParameters({
+        sender: SENDER,
+        recipient: RECIPIENT,
+        tokenId: TOKEN_ID,
+        data: '0x1234',
+        permit,
+      })
+
+      expect(Multicall.decodeMulticall(calldata)).toEqual([
+        encodedPermit,
+        AbiFunction.encodeData(safeTransferFromAbi, [SENDER, RECIPIENT, TOKEN_ID, '0x1234']),
+      ])
+    })
+
+    it('validates the addresses', () => {
+      expect(() =>
+        V4PositionManager.transferCallParameters({ sender: '0x123', recipient: RECIPIENT, tokenId: TOKEN_ID })
+      ).toThrow()
+    })
+  })
+
+  describe('#subscribeCallParameters', () => {
+    it('encodes a subscribe with empty data by default', () => {
+      const { calldata, value } = V4PositionManager.subscribeCallParameters({
+        tokenId: TOKEN_ID,
+        subscriber: SUBSCRIBER,
+      })
+
+      expect(value).toEqual('0x00')
+      expect(calldata).toEqual(AbiFunction.encodeData(subscribeAbi, [TOKEN_ID, SUBSCRIBER, '0x']))
+    })
+
+    it('encodes the permit before the subscribe', () => {
+      const { calldata } = V4PositionManager.subscribeCallParameters({
+        tokenId: TOKEN_ID,
+        subscriber: SUBSCRIBER,
+        subscriberData: '0xabcd',
+        permit,
+      })
+
+      expect(Multicall.decodeMulticall(calldata)).toEqual([
+        encodedPermit,
+        AbiFunction.encodeData(subscribeAbi, [TOKEN_ID, SUBSCRIBER, '0xabcd']),
+      ])
+    })
+  })
+
+  describe('#unsubscribeCallParameters', () => {
+    it('encodes an unsubscribe', () => {
+      const { calldata } = V4PositionManager.unsubscribeCallParameters({ tokenId: TOKEN_ID, permit })
+
+      expect(Multicall.decodeMulticall(calldata)).toEqual([
+        encodedPermit,
+        AbiFunction.encodeData(unsubscribeAbi, [TOKEN_ID]),
+      ])
+    })
+  })
+
+  describe('#batchCallParameters', () => {
+    const ETH = Ether.onChain(1)
+    const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+    const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+    const SQRT_PRICE = encodeSqrtRatioX96(1, 1)
+    const ETH_USDC = new Pool(ETH, USDC, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY, ADDRESS_ZERO, SQRT_PRICE, 0, 0, [])
+    const DAI_USDC = new Pool(DAI, USDC, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY, ADDRESS_ZERO, SQRT_PRICE, 0, 0, [])
+    const ethPosition = new Position({ pool: ETH_USDC, liquidity: 10n ** 18n, tickLower: -120, tickUpper: 120 })
+    const daiPosition = new Position({ pool: DAI_USDC, liquidity: 10n ** 18n, tickLower: -120, tickUpper: 120 })
+    const options = { slippageTolerance: new Percent(1, 100), deadline: 123 }
+
+    const modifyLiquiditiesAbi = AbiFunction.from('function modifyLiquidities(bytes unlockData, uint256 deadline)')
+    const parseActions = (calldata: string) => {
+      const [unlockData] = AbiFunction.decodeData(modifyLiquiditiesAbi, calldata as Hex.Hex)
+      return V4BaseActionsParser.parseCalldata(unlockData).actions.map(({ actionName, params }) => [
+        actionName,
+        params.map(({ value }) => value),
+      ])
+    }
+
+    it('settles each added currency once and sends the native maximum', () => {
+      const { calldata, value } = V4PositionManager.batchCallParameters(
+        [
+          { type: 'mint', position: daiPosition, recipient: RECIPIENT },
+          { type: 'increase', position: ethPosition, tokenId: TOKEN_ID },
+        ],
+        options
+      )
+      const ethMaximum = ethPosition.mintAmountsWithSlippage(options.slippageTolerance).amount0
+      const actions = parseActions(calldata)
+
+      expect(actions.map(([actionName]) => actionName)).toEqual([
+        'MINT_POSITION',
+        'INCREASE_LIQUIDITY',
+        'SETTLE_PAIR',
+        'SETTLE',
+        'SWEEP',
+      ])
+      expect(actions.slice(2)).toEqual([
+        ['SETTLE_PAIR', [DAI.address.toLowerCase(), USDC.address.toLowerCase()]],
+        ['SETTLE', [ADDRESS_ZERO, 0n, true]],
+        ['SWEEP', [ADDRESS_ZERO, MSG_SENDER]],
+      ])
+      expect(BigInt(value)).toEqual(ethMaximum)
+    })
+
+    it('takes each removed currency once', () => {
+      const { calldata, value } = V4PositionManager.batchCallParameters(
+        [
+          { type: 'decrease', position: daiPosition, tokenId: 1, liquidityPercentage: new Percent(1, 2) },
+          { type: 'collect', position: ethPosition, tokenId: 2 },
+        ],
+        options
+      )
+      const actions = parseActions(calldata)
+
+      expect(actions[0]).toEqual([
+        'DECREASE_LIQUIDITY',
+        [1n, 5n * 10n ** 17n, expect.any(BigInt), expect.any(BigInt), '0x'],
+      ])
+      expect(actions.slice(1)).toEqual([
+        ['DECREASE_LIQUIDITY', [2n, 0n, 0n, 0n, '0x']],
+        ['TAKE_PAIR', [DAI.address.toLowerCase(), USDC.address.toLowerCase(), MSG_SENDER]],
+        ['TAKE', [ADDRESS_ZERO, MSG_SENDER, 0n]],
+      ])
+      expect(value).toEqual('0x00')
+    })
+
+    it('closes currencies that are both added and removed, netting the native value', () => {
+      const { calldata, value } = V4PositionManager.batchCallParameters(
+        [
+          { type: 'burn', position: ethPosition, tokenId: 1, permit },
+          {
+            type: 'mint',
+            position: new Position({ pool: ETH_USDC, liquidity: 2n * 10n ** 18n, tickLower: -60, tickUpper: 60 }),
+            recipient: RECIPIENT,
+          },
+        ],
+        options
+      )
+      const [permitCall, modifyLiquiditiesCall] = Multicall.decodeMulticall(calldata)
+      const actions = parseActions(modifyLiquiditiesCall!)
+      const burnMinimum = ethPosition.burnAmountsWithSlippage(options.slippageTolerance).amount0
+      const [, mintParams] = actions[1]!
+      const mintMaximum = (mintParams as unknown[])[4] as bigint
+
+      expect(permitCall).toEqual(encodedPermit)
+      expect(actions.map(([actionName]) => actionName)).toEqual([
+        'BURN_POSITION',
+        'MINT_POSITION',
+        'CLOSE_CURRENCY',
+        'CLOSE_CURRENCY',
+        'SWEEP',
+      ])
+      expect(BigInt(value)).toEqual(mintMaximum - burnMinimum)
+    })
+
+    it('takes removals to their recipient', () => {
+      const { calldata } = V4PositionManager.batchCallParameters(
+        [
+          {
+            type: 'decrease',
+            position: daiPosition,
+            tokenId: 1,
+            liquidityPercentage: new Percent(1, 2),
+            recipient: RECIPIENT,
+          },
+          { type: 'collect', position: ethPosition, tokenId: 2, recipient: RECIPIENT },
+        ],
+        options
+      )
+
+      expect(parseActions(calldata).slice(2)).toEqual([
+        ['TAKE_PAIR', [DAI.address.toLowerCase(), USDC.address.toLowerCase(), RECIPIENT]],
+        ['TAKE', [ADDRESS_ZERO, RECIPIENT, 0n]],
+      ])
+    })
+
+    it('permits increases', () => {
+      const { calldata } = V4PositionManager.batchCallParameters(
+        [{ type: 'increase', position: daiPosition, tokenId: 1, permit }],
+        options
+      )
+      const [permitCall, modifyLiquiditiesCall] = Multicall.decodeMulticall(calldata)
+
+      expect(permitCall).toEqual(encodedPermit)
+      expect(parseActions(modifyLiquiditiesCall!).map(([actionName]) => actionName)).toEqual([
+        'INCREASE_LIQUIDITY',
+        'SETTLE_PAIR',
+      ])
+    })
+
+    it('validates the operations', () => {
+      expect(() => V4PositionManager.batchCallParameters([], options)).toThrow('NO_OPERATIONS')
+      expect(() =>
+        V4PositionManager.batchCallParameters(
+          [{ type: 'decrease', position: daiPosition, tokenId: 1, liquidityPercentage: new Percent(0) }],
+          options
+        )
+      ).toThrow('ZERO_LIQUIDITY')
+      expect(() =>
+        V4PositionManager.batchCallParameters(
+          [
+            { type: 'collect', position: daiPosition, tokenId: 1, recipient: RECIPIENT },
+            { type: 'collect', position: ethPosition, tokenId: 2 },
+          ],
+          options
+        )
+      ).toThrow('RECIPIENT_CONFLICT')
+      expect(() =>
+        V4PositionManager.batchCallParameters(
+          [
+            { type: 'collect', position: daiPosition, tokenId: 1, recipient: RECIPIENT },
+            { type: 'mint', position: daiPosition, recipient: RECIPIENT },
+          ],
+          options
+        )
+      ).toThrow('RECIPIENT_CONFLICT')
+    })
+  })
+})
@@ -284,4 +284,37 @@ describe('Hook', () => {
       expect(Hook.hasDonatePermissions(hookAfterSwap)).toEqual(false)
     })
   })
+
+  describe('encodePermissions', () => {
+    it('returns the flags of the permissions', () => {
+      expect(Hook.encodePermissions({})).toEqual(0)
+      expect(Hook.encodePermissions({ beforeSwap: true, afterSwap: false })).toEqual(0x80)
+      expect(Hook.encodePermissions({ beforeSwap: true, beforeSwapReturnsDelta: true })).toEqual(0x88)
+      expect(Hook.encodePermissions(Hook.permissions(allHooksAddress))).toEqual(0x3fff)
+    })
+
+    it('round trips through the permissions of an address', () => {
+      const address = constructHookAddress([
+        HookOptions.BeforeAddLiquidity,
+        HookOptions.AfterRemoveLiquidity,
+        HookOptions.AfterDonate,
+      ])
+      expect(Hook.encodePermissions(Hook.permissions(address))).toEqual(Number.parseInt(address.slice(-4), 16))
+    })
+
+    it('throws if a delta is returned from a hook without its permission', () => {
+      expect(() => Hook.encodePermissions({ beforeSwapReturnsDelta: true })).toThrow(
+        'beforeSwapReturnsDelta requires beforeSwap'
+      )
+      expect(() =>
+        Hook.encodePermissions({ afterSwap: true, afterSwapReturnsDelta: true, beforeSwapReturnsDelta: true })
+      ).toThrow('beforeSwapReturnsDelta requires beforeSwap')
+      expect(() => Hook.encodePermissions({ afterAddLiquidityReturnsDelta: true })).toThrow(
+        'afterAddLiquidityReturnsDelta requires afterAddLiquidity'
+      )
+      expect(() => Hook.encodePermissions({ afterRemoveLiquidityReturnsDelta: true })).toThrow(
+        'afterRemoveLiquidityReturnsDelta requires afterRemoveLiquidity'
+      )
+    })
+  })
 })
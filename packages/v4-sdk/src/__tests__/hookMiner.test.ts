@@ -0,0 +1,50 @@
+import { ContractAddress, Hash } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { Hook } from '../utils/hook'
+import { mineHookSalt } from '../utils/hookMiner'
+
+describe('mineHookSalt', () => {
+  // The deterministic deployment proxy
+  const deployer = '0x4e59b44847b379578588920cA78FbF26c0B4956C'
+  const initCodeHash = Hash.keccak256('0x6080604052348015600e575f80fd5b50')
+  const permissions = { beforeSwap: true, afterSwap: true, afterSwapReturnsDelta: true }
+
+  it('finds a salt deploying to an address with exactly the permissions', async () => {
+    const { salt, address } = await mineHookSalt({ deployer, initCodeHash, permissions })
+
+    expect(address).toEqual(ContractAddress.fromCreate2({ from: deployer, salt, bytecodeHash: initCodeHash }))
+    expect(Hook.permissions(address)).toEqual({ ...Hook.permissions(`0x${'0'.repeat(40)}`), ...permissions })
+  })
+
+  it('returns the first matching salt from the start salt', async () => {
+    const { salt } = await mineHookSalt({ deployer, initCodeHash, permissions })
+
+    expect(await mineHookSalt({ deployer, initCodeHash, permissions, startSalt: BigInt(salt) })).toEqual(
+      await mineHookSalt({ deployer, initCodeHash, permissions })
+    )
+    await expect(mineHookSalt({ deployer, initCodeHash, permissions, maxIterations: Number(salt) })).rejects.toThrow(
+      'SALT_NOT_FOUND'
+    )
+  })
+
+  it('searches across worker threads', async () => {
+    const { salt, address } = await mineHookSalt({ deployer, initCodeHash, permissions, startSalt: 1000n, workers: 2 })
+
+    expect(BigInt(salt) >= 1000n).toBe(true)
+    expect(address).toEqual(ContractAddress.fromCreate2({ from: deployer, salt, bytecodeHash: initCodeHash }))
+    expect(Hook.encodePermissions(Hook.permissions(address))).toEqual(Hook.encodePermissions(permissions))
+  })
+
+  it('validates the options', async () => {
+    await expect(mineHookSalt({ deployer: '0x123', initCodeHash, permissions })).rejects.toThrow(
+      'Invalid deployer address'
+    )
+    await expect(mineHookSalt({ deployer, initCodeHash: '0x1234', permissions })).rejects.toThrow(
+      'Invalid init code hash'
+    )
+    await expect(
+      mineHookSalt({ deployer, initCodeHash, permissions: { beforeSwapReturnsDelta: true } })
+    ).rejects.toThrow('beforeSwapReturnsDelta requires beforeSwap')
+    await expect(mineHookSalt({ deployer, initCodeHash, permissions, startSalt: -1n })).rejects.toThrow('START_SALT')
+  })
+})
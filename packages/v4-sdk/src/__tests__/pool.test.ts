@@ -1,8 +1,8 @@
-import { ChainId, CurrencyAmount, Ether, Token, WETH9 } from '@muniswap/sdk-core'
+import { ChainId, CurrencyAmount, Ether, Token, WETH9, poolKeySchema } from '@muniswap/sdk-core'
 import { MAX_TICK, MIN_TICK, encodeSqrtRatioX96, getTickAtSqrtRatio, nearestUsableTick } from '@muniswap/v3-sdk'
-import { beforeEach, describe, expect, it } from 'vitest'
-import { Pool } from '../entities/pool'
-import { DYNAMIC_FEE_FLAG } from '../internalConstants'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { type DynamicFeeProvider, Pool } from '../entities/pool'
+import { DYNAMIC_FEE_FLAG, MAX_LP_FEE } from '../internalConstants'
 import {
   ADDRESS_ZERO,
   FEE_AMOUNT_HIGHEST,
@@ -13,6 +13,7 @@ import {
   TICK_SPACING_TEN,
 } from '../internalConstants'
 import { HookOptions } from '../utils/hook'
+import { registerHookSimulator, unregisterHookSimulator } from '../utils/hookSimulator'
 import { constructHookAddress } from './testUtils'
 
 describe('Pool', () => {
@@ -44,10 +45,34 @@ describe('Pool', () => {
 
     it('fee cannot be more than 1e6', () => {
       expect(() => {
-        new Pool(USDC, WETH9[1]!, 1e6, TICK_SPACING_TEN, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), 0, 0, [])
+        new Pool(USDC, WETH9[1]!, 1e6 + 1, TICK_SPACING_TEN, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), 0, 0, [])
       }).toThrow('FEE')
     })
 
+    it('fee can be the maximum LP fee', async () => {
+      const pool = new Pool(
+        USDC,
+        DAI,
+        MAX_LP_FEE,
+        TICK_SPACING_TEN,
+        ADDRESS_ZERO,
+        encodeSqrtRatioX96(1, 1),
+        ONE_ETHER,
+        0,
+        [
+          { index: nearestUsableTick(MIN_TICK, TICK_SPACING_TEN), liquidityNet: ONE_ETHER, liquidityGross: ONE_ETHER },
+          { index: nearestUsableTick(MAX_TICK, TICK_SPACING_TEN), liquidityNet: -ONE_ETHER, liquidityGross: ONE_ETHER },
+        ]
+      )
+
+      expect(poolKeySchema.safeParse(pool.poolKey).success).toBe(true)
+      const [outputAmount] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, 100))
+      expect(outputAmount.quotient).toEqual(0n)
+      await expect(pool.getInputAmount(CurrencyAmount.fromRawAmount(DAI, 100))).rejects.toThrow(
+        'INVALID_FEE_FOR_EXACT_OUT'
+      )
+    })
+
     it('fee can be dynamic', () => {
       const pool = new Pool(
         USDC,
@@ -339,47 +364,60 @@ describe('Pool', () => {
     let pool: Pool
     let poolWithSwapHook: Pool
 
-    beforeEach(() => {
-      pool = new Pool(
+    const ticks = [
+      {
+        index: nearestUsableTick(MIN_TICK, TICK_SPACING_TEN),
+        liquidityNet: ONE_ETHER,
+        liquidityGross: ONE_ETHER,
+      },
+      {
+        index: nearestUsableTick(MAX_TICK, TICK_SPACING_TEN),
+        liquidityNet: ONE_ETHER * NEGATIVE_ONE,
+        liquidityGross: ONE_ETHER,
+      },
+    ]
+
+    function poolWithHook(hookOptions: HookOptions[], fee = FEE_AMOUNT_LOW): Pool {
+      return new Pool(
         USDC,
         DAI,
-        FEE_AMOUNT_LOW,
+        fee,
         TICK_SPACING_TEN,
-        ADDRESS_ZERO,
+        constructHookAddress(hookOptions),
         encodeSqrtRatioX96(1, 1),
         ONE_ETHER,
         0,
-        [
-          {
-            index: nearestUsableTick(MIN_TICK, TICK_SPACING_TEN),
-            liquidityNet: ONE_ETHER,
-            liquidityGross: ONE_ETHER,
-          },
-          {
-            index: nearestUsableTick(MAX_TICK, TICK_SPACING_TEN),
-            liquidityNet: ONE_ETHER * NEGATIVE_ONE,
-            liquidityGross: ONE_ETHER,
-          },
-        ]
+        ticks
       )
+    }
 
-      poolWithSwapHook = new Pool(
+    beforeEach(() => {
+      pool = new Pool(
         USDC,
         DAI,
         FEE_AMOUNT_LOW,
         TICK_SPACING_TEN,
-        constructHookAddress([HookOptions.BeforeSwap]),
+        ADDRESS_ZERO,
         encodeSqrtRatioX96(1, 1),
         ONE_ETHER,
         0,
-        []
+        ticks
       )
+
+      poolWithSwapHook = poolWithHook([HookOptions.BeforeSwap])
     })
 
     describe('#getOutputAmount', () => {
-      it('throws if pool has beforeSwap hooks', async () => {
+      it('passes through beforeSwap hooks that do not return deltas', async () => {
         const inputAmount = CurrencyAmount.fromRawAmount(USDC, 100)
-        await expect(() => poolWithSwapHook.getOutputAmount(inputAmount)).rejects.toThrow('Unsupported hook')
+        const [outputAmount] = await poolWithSwapHook.getOutputAmount(inputAmount)
+        expect(outputAmount.quotient).toEqual(98n)
+      })
+
+      it('throws if the hook returns deltas without a simulator', async () => {
+        const inputAmount = CurrencyAmount.fromRawAmount(USDC, 100)
+        const hookedPool = poolWithHook([HookOptions.BeforeSwap, HookOptions.BeforeSwapReturnsDelta])
+        await expect(() => hookedPool.getOutputAmount(inputAmount)).rejects.toThrow('Unsupported hook')
       })
 
       it('USDC -> DAI', async () => {
@@ -398,9 +436,10 @@ describe('Pool', () => {
     })
 
     describe('#getInputAmount', () => {
-      it('throws if pool has beforeSwap hooks', async () => {
+      it('passes through beforeSwap hooks that do not return deltas', async () => {
         const outputAmount = CurrencyAmount.fromRawAmount(DAI, 98)
-        await expect(() => poolWithSwapHook.getInputAmount(outputAmount)).rejects.toThrow('Unsupported hook')
+        const [inputAmount] = await poolWithSwapHook.getInputAmount(outputAmount)
+        expect(inputAmount.quotient).toEqual(100n)
       })
 
       it('USDC -> DAI', async () => {
@@ -417,6 +456,162 @@ describe('Pool', () => {
         expect(inputAmount.quotient).toEqual(100n)
       })
     })
+
+    describe('hook simulators', () => {
+      const amount = 10n ** 12n
+
+      afterEach(() => {
+        unregisterHookSimulator(constructHookAddress([HookOptions.BeforeSwap, HookOptions.BeforeSwapReturnsDelta]))
+        unregisterHookSimulator(constructHookAddress([HookOptions.AfterSwap, HookOptions.AfterSwapReturnsDelta]))
+        unregisterHookSimulator(constructHookAddress([HookOptions.BeforeSwap]))
+      })
+
+      it('swaps the specified amount less the beforeSwap delta', async () => {
+        const hookedPool = poolWithHook([HookOptions.BeforeSwap, HookOptions.BeforeSwapReturnsDelta])
+        // Takes a tenth of an exact input
+        registerHookSimulator(hookedPool.hooks, {
+          async beforeSwap(_pool, { amountSpecified }) {
+            return { deltaSpecified: amountSpecified < 0n ? -amountSpecified / 10n : 0n }
+          },
+        })
+
+        const [outputAmount, poolAfter] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [expectedOutputAmount, expectedPoolAfter] = await pool.getOutputAmount(
+          CurrencyAmount.fromRawAmount(USDC, (amount * 9n) / 10n)
+        )
+
+        expect(outputAmount.equalTo(expectedOutputAmount)).toBe(true)
+        expect(poolAfter.sqrtRatioX96).toEqual(expectedPoolAfter.sqrtRatioX96)
+      })
+
+      it('rejects a beforeSwap delta larger than the swap', async () => {
+        const hookedPool = poolWithHook([HookOptions.BeforeSwap, HookOptions.BeforeSwapReturnsDelta])
+        registerHookSimulator(hookedPool.hooks, {
+          async beforeSwap(_pool, { amountSpecified }) {
+            return { deltaSpecified: amountSpecified * -2n }
+          },
+        })
+
+        await expect(hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))).rejects.toThrow(
+          'HOOK_DELTA_EXCEEDS_SWAP_AMOUNT'
+        )
+      })
+
+      it('takes the afterSwap delta from the unspecified amount', async () => {
+        const hookedPool = poolWithHook([HookOptions.AfterSwap, HookOptions.AfterSwapReturnsDelta])
+        const deltas: { amount0: bigint; amount1: bigint }[] = []
+        registerHookSimulator(hookedPool.hooks, {
+          async afterSwap(_pool, _params, delta) {
+            deltas.push(delta)
+            return 1000n
+          },
+        })
+
+        const [outputAmount] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [inputAmount] = await hookedPool.getInputAmount(CurrencyAmount.fromRawAmount(DAI, amount))
+        const [expectedOutputAmount] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [expectedInputAmount] = await pool.getInputAmount(CurrencyAmount.fromRawAmount(DAI, amount))
+
+        expect(outputAmount.quotient).toEqual(expectedOutputAmount.quotient - 1000n)
+        expect(inputAmount.quotient).toEqual(expectedInputAmount.quotient + 1000n)
+        // DAI is currency0, so a USDC exact input swaps one for zero
+        expect(deltas[0]).toEqual({ amount0: expectedOutputAmount.quotient, amount1: -amount })
+        expect(deltas[1]).toEqual({ amount0: amount, amount1: -expectedInputAmount.quotient })
+      })
+
+      it('applies the fee override of dynamic fee pools', async () => {
+        const hookedPool = poolWithHook([HookOptions.BeforeSwap], DYNAMIC_FEE_FLAG)
+        registerHookSimulator(hookedPool.hooks, {
+          async beforeSwap() {
+            return { lpFeeOverride: FEE_AMOUNT_LOW }
+          },
+        })
+
+        const [outputAmount] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [expectedOutputAmount] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+
+        expect(outputAmount.equalTo(expectedOutputAmount)).toBe(true)
+      })
+    })
+
+    describe('dynamic fees', () => {
+      const amount = 10n ** 12n
+      const dynamicFeeHook = constructHookAddress([HookOptions.AfterInitialize])
+
+      function dynamicFeePool(lpFee?: number | DynamicFeeProvider): Pool {
+        return new Pool(
+          USDC,
+          DAI,
+          DYNAMIC_FEE_FLAG,
+          TICK_SPACING_TEN,
+          dynamicFeeHook,
+          encodeSqrtRatioX96(1, 1),
+          ONE_ETHER,
+          0,
+          ticks,
+          lpFee
+        )
+      }
+
+      it('swaps at the current LP fee', async () => {
+        const hookedPool = dynamicFeePool(FEE_AMOUNT_LOW)
+
+        const [outputAmount, poolAfter] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [expectedOutputAmount] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+
+        expect(hookedPool.isDynamicFee).toBe(true)
+        expect(hookedPool.lpFee).toEqual(FEE_AMOUNT_LOW)
+        expect(hookedPool.poolKey.fee).toEqual(DYNAMIC_FEE_FLAG)
+        expect(outputAmount.equalTo(expectedOutputAmount)).toBe(true)
+        expect(poolAfter.lpFee).toEqual(FEE_AMOUNT_LOW)
+        expect(pool.isDynamicFee).toBe(false)
+        expect(pool.lpFee).toEqual(FEE_AMOUNT_LOW)
+      })
+
+      it('asks the dynamic fee provider for the fee of each swap', async () => {
+        const swaps: [boolean, bigint][] = []
+        const hookedPool = dynamicFeePool(({ zeroForOne, amountSpecified }) => {
+          swaps.push([zeroForOne, amountSpecified])
+          return zeroForOne ? FEE_AMOUNT_LOW : FEE_AMOUNT_HIGHEST
+        })
+
+        const [daiOut, poolAfter] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))
+        const [usdcOut] = await hookedPool.getOutputAmount(CurrencyAmount.fromRawAmount(DAI, amount))
+        const [usdcIn] = await hookedPool.getInputAmount(CurrencyAmount.fromRawAmount(DAI, amount))
+
+        expect(swaps).toEqual([
+          [false, -amount],
+          [true, -amount],
+          [false, amount],
+        ])
+        expect(usdcOut.greaterThan(daiOut.quotient)).toBe(true)
+        expect(usdcIn.greaterThan(amount)).toBe(true)
+        expect(hookedPool.lpFee).toBeUndefined()
+        expect(poolAfter.dynamicFeeProvider).toBe(hookedPool.dynamicFeeProvider)
+      })
+
+      it('requires the LP fee of a dynamic fee pool to swap', async () => {
+        await expect(dynamicFeePool().getOutputAmount(CurrencyAmount.fromRawAmount(USDC, amount))).rejects.toThrow(
+          'LP_FEE'
+        )
+        expect(() => dynamicFeePool(1_000_001)).toThrow('LP_FEE')
+        expect(
+          () =>
+            new Pool(
+              USDC,
+              DAI,
+              FEE_AMOUNT_LOW,
+              TICK_SPACING_TEN,
+              ADDRESS_ZERO,
+              encodeSqrtRatioX96(1, 1),
+              0,
+              0,
+              [],
+              3000
+            )
+        ).toThrow('LP_FEE')
+      })
+    })
   })
 
   describe('#bigNums', () => {
@@ -108,4 +108,76 @@ describe('Position', () => {
       })
     })
   })
+
+  describe('feesOwed', () => {
+    const Q128 = 2n ** 128n
+    const Q256 = 2n ** 256n
+    const LIQUIDITY = 10n ** 18n
+    const TICK = nearestUsableTick(POOL_TICK_CURRENT, TICK_SPACING)
+
+    it('is correct for positions within range', () => {
+      const position = new Position({
+        pool: DAI_USDC_POOL,
+        liquidity: LIQUIDITY,
+        tickLower: TICK - TICK_SPACING * 2,
+        tickUpper: TICK + TICK_SPACING * 2,
+      })
+
+      const { amount0, amount1 } = position.feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 10n * Q128, feeGrowthOutside1X128: 20n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 5n * Q128, feeGrowthOutside1X128: 5n * Q128 },
+        feeGrowthGlobal0X128: 1000n * Q128,
+        feeGrowthGlobal1X128: 2000n * Q128,
+        feeGrowthInside0LastX128: 85n * Q128,
+        feeGrowthInside1LastX128: 75n * Q128,
+      })
+
+      expect(amount0.currency).toEqual(DAI)
+      expect(amount0.quotient).toEqual(900n * LIQUIDITY)
+      expect(amount1.currency).toEqual(USDC)
+      expect(amount1.quotient).toEqual(1900n * LIQUIDITY)
+    })
+
+    it('is correct for positions above the current tick', () => {
+      const position = new Position({
+        pool: DAI_USDC_POOL,
+        liquidity: LIQUIDITY,
+        tickLower: TICK + TICK_SPACING * 2,
+        tickUpper: TICK + TICK_SPACING * 4,
+      })
+
+      const { amount0, amount1 } = position.feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: 30n * Q128, feeGrowthOutside1X128: 30n * Q128 },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 10n * Q128, feeGrowthOutside1X128: 30n * Q128 },
+        feeGrowthGlobal0X128: 1000n * Q128,
+        feeGrowthGlobal1X128: 1000n * Q128,
+        feeGrowthInside0LastX128: 5n * Q128,
+        feeGrowthInside1LastX128: 0n,
+      })
+
+      expect(amount0.quotient).toEqual(15n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(0n)
+    })
+
+    it('wraps fee growth around uint256', () => {
+      const position = new Position({
+        pool: DAI_USDC_POOL,
+        liquidity: LIQUIDITY,
+        tickLower: TICK - TICK_SPACING * 2,
+        tickUpper: TICK + TICK_SPACING * 2,
+      })
+
+      const { amount0, amount1 } = position.feesOwed({
+        feeGrowthOutsideLower: { feeGrowthOutside0X128: Q256 - Q128, feeGrowthOutside1X128: 0n },
+        feeGrowthOutsideUpper: { feeGrowthOutside0X128: 0n, feeGrowthOutside1X128: 0n },
+        feeGrowthGlobal0X128: 5n * Q128,
+        feeGrowthGlobal1X128: 5n * Q128,
+        feeGrowthInside0LastX128: Q256 - 2n * Q128,
+        feeGrowthInside1LastX128: Q256 - Q128,
+      })
+
+      expect(amount0.quotient).toEqual(8n * LIQUIDITY)
+      expect(amount1.quotient).toEqual(6n * LIQUIDITY)
+    })
+  })
 })
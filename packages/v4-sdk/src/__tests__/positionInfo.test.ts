@@ -0,0 +1,125 @@
+import { Token } from '@muniswap/sdk-core'
+import { encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import { AbiFunction, Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { V4PositionManager } from '../PositionManager'
+import { Pool } from '../entities/pool'
+import { Position } from '../entities/position'
+import { ADDRESS_ZERO, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY } from '../internalConstants'
+import { decodePositionInfo, encodePositionInfo } from '../utils/positionInfo'
+
+describe('PositionInfo', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const pool = new Pool(
+    USDC,
+    DAI,
+    FEE_AMOUNT_MEDIUM,
+    TICK_SPACING_SIXTY,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    0,
+    0,
+    []
+  )
+  const PACKED = BigInt(`0x${'aa'.repeat(25)}00003cffffc401`)
+
+  describe('#encodePositionInfo', () => {
+    it('packs the pool id prefix, ticks and subscriber flag', () => {
+      expect(
+        encodePositionInfo({ poolId: `0x${'aa'.repeat(32)}`, tickLower: -60, tickUpper: 60, hasSubscriber: true })
+      ).toEqual(PACKED)
+    })
+
+    it('requires a pool id of at least 25 bytes', () => {
+      expect(() =>
+        encodePositionInfo({ poolId: '0x1234', tickLower: -60, tickUpper: 60, hasSubscriber: false })
+      ).toThrow('POOL_ID')
+    })
+  })
+
+  describe('#decodePositionInfo', () => {
+    it('unpacks signed ticks', () => {
+      expect(decodePositionInfo(PACKED)).toEqual({
+        poolId: `0x${'aa'.repeat(25)}`,
+        tickLower: -60,
+        tickUpper: 60,
+        hasSubscriber: true,
+      })
+    })
+
+    it('round trips', () => {
+      const info = { poolId: pool.poolId, tickLower: -887220, tickUpper: 887220, hasSubscriber: false }
+
+      expect(decodePositionInfo(encodePositionInfo(info))).toEqual({
+        ...info,
+        poolId: Hex.slice(pool.poolId as Hex.Hex, 0, 25),
+      })
+    })
+  })
+
+  describe('V4PositionManager', () => {
+    it('decodes getPoolAndPositionInfo', () => {
+      const fn = AbiFunction.from(
+        'function getPoolAndPositionInfo(uint256 tokenId) view returns ((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, uint256 info)'
+      )
+      const poolKey = {
+        currency0: DAI.address.toLowerCase() as Hex.Hex,
+        currency1: USDC.address.toLowerCase() as Hex.Hex,
+        fee: FEE_AMOUNT_MEDIUM,
+        tickSpacing: TICK_SPACING_SIXTY,
+        hooks: ADDRESS_ZERO as Hex.Hex,
+      }
+      const info = encodePositionInfo({ poolId: pool.poolId, tickLower: -120, tickUpper: 60, hasSubscriber: false })
+
+      expect(V4PositionManager.encodeGetPoolAndPositionInfo(7)).toEqual(AbiFunction.encodeData(fn, [7n]))
+      expect(V4PositionManager.decodeGetPoolAndPositionInfo(AbiFunction.encodeResult(fn, [poolKey, info]))).toEqual({
+        poolKey,
+        positionInfo: {
+          poolId: Hex.slice(pool.poolId as Hex.Hex, 0, 25),
+          tickLower: -120,
+          tickUpper: 60,
+          hasSubscriber: false,
+        },
+      })
+    })
+
+    it('decodes getPositionLiquidity', () => {
+      const fn = AbiFunction.from('function getPositionLiquidity(uint256 tokenId) view returns (uint128 liquidity)')
+
+      expect(V4PositionManager.encodeGetPositionLiquidity(7)).toEqual(AbiFunction.encodeData(fn, [7n]))
+      expect(V4PositionManager.decodeGetPositionLiquidity(AbiFunction.encodeResult(fn, 123n))).toEqual(123n)
+    })
+  })
+
+  describe('Position.fromPositionManager', () => {
+    it('rebuilds the position from the packed position info', () => {
+      const positionInfo = encodePositionInfo({
+        poolId: pool.poolId,
+        tickLower: -120,
+        tickUpper: 60,
+        hasSubscriber: true,
+      })
+      const position = Position.fromPositionManager({ pool, positionInfo, liquidity: 10n ** 18n })
+
+      expect(position.pool).toBe(pool)
+      expect(position.tickLower).toEqual(-120)
+      expect(position.tickUpper).toEqual(60)
+      expect(position.liquidity).toEqual(10n ** 18n)
+    })
+
+    it('accepts unpacked position info', () => {
+      const positionInfo = decodePositionInfo(
+        encodePositionInfo({ poolId: pool.poolId, tickLower: -120, tickUpper: 60, hasSubscriber: false })
+      )
+
+      expect(Position.fromPositionManager({ pool, positionInfo, liquidity: 1 }).tickLower).toEqual(-120)
+    })
+
+    it('throws for a position of another pool', () => {
+      const positionInfo = { poolId: `0x${'aa'.repeat(32)}`, tickLower: -120, tickUpper: 60, hasSubscriber: false }
+
+      expect(() => Position.fromPositionManager({ pool, positionInfo, liquidity: 1 })).toThrow('POOL_MISMATCH')
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { CurrencyAmount, Ether, Token, TradeType } from '@muniswap/sdk-core'
+import { encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import { AbiError, AbiFunction, AbiParameters, type Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { Pool } from '../entities/pool'
+import { Route } from '../entities/route'
+import { ADDRESS_ZERO, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY } from '../internalConstants'
+import { V4Quoter } from '../quoter'
+
+describe('V4Quoter', () => {
+  const ETH = Ether.onChain(1)
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const HOOKS = '0x0000000000000000000000000000000000000080'
+
+  const ETH_USDC = new Pool(ETH, USDC, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY, HOOKS, encodeSqrtRatioX96(1, 1), 0, 0, [])
+  const USDC_DAI = new Pool(
+    USDC,
+    DAI,
+    FEE_AMOUNT_MEDIUM,
+    TICK_SPACING_SIXTY,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    0,
+    0,
+    []
+  )
+
+  const singleParams = AbiParameters.from([
+    'struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }',
+    'struct QuoteExactSingleParams { PoolKey poolKey; bool zeroForOne; uint128 exactAmount; bytes hookData; }',
+    'QuoteExactSingleParams params',
+  ])
+  const pathParams = AbiParameters.from([
+    'struct PathKey { address intermediateCurrency; uint24 fee; int24 tickSpacing; address hooks; bytes hookData; }',
+    'struct QuoteExactParams { address exactCurrency; PathKey[] path; uint128 exactAmount; }',
+    'QuoteExactParams params',
+  ])
+  const decodeSingleParams = (calldata: string) => AbiParameters.decode(singleParams, `0x${calldata.slice(10)}`)[0]
+  const decodePathParams = (calldata: string) => AbiParameters.decode(pathParams, `0x${calldata.slice(10)}`)[0]
+
+  describe('#quoteCallParameters', () => {
+    it('quotes an exact input through a single pool', () => {
+      const route = new Route([ETH_USDC], USDC, ETH)
+      const { calldata, value } = V4Quoter.quoteCallParameters(
+        route,
+        CurrencyAmount.fromRawAmount(USDC, 1_000_000n),
+        TradeType.EXACT_INPUT,
+        { hookData: '0x1234' }
+      )
+
+      expect(calldata.slice(0, 10)).toEqual(
+        AbiFunction.getSelector('quoteExactInputSingle(((address,address,uint24,int24,address),bool,uint128,bytes))')
+      )
+      expect(value).toEqual('0x00')
+      expect(decodeSingleParams(calldata)).toEqual({
+        poolKey: {
+          currency0: ADDRESS_ZERO,
+          currency1: USDC.address.toLowerCase(),
+          fee: FEE_AMOUNT_MEDIUM,
+          tickSpacing: TICK_SPACING_SIXTY,
+          hooks: HOOKS,
+        },
+        zeroForOne: false,
+        exactAmount: 1_000_000n,
+        hookData: '0x1234',
+      })
+    })
+
+    it('quotes an exact output through a single pool', () => {
+      const route = new Route([ETH_USDC], ETH, USDC)
+      const { calldata } = V4Quoter.quoteCallParameters(
+        route,
+        CurrencyAmount.fromRawAmount(USDC, 1_000_000n),
+        TradeType.EXACT_OUTPUT
+      )
+
+      expect(calldata.slice(0, 10)).toEqual(
+        AbiFunction.getSelector('quoteExactOutputSingle(((address,address,uint24,int24,address),bool,uint128,bytes))')
+      )
+      expect(decodeSingleParams(calldata)).toMatchObject({ zeroForOne: true, hookData: '0x' })
+    })
+
+    it('quotes an exact input through a path with hook data per pool', () => {
+      const route = new Route([ETH_USDC, USDC_DAI], ETH, DAI)
+      const { calldata } = V4Quoter.quoteCallParameters(
+        route,
+        CurrencyAmount.fromRawAmount(ETH, 10n ** 18n),
+        TradeType.EXACT_INPUT,
+        { hookData: ['0x01', '0x'] }
+      )
+
+      expect(calldata.slice(0, 10)).toEqual(
+        AbiFunction.getSelector('quoteExactInput((address,(address,uint24,int24,address,bytes)[],uint128))')
+      )
+      expect(decodePathParams(calldata)).toEqual({
+        exactCurrency: ADDRESS_ZERO,
+        path: [
+          {
+            intermediateCurrency: USDC.address.toLowerCase(),
+            fee: FEE_AMOUNT_MEDIUM,
+            tickSpacing: TICK_SPACING_SIXTY,
+            hooks: HOOKS,
+            hookData: '0x01',
+          },
+          {
+            intermediateCurrency: DAI.address.toLowerCase(),
+            fee: FEE_AMOUNT_MEDIUM,
+            tickSpacing: TICK_SPACING_SIXTY,
+            hooks: ADDRESS_ZERO,
+            hookData: '0x',
+          },
+        ],
+        exactAmount: 10n ** 18n,
+      })
+    })
+
+    it('quotes an exact output through a path from the output currency', () => {
+      const route = new Route([ETH_USDC, USDC_DAI], ETH, DAI)
+      const { calldata } = V4Quoter.quoteCallParameters(
+        route,
+        CurrencyAmount.fromRawAmount(DAI, 10n ** 18n),
+        TradeType.EXACT_OUTPUT,
+        { hookData: ['0x01', '0x02'] }
+      )
+
+      expect(calldata.slice(0, 10)).toEqual(
+        AbiFunction.getSelector('quoteExactOutput((address,(address,uint24,int24,address,bytes)[],uint128))')
+      )
+      const { exactCurrency, path } = decodePathParams(calldata)
+      expect(exactCurrency).toEqual(DAI.address.toLowerCase())
+      expect(path.map(({ intermediateCurrency, hookData }) => [intermediateCurrency, hookData])).toEqual([
+        [ADDRESS_ZERO, '0x01'],
+        [USDC.address.toLowerCase(), '0x02'],
+      ])
+    })
+
+    it('requires hook data for every pool', () => {
+      const route = new Route([ETH_USDC, USDC_DAI], ETH, DAI)
+
+      expect(() =>
+        V4Quoter.quoteCallParameters(route, CurrencyAmount.fromRawAmount(ETH, 1n), TradeType.EXACT_INPUT, {
+          hookData: ['0x01'],
+        })
+      ).toThrow('HOOK_DATA_LENGTH')
+    })
+  })
+
+  describe('#decodeQuoteResult', () => {
+    it('decodes the amount and gas estimate', () => {
+      const data = AbiParameters.encode(AbiParameters.from('uint256, uint256'), [123n, 45_000n])
+
+      expect(V4Quoter.decodeQuoteResult(data)).toEqual({ amount: 123n, gasEstimate: 45_000n })
+    })
+  })
+
+  describe('#decodeQuoteRevert', () => {
+    it('decodes the quoted amount', () => {
+      const data = AbiError.encode(AbiError.from('error QuoteSwap(uint256 amount)'), [123n])
+
+      expect(V4Quoter.decodeQuoteRevert(data)).toEqual({ errorName: 'QuoteSwap', amount: 123n })
+    })
+
+    it('decodes a wrapped revert of the swap', () => {
+      const revertData: Hex.Hex = '0x12345678'
+      const data = AbiError.encode(AbiError.from('error UnexpectedRevertBytes(bytes revertData)'), [revertData])
+
+      expect(V4Quoter.decodeQuoteRevert(data)).toEqual({ errorName: 'UnexpectedRevertBytes', revertData })
+    })
+
+    it('decodes a lack of liquidity', () => {
+      const data = AbiError.encode(AbiError.from('error NotEnoughLiquidity(bytes32 poolId)'), [
+        USDC_DAI.poolId as Hex.Hex,
+      ])
+
+      expect(V4Quoter.decodeQuoteRevert(data)).toEqual({ errorName: 'NotEnoughLiquidity', poolId: USDC_DAI.poolId })
+    })
+
+    it('throws for other errors', () => {
+      expect(() => V4Quoter.decodeQuoteRevert('0xdeadbeef')).toThrow('Unknown quoter error 0xdeadbeef')
+      expect(() => V4Quoter.decodeQuoteRevert('0x')).toThrow('REVERT_DATA')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { CurrencyAmount, Ether, SERIALIZATION_VERSION, Token, TradeType } from '@muniswap/sdk-core'
+import { MAX_TICK, MIN_TICK, encodeSqrtRatioX96, nearestUsableTick } from '@muniswap/v3-sdk'
+import { describe, expect, it } from 'vitest'
+import { Pool } from '../entities/pool'
+import { Route } from '../entities/route'
+import { Trade } from '../entities/trade'
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY } from '../internalConstants'
+
+describe('serialization', () => {
+  const ETH = Ether.onChain(1)
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const HOOK = '0x0000000000000000000000000000000000000080'
+  const LIQUIDITY = 10n ** 21n
+  const TICKS = [
+    { index: nearestUsableTick(MIN_TICK, 60), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: nearestUsableTick(MAX_TICK, 60), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+  ]
+  const ethUsdc = new Pool(
+    ETH,
+    USDC,
+    FEE_AMOUNT_MEDIUM,
+    TICK_SPACING_SIXTY,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    TICKS
+  )
+  const usdcDai = new Pool(
+    USDC,
+    DAI,
+    FEE_AMOUNT_MEDIUM,
+    TICK_SPACING_SIXTY,
+    ADDRESS_ZERO,
+    encodeSqrtRatioX96(1, 1),
+    LIQUIDITY,
+    0,
+    TICKS
+  )
+
+  const roundTrip = (value: { toJSON(): unknown }) => JSON.parse(JSON.stringify(value))
+
+  describe('Pool', () => {
+    it('round trips the state and ticks', async () => {
+      const pool = Pool.fromJSON(roundTrip(ethUsdc))
+      const amountIn = CurrencyAmount.fromRawAmount(ETH, 10n ** 15n)
+
+      expect(pool.toJSON()).toEqual(ethUsdc.toJSON())
+      expect(pool.poolId).toEqual(ethUsdc.poolId)
+      expect((await pool.getOutputAmount(amountIn))[0].quotient).toEqual(
+        (await ethUsdc.getOutputAmount(amountIn))[0].quotient
+      )
+    })
+
+    it('keeps the known LP fee of a dynamic fee pool', () => {
+      const dynamic = new Pool(ETH, USDC, DYNAMIC_FEE_FLAG, 60, HOOK, encodeSqrtRatioX96(1, 1), 0, 0, [], 500)
+      const json = roundTrip(dynamic)
+
+      expect(json.lpFee).toEqual(500)
+      expect(Pool.fromJSON(json).lpFee).toEqual(500)
+    })
+
+    it('omits ticks of pools without a tick list', () => {
+      const pool = new Pool(ETH, USDC, FEE_AMOUNT_MEDIUM, 60, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), 0, 0)
+
+      expect(pool.toJSON()).not.toHaveProperty('ticks')
+      expect(() => Pool.fromJSON({ ...pool.toJSON(), version: SERIALIZATION_VERSION + 1 })).toThrow(
+        'Unsupported serialization version'
+      )
+    })
+  })
+
+  describe('Trade', () => {
+    it('deserializes into an equivalent trade', async () => {
+      const trade = await Trade.fromRoute(
+        new Route([ethUsdc, usdcDai], ETH, DAI),
+        CurrencyAmount.fromRawAmount(ETH, 10n ** 15n),
+        TradeType.EXACT_INPUT
+      )
+      const restored = Trade.fromJSON(roundTrip(trade))
+
+      expect(restored.tradeType).toEqual(TradeType.EXACT_INPUT)
+      expect(restored.inputAmount.currency).toBe(ETH)
+      expect(restored.inputAmount.equalTo(trade.inputAmount)).toBe(true)
+      expect(restored.outputAmount.equalTo(trade.outputAmount)).toBe(true)
+      expect(restored.route.currencyPath.map((currency) => currency.symbol)).toEqual(['ETH', 'USDC', 'DAI'])
+      expect(restored.executionPrice.equalTo(trade.executionPrice)).toBe(true)
+    })
+
+    it('requires the amounts to match the route currencies', async () => {
+      const trade = await Trade.fromRoute(
+        new Route([ethUsdc], ETH, USDC),
+        CurrencyAmount.fromRawAmount(ETH, 10n ** 15n),
+        TradeType.EXACT_INPUT
+      )
+      const json = roundTrip(trade)
+      json.swaps[0].inputAmount = json.swaps[0].outputAmount
+
+      expect(() => Trade.fromJSON(json)).toThrow('CURRENCY')
+    })
+  })
+})
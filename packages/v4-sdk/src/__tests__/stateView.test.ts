@@ -0,0 +1,142 @@
+import { Token, type Transport } from '@muniswap/sdk-core'
+import { encodeSqrtRatioX96 } from '@muniswap/v3-sdk'
+import { AbiFunction, Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { Pool } from '../entities/pool'
+import { StateViewTickDataProvider } from '../entities/stateViewTickDataProvider'
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, FEE_AMOUNT_LOW } from '../internalConstants'
+import { StateView, StateViewReader, ZERO_SALT, stateViewAbi } from '../stateView'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+const [getSlot0Abi, getLiquidityAbi, getTickInfoAbi, getTickBitmapAbi, , , getPositionInfoAbi] = stateViewAbi
+
+// Serves the slot0 and liquidity of one pool, directly or through multicall, recording the blocks read
+function fakeStateView(slot0: readonly [bigint, number, number, number], liquidity: bigint) {
+  const blocksRead: unknown[] = []
+
+  function call(data: Hex.Hex): Hex.Hex {
+    switch (Hex.slice(data, 0, 4)) {
+      case AbiFunction.getSelector(getSlot0Abi):
+        return AbiFunction.encodeResult(getSlot0Abi, slot0)
+      case AbiFunction.getSelector(getLiquidityAbi):
+        return AbiFunction.encodeResult(getLiquidityAbi, liquidity)
+      case AbiFunction.getSelector(getTickInfoAbi):
+        return AbiFunction.encodeResult(getTickInfoAbi, [liquidity, -liquidity, 1n, 2n])
+      case AbiFunction.getSelector(getPositionInfoAbi):
+        return AbiFunction.encodeResult(getPositionInfoAbi, [liquidity, 3n, 4n])
+      default:
+        throw new Error('Unexpected call')
+    }
+  }
+
+  const transport: Transport = {
+    async request({ method, params }) {
+      if (method === 'eth_blockNumber') return Hex.fromNumber(100)
+      const [{ data }, blockTag] = params as [{ data: Hex.Hex }, unknown]
+      blocksRead.push(blockTag)
+      if (Hex.slice(data, 0, 4) !== AbiFunction.getSelector(multicallAbi)) return call(data)
+      const [calls] = AbiFunction.decodeData(multicallAbi, data)
+      return AbiFunction.encodeResult(multicallAbi, [
+        100n,
+        calls.map(({ callData }) => ({ success: true, gasUsed: 0n, returnData: call(callData) })),
+      ])
+    },
+  }
+  return { transport, blocksRead }
+}
+
+describe('StateView', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const HOOKS = '0x0000000000000000000000000000000000000080'
+  const LIQUIDITY = 10n ** 21n
+  const SQRT_PRICE = encodeSqrtRatioX96(1, 1)
+  const poolId = Pool.getPoolId(USDC, DAI, FEE_AMOUNT_LOW, 10, ADDRESS_ZERO)
+
+  describe('encoding', () => {
+    it('decodes results into named fields', () => {
+      expect(StateView.decodeGetSlot0(AbiFunction.encodeResult(getSlot0Abi, [SQRT_PRICE, -5, 0, 3000]))).toEqual({
+        sqrtPriceX96: SQRT_PRICE,
+        tick: -5,
+        protocolFee: 0,
+        lpFee: 3000,
+      })
+      expect(StateView.decodeGetTickInfo(AbiFunction.encodeResult(getTickInfoAbi, [2n, -1n, 3n, 4n]))).toEqual({
+        liquidityGross: 2n,
+        liquidityNet: -1n,
+        feeGrowthOutside0X128: 3n,
+        feeGrowthOutside1X128: 4n,
+      })
+      expect(StateView.decodeGetTickBitmap(AbiFunction.encodeResult(getTickBitmapAbi, 5n))).toEqual(5n)
+    })
+
+    it('encodes the position key with a zero salt by default', () => {
+      const owner = '0x0000000000000000000000000000000000000001'
+      const calldata = StateView.encodeGetPositionInfo(poolId, { owner, tickLower: -60, tickUpper: 60 }) as Hex.Hex
+
+      expect(AbiFunction.decodeData(getPositionInfoAbi, calldata)).toEqual([poolId, owner, -60, 60, ZERO_SALT])
+    })
+  })
+
+  describe('StateViewReader', () => {
+    it('reads typed state at its block', async () => {
+      const { transport, blocksRead } = fakeStateView([SQRT_PRICE, 0, 0, 500], LIQUIDITY)
+      const reader = new StateViewReader({ transport, chainId: 1, blockTag: 42n })
+
+      expect(await reader.getSlot0(poolId)).toEqual({ sqrtPriceX96: SQRT_PRICE, tick: 0, protocolFee: 0, lpFee: 500 })
+      expect(await reader.getLiquidity(poolId)).toEqual(LIQUIDITY)
+      expect(await reader.getTickInfo(poolId, 10)).toEqual({
+        liquidityGross: LIQUIDITY,
+        liquidityNet: -LIQUIDITY,
+        feeGrowthOutside0X128: 1n,
+        feeGrowthOutside1X128: 2n,
+      })
+      expect(
+        await reader.getPositionInfo(poolId, { owner: ADDRESS_ZERO, tickLower: -10, tickUpper: 10, salt: ZERO_SALT })
+      ).toEqual({ liquidity: LIQUIDITY, feeGrowthInside0LastX128: 3n, feeGrowthInside1LastX128: 4n })
+      expect(new Set(blocksRead)).toEqual(new Set(['0x2a']))
+    })
+
+    it('requires a StateView contract', () => {
+      const { transport } = fakeStateView([SQRT_PRICE, 0, 0, 500], LIQUIDITY)
+
+      expect(() => new StateViewReader({ transport, chainId: 999_999 })).toThrow('STATE_VIEW_ADDRESS')
+    })
+  })
+
+  describe('Pool.fromStateView', () => {
+    it('loads the pool at one block with ticks from that block', async () => {
+      const { transport, blocksRead } = fakeStateView([SQRT_PRICE, 0, 0, FEE_AMOUNT_LOW], LIQUIDITY)
+
+      const pool = await Pool.fromStateView(USDC, DAI, FEE_AMOUNT_LOW, 10, ADDRESS_ZERO, { transport, chainId: 1 })
+
+      expect(pool.poolId).toEqual(poolId)
+      expect(pool.sqrtRatioX96).toEqual(SQRT_PRICE)
+      expect(pool.liquidity).toEqual(LIQUIDITY)
+      expect(pool.tickCurrent).toEqual(0)
+      expect(pool.lpFee).toEqual(FEE_AMOUNT_LOW)
+      expect(blocksRead).toEqual(['0x64'])
+      expect(pool.tickDataProvider).toBeInstanceOf(StateViewTickDataProvider)
+      expect(await (pool.tickDataProvider as StateViewTickDataProvider).getBlockNumber()).toEqual(100n)
+    })
+
+    it('loads the current LP fee of a dynamic fee pool', async () => {
+      const { transport } = fakeStateView([SQRT_PRICE, 0, 0, 1234], LIQUIDITY)
+
+      const pool = await Pool.fromStateView(USDC, DAI, DYNAMIC_FEE_FLAG, 10, HOOKS, { transport, chainId: 1 })
+
+      expect(pool.isDynamicFee).toBe(true)
+      expect(pool.lpFee).toEqual(1234)
+    })
+
+    it('throws for an uninitialized pool', async () => {
+      const { transport } = fakeStateView([0n, 0, 0, 0], 0n)
+
+      await expect(
+        Pool.fromStateView(USDC, DAI, FEE_AMOUNT_LOW, 10, ADDRESS_ZERO, { transport, chainId: 1 })
+      ).rejects.toThrow('POOL_NOT_INITIALIZED')
+    })
+  })
+})
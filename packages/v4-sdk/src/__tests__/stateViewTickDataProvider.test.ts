@@ -0,0 +1,196 @@
+import { CurrencyAmount, Token, type Transport } from '@muniswap/sdk-core'
+import {
+  LoadedTickDataProvider,
+  MAX_TICK,
+  MIN_TICK,
+  TickListDataProvider,
+  encodeSqrtRatioX96,
+  nearestUsableTick,
+} from '@muniswap/v3-sdk'
+import { AbiFunction, Hex } from 'ox'
+import { describe, expect, it } from 'vitest'
+import { Pool } from '../entities/pool'
+import { StateViewTickDataProvider } from '../entities/stateViewTickDataProvider'
+import { ADDRESS_ZERO, FEE_AMOUNT_LOW } from '../internalConstants'
+
+const multicallAbi = AbiFunction.from(
+  'function multicall((address target, uint256 gasLimit, bytes callData)[] calls) returns (uint256 blockNumber, (bool success, uint256 gasUsed, bytes returnData)[] returnData)'
+)
+const getTickBitmapAbi = AbiFunction.from(
+  'function getTickBitmap(bytes32 poolId, int16 tick) view returns (uint256 tickBitmap)'
+)
+const getTickInfoAbi = AbiFunction.from(
+  'function getTickInfo(bytes32 poolId, int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128)'
+)
+
+type TickData = { index: number; liquidityNet: bigint; liquidityGross: bigint }
+
+// Serves the tick bitmap and tick info of a pool from a tick list, recording the words and blocks read
+function fakeStateView(ticks: TickData[], tickSpacing: number) {
+  const wordsRead: number[] = []
+  const blocksRead: unknown[] = []
+  let blockNumberRequests = 0
+
+  const transport: Transport = {
+    async request({ method, params }) {
+      if (method === 'eth_blockNumber') {
+        blockNumberRequests++
+        return Hex.fromNumber(100)
+      }
+      const [{ data }, blockTag] = params as [{ data: Hex.Hex }, unknown]
+      blocksRead.push(blockTag)
+      const [calls] = AbiFunction.decodeData(multicallAbi, data)
+      return AbiFunction.encodeResult(multicallAbi, [
+        100n,
+        calls.map(({ callData }) => {
+          if (Hex.slice(callData, 0, 4) === AbiFunction.getSelector(getTickBitmapAbi)) {
+            const [, wordPos] = AbiFunction.decodeData(getTickBitmapAbi, callData)
+            wordsRead.push(wordPos)
+            const bitmap = ticks
+              .filter(({ index }) => Math.floor(index / tickSpacing) >> 8 === wordPos)
+              .reduce((word, { index }) => word | (1n << BigInt((index / tickSpacing) & 255)), 0n)
+            return { success: true, gasUsed: 0n, returnData: AbiFunction.encodeResult(getTickBitmapAbi, bitmap) }
+          }
+          const [, index] = AbiFunction.decodeData(getTickInfoAbi, callData)
+          const tick = ticks.find((tick) => tick.index === index)!
+          return {
+            success: true,
+            gasUsed: 0n,
+            returnData: AbiFunction.encodeResult(getTickInfoAbi, [tick.liquidityGross, tick.liquidityNet, 0n, 0n]),
+          }
+        }),
+      ])
+    },
+  }
+  return { transport, wordsRead, blocksRead, blockNumberRequests: () => blockNumberRequests }
+}
+
+describe('StateViewTickDataProvider', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const TICK_SPACING = 10
+  const LIQUIDITY = 10n ** 21n
+  const poolId = Pool.getPoolId(USDC, DAI, FEE_AMOUNT_LOW, TICK_SPACING, ADDRESS_ZERO)
+
+  const ticks: TickData[] = [
+    { index: nearestUsableTick(MIN_TICK, TICK_SPACING), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: -5000, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: -20, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: 30, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: 2570, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: nearestUsableTick(MAX_TICK, TICK_SPACING), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+  ]
+
+  it('finds the same ticks as a tick list', async () => {
+    const { transport } = fakeStateView(ticks, TICK_SPACING)
+    const provider = new StateViewTickDataProvider({ transport, chainId: 1, tickSpacing: TICK_SPACING, poolId })
+    const tickList = new TickListDataProvider(ticks, TICK_SPACING)
+
+    for (const tick of [-5000, -2561, -25, -20, -1, 0, 29, 30, 2560, 2569, 2570]) {
+      for (const lte of [true, false]) {
+        expect(await provider.nextInitializedTickWithinOneWord(tick, lte, TICK_SPACING)).toEqual(
+          await tickList.nextInitializedTickWithinOneWord(tick, lte, TICK_SPACING)
+        )
+      }
+    }
+    expect(await provider.getTick(-20)).toEqual({ liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY })
+    expect(await provider.getTick(-10)).toEqual({ liquidityNet: 0n, liquidityGross: 0n })
+  })
+
+  it('loads only the words a swap walks, at one block', async () => {
+    const { transport, wordsRead, blocksRead, blockNumberRequests } = fakeStateView(ticks, TICK_SPACING)
+    const provider = new StateViewTickDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolId,
+      prefetchWords: 1,
+    })
+    const pool = new Pool(
+      USDC,
+      DAI,
+      FEE_AMOUNT_LOW,
+      TICK_SPACING,
+      ADDRESS_ZERO,
+      encodeSqrtRatioX96(1, 1),
+      3n * LIQUIDITY,
+      0,
+      provider
+    )
+    const poolWithTickList = new Pool(
+      USDC,
+      DAI,
+      FEE_AMOUNT_LOW,
+      TICK_SPACING,
+      ADDRESS_ZERO,
+      encodeSqrtRatioX96(1, 1),
+      3n * LIQUIDITY,
+      0,
+      ticks
+    )
+    const amountIn = CurrencyAmount.fromRawAmount(USDC, 5n * 10n ** 20n)
+
+    const [amountOut] = await pool.getOutputAmount(amountIn)
+    const [expectedAmountOut] = await poolWithTickList.getOutputAmount(amountIn)
+
+    expect(amountOut.equalTo(expectedAmountOut)).toBe(true)
+    expect(wordsRead).toEqual([-1, 0, 1, 2, 3])
+    expect(blockNumberRequests()).toEqual(1)
+    expect(new Set(blocksRead)).toEqual(new Set(['0x64']))
+
+    // Cached words are not read again
+    await pool.getOutputAmount(amountIn)
+    expect(wordsRead).toHaveLength(5)
+  })
+
+  it('serializes the ticks it has loaded', async () => {
+    const { transport } = fakeStateView(ticks, TICK_SPACING)
+    const provider = new StateViewTickDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolId,
+      prefetchWords: 1,
+    })
+    const pool = new Pool(
+      USDC,
+      DAI,
+      FEE_AMOUNT_LOW,
+      TICK_SPACING,
+      ADDRESS_ZERO,
+      encodeSqrtRatioX96(1, 1),
+      3n * LIQUIDITY,
+      0,
+      provider
+    )
+    const amountIn = CurrencyAmount.fromRawAmount(USDC, 5n * 10n ** 20n)
+    const [amountOut] = await pool.getOutputAmount(amountIn)
+
+    const json = JSON.parse(JSON.stringify(pool))
+    const restored = Pool.fromJSON(json)
+
+    expect(json.tickWords).toEqual([-1, 0, 1, 2, 3])
+    expect(json.ticks.map(({ index }: { index: number }) => index)).toEqual([-20, 30, 2570])
+    expect(restored.tickDataProvider).toBeInstanceOf(LoadedTickDataProvider)
+    expect((await restored.getOutputAmount(amountIn))[0].equalTo(amountOut)).toBe(true)
+    expect(restored.toJSON()).toEqual(pool.toJSON())
+    await expect(restored.tickDataProvider.getTick(-5000)).rejects.toThrow('TICK_NOT_LOADED')
+  })
+
+  it('reads at a pinned block', async () => {
+    const { transport, blocksRead, blockNumberRequests } = fakeStateView(ticks, TICK_SPACING)
+    const provider = new StateViewTickDataProvider({
+      transport,
+      chainId: 1,
+      tickSpacing: TICK_SPACING,
+      poolId,
+      blockTag: 42n,
+    })
+
+    await provider.nextInitializedTickWithinOneWord(0, true, TICK_SPACING)
+
+    expect(blockNumberRequests()).toEqual(0)
+    expect(new Set(blocksRead)).toEqual(new Set(['0x2a']))
+    await expect(provider.nextInitializedTickWithinOneWord(0, true, 60)).rejects.toThrow('TICK_SPACING')
+  })
+})
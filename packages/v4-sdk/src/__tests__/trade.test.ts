@@ -0,0 +1,195 @@
+import {
+  type Currency,
+  CurrencyAmount,
+  Ether,
+  Price,
+  Token,
+  TradeType,
+  WETH9,
+  gasCostInCurrency,
+} from '@muniswap/sdk-core'
+import { MAX_TICK, MIN_TICK, encodeSqrtRatioX96, nearestUsableTick } from '@muniswap/v3-sdk'
+import { describe, expect, it } from 'vitest'
+import { Pool } from '../entities/pool'
+import { Trade } from '../entities/trade'
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, FEE_AMOUNT_LOW, FEE_AMOUNT_MEDIUM } from '../internalConstants'
+import { DefaultGasModel } from '../utils/gasModel'
+
+describe('Trade', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const WETH = WETH9[1]!
+
+  const LIQUIDITY = 10n ** 21n
+  function fullRangePool(currencyA: Token, currencyB: Token, fee: number, tickSpacing: number): Pool {
+    return new Pool(currencyA, currencyB, fee, tickSpacing, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), LIQUIDITY, 0, [
+      { index: nearestUsableTick(MIN_TICK, tickSpacing), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+      { index: nearestUsableTick(MAX_TICK, tickSpacing), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+    ])
+  }
+
+  const USDC_DAI_LOW = fullRangePool(USDC, DAI, FEE_AMOUNT_LOW, 10)
+  const USDC_DAI_MEDIUM = fullRangePool(USDC, DAI, FEE_AMOUNT_MEDIUM, 60)
+  const USDC_WETH = fullRangePool(USDC, WETH, FEE_AMOUNT_LOW, 10)
+  const WETH_DAI_LOW = fullRangePool(WETH, DAI, FEE_AMOUNT_LOW, 10)
+  const WETH_DAI_MEDIUM = fullRangePool(WETH, DAI, FEE_AMOUNT_MEDIUM, 60)
+
+  describe('#bestTradeExactInWithSplits', () => {
+    it('splits a large order across routes to increase the output', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 2n * 10n ** 20n)
+      const pools = [USDC_DAI_LOW, USDC_DAI_MEDIUM]
+
+      const trade = await Trade.bestTradeExactInWithSplits(pools, amountIn, DAI)
+      const [bestSingleTrade] = await Trade.bestTradeExactIn(pools, amountIn, DAI)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.inputAmount.equalTo(amountIn)).toBe(true)
+      expect(trade!.outputAmount.greaterThan(bestSingleTrade!.outputAmount)).toBe(true)
+      // The cheaper pool takes at least half
+      const lowFeeSwap = trade!.swaps.find(({ route }) => route.pools[0] === USDC_DAI_LOW)!
+      expect(lowFeeSwap.inputAmount.multiply(2n).lessThan(amountIn)).toBe(false)
+    })
+
+    it('splits across routes that share a pool, executed one after the other', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 2n * 10n ** 20n)
+
+      const trade = await Trade.bestTradeExactInWithSplits([USDC_WETH, WETH_DAI_LOW, WETH_DAI_MEDIUM], amountIn, DAI)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.swaps.every(({ route }) => route.pools[0] === USDC_WETH)).toBe(true)
+      expect(trade!.inputAmount.equalTo(amountIn)).toBe(true)
+
+      // The second route swaps through the shared pool after the first one moved its price
+      let sharedPool = USDC_WETH
+      for (const { route, inputAmount, outputAmount } of trade!.swaps) {
+        let wethAmount: CurrencyAmount<Currency>
+        ;[wethAmount, sharedPool] = await sharedPool.getOutputAmount(inputAmount)
+        const [daiAmount] = await route.pools[1]!.getOutputAmount(wethAmount)
+        expect(outputAmount.quotient).toEqual(daiAmount.quotient)
+      }
+      await expect(
+        Trade.fromRoutes(
+          trade!.swaps.map(({ route, inputAmount }) => ({ route, amount: inputAmount })),
+          TradeType.EXACT_INPUT
+        )
+      ).rejects.toThrow('POOLS_DUPLICATED')
+    })
+
+    it('keeps a small order on a single route', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 6n)
+
+      const trade = await Trade.bestTradeExactInWithSplits([USDC_DAI_LOW, USDC_DAI_MEDIUM], amountIn, DAI, {
+        distributionPercent: 10,
+      })
+
+      expect(trade!.swaps).toHaveLength(1)
+      expect(trade!.route.pools[0]).toBe(USDC_DAI_LOW)
+    })
+
+    it('requires the distribution percent to be an integer dividing 100', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 6n)
+
+      await expect(
+        Trade.bestTradeExactInWithSplits([USDC_DAI_LOW], amountIn, DAI, { distributionPercent: 30 })
+      ).rejects.toThrow('DISTRIBUTION_PERCENT')
+      await expect(
+        Trade.bestTradeExactInWithSplits([USDC_DAI_LOW], amountIn, DAI, { distributionPercent: 2.5 })
+      ).rejects.toThrow('DISTRIBUTION_PERCENT')
+    })
+  })
+
+  describe('#bestTradeExactOutWithSplits', () => {
+    it('splits a large order across routes to decrease the input', async () => {
+      const amountOut = CurrencyAmount.fromRawAmount(DAI, 2n * 10n ** 20n)
+      const pools = [USDC_DAI_LOW, USDC_DAI_MEDIUM]
+
+      const trade = await Trade.bestTradeExactOutWithSplits(pools, USDC, amountOut)
+      const [bestSingleTrade] = await Trade.bestTradeExactOut(pools, USDC, amountOut)
+
+      expect(trade!.swaps).toHaveLength(2)
+      expect(trade!.outputAmount.equalTo(amountOut)).toBe(true)
+      expect(trade!.inputAmount.lessThan(bestSingleTrade!.inputAmount)).toBe(true)
+    })
+  })
+
+  describe('dynamic fees', () => {
+    it('routes through a dynamic fee pool at its current fee', async () => {
+      const dynamicFeePool = new Pool(
+        USDC,
+        DAI,
+        DYNAMIC_FEE_FLAG,
+        10,
+        '0x0000000000000000000000000000000000001000',
+        encodeSqrtRatioX96(1, 1),
+        LIQUIDITY,
+        0,
+        [
+          { index: nearestUsableTick(MIN_TICK, 10), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+          { index: nearestUsableTick(MAX_TICK, 10), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+        ],
+        50
+      )
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 15n)
+
+      const [trade] = await Trade.bestTradeExactIn([USDC_DAI_LOW, dynamicFeePool], amountIn, DAI)
+
+      expect(trade!.route.pools).toEqual([dynamicFeePool])
+    })
+  })
+
+  describe('gas', () => {
+    const ETH = Ether.onChain(1)
+    // 2000 DAI per ETH
+    const gas = { gasPriceWei: 30n * 10n ** 9n, nativeCurrencyPrice: new Price(ETH, DAI, 1n, 2000n) }
+
+    it('charges each hop, initialized tick crossed and swap hook', () => {
+      const gasModel = new DefaultGasModel({ perHopGas: 100n, perInitializedTickGas: 10n, hookGas: 1000n })
+      const hookedPool = new Pool(
+        USDC,
+        DAI,
+        FEE_AMOUNT_MEDIUM,
+        60,
+        '0x0000000000000000000000000000000000000080',
+        encodeSqrtRatioX96(1, 1),
+        0,
+        0,
+        []
+      )
+
+      expect(gasModel.estimateSwapGas(USDC_DAI_LOW, 2)).toEqual(120n)
+      expect(gasModel.estimateSwapGas(hookedPool, 0)).toEqual(1100n)
+      expect(gasCostInCurrency(100_000n, gas.gasPriceWei, gas.nativeCurrencyPrice).quotient).toEqual(6n * 10n ** 18n)
+    })
+
+    it('counts the initialized ticks a trade crosses', async () => {
+      const pool = new Pool(USDC, DAI, FEE_AMOUNT_LOW, 10, ADDRESS_ZERO, encodeSqrtRatioX96(1, 1), LIQUIDITY, 0, [
+        { index: nearestUsableTick(MIN_TICK, 10), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: -20, liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: -10, liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+        { index: nearestUsableTick(MAX_TICK, 10), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+      ])
+      const amountIn = CurrencyAmount.fromRawAmount(DAI, 10n ** 19n)
+
+      const [, , initializedTicksCrossed] = await pool.getOutputAmount(amountIn)
+      const trade = await Trade.bestTradeExactIn([pool], amountIn, USDC)
+
+      expect(initializedTicksCrossed).toEqual(2)
+      expect(await trade[0]!.estimateGas()).toEqual(80_000n + 2n * 30_000n)
+    })
+
+    it('ranks a direct route above a longer route with a slightly better output', async () => {
+      const amountIn = CurrencyAmount.fromRawAmount(USDC, 10n ** 15n)
+      const pools = [USDC_DAI_MEDIUM, USDC_WETH, WETH_DAI_LOW]
+
+      const [bestTrade] = await Trade.bestTradeExactIn(pools, amountIn, DAI)
+      const [bestTradeNetOfGas] = await Trade.bestTradeExactIn(pools, amountIn, DAI, { gas })
+
+      expect(bestTrade!.route.pools).toHaveLength(2)
+      expect(bestTradeNetOfGas!.route.pools).toEqual([USDC_DAI_MEDIUM])
+      expect((await bestTradeNetOfGas!.gasCost(gas)).quotient).toEqual(80_000n * 30n * 10n ** 9n * 2000n)
+      await expect(
+        bestTradeNetOfGas!.gasCost({ ...gas, nativeCurrencyPrice: new Price(ETH, USDC, 1n, 1n) })
+      ).rejects.toThrow('GAS_PRICE_CURRENCY')
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import { Token } from '@muniswap/sdk-core'
+import { describe, expect, it } from 'vitest'
+import { MSG_SENDER } from '../actionConstants'
+import { Pool } from '../entities/pool'
+import { ADDRESS_ZERO, EMPTY_BYTES, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY } from '../internalConstants'
+import { V4BaseActionsParser } from '../utils/v4BaseActionsParser'
+import { Actions, V4Planner } from '../utils/v4Planner'
+
+describe('V4BaseActionsParser', () => {
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const poolKey = Pool.getPoolKey(USDC, DAI, FEE_AMOUNT_MEDIUM, TICK_SPACING_SIXTY, ADDRESS_ZERO)
+
+  it('round trips typed parameters', () => {
+    const swap = { poolKey, zeroForOne: true, amountIn: 1_000n, amountOutMinimum: 990n, hookData: EMPTY_BYTES }
+    const planner = new V4Planner()
+      .addAction(Actions.SWAP_EXACT_IN_SINGLE, [swap])
+      .addAction(Actions.TAKE_PORTION, [DAI.address, MSG_SENDER, 25n])
+      .addAction(Actions.MINT_POSITION_FROM_DELTAS, [poolKey, -60, 60, 10n, 20n, MSG_SENDER, EMPTY_BYTES])
+
+    const { actions } = V4BaseActionsParser.parseCalldata(planner.finalize())
+
+    expect(actions.map(({ actionName }) => actionName)).toEqual([
+      'SWAP_EXACT_IN_SINGLE',
+      'TAKE_PORTION',
+      'MINT_POSITION_FROM_DELTAS',
+    ])
+    const [swapAction, takeAction, mintAction] = actions
+    if (swapAction?.actionType !== Actions.SWAP_EXACT_IN_SINGLE) throw new Error('expected SWAP_EXACT_IN_SINGLE')
+    // addresses are decoded in lowercase
+    expect(swapAction.params[0].value).toEqual({
+      ...swap,
+      poolKey: { ...poolKey, currency0: DAI.address.toLowerCase(), currency1: USDC.address.toLowerCase() },
+    })
+    if (takeAction?.actionType !== Actions.TAKE_PORTION) throw new Error('expected TAKE_PORTION')
+    expect(takeAction.params[2]).toEqual({ name: 'bips', value: 25n })
+    if (mintAction?.actionType !== Actions.MINT_POSITION_FROM_DELTAS)
+      throw new Error('expected MINT_POSITION_FROM_DELTAS')
+    expect(mintAction.params.map(({ value }) => value).slice(1, 5)).toEqual([-60, 60, 10n, 20n])
+  })
+
+  it('rejects parameters that do not match the action definition', () => {
+    const planner = new V4Planner()
+    // @ts-expect-error amounts are bigints
+    expect(() => planner.addAction(Actions.SETTLE_ALL, [DAI.address, 'abc'])).toThrow()
+    // @ts-expect-error payerIsUser is missing
+    expect(() => planner.addAction(Actions.SETTLE, [DAI.address, 0n])).toThrow()
+  })
+})
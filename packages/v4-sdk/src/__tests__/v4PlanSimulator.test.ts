@@ -0,0 +1,309 @@
+import { CurrencyAmount, Ether, Percent, Token } from '@muniswap/sdk-core'
+import { MAX_TICK, MIN_TICK, encodeSqrtRatioX96, nearestUsableTick } from '@muniswap/v3-sdk'
+import { describe, expect, it } from 'vitest'
+import { CONTRACT_BALANCE, MSG_SENDER } from '../actionConstants'
+import { Pool } from '../entities/pool'
+import { Position } from '../entities/position'
+import { Route } from '../entities/route'
+import { Trade } from '../entities/trade'
+import { ActionFailedError, CurrencyNotSettledError } from '../errors'
+import { ADDRESS_ZERO, FEE_AMOUNT_MEDIUM, ONE_ETHER, TICK_SPACING_SIXTY } from '../internalConstants'
+import { toAddress } from '../utils/currencyMap'
+import { V4PlanSimulator } from '../utils/v4PlanSimulator'
+import { Actions, V4Planner } from '../utils/v4Planner'
+import { V4PositionPlanner } from '../utils/v4PositionPlanner'
+
+describe('V4PlanSimulator', () => {
+  const ETH = Ether.onChain(1)
+  const USDC = new Token(1, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(1, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const RECIPIENT = '0x0000000000000000000000000000000000000003'
+
+  const LIQUIDITY = ONE_ETHER * 1000n
+  const FULL_RANGE_TICKS = [
+    { index: nearestUsableTick(MIN_TICK, TICK_SPACING_SIXTY), liquidityNet: LIQUIDITY, liquidityGross: LIQUIDITY },
+    { index: nearestUsableTick(MAX_TICK, TICK_SPACING_SIXTY), liquidityNet: -LIQUIDITY, liquidityGross: LIQUIDITY },
+  ]
+
+  function makePool(currencyA: Ether | Token, currencyB: Token): Pool {
+    return new Pool(
+      currencyA,
+      currencyB,
+      FEE_AMOUNT_MEDIUM,
+      TICK_SPACING_SIXTY,
+      ADDRESS_ZERO,
+      encodeSqrtRatioX96(1, 1),
+      LIQUIDITY,
+      0,
+      FULL_RANGE_TICKS
+    )
+  }
+
+  const ETH_USDC = makePool(ETH, USDC)
+  const USDC_DAI = makePool(USDC, DAI)
+
+  describe('swaps', () => {
+    it('settles an exact in single swap', async () => {
+      const amountIn = 1_000_000n
+      const [expectedOut] = await ETH_USDC.getOutputAmount(CurrencyAmount.fromRawAmount(ETH, amountIn))
+
+      const planner = new V4Planner()
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        {
+          poolKey: ETH_USDC.poolKey,
+          zeroForOne: true,
+          amountIn,
+          amountOutMinimum: expectedOut.quotient,
+          hookData: '0x',
+        },
+      ])
+      planner.addAction(Actions.SETTLE_ALL, [ADDRESS_ZERO, amountIn])
+      planner.addAction(Actions.TAKE_ALL, [toAddress(USDC), 0n])
+
+      const result = await new V4PlanSimulator({ pools: [ETH_USDC] }).execute(planner.finalize())
+
+      expect(result.paid).toHaveLength(1)
+      expect(result.paid[0]!.currency.equals(ETH)).toBe(true)
+      expect(result.paid[0]!.quotient).toEqual(amountIn)
+      expect(result.transfers).toHaveLength(1)
+      expect(result.transfers[0]!.recipient).toEqual(MSG_SENDER)
+      expect(result.transfers[0]!.amount.equalTo(expectedOut)).toBe(true)
+      expect(result.pools[0]!.sqrtRatioX96 < ETH_USDC.sqrtRatioX96).toBe(true)
+    })
+
+    it('settles a multi hop trade added through addTrade', async () => {
+      const route = new Route([ETH_USDC, USDC_DAI], ETH, DAI)
+      const trade = await Trade.exactIn(route, CurrencyAmount.fromRawAmount(ETH, 1_000_000n))
+
+      const planner = new V4Planner()
+      planner.addTrade(trade, new Percent(5, 100))
+      planner.addSettle(ETH, true)
+      planner.addTake(DAI, RECIPIENT)
+
+      const result = await new V4PlanSimulator({ pools: [ETH_USDC, USDC_DAI] }).execute(planner.finalize())
+
+      expect(result.paid[0]!.equalTo(trade.inputAmount)).toBe(true)
+      expect(result.transfers[0]!.recipient).toEqual(RECIPIENT)
+      expect(result.transfers[0]!.amount.equalTo(trade.outputAmount)).toBe(true)
+    })
+
+    it('settles an exact out trade', async () => {
+      const route = new Route([ETH_USDC], ETH, USDC)
+      const trade = await Trade.exactOut(route, CurrencyAmount.fromRawAmount(USDC, 1_000_000n))
+
+      const planner = new V4Planner()
+      planner.addTrade(trade, new Percent(1, 100))
+      planner.addSettle(ETH, true)
+      planner.addTake(USDC, RECIPIENT)
+
+      const result = await new V4PlanSimulator({ pools: [ETH_USDC] }).execute(planner.finalize())
+
+      expect(result.paid[0]!.equalTo(trade.inputAmount)).toBe(true)
+      expect(result.transfers[0]!.amount.equalTo(trade.outputAmount)).toBe(true)
+    })
+
+    it('reports the action that leaves a delta open', async () => {
+      const planner = new V4Planner()
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: ETH_USDC.poolKey, zeroForOne: true, amountIn: 1_000_000n, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+      planner.addSettle(ETH, true)
+
+      const error = await new V4PlanSimulator({ pools: [ETH_USDC] }).execute(planner.finalize()).catch((e) => e)
+
+      expect(error).toBeInstanceOf(CurrencyNotSettledError)
+      expect(error.currency.equals(USDC)).toBe(true)
+      expect(error.delta > 0n).toBe(true)
+      expect(error.actionIndex).toEqual(0)
+      expect(error.actionName).toEqual('SWAP_EXACT_IN_SINGLE')
+    })
+
+    it('fails the action that violates a slippage check', async () => {
+      const planner = new V4Planner()
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: ETH_USDC.poolKey, zeroForOne: true, amountIn: 1_000_000n, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+      planner.addAction(Actions.SETTLE_ALL, [ADDRESS_ZERO, 1n])
+
+      const error = await new V4PlanSimulator({ pools: [ETH_USDC] }).execute(planner.finalize()).catch((e) => e)
+
+      expect(error).toBeInstanceOf(ActionFailedError)
+      expect(error.actionIndex).toEqual(1)
+      expect(error.actionName).toEqual('SETTLE_ALL')
+    })
+
+    it('throws for pools it does not know', async () => {
+      const planner = new V4Planner()
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: USDC_DAI.poolKey, zeroForOne: true, amountIn: 1n, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+
+      await expect(new V4PlanSimulator({ pools: [ETH_USDC] }).execute(planner.finalize())).rejects.toThrow(
+        'POOL_NOT_FOUND'
+      )
+    })
+  })
+
+  describe('liquidity', () => {
+    const position = new Position({ pool: USDC_DAI, liquidity: ONE_ETHER, tickLower: -600, tickUpper: 600 })
+
+    it('mints a position and settles the pair', async () => {
+      const planner = new V4PositionPlanner()
+      const { amount0, amount1 } = position.mintAmounts
+      planner.addMint(USDC_DAI, -600, 600, ONE_ETHER, amount0, amount1, RECIPIENT)
+      planner.addSettlePair(USDC_DAI.currency0, USDC_DAI.currency1)
+
+      const simulator = new V4PlanSimulator({ pools: [USDC_DAI], nextTokenId: 7 })
+      const result = await simulator.execute(planner.finalize())
+
+      expect(result.mintedTokenIds).toEqual(['7'])
+      expect(result.positions['7']!.liquidity).toEqual(ONE_ETHER)
+      expect(result.pools[0]!.liquidity).toEqual(LIQUIDITY + ONE_ETHER)
+      expect(result.paid.map((amount) => amount.quotient)).toEqual([amount0, amount1])
+    })
+
+    it('keeps state between plans', async () => {
+      const mint = new V4PositionPlanner()
+      mint.addMint(USDC_DAI, -600, 600, ONE_ETHER, 2n ** 128n - 1n, 2n ** 128n - 1n, RECIPIENT)
+      mint.addSettlePair(USDC_DAI.currency0, USDC_DAI.currency1)
+
+      const burn = new V4PositionPlanner()
+      burn.addBurn(1, 0, 0)
+      burn.addTakePair(USDC_DAI.currency0, USDC_DAI.currency1, RECIPIENT)
+
+      const simulator = new V4PlanSimulator({ pools: [USDC_DAI] })
+      await simulator.execute(mint.finalize())
+      const result = await simulator.execute(burn.finalize())
+
+      expect(result.positions).toEqual({})
+      expect(result.pools[0]!.liquidity).toEqual(LIQUIDITY)
+      expect(result.transfers.map(({ amount }) => amount.quotient)).toEqual([
+        position.amount0.quotient,
+        position.amount1.quotient,
+      ])
+    })
+
+    it('swaps across the ticks of a position minted earlier in the plan', async () => {
+      const liquidity = LIQUIDITY * 10n
+      const amountIn = LIQUIDITY
+      const withPosition = new Pool(
+        USDC_DAI.currency0,
+        USDC_DAI.currency1,
+        FEE_AMOUNT_MEDIUM,
+        TICK_SPACING_SIXTY,
+        ADDRESS_ZERO,
+        encodeSqrtRatioX96(1, 1),
+        LIQUIDITY + liquidity,
+        0,
+        [
+          FULL_RANGE_TICKS[0]!,
+          { index: -600, liquidityNet: liquidity, liquidityGross: liquidity },
+          { index: 600, liquidityNet: -liquidity, liquidityGross: liquidity },
+          FULL_RANGE_TICKS[1]!,
+        ]
+      )
+      const [expectedOut, expectedPool] = await withPosition.getOutputAmount(
+        CurrencyAmount.fromRawAmount(USDC_DAI.currency0, amountIn)
+      )
+
+      const planner = new V4PositionPlanner()
+      planner.addMint(USDC_DAI, -600, 600, liquidity, 2n ** 128n - 1n, 2n ** 128n - 1n, RECIPIENT)
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: USDC_DAI.poolKey, zeroForOne: true, amountIn, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+      planner.addAction(Actions.CLOSE_CURRENCY, [toAddress(USDC_DAI.currency0)])
+      planner.addAction(Actions.CLOSE_CURRENCY, [toAddress(USDC_DAI.currency1)])
+
+      const result = await new V4PlanSimulator({ pools: [USDC_DAI] }).execute(planner.finalize())
+
+      // The swap leaves the position's range, so only the full range liquidity remains active
+      expect(result.pools[0]!.tickCurrent).toBeLessThan(-600)
+      expect(result.pools[0]!.liquidity).toEqual(LIQUIDITY)
+      expect(result.pools[0]!.sqrtRatioX96).toEqual(expectedPool.sqrtRatioX96)
+      const { amount0, amount1 } = new Position({ pool: USDC_DAI, liquidity, tickLower: -600, tickUpper: 600 })
+        .mintAmounts
+      // The swap output covers the currency1 owed to the position
+      expect(result.paid.map((amount) => amount.quotient)).toEqual([amount0 + amountIn])
+      expect(result.transfers.map(({ amount }) => amount.quotient)).toEqual([expectedOut.quotient - amount1])
+    })
+
+    it('fails a mint above the maximum amounts', async () => {
+      const planner = new V4PositionPlanner()
+      planner.addMint(USDC_DAI, -600, 600, ONE_ETHER, 0, 0, RECIPIENT)
+
+      await expect(new V4PlanSimulator({ pools: [USDC_DAI] }).execute(planner.finalize())).rejects.toThrow(
+        'MaximumAmountExceeded'
+      )
+    })
+
+    it('decreases an existing position', async () => {
+      const planner = new V4PositionPlanner()
+      planner.addDecrease(1, ONE_ETHER / 2n, 0, 0)
+      planner.addTakePair(USDC_DAI.currency0, USDC_DAI.currency1, RECIPIENT)
+
+      const simulator = new V4PlanSimulator({ pools: [USDC_DAI], positions: { '1': position } })
+      const result = await simulator.execute(planner.finalize())
+
+      expect(result.positions['1']!.liquidity).toEqual(ONE_ETHER / 2n)
+      expect(result.transfers).toHaveLength(2)
+    })
+  })
+
+  describe('deltas', () => {
+    it('mints a position from the deltas left by a swap', async () => {
+      const planner = new V4PositionPlanner()
+      planner.addSettle(USDC, true, 2_000_000n)
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: USDC_DAI.poolKey, zeroForOne: false, amountIn: 1_000_000n, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+      planner.addMintFromDeltas(USDC_DAI, -600, 600, 2n ** 128n - 1n, 2n ** 128n - 1n, RECIPIENT)
+      planner.addClosePair(USDC, DAI)
+
+      const result = await new V4PlanSimulator({ pools: [USDC_DAI] }).execute(planner.finalize())
+
+      expect(result.mintedTokenIds).toEqual(['1'])
+      expect(result.positions['1']!.liquidity > 0n).toBe(true)
+      expect(result.paid[0]!.quotient).toEqual(2_000_000n)
+      expect(result.transfers.every(({ recipient }) => recipient === MSG_SENDER)).toBe(true)
+    })
+
+    it('clears dust below the maximum and takes anything above it', async () => {
+      const planner = new V4Planner()
+      planner.addSettle(USDC, true, 100n)
+      planner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+        { poolKey: USDC_DAI.poolKey, zeroForOne: false, amountIn: 100n, amountOutMinimum: 0n, hookData: '0x' },
+      ])
+      planner.addClearOrTake(DAI, 1n)
+      planner.addClearOrTake(USDC, 1n)
+
+      const result = await new V4PlanSimulator({ pools: [USDC_DAI] }).execute(planner.finalize())
+
+      expect(result.transfers).toHaveLength(1)
+      expect(result.transfers[0]!.amount.currency.equals(DAI)).toBe(true)
+    })
+
+    it('wraps the native balance held by the router', async () => {
+      const planner = new V4Planner()
+      planner.addWrap(CONTRACT_BALANCE)
+      planner.addAction(Actions.SWEEP, [ETH.wrapped.address, RECIPIENT])
+
+      const simulator = new V4PlanSimulator({
+        pools: [ETH_USDC],
+        contractBalances: [CurrencyAmount.fromRawAmount(ETH, ONE_ETHER)],
+      })
+      const result = await simulator.execute(planner.finalize())
+
+      expect(result.contractBalances).toEqual([])
+      expect(result.transfers[0]!.amount.equalTo(CurrencyAmount.fromRawAmount(ETH.wrapped, ONE_ETHER))).toBe(true)
+    })
+
+    it('does not simulate actions the periphery contracts reject', async () => {
+      const planner = new V4Planner()
+      planner.addDonate(USDC_DAI.poolKey, 1n, 1n)
+
+      await expect(new V4PlanSimulator({ pools: [USDC_DAI] }).execute(planner.finalize())).rejects.toThrow(
+        'Unsupported action DONATE'
+      )
+    })
+  })
+})
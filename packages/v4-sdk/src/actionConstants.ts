@@ -5,3 +5,15 @@
  * should be used as the recipient/payer for operations
  */
 export const MSG_SENDER = '0x0000000000000000000000000000000000000001'
+
+/**
+ * ADDRESS_THIS is used as a sentinel value to indicate that the router/position manager itself
+ * should be used as the recipient of an operation
+ */
+export const ADDRESS_THIS = '0x0000000000000000000000000000000000000002'
+
+/**
+ * CONTRACT_BALANCE is used as a sentinel amount to indicate that the router/position manager's
+ * entire balance of a currency should be used
+ */
+export const CONTRACT_BALANCE = 2n ** 255n
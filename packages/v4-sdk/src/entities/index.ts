@@ -1,4 +1,5 @@
 export * from './pool'
 export * from './position'
 export * from './route'
+export * from './stateViewTickDataProvider'
 export * from './trade'
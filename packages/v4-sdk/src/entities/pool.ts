@@ -1,22 +1,59 @@
-import { type BigintIsh, type Currency, CurrencyAmount, Price } from '@muniswap/sdk-core'
 import {
+  type BigintIsh,
+  CHAIN_TO_ADDRESSES_MAP,
+  type Currency,
+  CurrencyAmount,
+  Price,
+  SERIALIZATION_VERSION,
+  type SupportedChainsType,
+  type V4PoolJSON,
+  currencyFromJSON,
+  multicall,
+  v4PoolJSONSchema,
+} from '@muniswap/sdk-core'
+import {
+  LoadedTickDataProvider,
   NoTickDataProvider,
+  type SwapResult,
   type Tick,
   type TickConstructorArgs,
   type TickDataProvider,
   TickListDataProvider,
   getSqrtRatioAtTick,
+  tickDataToJSON,
   v3Swap,
 } from '@muniswap/v3-sdk'
 import { AbiParameters, Hash } from 'ox'
 import { Address } from 'ox'
 import invariant from 'tiny-invariant'
-import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, NEGATIVE_ONE, Q192 } from '../internalConstants'
-import { Hook } from '../utils/hook'
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, MAX_LP_FEE, NEGATIVE_ONE, Q192 } from '../internalConstants'
+import { StateView, type StateViewReaderOptions } from '../stateView'
+import { Hook, HookOptions } from '../utils/hook'
+import {
+  type HookSimulator,
+  type HookSwapParams,
+  PASSTHROUGH_HOOK_SIMULATOR,
+  getHookSimulator,
+} from '../utils/hookSimulator'
 import { sortsBefore } from '../utils/sortsBefore'
+import { StateViewTickDataProvider } from './stateViewTickDataProvider'
 
 const NO_TICK_DATA_PROVIDER_DEFAULT = new NoTickDataProvider()
 
+function isValidLpFee(lpFee: number): boolean {
+  return Number.isInteger(lpFee) && lpFee >= 0 && lpFee <= MAX_LP_FEE
+}
+
+/**
+ * Options for loading a pool through StateView
+ */
+export interface PoolFromStateViewOptions extends StateViewReaderOptions {
+  /** The maximum number of calls per multicall of the tick reads */
+  batchSize?: number
+  /** The multicall contract (default: the multicall contract of the chain) */
+  multicallAddress?: string
+}
+
 /**
  * Represents the key that uniquely identifies a V4 pool
  */
@@ -28,6 +65,12 @@ export type PoolKey = {
   hooks: string
 }
 
+/**
+ * Returns the LP fee of a swap through a dynamic fee pool, in hundredths of bips
+ * @param params The direction and amount of the swap
+ */
+export type DynamicFeeProvider = (params: HookSwapParams) => number | Promise<number>
+
 /**
  * Represents a Uniswap V4 pool.
  * V4 pools support hooks and native currency (ETH without WETH wrapping).
@@ -41,6 +84,15 @@ export class Pool {
   public readonly hooks: string
   public readonly liquidity: bigint
   public readonly tickCurrent: number
+  /**
+   * The LP fee in hundredths of bips: the fee of a static fee pool, or the current fee of a dynamic fee pool
+   * if it is known
+   */
+  public readonly lpFee: number | undefined
+  /**
+   * Returns the LP fee of each swap through a dynamic fee pool
+   */
+  public readonly dynamicFeeProvider: DynamicFeeProvider | undefined
   public readonly tickDataProvider: TickDataProvider
   public readonly poolKey: PoolKey
   public readonly poolId: string
@@ -107,6 +159,73 @@ export class Pool {
     return Hash.keccak256(encoded)
   }
 
+  /**
+   * Loads a V4 pool through StateView. The price and liquidity are read at the same block, and the ticks are loaded
+   * on demand from that block. Dynamic fee pools are loaded with their current LP fee.
+   * @param currencyA One of the currencies in the pool
+   * @param currencyB The other currency in the pool
+   * @param fee The fee in hundredths of bips (or DYNAMIC_FEE_FLAG for dynamic fees)
+   * @param tickSpacing The tick spacing of the pool
+   * @param hooks The address of the hook contract
+   * @param options The transport, StateView contract and block to read through
+   * @returns The pool
+   */
+  public static async fromStateView(
+    currencyA: Currency,
+    currencyB: Currency,
+    fee: number,
+    tickSpacing: number,
+    hooks: string,
+    { transport, chainId, stateViewAddress, blockTag = 'latest', batchSize, multicallAddress }: PoolFromStateViewOptions
+  ): Promise<Pool> {
+    const stateView =
+      stateViewAddress ?? (CHAIN_TO_ADDRESSES_MAP[chainId as SupportedChainsType] ?? undefined)?.v4StateView
+    invariant(stateView !== undefined, 'STATE_VIEW_ADDRESS')
+    const poolId = Pool.getPoolId(currencyA, currencyB, fee, tickSpacing, hooks)
+    const multicallOptions = {
+      ...(batchSize !== undefined && { batchSize }),
+      ...(multicallAddress !== undefined && { multicallAddress }),
+    }
+
+    const {
+      blockNumber,
+      results: [slot0Result, liquidityResult],
+    } = await multicall(
+      transport,
+      chainId,
+      [
+        { target: stateView, callData: StateView.encodeGetSlot0(poolId) },
+        { target: stateView, callData: StateView.encodeGetLiquidity(poolId) },
+      ],
+      { blockTag, ...multicallOptions }
+    )
+    invariant(slot0Result?.success && liquidityResult?.success, 'STATE_VIEW')
+    const { sqrtPriceX96, tick, lpFee } = StateView.decodeGetSlot0(slot0Result.returnData)
+    invariant(sqrtPriceX96 !== 0n, 'POOL_NOT_INITIALIZED')
+
+    const ticks = new StateViewTickDataProvider({
+      transport,
+      chainId,
+      tickSpacing,
+      blockTag: blockNumber,
+      poolId,
+      stateViewAddress: stateView,
+      ...multicallOptions,
+    })
+    return new Pool(
+      currencyA,
+      currencyB,
+      fee,
+      tickSpacing,
+      hooks,
+      sqrtPriceX96,
+      StateView.decodeGetLiquidity(liquidityResult.returnData),
+      tick,
+      ticks,
+      fee === DYNAMIC_FEE_FLAG ? lpFee : undefined
+    )
+  }
+
   /**
    * Construct a V4 pool
    * @param currencyA One of the currencies in the pool
@@ -118,6 +237,8 @@ export class Pool {
    * @param liquidity The current value of in-range liquidity
    * @param tickCurrent The current tick of the pool
    * @param ticks Optional tick data provider or array of ticks
+   * @param lpFee For dynamic fee pools, the current LP fee (e.g. the lpFee of StateView's getSlot0), or a
+   * provider of the LP fee of each swap
    */
   public constructor(
     currencyA: Currency,
@@ -128,13 +249,17 @@ export class Pool {
     sqrtRatioX96: BigintIsh,
     liquidity: BigintIsh,
     tickCurrent: number,
-    ticks: TickDataProvider | (Tick | TickConstructorArgs)[] = NO_TICK_DATA_PROVIDER_DEFAULT
+    ticks: TickDataProvider | (Tick | TickConstructorArgs)[] = NO_TICK_DATA_PROVIDER_DEFAULT,
+    lpFee?: number | DynamicFeeProvider
   ) {
     invariant(Address.validate(hooks), 'Invalid hook address')
-    invariant(Number.isInteger(fee) && (fee === DYNAMIC_FEE_FLAG || fee < 1_000_000), 'FEE')
+    invariant(fee === DYNAMIC_FEE_FLAG || isValidLpFee(fee), 'FEE')
 
     if (fee === DYNAMIC_FEE_FLAG) {
       invariant(BigInt(hooks) > 0n, 'Dynamic fee pool requires a hook')
+      invariant(typeof lpFee !== 'number' || isValidLpFee(lpFee), 'LP_FEE')
+    } else {
+      invariant(lpFee === undefined || lpFee === fee, 'LP_FEE')
     }
 
     const sqrtRatioX96BigInt = BigInt(sqrtRatioX96)
@@ -159,10 +284,77 @@ export class Pool {
     this.liquidity = BigInt(liquidity)
     this.tickCurrent = tickCurrent
     this.tickDataProvider = Array.isArray(ticks) ? new TickListDataProvider(ticks, tickSpacing) : ticks
+    this.lpFee = fee === DYNAMIC_FEE_FLAG ? (typeof lpFee === 'number' ? lpFee : undefined) : fee
+    this.dynamicFeeProvider = typeof lpFee === 'function' ? lpFee : undefined
     this.poolKey = Pool.getPoolKey(this.currency0, this.currency1, this.fee, this.tickSpacing, this.hooks)
     this.poolId = Pool.getPoolId(this.currency0, this.currency1, this.fee, this.tickSpacing, this.hooks)
   }
 
+  /**
+   * Serializes the pool into a versioned, JSON-compatible object.
+   * Ticks are included if the pool is backed by a tick list, or by a lazy provider such as the one of
+   * {@link Pool.fromStateView}, whose loaded ticks are included with the words they were loaded for. The LP fee of a
+   * dynamic fee pool is included only if it is a known number.
+   */
+  public toJSON(): V4PoolJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      currency0: this.currency0.toJSON(),
+      currency1: this.currency1.toJSON(),
+      fee: this.fee,
+      tickSpacing: this.tickSpacing,
+      hooks: this.hooks,
+      sqrtRatioX96: this.sqrtRatioX96.toString(),
+      liquidity: this.liquidity.toString(),
+      tickCurrent: this.tickCurrent,
+      ...(this.isDynamicFee && this.lpFee !== undefined && { lpFee: this.lpFee }),
+      ...tickDataToJSON(this.tickDataProvider),
+    }
+  }
+
+  /**
+   * Deserializes a pool produced by {@link Pool#toJSON}. Ticks serialized from a lazy provider are restored into a
+   * LoadedTickDataProvider, which throws when a swap reaches a word that was not loaded.
+   * @param json The serialized pool
+   * @throws ZodError if the input is not a serialized pool
+   */
+  public static fromJSON(json: unknown): Pool {
+    const {
+      currency0,
+      currency1,
+      fee,
+      tickSpacing,
+      hooks,
+      sqrtRatioX96,
+      liquidity,
+      tickCurrent,
+      lpFee,
+      ticks,
+      tickWords,
+    } = v4PoolJSONSchema.parse(json)
+    return new Pool(
+      currencyFromJSON(currency0),
+      currencyFromJSON(currency1),
+      fee,
+      tickSpacing,
+      hooks,
+      sqrtRatioX96,
+      liquidity,
+      tickCurrent,
+      tickWords
+        ? new LoadedTickDataProvider(ticks ?? [], tickSpacing, tickWords)
+        : (ticks ?? NO_TICK_DATA_PROVIDER_DEFAULT),
+      lpFee
+    )
+  }
+
+  /**
+   * Whether the LP fee of the pool is set by its hook rather than fixed in the pool key
+   */
+  public get isDynamicFee(): boolean {
+    return this.fee === DYNAMIC_FEE_FLAG
+  }
+
   /**
    * Backwards compatibility with V2/V3 SDKs
    */
@@ -263,16 +455,17 @@ export class Pool {
 
   /**
    * Given an input amount of a currency, return the computed output amount and a pool with updated state.
-   * Works only for vanilla hookless V3-style pools, otherwise throws an error.
+   * Pools whose hook has swap permissions are simulated with the hook's registered HookSimulator. Hooks that
+   * return deltas throw an error unless a simulator is registered.
    *
    * @param inputAmount The input amount for which to quote the output amount
    * @param sqrtPriceLimitX96 Optional Q64.96 sqrt price limit
-   * @returns The output amount and the pool with updated state
+   * @returns The output amount, the pool with updated state and the number of initialized ticks crossed
    */
   public async getOutputAmount(
     inputAmount: CurrencyAmount<Currency>,
     sqrtPriceLimitX96?: bigint
-  ): Promise<[CurrencyAmount<Currency>, Pool]> {
+  ): Promise<[CurrencyAmount<Currency>, Pool, number]> {
     invariant(this.involvesCurrency(inputAmount.currency), 'CURRENCY')
 
     const zeroForOne = inputAmount.currency.equals(this.currency0)
@@ -282,6 +475,7 @@ export class Pool {
       sqrtRatioX96,
       liquidity,
       tickCurrent,
+      initializedTicksCrossed,
     } = await this.swap(zeroForOne, inputAmount.quotient, sqrtPriceLimitX96)
 
     const outputCurrency = zeroForOne ? this.currency1 : this.currency0
@@ -296,23 +490,26 @@ export class Pool {
         sqrtRatioX96,
         liquidity,
         tickCurrent,
-        this.tickDataProvider
+        this.tickDataProvider,
+        this.dynamicFeeProvider ?? this.lpFee
       ),
+      initializedTicksCrossed,
     ]
   }
 
   /**
    * Given a desired output amount of a currency, return the computed input amount and a pool with updated state.
-   * Works only for vanilla hookless V3-style pools, otherwise throws an error.
+   * Pools whose hook has swap permissions are simulated with the hook's registered HookSimulator. Hooks that
+   * return deltas throw an error unless a simulator is registered.
    *
    * @param outputAmount The output amount for which to quote the input amount
    * @param sqrtPriceLimitX96 Optional Q64.96 sqrt price limit
-   * @returns The input amount and the pool with updated state
+   * @returns The input amount, the pool with updated state and the number of initialized ticks crossed
    */
   public async getInputAmount(
     outputAmount: CurrencyAmount<Currency>,
     sqrtPriceLimitX96?: bigint
-  ): Promise<[CurrencyAmount<Currency>, Pool]> {
+  ): Promise<[CurrencyAmount<Currency>, Pool, number]> {
     invariant(this.involvesCurrency(outputAmount.currency), 'CURRENCY')
 
     const zeroForOne = outputAmount.currency.equals(this.currency1)
@@ -322,6 +519,7 @@ export class Pool {
       sqrtRatioX96,
       liquidity,
       tickCurrent,
+      initializedTicksCrossed,
     } = await this.swap(zeroForOne, outputAmount.quotient * NEGATIVE_ONE, sqrtPriceLimitX96)
 
     const inputCurrency = zeroForOne ? this.currency0 : this.currency1
@@ -336,37 +534,115 @@ export class Pool {
         sqrtRatioX96,
         liquidity,
         tickCurrent,
-        this.tickDataProvider
+        this.tickDataProvider,
+        this.dynamicFeeProvider ?? this.lpFee
       ),
+      initializedTicksCrossed,
     ]
   }
 
   /**
-   * Executes a swap simulation
+   * Executes a swap simulation. If the hook of the pool has swap permissions, the swap is wrapped in the
+   * beforeSwap and afterSwap of the hook's registered simulator, applying the deltas it returns as the
+   * PoolManager does.
    * @param zeroForOne Whether the amount in is currency0 or currency1
    * @param amountSpecified The amount of the swap (positive = exact input, negative = exact output)
    * @param sqrtPriceLimitX96 Optional Q64.96 sqrt price limit
-   * @returns The swap result
+   * @returns The swap result, with the amount calculated including the hook deltas
    */
-  private async swap(
+  private async swap(zeroForOne: boolean, amountSpecified: bigint, sqrtPriceLimitX96?: bigint): Promise<SwapResult> {
+    // The PoolManager takes a negative amount for an exact input
+    const params: HookSwapParams = { zeroForOne, amountSpecified: amountSpecified * NEGATIVE_ONE, sqrtPriceLimitX96 }
+
+    if (!this.hookImpactsSwap()) {
+      return this.swapWithFee(await this.getLpFee(params), zeroForOne, amountSpecified, sqrtPriceLimitX96)
+    }
+
+    const permissions = Hook.permissions(this.hooks)
+    const simulator = getHookSimulator(this.hooks) ?? this.defaultHookSimulator()
+
+    const beforeSwap = permissions.beforeSwap && simulator.beforeSwap ? await simulator.beforeSwap(this, params) : {}
+    const deltaSpecified = permissions.beforeSwapReturnsDelta ? (beforeSwap.deltaSpecified ?? 0n) : 0n
+    let deltaUnspecified = permissions.beforeSwapReturnsDelta ? (beforeSwap.deltaUnspecified ?? 0n) : 0n
+    const fee =
+      this.isDynamicFee && beforeSwap.lpFeeOverride !== undefined
+        ? beforeSwap.lpFeeOverride
+        : await this.getLpFee(params)
+    invariant(isValidLpFee(fee), 'LP_FEE')
+
+    const amountToSwap = params.amountSpecified + deltaSpecified
+    invariant(
+      amountToSwap === 0n || amountToSwap < 0n === params.amountSpecified < 0n,
+      'HOOK_DELTA_EXCEEDS_SWAP_AMOUNT'
+    )
+
+    const result: SwapResult =
+      amountToSwap === 0n
+        ? {
+            amountCalculated: 0n,
+            sqrtRatioX96: this.sqrtRatioX96,
+            liquidity: this.liquidity,
+            tickCurrent: this.tickCurrent,
+            initializedTicksCrossed: 0,
+          }
+        : await this.swapWithFee(fee, zeroForOne, amountToSwap * NEGATIVE_ONE, sqrtPriceLimitX96)
+
+    if (permissions.afterSwap && simulator.afterSwap) {
+      const unspecifiedSwapDelta = result.amountCalculated * NEGATIVE_ONE
+      const [amount0, amount1] =
+        params.amountSpecified < 0n === zeroForOne
+          ? [amountToSwap, unspecifiedSwapDelta]
+          : [unspecifiedSwapDelta, amountToSwap]
+      const afterSwapDelta = await simulator.afterSwap(this, params, { amount0, amount1 })
+      if (permissions.afterSwapReturnsDelta) deltaUnspecified += afterSwapDelta
+    }
+
+    // The swapper pays or receives the unspecified amount of the swap, less what the hook takes
+    return { ...result, amountCalculated: result.amountCalculated + deltaUnspecified }
+  }
+
+  /**
+   * Returns the LP fee of a swap, which for dynamic fee pools comes from the dynamic fee provider if there is one
+   */
+  private async getLpFee(params: HookSwapParams): Promise<number> {
+    const lpFee = this.dynamicFeeProvider ? await this.dynamicFeeProvider(params) : this.lpFee
+    invariant(lpFee !== undefined && isValidLpFee(lpFee), 'LP_FEE')
+    return lpFee
+  }
+
+  private swapWithFee(
+    fee: number,
     zeroForOne: boolean,
     amountSpecified: bigint,
     sqrtPriceLimitX96?: bigint
-  ): Promise<{ amountCalculated: bigint; sqrtRatioX96: bigint; liquidity: bigint; tickCurrent: number }> {
-    if (!this.hookImpactsSwap()) {
-      return v3Swap(
-        BigInt(this.fee),
-        this.sqrtRatioX96,
-        this.tickCurrent,
-        this.liquidity,
-        this.tickSpacing,
-        this.tickDataProvider,
-        zeroForOne,
-        amountSpecified,
-        sqrtPriceLimitX96
-      )
+  ): Promise<SwapResult> {
+    // As in the PoolManager, a pool taking the whole input as fee cannot swap for an exact output
+    invariant(fee < MAX_LP_FEE || amountSpecified > 0n, 'INVALID_FEE_FOR_EXACT_OUT')
+    return v3Swap(
+      BigInt(fee),
+      this.sqrtRatioX96,
+      this.tickCurrent,
+      this.liquidity,
+      this.tickSpacing,
+      this.tickDataProvider,
+      zeroForOne,
+      amountSpecified,
+      sqrtPriceLimitX96
+    )
+  }
+
+  /**
+   * The simulator of a hook without a registered simulator, which passes swaps through unless the hook
+   * returns deltas
+   */
+  private defaultHookSimulator(): HookSimulator {
+    if (
+      Hook.hasPermission(this.hooks, HookOptions.BeforeSwapReturnsDelta) ||
+      Hook.hasPermission(this.hooks, HookOptions.AfterSwapReturnsDelta)
+    ) {
+      throw new Error('Unsupported hook')
     }
-    throw new Error('Unsupported hook')
+    return PASSTHROUGH_HOOK_SIMULATOR
   }
 
   /**
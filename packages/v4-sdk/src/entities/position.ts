@@ -1,12 +1,15 @@
 import { type BigintIsh, type Currency, CurrencyAmount, type Percent, type Price } from '@muniswap/sdk-core'
 import {
+  type FeeGrowthOutside,
   MAX_SQRT_RATIO,
   MIN_SQRT_RATIO,
   encodeSqrtRatioX96,
   getAmount0Delta,
   getAmount1Delta,
+  getFeeGrowthInside,
   getSqrtRatioAtTick,
   getTickAtSqrtRatio,
+  getTokensOwed,
   maxLiquidityForAmounts,
 } from '@muniswap/v3-sdk'
 
@@ -15,6 +18,7 @@ const MaxUint256 = 2n ** 256n - 1n
 import invariant from 'tiny-invariant'
 import type { AllowanceTransferPermitBatch } from '../PositionManager'
 import { ZERO } from '../internalConstants'
+import { type PositionInfo, decodePositionInfo, encodePositionInfo } from '../utils/positionInfo'
 import { tickToPrice } from '../utils/priceTickConversions'
 import { Pool } from './pool'
 
@@ -25,6 +29,25 @@ interface PositionConstructorArgs {
   tickUpper: number
 }
 
+/**
+ * The fee growth state needed to compute the fees owed to a position, as read from the StateView getTickInfo,
+ * getFeeGrowthGlobals and getPositionInfo functions
+ */
+export interface PositionFeeGrowth {
+  /** The fee growth outside the lower tick of the position */
+  feeGrowthOutsideLower: FeeGrowthOutside
+  /** The fee growth outside the upper tick of the position */
+  feeGrowthOutsideUpper: FeeGrowthOutside
+  /** The global fee growth of currency0 of the pool */
+  feeGrowthGlobal0X128: bigint
+  /** The global fee growth of currency1 of the pool */
+  feeGrowthGlobal1X128: bigint
+  /** The fee growth of currency0 inside the range when the position was last modified */
+  feeGrowthInside0LastX128: bigint
+  /** The fee growth of currency1 inside the range when the position was last modified */
+  feeGrowthInside1LastX128: bigint
+}
+
 // Tick bounds from V3
 const MIN_TICK = -887272
 const MAX_TICK = 887272
@@ -322,6 +345,43 @@ export class Position {
     }
   }
 
+  /**
+   * Returns the fees earned by the position since it was last modified, at the current tick of the pool
+   * @param feeGrowth The fee growth of the ticks of the position and of the pool, and the last fee growth inside
+   * the position
+   * @returns The fees owed in currency0 and currency1
+   */
+  public feesOwed({
+    feeGrowthOutsideLower,
+    feeGrowthOutsideUpper,
+    feeGrowthGlobal0X128,
+    feeGrowthGlobal1X128,
+    feeGrowthInside0LastX128,
+    feeGrowthInside1LastX128,
+  }: PositionFeeGrowth): { amount0: CurrencyAmount<Currency>; amount1: CurrencyAmount<Currency> } {
+    const [feeGrowthInside0X128, feeGrowthInside1X128] = getFeeGrowthInside(
+      feeGrowthOutsideLower,
+      feeGrowthOutsideUpper,
+      this.tickLower,
+      this.tickUpper,
+      this.pool.tickCurrent,
+      feeGrowthGlobal0X128,
+      feeGrowthGlobal1X128
+    )
+    const [amount0, amount1] = getTokensOwed(
+      feeGrowthInside0LastX128,
+      feeGrowthInside1LastX128,
+      this.liquidity,
+      feeGrowthInside0X128,
+      feeGrowthInside1X128
+    )
+
+    return {
+      amount0: CurrencyAmount.fromRawAmount(this.pool.currency0, amount0),
+      amount1: CurrencyAmount.fromRawAmount(this.pool.currency1, amount1),
+    }
+  }
+
   /**
    * Computes the maximum amount of liquidity received for a given amount of token0, token1,
    * and the prices at the tick boundaries.
@@ -417,4 +477,28 @@ export class Position {
     // This function always uses full precision
     return Position.fromAmounts({ pool, tickLower, tickUpper, amount0: MaxUint256, amount1, useFullPrecision: true })
   }
+
+  /**
+   * Reconstructs a position of the V4 PositionManager from its position info and liquidity, as returned by
+   * getPoolAndPositionInfo and getPositionLiquidity
+   * @param pool The pool of the position
+   * @param positionInfo The position info, packed or unpacked
+   * @param liquidity The liquidity of the position
+   * @returns The position
+   */
+  public static fromPositionManager({
+    pool,
+    positionInfo,
+    liquidity,
+  }: {
+    pool: Pool
+    positionInfo: PositionInfo | BigintIsh
+    liquidity: BigintIsh
+  }): Position {
+    const { poolId, tickLower, tickUpper } = decodePositionInfo(
+      typeof positionInfo === 'object' ? encodePositionInfo(positionInfo) : positionInfo
+    )
+    invariant(pool.poolId.toLowerCase().startsWith(poolId), 'POOL_MISMATCH')
+    return new Position({ pool, liquidity, tickLower, tickUpper })
+  }
 }
@@ -1,7 +1,14 @@
-import { type Currency, Price } from '@muniswap/sdk-core'
+import {
+  type Currency,
+  Price,
+  SERIALIZATION_VERSION,
+  type V4RouteJSON,
+  currencyFromJSON,
+  v4RouteJSONSchema,
+} from '@muniswap/sdk-core'
 import invariant from 'tiny-invariant'
 import { getPathCurrency } from '../utils/pathCurrency'
-import type { Pool } from './pool'
+import { Pool } from './pool'
 
 /**
  * Represents a list of pools through which a swap can occur
@@ -99,4 +106,26 @@ export class Route<TInput extends Currency, TOutput extends Currency> {
     this._midPrice = new Price(this.input, this.output, price.denominator, price.numerator)
     return this._midPrice
   }
+
+  /**
+   * Serializes the route into a versioned, JSON-compatible object
+   */
+  public toJSON(): V4RouteJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      pools: this.pools.map((pool) => pool.toJSON()),
+      input: this.input.toJSON(),
+      output: this.output.toJSON(),
+    }
+  }
+
+  /**
+   * Deserializes a route produced by {@link Route#toJSON}
+   * @param json The serialized route
+   * @throws ZodError if the input is not a serialized route
+   */
+  public static fromJSON(json: unknown): Route<Currency, Currency> {
+    const { pools, input, output } = v4RouteJSONSchema.parse(json)
+    return new Route(pools.map(Pool.fromJSON), currencyFromJSON(input), currencyFromJSON(output))
+  }
 }
@@ -0,0 +1,66 @@
+import { CHAIN_TO_ADDRESSES_MAP, type SupportedChainsType } from '@muniswap/sdk-core'
+import { LazyTickDataProvider, type LazyTickDataProviderOptions, Tick } from '@muniswap/v3-sdk'
+import type { Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import { StateView } from '../stateView'
+
+export interface StateViewTickDataProviderOptions extends LazyTickDataProviderOptions {
+  /** The id of the pool */
+  poolId: string
+  /** The StateView contract (default: the StateView of the chain) */
+  stateViewAddress?: string
+}
+
+/**
+ * A tick data provider that loads the ticks of a V4 pool on demand through StateView. The bitmap words are
+ * read first, then the tick info of every initialized tick in them, at the same block.
+ */
+export class StateViewTickDataProvider extends LazyTickDataProvider {
+  public readonly poolId: Hex.Hex
+  public readonly stateViewAddress: string
+
+  constructor({ poolId, stateViewAddress, ...options }: StateViewTickDataProviderOptions) {
+    super(options)
+    const stateView =
+      stateViewAddress ?? (CHAIN_TO_ADDRESSES_MAP[options.chainId as SupportedChainsType] ?? undefined)?.v4StateView
+    invariant(stateView !== undefined, 'STATE_VIEW_ADDRESS')
+    this.poolId = poolId as Hex.Hex
+    this.stateViewAddress = stateView
+  }
+
+  protected async loadWords(wordPositions: number[]): Promise<Tick[][]> {
+    const bitmaps = await this.multicall(
+      wordPositions.map((wordPos) => ({
+        target: this.stateViewAddress,
+        callData: StateView.encodeGetTickBitmap(this.poolId, wordPos),
+      }))
+    )
+
+    const indexes = bitmaps.map(({ success, returnData }, i) => {
+      invariant(success, 'TICK_BITMAP')
+      const bitmap = StateView.decodeGetTickBitmap(returnData)
+      const wordIndexes: number[] = []
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & 1n) wordIndexes.push(((wordPositions[i]! << 8) + bit) * this.tickSpacing)
+      }
+      return wordIndexes
+    })
+
+    const tickInfos = await this.multicall(
+      indexes.flat().map((tick) => ({
+        target: this.stateViewAddress,
+        callData: StateView.encodeGetTickInfo(this.poolId, tick),
+      }))
+    )
+
+    let offset = 0
+    return indexes.map((wordIndexes) =>
+      wordIndexes.map((index) => {
+        const { success, returnData } = tickInfos[offset++]!
+        invariant(success, 'TICK_INFO')
+        const { liquidityGross, liquidityNet } = StateView.decodeGetTickInfo(returnData)
+        return new Tick({ index, liquidityGross, liquidityNet })
+      })
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import type { Currency } from '@muniswap/sdk-core'
+
+// see https://stackoverflow.com/a/41102306
+const CAN_SET_PROTOTYPE = 'setPrototypeOf' in Object
+
+/**
+ * Indicates that a plan leaves a non-zero currency delta on the pool manager, i.e. the unlock would revert with
+ * CurrencyNotSettled. A negative delta is owed to the pool manager, a positive delta is still claimable.
+ */
+export class CurrencyNotSettledError extends Error {
+  public readonly isCurrencyNotSettledError = true
+
+  /**
+   * @param currency The currency whose delta is not settled
+   * @param delta The outstanding delta
+   * @param actionIndex The index of the last action that modified the delta
+   * @param actionName The name of the last action that modified the delta
+   */
+  public constructor(
+    public readonly currency: Currency,
+    public readonly delta: bigint,
+    public readonly actionIndex: number,
+    public readonly actionName: string
+  ) {
+    super(`CurrencyNotSettled: ${currency.symbol ?? 'currency'} delta ${delta} left by ${actionName} (#${actionIndex})`)
+    this.name = this.constructor.name
+    if (CAN_SET_PROTOTYPE) Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+/**
+ * Indicates that a single action of a plan reverted during simulation, e.g. on a slippage check.
+ * The original error is available as `cause`.
+ */
+export class ActionFailedError extends Error {
+  public readonly isActionFailedError = true
+
+  /**
+   * @param actionIndex The index of the failing action in the plan
+   * @param actionName The name of the failing action
+   * @param cause The error thrown while executing the action
+   */
+  public constructor(
+    public readonly actionIndex: number,
+    public readonly actionName: string,
+    cause: unknown
+  ) {
+    super(`${actionName} (#${actionIndex}) failed: ${cause instanceof Error ? cause.message : String(cause)}`, {
+      cause,
+    })
+    this.name = this.constructor.name
+    if (CAN_SET_PROTOTYPE) Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
@@ -8,6 +8,11 @@ export * from './utils'
 export * from './internalConstants'
 export * from './actionConstants'
 
+// Re-export errors
+export * from './errors'
+
 // Re-export contract interfaces
 export * from './PositionManager'
 export * from './multicall'
+export * from './quoter'
+export * from './stateView'
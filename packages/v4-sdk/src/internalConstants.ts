@@ -47,6 +47,11 @@ export const CANNOT_BURN = 'CANNOT_BURN'
 export enum PositionFunctions {
   INITIALIZE_POOL = 'initializePool',
   MODIFY_LIQUIDITIES = 'modifyLiquidities',
+  GET_POOL_AND_POSITION_INFO = 'getPoolAndPositionInfo',
+  GET_POSITION_LIQUIDITY = 'getPositionLiquidity',
+  // Inherited from Notifier
+  SUBSCRIBE = 'subscribe',
+  UNSUBSCRIBE = 'unsubscribe',
   // Inherited from PermitForwarder
   PERMIT_BATCH = '0x002a3e3a', // "permitBatch(address,((address,uint160,uint48,uint48)[],address,uint256),bytes)"
   // Inherited from ERC721Permit
@@ -78,3 +83,8 @@ export const TICK_SPACINGS: { [amount in FeeAmount]: number } = {
  * When this flag is set in the fee field, the pool uses dynamic fees from a hook
  */
 export const DYNAMIC_FEE_FLAG = 0x800000
+
+/**
+ * The maximum LP fee, 100% in hundredths of a bip
+ */
+export const MAX_LP_FEE = 1_000_000
@@ -0,0 +1,251 @@
+import { type BigintIsh, type Currency, type CurrencyAmount, TradeType } from '@muniswap/sdk-core'
+import { AbiError, AbiFunction, AbiParameters, Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import type { PoolKey, Route } from './entities'
+import { EMPTY_BYTES } from './internalConstants'
+import { type MethodParameters, toHex } from './utils/calldata'
+import { toAddress } from './utils/currencyMap'
+import { type PathKey, encodeRouteToPath } from './utils/encodeRouteToPath'
+
+const QUOTER_STRUCTS = [
+  'struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }',
+  'struct PathKey { address intermediateCurrency; uint24 fee; int24 tickSpacing; address hooks; bytes hookData; }',
+  'struct QuoteExactSingleParams { PoolKey poolKey; bool zeroForOne; uint128 exactAmount; bytes hookData; }',
+  'struct QuoteExactParams { address exactCurrency; PathKey[] path; uint128 exactAmount; }',
+] as const
+
+const QUOTE_EXACT_INPUT_SINGLE_ABI = AbiFunction.from([
+  ...QUOTER_STRUCTS,
+  'function quoteExactInputSingle(QuoteExactSingleParams params) returns (uint256 amountOut, uint256 gasEstimate)',
+])
+const QUOTE_EXACT_INPUT_ABI = AbiFunction.from([
+  ...QUOTER_STRUCTS,
+  'function quoteExactInput(QuoteExactParams params) returns (uint256 amountOut, uint256 gasEstimate)',
+])
+const QUOTE_EXACT_OUTPUT_SINGLE_ABI = AbiFunction.from([
+  ...QUOTER_STRUCTS,
+  'function quoteExactOutputSingle(QuoteExactSingleParams params) returns (uint256 amountIn, uint256 gasEstimate)',
+])
+const QUOTE_EXACT_OUTPUT_ABI = AbiFunction.from([
+  ...QUOTER_STRUCTS,
+  'function quoteExactOutput(QuoteExactParams params) returns (uint256 amountIn, uint256 gasEstimate)',
+])
+
+const QUOTE_SWAP_ERROR = AbiError.from('error QuoteSwap(uint256 amount)')
+const UNEXPECTED_REVERT_BYTES_ERROR = AbiError.from('error UnexpectedRevertBytes(bytes revertData)')
+const NOT_ENOUGH_LIQUIDITY_ERROR = AbiError.from('error NotEnoughLiquidity(bytes32 poolId)')
+
+/**
+ * The parameters of a quote through a single pool
+ */
+export interface QuoteExactSingleParams {
+  /** The pool to quote */
+  poolKey: PoolKey
+  /** Whether the swap is from currency0 to currency1 */
+  zeroForOne: boolean
+  /** The exact input or output amount */
+  exactAmount: BigintIsh
+  /** Optional data to pass to the hook (default: 0x) */
+  hookData?: string
+}
+
+/**
+ * The parameters of a quote through a path of pools
+ */
+export interface QuoteExactParams {
+  /** The address of the exact currency, the input for exact input quotes and the output for exact output quotes */
+  exactCurrency: string
+  /** The hops of the path, in swap order */
+  path: PathKey[]
+  /** The exact input or output amount */
+  exactAmount: BigintIsh
+}
+
+/**
+ * Optional arguments to send to the quoter
+ */
+export interface V4QuoteOptions {
+  /**
+   * The data to pass to the hooks, either one value for every pool or one per pool in route order (default: 0x)
+   */
+  hookData?: string | string[]
+}
+
+/**
+ * The result of a quote
+ */
+export interface V4QuoteResult {
+  /** The output amount of an exact input quote, or the input amount of an exact output quote */
+  amount: bigint
+  /** The gas used by the swap, as estimated by the quoter */
+  gasEstimate: bigint
+}
+
+/**
+ * A decoded revert of the quoter: QuoteSwap carries the quoted amount, which the quoter reverts with internally to
+ * undo the swap, UnexpectedRevertBytes wraps a revert of the swap itself, e.g. by a hook, and NotEnoughLiquidity
+ * is an exact output the pool cannot fill
+ */
+export type V4QuoterRevert =
+  | { errorName: 'QuoteSwap'; amount: bigint }
+  | { errorName: 'UnexpectedRevertBytes'; revertData: Hex.Hex }
+  | { errorName: 'NotEnoughLiquidity'; poolId: Hex.Hex }
+
+/**
+ * V4Quoter provides methods to encode calls to the V4Quoter contract and decode its results
+ */
+export abstract class V4Quoter {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Produces the calldata to quote a route, using the single pool functions for routes through one pool
+   * @param route The route of the swap
+   * @param amount The exact input or output amount
+   * @param tradeType The trade type of the quote
+   * @param options Optional hook data to pass to the pools of the route
+   * @returns The call parameters
+   */
+  public static quoteCallParameters<TInput extends Currency, TOutput extends Currency>(
+    route: Route<TInput, TOutput>,
+    amount: CurrencyAmount<TInput | TOutput>,
+    tradeType: TradeType,
+    options: V4QuoteOptions = {}
+  ): MethodParameters {
+    const hookData = route.pools.map((_, i) =>
+      Array.isArray(options.hookData) ? options.hookData[i] : (options.hookData ?? EMPTY_BYTES)
+    )
+    invariant(
+      hookData.every((data) => data !== undefined),
+      'HOOK_DATA_LENGTH'
+    )
+    const exactInput = tradeType === TradeType.EXACT_INPUT
+
+    let calldata: string
+    if (route.pools.length === 1) {
+      const pool = route.pools[0]!
+      const params: QuoteExactSingleParams = {
+        poolKey: pool.poolKey,
+        zeroForOne: route.pathInput.equals(pool.currency0),
+        exactAmount: amount.quotient,
+        hookData: hookData[0]!,
+      }
+      calldata = exactInput
+        ? V4Quoter.encodeQuoteExactInputSingle(params)
+        : V4Quoter.encodeQuoteExactOutputSingle(params)
+    } else {
+      const params: QuoteExactParams = {
+        exactCurrency: toAddress(exactInput ? route.pathInput : route.pathOutput),
+        path: encodeRouteToPath(route, !exactInput).map((pathKey, i) => ({ ...pathKey, hookData: hookData[i]! })),
+        exactAmount: amount.quotient,
+      }
+      calldata = exactInput ? V4Quoter.encodeQuoteExactInput(params) : V4Quoter.encodeQuoteExactOutput(params)
+    }
+
+    return {
+      calldata,
+      value: toHex(0),
+    }
+  }
+
+  /**
+   * Encodes a call to quoteExactInputSingle
+   * @param params The pool, direction, input amount and hook data of the quote
+   * @returns The calldata
+   */
+  public static encodeQuoteExactInputSingle(params: QuoteExactSingleParams): string {
+    return AbiFunction.encodeData(QUOTE_EXACT_INPUT_SINGLE_ABI, [encodeSingleParams(params)])
+  }
+
+  /**
+   * Encodes a call to quoteExactOutputSingle
+   * @param params The pool, direction, output amount and hook data of the quote
+   * @returns The calldata
+   */
+  public static encodeQuoteExactOutputSingle(params: QuoteExactSingleParams): string {
+    return AbiFunction.encodeData(QUOTE_EXACT_OUTPUT_SINGLE_ABI, [encodeSingleParams(params)])
+  }
+
+  /**
+   * Encodes a call to quoteExactInput
+   * @param params The input currency, path and input amount of the quote
+   * @returns The calldata
+   */
+  public static encodeQuoteExactInput(params: QuoteExactParams): string {
+    return AbiFunction.encodeData(QUOTE_EXACT_INPUT_ABI, [encodePathParams(params)])
+  }
+
+  /**
+   * Encodes a call to quoteExactOutput
+   * @param params The output currency, path and output amount of the quote
+   * @returns The calldata
+   */
+  public static encodeQuoteExactOutput(params: QuoteExactParams): string {
+    return AbiFunction.encodeData(QUOTE_EXACT_OUTPUT_ABI, [encodePathParams(params)])
+  }
+
+  /**
+   * Decodes the return data of any of the quote functions
+   * @param data The return data
+   * @returns The quoted amount and gas estimate
+   */
+  public static decodeQuoteResult(data: string): V4QuoteResult {
+    const [amount, gasEstimate] = AbiParameters.decode(
+      AbiParameters.from(['uint256 amount', 'uint256 gasEstimate']),
+      data as Hex.Hex
+    )
+    return { amount, gasEstimate }
+  }
+
+  /**
+   * Decodes a revert of the quoter
+   * @param data The revert data
+   * @returns The decoded error
+   */
+  public static decodeQuoteRevert(data: string): V4QuoterRevert {
+    invariant(Hex.validate(data) && Hex.size(data) >= 4, 'REVERT_DATA')
+    const selector = Hex.slice(data, 0, 4)
+
+    if (selector === AbiError.getSelector(QUOTE_SWAP_ERROR)) {
+      return { errorName: 'QuoteSwap', amount: AbiError.decode(QUOTE_SWAP_ERROR, data) }
+    }
+    if (selector === AbiError.getSelector(UNEXPECTED_REVERT_BYTES_ERROR)) {
+      return { errorName: 'UnexpectedRevertBytes', revertData: AbiError.decode(UNEXPECTED_REVERT_BYTES_ERROR, data) }
+    }
+    if (selector === AbiError.getSelector(NOT_ENOUGH_LIQUIDITY_ERROR)) {
+      return { errorName: 'NotEnoughLiquidity', poolId: AbiError.decode(NOT_ENOUGH_LIQUIDITY_ERROR, data) }
+    }
+    throw new Error(`Unknown quoter error ${selector}`)
+  }
+}
+
+function encodeSingleParams({ poolKey, zeroForOne, exactAmount, hookData = EMPTY_BYTES }: QuoteExactSingleParams) {
+  return {
+    poolKey: {
+      currency0: poolKey.currency0 as Hex.Hex,
+      currency1: poolKey.currency1 as Hex.Hex,
+      fee: poolKey.fee,
+      tickSpacing: poolKey.tickSpacing,
+      hooks: poolKey.hooks as Hex.Hex,
+    },
+    zeroForOne,
+    exactAmount: BigInt(exactAmount),
+    hookData: hookData as Hex.Hex,
+  }
+}
+
+function encodePathParams({ exactCurrency, path, exactAmount }: QuoteExactParams) {
+  return {
+    exactCurrency: exactCurrency as Hex.Hex,
+    path: path.map(({ intermediateCurrency, fee, tickSpacing, hooks, hookData }) => ({
+      intermediateCurrency: intermediateCurrency as Hex.Hex,
+      fee,
+      tickSpacing,
+      hooks: hooks as Hex.Hex,
+      hookData: hookData as Hex.Hex,
+    })),
+    exactAmount: BigInt(exactAmount),
+  }
+}
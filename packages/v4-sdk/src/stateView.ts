@@ -0,0 +1,266 @@
+import {
+  type BlockTag,
+  CHAIN_TO_ADDRESSES_MAP,
+  type SupportedChainsType,
+  type Transport,
+  ethCall,
+} from '@muniswap/sdk-core'
+import { AbiFunction, type Hex } from 'ox'
+import invariant from 'tiny-invariant'
+
+const GET_SLOT0_ABI = AbiFunction.from(
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)'
+)
+const GET_LIQUIDITY_ABI = AbiFunction.from('function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)')
+const GET_TICK_INFO_ABI = AbiFunction.from(
+  'function getTickInfo(bytes32 poolId, int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128)'
+)
+const GET_TICK_BITMAP_ABI = AbiFunction.from(
+  'function getTickBitmap(bytes32 poolId, int16 tick) view returns (uint256 tickBitmap)'
+)
+const GET_FEE_GROWTH_GLOBALS_ABI = AbiFunction.from(
+  'function getFeeGrowthGlobals(bytes32 poolId) view returns (uint256 feeGrowthGlobal0, uint256 feeGrowthGlobal1)'
+)
+const GET_FEE_GROWTH_INSIDE_ABI = AbiFunction.from(
+  'function getFeeGrowthInside(bytes32 poolId, int24 tickLower, int24 tickUpper) view returns (uint256 feeGrowthInside0X128, uint256 feeGrowthInside1X128)'
+)
+const GET_POSITION_INFO_ABI = AbiFunction.from(
+  'function getPositionInfo(bytes32 poolId, address owner, int24 tickLower, int24 tickUpper, bytes32 salt) view returns (uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128)'
+)
+
+/**
+ * The ABI of the StateView functions the SDK reads
+ */
+export const stateViewAbi = [
+  GET_SLOT0_ABI,
+  GET_LIQUIDITY_ABI,
+  GET_TICK_INFO_ABI,
+  GET_TICK_BITMAP_ABI,
+  GET_FEE_GROWTH_GLOBALS_ABI,
+  GET_FEE_GROWTH_INSIDE_ABI,
+  GET_POSITION_INFO_ABI,
+] as const
+
+/**
+ * The salt of positions created without one
+ */
+export const ZERO_SALT: Hex.Hex = `0x${'0'.repeat(64)}`
+
+export interface Slot0 {
+  /** The current Q64.96 sqrt price of the pool, or zero if the pool is not initialized */
+  sqrtPriceX96: bigint
+  /** The current tick of the pool */
+  tick: number
+  /** The protocol fee of the pool, with the fee of each direction in 12 bits */
+  protocolFee: number
+  /** The current LP fee of the pool in hundredths of bips */
+  lpFee: number
+}
+
+export interface TickInfo {
+  liquidityGross: bigint
+  liquidityNet: bigint
+  feeGrowthOutside0X128: bigint
+  feeGrowthOutside1X128: bigint
+}
+
+export interface FeeGrowthGlobals {
+  feeGrowthGlobal0X128: bigint
+  feeGrowthGlobal1X128: bigint
+}
+
+export interface FeeGrowthInside {
+  feeGrowthInside0X128: bigint
+  feeGrowthInside1X128: bigint
+}
+
+export interface PositionState {
+  liquidity: bigint
+  feeGrowthInside0LastX128: bigint
+  feeGrowthInside1LastX128: bigint
+}
+
+/**
+ * A position in the PoolManager, which is keyed by its owner, range and salt. Positions of the PositionManager
+ * are owned by the PositionManager, with the token id as their salt.
+ */
+export interface PositionKey {
+  owner: string
+  tickLower: number
+  tickUpper: number
+  /** The salt of the position (default: zero) */
+  salt?: string
+}
+
+/**
+ * StateView provides methods to encode calls to the StateView contract and decode their results
+ */
+export abstract class StateView {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /** Encodes a call to getSlot0, reading the price, tick and fees of a pool */
+  public static encodeGetSlot0(poolId: string): string {
+    return AbiFunction.encodeData(GET_SLOT0_ABI, [poolId as Hex.Hex])
+  }
+
+  /** Decodes the result of getSlot0 */
+  public static decodeGetSlot0(data: string): Slot0 {
+    const [sqrtPriceX96, tick, protocolFee, lpFee] = AbiFunction.decodeResult(GET_SLOT0_ABI, data as Hex.Hex)
+    return { sqrtPriceX96, tick, protocolFee, lpFee }
+  }
+
+  /** Encodes a call to getLiquidity, reading the in-range liquidity of a pool */
+  public static encodeGetLiquidity(poolId: string): string {
+    return AbiFunction.encodeData(GET_LIQUIDITY_ABI, [poolId as Hex.Hex])
+  }
+
+  /** Decodes the result of getLiquidity */
+  public static decodeGetLiquidity(data: string): bigint {
+    return AbiFunction.decodeResult(GET_LIQUIDITY_ABI, data as Hex.Hex)
+  }
+
+  /** Encodes a call to getTickInfo, reading the liquidity and fee growth outside of a tick */
+  public static encodeGetTickInfo(poolId: string, tick: number): string {
+    return AbiFunction.encodeData(GET_TICK_INFO_ABI, [poolId as Hex.Hex, tick])
+  }
+
+  /** Decodes the result of getTickInfo */
+  public static decodeGetTickInfo(data: string): TickInfo {
+    const [liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128] = AbiFunction.decodeResult(
+      GET_TICK_INFO_ABI,
+      data as Hex.Hex
+    )
+    return { liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128 }
+  }
+
+  /**
+   * Encodes a call to getTickBitmap, reading a word of the initialized ticks of a pool
+   * @param poolId The id of the pool
+   * @param wordPosition The position of the bitmap word, i.e. the compressed tick shifted right by 8 bits
+   */
+  public static encodeGetTickBitmap(poolId: string, wordPosition: number): string {
+    return AbiFunction.encodeData(GET_TICK_BITMAP_ABI, [poolId as Hex.Hex, wordPosition])
+  }
+
+  /** Decodes the result of getTickBitmap */
+  public static decodeGetTickBitmap(data: string): bigint {
+    return AbiFunction.decodeResult(GET_TICK_BITMAP_ABI, data as Hex.Hex)
+  }
+
+  /** Encodes a call to getFeeGrowthGlobals, reading the fee growth of a pool per unit of liquidity */
+  public static encodeGetFeeGrowthGlobals(poolId: string): string {
+    return AbiFunction.encodeData(GET_FEE_GROWTH_GLOBALS_ABI, [poolId as Hex.Hex])
+  }
+
+  /** Decodes the result of getFeeGrowthGlobals */
+  public static decodeGetFeeGrowthGlobals(data: string): FeeGrowthGlobals {
+    const [feeGrowthGlobal0X128, feeGrowthGlobal1X128] = AbiFunction.decodeResult(
+      GET_FEE_GROWTH_GLOBALS_ABI,
+      data as Hex.Hex
+    )
+    return { feeGrowthGlobal0X128, feeGrowthGlobal1X128 }
+  }
+
+  /** Encodes a call to getFeeGrowthInside, reading the fee growth of a pool inside a range */
+  public static encodeGetFeeGrowthInside(poolId: string, tickLower: number, tickUpper: number): string {
+    return AbiFunction.encodeData(GET_FEE_GROWTH_INSIDE_ABI, [poolId as Hex.Hex, tickLower, tickUpper])
+  }
+
+  /** Decodes the result of getFeeGrowthInside */
+  public static decodeGetFeeGrowthInside(data: string): FeeGrowthInside {
+    const [feeGrowthInside0X128, feeGrowthInside1X128] = AbiFunction.decodeResult(
+      GET_FEE_GROWTH_INSIDE_ABI,
+      data as Hex.Hex
+    )
+    return { feeGrowthInside0X128, feeGrowthInside1X128 }
+  }
+
+  /** Encodes a call to getPositionInfo, reading the liquidity and last fee growth of a position */
+  public static encodeGetPositionInfo(
+    poolId: string,
+    { owner, tickLower, tickUpper, salt = ZERO_SALT }: PositionKey
+  ): string {
+    return AbiFunction.encodeData(GET_POSITION_INFO_ABI, [
+      poolId as Hex.Hex,
+      owner as Hex.Hex,
+      tickLower,
+      tickUpper,
+      salt as Hex.Hex,
+    ])
+  }
+
+  /** Decodes the result of getPositionInfo */
+  public static decodeGetPositionInfo(data: string): PositionState {
+    const [liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128] = AbiFunction.decodeResult(
+      GET_POSITION_INFO_ABI,
+      data as Hex.Hex
+    )
+    return { liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128 }
+  }
+}
+
+export interface StateViewReaderOptions {
+  /** The transport to read through */
+  transport: Transport
+  /** The chain to read on */
+  chainId: number
+  /** The StateView contract (default: the StateView of the chain) */
+  stateViewAddress?: string
+  /** The block to read at (default: latest) */
+  blockTag?: BlockTag
+}
+
+/**
+ * Reads the state of V4 pools and positions through the StateView contract
+ */
+export class StateViewReader {
+  public readonly transport: Transport
+  public readonly stateViewAddress: string
+  public readonly blockTag: BlockTag
+
+  constructor({ transport, chainId, stateViewAddress, blockTag = 'latest' }: StateViewReaderOptions) {
+    const stateView =
+      stateViewAddress ?? (CHAIN_TO_ADDRESSES_MAP[chainId as SupportedChainsType] ?? undefined)?.v4StateView
+    invariant(stateView !== undefined, 'STATE_VIEW_ADDRESS')
+    this.transport = transport
+    this.stateViewAddress = stateView
+    this.blockTag = blockTag
+  }
+
+  public async getSlot0(poolId: string): Promise<Slot0> {
+    return StateView.decodeGetSlot0(await this.call(StateView.encodeGetSlot0(poolId)))
+  }
+
+  public async getLiquidity(poolId: string): Promise<bigint> {
+    return StateView.decodeGetLiquidity(await this.call(StateView.encodeGetLiquidity(poolId)))
+  }
+
+  public async getTickInfo(poolId: string, tick: number): Promise<TickInfo> {
+    return StateView.decodeGetTickInfo(await this.call(StateView.encodeGetTickInfo(poolId, tick)))
+  }
+
+  public async getTickBitmap(poolId: string, wordPosition: number): Promise<bigint> {
+    return StateView.decodeGetTickBitmap(await this.call(StateView.encodeGetTickBitmap(poolId, wordPosition)))
+  }
+
+  public async getFeeGrowthGlobals(poolId: string): Promise<FeeGrowthGlobals> {
+    return StateView.decodeGetFeeGrowthGlobals(await this.call(StateView.encodeGetFeeGrowthGlobals(poolId)))
+  }
+
+  public async getFeeGrowthInside(poolId: string, tickLower: number, tickUpper: number): Promise<FeeGrowthInside> {
+    return StateView.decodeGetFeeGrowthInside(
+      await this.call(StateView.encodeGetFeeGrowthInside(poolId, tickLower, tickUpper))
+    )
+  }
+
+  public async getPositionInfo(poolId: string, position: PositionKey): Promise<PositionState> {
+    return StateView.decodeGetPositionInfo(await this.call(StateView.encodeGetPositionInfo(poolId, position)))
+  }
+
+  private call(data: string): Promise<Hex.Hex> {
+    return ethCall(this.transport, { to: this.stateViewAddress, data }, this.blockTag)
+  }
+}
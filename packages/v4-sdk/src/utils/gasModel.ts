@@ -0,0 +1,36 @@
+import type { GasModel } from '@muniswap/sdk-core'
+import type { Pool } from '../entities/pool'
+import { Hook } from './hook'
+
+/**
+ * The gas costs of a swap through a pool
+ */
+export interface GasModelOptions {
+  /** The gas used by each hop (default: 80,000) */
+  perHopGas?: bigint
+  /** The gas used by each initialized tick crossed (default: 30,000) */
+  perInitializedTickGas?: bigint
+  /** The gas used by the hook of a pool with swap permissions (default: 50,000) */
+  hookGas?: bigint
+}
+
+/**
+ * A gas model charging a base cost per hop, a cost per initialized tick crossed and a hook overhead
+ * for pools whose hook has swap permissions
+ */
+export class DefaultGasModel implements GasModel<Pool> {
+  public readonly perHopGas: bigint
+  public readonly perInitializedTickGas: bigint
+  public readonly hookGas: bigint
+
+  constructor({ perHopGas = 80_000n, perInitializedTickGas = 30_000n, hookGas = 50_000n }: GasModelOptions = {}) {
+    this.perHopGas = perHopGas
+    this.perInitializedTickGas = perInitializedTickGas
+    this.hookGas = hookGas
+  }
+
+  estimateSwapGas(pool: Pool, initializedTicksCrossed: number): bigint {
+    const hookGas = Hook.hasSwapPermissions(pool.hooks) ? this.hookGas : 0n
+    return this.perHopGas + this.perInitializedTickGas * BigInt(initializedTicksCrossed) + hookGas
+  }
+}
@@ -37,6 +37,16 @@ export const hookFlagIndex: { [key in HookOptions]: number } = {
   [HookOptions.BeforeInitialize]: 13,
 }
 
+/**
+ * Maps each delta returning permission to the hook it returns the delta from
+ */
+const returnsDeltaHooks: [HookOptions, HookOptions][] = [
+  [HookOptions.BeforeSwapReturnsDelta, HookOptions.BeforeSwap],
+  [HookOptions.AfterSwapReturnsDelta, HookOptions.AfterSwap],
+  [HookOptions.AfterAddLiquidityReturnsDelta, HookOptions.AfterAddLiquidity],
+  [HookOptions.AfterRemoveLiquidityReturnsDelta, HookOptions.AfterRemoveLiquidity],
+]
+
 /**
  * Hook class for V4 hook permission management
  * V4 hooks encode their permissions in the last 14 bits of the hook address
@@ -130,6 +140,24 @@ export class Hook {
     )
   }
 
+  /**
+   * Encodes a set of permissions as the flags a hook address must have in its last 14 bits
+   * Mirrors the PoolManager's validation: a hook may only return a delta from a hook it implements
+   * @param permissions The permissions of the hook, where missing permissions are false
+   * @returns The flag mask of the permissions
+   */
+  public static encodePermissions(permissions: Partial<HookPermissions>): number {
+    for (const [returnsDelta, hook] of returnsDeltaHooks) {
+      invariant(!permissions[returnsDelta] || permissions[hook], `${returnsDelta} requires ${hook}`)
+    }
+
+    let flags = 0
+    for (const hookOption of Object.values(HookOptions)) {
+      if (permissions[hookOption]) flags |= 1 << hookFlagIndex[hookOption]
+    }
+    return flags
+  }
+
   private static _hasPermission(address: string, hookOption: HookOptions): boolean {
     // Use only the last 4 bytes (32 bits) to avoid JavaScript precision issues
     // All hook flags are in bits 0-13, which fit comfortably in 32 bits
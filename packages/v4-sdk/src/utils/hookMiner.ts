@@ -0,0 +1,164 @@
+import { MaxUint256 } from '@muniswap/sdk-core'
+import { Address, Bytes, ContractAddress, Hash, Hex } from 'ox'
+import invariant from 'tiny-invariant'
+import { Hook, type HookPermissions } from './hook'
+
+/**
+ * Options for mining a hook salt
+ */
+export interface MineHookSaltOptions {
+  /** The address deploying the hook with CREATE2, e.g. a CREATE2 deployer proxy */
+  deployer: string
+  /** The keccak256 hash of the hook's init code, including its encoded constructor arguments */
+  initCodeHash: string
+  /** The permissions the hook address must have, where missing permissions are false */
+  permissions: Partial<HookPermissions>
+  /** The first salt to try (default: 0) */
+  startSalt?: bigint
+  /** The number of salts to try (default: 160,444) */
+  maxIterations?: number
+  /**
+   * The number of worker threads to search with (default: 1, searching on the calling thread).
+   * Worker threads require Node.js, and return the first salt any of them finds rather than the lowest.
+   */
+  workers?: number
+}
+
+/**
+ * A salt and the hook address it deploys to
+ */
+export interface MinedHookSalt {
+  salt: Hex.Hex
+  address: Address.Address
+}
+
+/**
+ * Finds a CREATE2 salt for which the deployer and init code hash yield a hook address with exactly the
+ * requested permissions
+ * @param options The deployer, init code hash and permissions, and the range of salts to search
+ * @returns The salt and the address of the hook
+ */
+export async function mineHookSalt({
+  deployer,
+  initCodeHash,
+  permissions,
+  startSalt = 0n,
+  maxIterations = 160_444,
+  workers = 1,
+}: MineHookSaltOptions): Promise<MinedHookSalt> {
+  invariant(Address.validate(deployer), 'Invalid deployer address')
+  invariant(Hex.validate(initCodeHash) && Hex.size(initCodeHash) === 32, 'Invalid init code hash')
+  invariant(Number.isSafeInteger(maxIterations) && maxIterations > 0, 'MAX_ITERATIONS')
+  invariant(startSalt >= 0n && startSalt + BigInt(maxIterations) - 1n <= MaxUint256, 'START_SALT')
+  invariant(Number.isSafeInteger(workers) && workers > 0, 'WORKERS')
+
+  const flags = Hook.encodePermissions(permissions)
+  const deployerBytes = Bytes.fromHex(deployer)
+  const initCodeHashBytes = Bytes.fromHex(initCodeHash)
+
+  const salt =
+    workers === 1
+      ? searchHookSalt(keccak256Bytes, deployerBytes, initCodeHashBytes, flags, startSalt, 1n, maxIterations)
+      : await searchHookSaltInWorkers(deployerBytes, initCodeHashBytes, flags, startSalt, maxIterations, workers)
+  invariant(salt !== undefined, 'SALT_NOT_FOUND')
+
+  const saltHex = Hex.fromNumber(salt, { size: 32 })
+  return {
+    salt: saltHex,
+    address: ContractAddress.fromCreate2({ from: deployer, salt: saltHex, bytecodeHash: initCodeHash }),
+  }
+}
+
+function keccak256Bytes(bytes: Uint8Array): Uint8Array {
+  return Hash.keccak256(bytes, { as: 'Bytes' })
+}
+
+/**
+ * Tries the salts from the start salt in steps of the stride, returning the first whose CREATE2 address has
+ * exactly the flags. Worker threads run this from its source, so it may only reference its arguments.
+ */
+function searchHookSalt(
+  keccak256: (bytes: Uint8Array) => Uint8Array,
+  deployer: Uint8Array,
+  initCodeHash: Uint8Array,
+  flags: number,
+  startSalt: bigint,
+  stride: bigint,
+  iterations: number
+): bigint | undefined {
+  // 0xff ++ deployer ++ salt ++ initCodeHash
+  const preimage = new Uint8Array(85)
+  preimage[0] = 0xff
+  preimage.set(deployer, 1)
+  preimage.set(initCodeHash, 53)
+
+  let salt = startSalt
+  for (let i = 0; i < iterations; i++, salt += stride) {
+    let remaining = salt
+    for (let j = 52; j > 20; j--) {
+      preimage[j] = Number(remaining & 0xffn)
+      remaining >>= 8n
+    }
+    // The address is the last 20 bytes of the hash, and its flags the last 14 bits
+    const hash = keccak256(preimage)
+    if ((((hash[30]! << 8) | hash[31]!) & 0x3fff) === flags) return salt
+  }
+  return undefined
+}
+
+async function searchHookSaltInWorkers(
+  deployer: Uint8Array,
+  initCodeHash: Uint8Array,
+  flags: number,
+  startSalt: bigint,
+  maxIterations: number,
+  workers: number
+): Promise<bigint | undefined> {
+  const { Worker } = await import('node:worker_threads')
+  const { createRequire } = await import('node:module')
+  // Workers cannot import this module from source, so they load ox themselves and run the search from its source
+  const oxPath = createRequire(import.meta.url).resolve('ox')
+  const source = `
+    const { parentPort, workerData } = require('node:worker_threads')
+    const { Hash } = require(workerData.oxPath)
+    const searchHookSalt = ${searchHookSalt.toString()}
+    const keccak256 = (bytes) => Hash.keccak256(bytes, { as: 'Bytes' })
+    parentPort.postMessage(searchHookSalt(keccak256, ...workerData.args))
+  `
+
+  // Each worker tries every nth salt, so together they cover the range
+  const threadCount = Math.min(workers, maxIterations)
+  const threads = Array.from(
+    { length: threadCount },
+    (_, i) =>
+      new Worker(source, {
+        eval: true,
+        workerData: {
+          oxPath,
+          args: [
+            deployer,
+            initCodeHash,
+            flags,
+            startSalt + BigInt(i),
+            BigInt(threadCount),
+            Math.ceil((maxIterations - i) / threadCount),
+          ],
+        },
+      })
+  )
+
+  try {
+    return await new Promise<bigint | undefined>((resolve, reject) => {
+      let pending = threads.length
+      for (const thread of threads) {
+        thread.once('error', reject)
+        thread.once('message', (salt: bigint | undefined) => {
+          pending--
+          if (salt !== undefined || pending === 0) resolve(salt)
+        })
+      }
+    })
+  } finally {
+    await Promise.all(threads.map((thread) => thread.terminate()))
+  }
+}
@@ -0,0 +1,99 @@
+import { Address } from 'ox'
+import invariant from 'tiny-invariant'
+import type { Pool } from '../entities/pool'
+
+/**
+ * The parameters of a swap, as the PoolManager passes them to a hook
+ */
+export interface HookSwapParams {
+  /** Whether the swap is from currency0 to currency1 */
+  zeroForOne: boolean
+  /** The amount of the swap, negative for an exact input and positive for an exact output */
+  amountSpecified: bigint
+  /** The Q64.96 sqrt price limit of the swap, if any */
+  sqrtPriceLimitX96: bigint | undefined
+}
+
+/**
+ * A balance delta of a swap, from the perspective of the swapper: negative amounts are owed to the pool
+ */
+export interface BalanceDelta {
+  amount0: bigint
+  amount1: bigint
+}
+
+/**
+ * The result of a hook's beforeSwap
+ */
+export interface BeforeSwapResult {
+  /**
+   * The amount of the specified currency the hook takes, which is added to the amount swapped by the pool.
+   * Only applied if the hook has the beforeSwapReturnsDelta permission.
+   */
+  deltaSpecified?: bigint
+  /**
+   * The amount of the unspecified currency the hook takes.
+   * Only applied if the hook has the beforeSwapReturnsDelta permission.
+   */
+  deltaUnspecified?: bigint
+  /** The LP fee of the swap in hundredths of bips. Only applied to dynamic fee pools. */
+  lpFeeOverride?: number
+}
+
+/**
+ * Models the swap behaviour of a hook, so swaps through pools with the hook can be simulated off-chain.
+ * Deltas follow the PoolManager sign convention, where positive amounts are taken by the hook.
+ */
+export interface HookSimulator {
+  /**
+   * Simulates the hook's beforeSwap
+   * @param pool The pool being swapped through
+   * @param params The parameters of the swap
+   * @returns The deltas the hook takes and the fee override of the swap
+   */
+  beforeSwap?(pool: Pool, params: HookSwapParams): Promise<BeforeSwapResult>
+
+  /**
+   * Simulates the hook's afterSwap
+   * @param pool The pool before the swap
+   * @param params The parameters of the swap
+   * @param delta The balance delta of the swap through the pool, before any hook deltas
+   * @returns The amount of the unspecified currency the hook takes. Only applied if the hook has the
+   * afterSwapReturnsDelta permission.
+   */
+  afterSwap?(pool: Pool, params: HookSwapParams, delta: BalanceDelta): Promise<bigint>
+}
+
+/**
+ * A hook simulator for hooks that do not change the result of swaps
+ */
+export const PASSTHROUGH_HOOK_SIMULATOR: HookSimulator = {}
+
+const hookSimulators = new Map<string, HookSimulator>()
+
+/**
+ * Registers the simulator of a hook, which pools with the hook use to simulate swaps
+ * @param hooks The hook address
+ * @param simulator The simulator of the hook
+ */
+export function registerHookSimulator(hooks: string, simulator: HookSimulator): void {
+  invariant(Address.validate(hooks), 'Invalid hook address')
+  hookSimulators.set(hooks.toLowerCase(), simulator)
+}
+
+/**
+ * Removes the simulator of a hook
+ * @param hooks The hook address
+ */
+export function unregisterHookSimulator(hooks: string): void {
+  hookSimulators.delete(hooks.toLowerCase())
+}
+
+/**
+ * Returns the simulator registered for a hook
+ * @param hooks The hook address
+ * @returns The simulator, or undefined if none is registered
+ */
+export function getHookSimulator(hooks: string): HookSimulator | undefined {
+  return hookSimulators.get(hooks.toLowerCase())
+}
@@ -1,10 +1,15 @@
 export * from './calldata'
 export * from './currencyMap'
 export * from './encodeRouteToPath'
+export * from './gasModel'
 export * from './hook'
+export * from './hookMiner'
+export * from './hookSimulator'
 export * from './pathCurrency'
+export * from './positionInfo'
 export * from './priceTickConversions'
 export * from './sortsBefore'
 export * from './v4BaseActionsParser'
+export * from './v4PlanSimulator'
 export * from './v4Planner'
 export * from './v4PositionPlanner'
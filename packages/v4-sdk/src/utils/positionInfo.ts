@@ -0,0 +1,55 @@
+import type { BigintIsh } from '@muniswap/sdk-core'
+import { Hex } from 'ox'
+import invariant from 'tiny-invariant'
+
+// PositionInfo packs | 200 bits poolId | 24 bits tickUpper | 24 bits tickLower | 8 bits hasSubscriber |
+const POOL_ID_OFFSET = 56n
+const TICK_UPPER_OFFSET = 32n
+const TICK_LOWER_OFFSET = 8n
+const POOL_ID_BYTES = 25
+const MAX_UINT256 = 2n ** 256n - 1n
+
+/**
+ * The position data the V4 PositionManager stores for each token id
+ */
+export interface PositionInfo {
+  /** The first 25 bytes of the id of the pool of the position */
+  poolId: string
+  /** The lower tick of the position */
+  tickLower: number
+  /** The upper tick of the position */
+  tickUpper: number
+  /** Whether the position has a subscriber */
+  hasSubscriber: boolean
+}
+
+/**
+ * Packs position data into the PositionInfo word of the V4 PositionManager
+ * @param positionInfo The position data, with either the full pool id or its first 25 bytes
+ * @returns The packed PositionInfo
+ */
+export function encodePositionInfo({ poolId, tickLower, tickUpper, hasSubscriber }: PositionInfo): bigint {
+  invariant(Hex.validate(poolId) && Hex.size(poolId) >= POOL_ID_BYTES, 'POOL_ID')
+  return (
+    (BigInt(Hex.slice(poolId, 0, POOL_ID_BYTES)) << POOL_ID_OFFSET) |
+    (BigInt.asUintN(24, BigInt(tickUpper)) << TICK_UPPER_OFFSET) |
+    (BigInt.asUintN(24, BigInt(tickLower)) << TICK_LOWER_OFFSET) |
+    (hasSubscriber ? 1n : 0n)
+  )
+}
+
+/**
+ * Unpacks the PositionInfo word of the V4 PositionManager
+ * @param info The packed PositionInfo
+ * @returns The position data
+ */
+export function decodePositionInfo(info: BigintIsh): PositionInfo {
+  const word = BigInt(info)
+  invariant(word >= 0n && word <= MAX_UINT256, 'POSITION_INFO')
+  return {
+    poolId: Hex.fromNumber(word >> POOL_ID_OFFSET, { size: POOL_ID_BYTES }),
+    tickLower: Number(BigInt.asIntN(24, word >> TICK_LOWER_OFFSET)),
+    tickUpper: Number(BigInt.asIntN(24, word >> TICK_UPPER_OFFSET)),
+    hasSubscriber: (word & 0xffn) !== 0n,
+  }
+}
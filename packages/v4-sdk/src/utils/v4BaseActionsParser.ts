@@ -1,18 +1,24 @@
 import { AbiParameters } from 'ox'
+import invariant from 'tiny-invariant'
 import type { PoolKey } from '../entities/pool'
 import type { PathKey } from './encodeRouteToPath'
-import { Actions, Subparser, V4_BASE_ACTIONS_ABI_DEFINITION } from './v4Planner'
+import { type ActionParams, Actions, type ParamType, V4_BASE_ACTIONS_ABI_DEFINITION, toAbiParameter } from './v4Planner'
 
 export type Param = {
   readonly name: string
   readonly value: unknown
 }
 
-export type V4RouterAction = {
-  readonly actionName: string
-  readonly actionType: Actions
-  readonly params: readonly Param[]
-}
+/**
+ * A decoded action. Narrowing on actionType types params by V4_BASE_ACTIONS_ABI_DEFINITION.
+ */
+export type V4RouterAction<TAction extends Actions = Actions> = TAction extends Actions
+  ? {
+      readonly actionName: string
+      readonly actionType: TAction
+      readonly params: ActionParams<TAction>
+    }
+  : never
 
 export type V4RouterCall = {
   readonly actions: readonly V4RouterAction[]
@@ -21,125 +27,253 @@ export type V4RouterCall = {
 export type SwapExactInSingle = {
   readonly poolKey: PoolKey
   readonly zeroForOne: boolean
-  readonly amountIn: string
-  readonly amountOutMinimum: string
+  readonly amountIn: bigint
+  readonly amountOutMinimum: bigint
   readonly hookData: string
 }
 
 export type SwapExactIn = {
   readonly currencyIn: string
   readonly path: readonly PathKey[]
-  readonly amountIn: string
-  readonly amountOutMinimum: string
+  readonly amountIn: bigint
+  readonly amountOutMinimum: bigint
 }
 
 export type SwapExactOutSingle = {
   readonly poolKey: PoolKey
   readonly zeroForOne: boolean
-  readonly amountOut: string
-  readonly amountInMaximum: string
+  readonly amountOut: bigint
+  readonly amountInMaximum: bigint
   readonly hookData: string
 }
 
 export type SwapExactOut = {
   readonly currencyOut: string
   readonly path: readonly PathKey[]
-  readonly amountOut: string
-  readonly amountInMaximum: string
+  readonly amountOut: bigint
+  readonly amountInMaximum: bigint
 }
 
-function parsePoolKey(data: unknown[]): PoolKey {
-  const [currency0, currency1, fee, tickSpacing, hooks] = data as [string, string, number, number, string]
+// ox decodes named tuple components into objects keyed by component name
+type DecodedStruct = Record<string, unknown>
+
+function parsePoolKey(data: DecodedStruct): PoolKey {
   return {
-    currency0,
-    currency1,
-    fee: Number(fee),
-    tickSpacing: Number(tickSpacing),
-    hooks,
+    currency0: data.currency0 as string,
+    currency1: data.currency1 as string,
+    fee: Number(data.fee),
+    tickSpacing: Number(data.tickSpacing),
+    hooks: data.hooks as string,
   }
 }
 
-function parsePathKey(data: unknown[]): PathKey {
-  const [intermediateCurrency, fee, tickSpacing, hooks, hookData] = data as [string, number, number, string, string]
+function parsePathKey(data: DecodedStruct): PathKey {
   return {
-    intermediateCurrency,
-    fee: Number(fee),
-    tickSpacing: Number(tickSpacing),
-    hooks,
-    hookData,
+    intermediateCurrency: data.intermediateCurrency as string,
+    fee: Number(data.fee),
+    tickSpacing: Number(data.tickSpacing),
+    hooks: data.hooks as string,
+    hookData: data.hookData as string,
   }
 }
 
-function parseV4ExactInSingle(data: unknown[]): SwapExactInSingle {
-  const [poolKey, zeroForOne, amountIn, amountOutMinimum, hookData] = data as [
-    unknown[],
-    boolean,
-    bigint,
-    bigint,
-    string,
-  ]
-  const [currency0, currency1, fee, tickSpacing, hooks] = poolKey as [string, string, number, number, string]
+function parseV4ExactInSingle(data: DecodedStruct): SwapExactInSingle {
   return {
-    poolKey: {
-      currency0,
-      currency1,
-      fee: Number(fee),
-      tickSpacing: Number(tickSpacing),
-      hooks,
-    },
-    zeroForOne,
-    amountIn: amountIn.toString(),
-    amountOutMinimum: amountOutMinimum.toString(),
-    hookData,
+    poolKey: parsePoolKey(data.poolKey as DecodedStruct),
+    zeroForOne: data.zeroForOne as boolean,
+    amountIn: data.amountIn as bigint,
+    amountOutMinimum: data.amountOutMinimum as bigint,
+    hookData: data.hookData as string,
   }
 }
 
-function parseV4ExactIn(data: unknown[]): SwapExactIn {
-  const [currencyIn, path, amountIn, amountOutMinimum] = data as [string, unknown[][], bigint, bigint]
-  const paths: PathKey[] = path.map((pathKey) => parsePathKey(pathKey))
+function parseV4ExactIn(data: DecodedStruct): SwapExactIn {
   return {
-    path: paths,
-    currencyIn,
-    amountIn: amountIn.toString(),
-    amountOutMinimum: amountOutMinimum.toString(),
+    path: (data.path as DecodedStruct[]).map(parsePathKey),
+    currencyIn: data.currencyIn as string,
+    amountIn: data.amountIn as bigint,
+    amountOutMinimum: data.amountOutMinimum as bigint,
   }
 }
 
-function parseV4ExactOutSingle(data: unknown[]): SwapExactOutSingle {
-  const [poolKey, zeroForOne, amountOut, amountInMaximum, hookData] = data as [
-    unknown[],
-    boolean,
-    bigint,
-    bigint,
-    string,
-  ]
-  const [currency0, currency1, fee, tickSpacing, hooks] = poolKey as [string, string, number, number, string]
+function parseV4ExactOutSingle(data: DecodedStruct): SwapExactOutSingle {
   return {
-    poolKey: {
-      currency0,
-      currency1,
-      fee: Number(fee),
-      tickSpacing: Number(tickSpacing),
-      hooks,
-    },
-    zeroForOne,
-    amountOut: amountOut.toString(),
-    amountInMaximum: amountInMaximum.toString(),
-    hookData,
+    poolKey: parsePoolKey(data.poolKey as DecodedStruct),
+    zeroForOne: data.zeroForOne as boolean,
+    amountOut: data.amountOut as bigint,
+    amountInMaximum: data.amountInMaximum as bigint,
+    hookData: data.hookData as string,
   }
 }
 
-function parseV4ExactOut(data: unknown[]): SwapExactOut {
-  const [currencyOut, path, amountOut, amountInMaximum] = data as [string, unknown[][], bigint, bigint]
-  const paths: PathKey[] = path.map((pathKey) => parsePathKey(pathKey))
+function parseV4ExactOut(data: DecodedStruct): SwapExactOut {
   return {
-    path: paths,
-    currencyOut,
-    amountOut: amountOut.toString(),
-    amountInMaximum: amountInMaximum.toString(),
+    path: (data.path as DecodedStruct[]).map(parsePathKey),
+    currencyOut: data.currencyOut as string,
+    amountOut: data.amountOut as bigint,
+    amountInMaximum: data.amountInMaximum as bigint,
   }
 }
 
+function bigintValue(value: unknown): bigint {
+  invariant(typeof value === 'bigint', 'PARAM_TYPE')
+  return value
+}
+
+function numberValue(value: unknown): number {
+  invariant(typeof value === 'number', 'PARAM_TYPE')
+  return value
+}
+
+function stringValue(value: unknown): string {
+  invariant(typeof value === 'string', 'PARAM_TYPE')
+  return value
+}
+
+function booleanValue(value: unknown): boolean {
+  invariant(typeof value === 'boolean', 'PARAM_TYPE')
+  return value
+}
+
+function action<TAction extends Actions>(actionType: TAction, params: ActionParams<TAction>) {
+  return { actionName: Actions[actionType], actionType, params }
+}
+
+// builds each action from its values in V4_BASE_ACTIONS_ABI_DEFINITION order, checked against ActionParams
+const ACTION_PARSERS: { readonly [TAction in Actions]: (values: readonly unknown[]) => V4RouterAction<TAction> } = {
+  [Actions.INCREASE_LIQUIDITY]: ([tokenId, liquidity, amount0Max, amount1Max, hookData]) =>
+    action(Actions.INCREASE_LIQUIDITY, [
+      { name: 'tokenId', value: bigintValue(tokenId) },
+      { name: 'liquidity', value: bigintValue(liquidity) },
+      { name: 'amount0Max', value: bigintValue(amount0Max) },
+      { name: 'amount1Max', value: bigintValue(amount1Max) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.DECREASE_LIQUIDITY]: ([tokenId, liquidity, amount0Min, amount1Min, hookData]) =>
+    action(Actions.DECREASE_LIQUIDITY, [
+      { name: 'tokenId', value: bigintValue(tokenId) },
+      { name: 'liquidity', value: bigintValue(liquidity) },
+      { name: 'amount0Min', value: bigintValue(amount0Min) },
+      { name: 'amount1Min', value: bigintValue(amount1Min) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.MINT_POSITION]: ([poolKey, tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner, hookData]) =>
+    action(Actions.MINT_POSITION, [
+      { name: 'poolKey', value: parsePoolKey(poolKey as DecodedStruct) },
+      { name: 'tickLower', value: numberValue(tickLower) },
+      { name: 'tickUpper', value: numberValue(tickUpper) },
+      { name: 'liquidity', value: bigintValue(liquidity) },
+      { name: 'amount0Max', value: bigintValue(amount0Max) },
+      { name: 'amount1Max', value: bigintValue(amount1Max) },
+      { name: 'owner', value: stringValue(owner) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.BURN_POSITION]: ([tokenId, amount0Min, amount1Min, hookData]) =>
+    action(Actions.BURN_POSITION, [
+      { name: 'tokenId', value: bigintValue(tokenId) },
+      { name: 'amount0Min', value: bigintValue(amount0Min) },
+      { name: 'amount1Min', value: bigintValue(amount1Min) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.INCREASE_LIQUIDITY_FROM_DELTAS]: ([tokenId, amount0Max, amount1Max, hookData]) =>
+    action(Actions.INCREASE_LIQUIDITY_FROM_DELTAS, [
+      { name: 'tokenId', value: bigintValue(tokenId) },
+      { name: 'amount0Max', value: bigintValue(amount0Max) },
+      { name: 'amount1Max', value: bigintValue(amount1Max) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.MINT_POSITION_FROM_DELTAS]: ([poolKey, tickLower, tickUpper, amount0Max, amount1Max, owner, hookData]) =>
+    action(Actions.MINT_POSITION_FROM_DELTAS, [
+      { name: 'poolKey', value: parsePoolKey(poolKey as DecodedStruct) },
+      { name: 'tickLower', value: numberValue(tickLower) },
+      { name: 'tickUpper', value: numberValue(tickUpper) },
+      { name: 'amount0Max', value: bigintValue(amount0Max) },
+      { name: 'amount1Max', value: bigintValue(amount1Max) },
+      { name: 'owner', value: stringValue(owner) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.SWAP_EXACT_IN_SINGLE]: ([swap]) =>
+    action(Actions.SWAP_EXACT_IN_SINGLE, [{ name: 'swap', value: parseV4ExactInSingle(swap as DecodedStruct) }]),
+  [Actions.SWAP_EXACT_IN]: ([swap]) =>
+    action(Actions.SWAP_EXACT_IN, [{ name: 'swap', value: parseV4ExactIn(swap as DecodedStruct) }]),
+  [Actions.SWAP_EXACT_OUT_SINGLE]: ([swap]) =>
+    action(Actions.SWAP_EXACT_OUT_SINGLE, [{ name: 'swap', value: parseV4ExactOutSingle(swap as DecodedStruct) }]),
+  [Actions.SWAP_EXACT_OUT]: ([swap]) =>
+    action(Actions.SWAP_EXACT_OUT, [{ name: 'swap', value: parseV4ExactOut(swap as DecodedStruct) }]),
+  [Actions.DONATE]: ([poolKey, amount0, amount1, hookData]) =>
+    action(Actions.DONATE, [
+      { name: 'poolKey', value: parsePoolKey(poolKey as DecodedStruct) },
+      { name: 'amount0', value: bigintValue(amount0) },
+      { name: 'amount1', value: bigintValue(amount1) },
+      { name: 'hookData', value: stringValue(hookData) },
+    ]),
+  [Actions.SETTLE]: ([currency, amount, payerIsUser]) =>
+    action(Actions.SETTLE, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'amount', value: bigintValue(amount) },
+      { name: 'payerIsUser', value: booleanValue(payerIsUser) },
+    ]),
+  [Actions.SETTLE_ALL]: ([currency, maxAmount]) =>
+    action(Actions.SETTLE_ALL, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'maxAmount', value: bigintValue(maxAmount) },
+    ]),
+  [Actions.SETTLE_PAIR]: ([currency0, currency1]) =>
+    action(Actions.SETTLE_PAIR, [
+      { name: 'currency0', value: stringValue(currency0) },
+      { name: 'currency1', value: stringValue(currency1) },
+    ]),
+  [Actions.TAKE]: ([currency, recipient, amount]) =>
+    action(Actions.TAKE, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amount', value: bigintValue(amount) },
+    ]),
+  [Actions.TAKE_ALL]: ([currency, minAmount]) =>
+    action(Actions.TAKE_ALL, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'minAmount', value: bigintValue(minAmount) },
+    ]),
+  [Actions.TAKE_PORTION]: ([currency, recipient, bips]) =>
+    action(Actions.TAKE_PORTION, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'bips', value: bigintValue(bips) },
+    ]),
+  [Actions.TAKE_PAIR]: ([currency0, currency1, recipient]) =>
+    action(Actions.TAKE_PAIR, [
+      { name: 'currency0', value: stringValue(currency0) },
+      { name: 'currency1', value: stringValue(currency1) },
+      { name: 'recipient', value: stringValue(recipient) },
+    ]),
+  [Actions.CLOSE_CURRENCY]: ([currency]) =>
+    action(Actions.CLOSE_CURRENCY, [{ name: 'currency', value: stringValue(currency) }]),
+  [Actions.CLEAR_OR_TAKE]: ([currency, amountMax]) =>
+    action(Actions.CLEAR_OR_TAKE, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'amountMax', value: bigintValue(amountMax) },
+    ]),
+  [Actions.SWEEP]: ([currency, recipient]) =>
+    action(Actions.SWEEP, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'recipient', value: stringValue(recipient) },
+    ]),
+  [Actions.WRAP]: ([amount]) => action(Actions.WRAP, [{ name: 'amount', value: bigintValue(amount) }]),
+  [Actions.UNWRAP]: ([amount]) => action(Actions.UNWRAP, [{ name: 'amount', value: bigintValue(amount) }]),
+  [Actions.MINT_6909]: ([currency, recipient, amount]) =>
+    action(Actions.MINT_6909, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'recipient', value: stringValue(recipient) },
+      { name: 'amount', value: bigintValue(amount) },
+    ]),
+  [Actions.BURN_6909]: ([currency, owner, amount]) =>
+    action(Actions.BURN_6909, [
+      { name: 'currency', value: stringValue(currency) },
+      { name: 'owner', value: stringValue(owner) },
+      { name: 'amount', value: bigintValue(amount) },
+    ]),
+}
+
 /**
  * V4BaseActionsParser parses encoded calldata from V4 Router operations.
  */
@@ -157,50 +291,10 @@ export abstract class V4BaseActionsParser {
 
     return {
       actions: actionTypes.map((actionType: Actions, i: number) => {
-        const abiDef = V4_BASE_ACTIONS_ABI_DEFINITION[actionType]
-        const types = abiDef.map((command) => ({ type: command.type }))
-        const rawParams = AbiParameters.decode(types, inputs[i] as `0x${string}`)
-
-        const params = rawParams.map((param, j) => {
-          switch (abiDef[j]?.subparser) {
-            case Subparser.V4SwapExactInSingle:
-              return {
-                name: abiDef[j]!.name,
-                value: parseV4ExactInSingle(param as unknown[]),
-              }
-            case Subparser.V4SwapExactIn:
-              return {
-                name: abiDef[j]!.name,
-                value: parseV4ExactIn(param as unknown[]),
-              }
-            case Subparser.V4SwapExactOutSingle:
-              return {
-                name: abiDef[j]!.name,
-                value: parseV4ExactOutSingle(param as unknown[]),
-              }
-            case Subparser.V4SwapExactOut:
-              return {
-                name: abiDef[j]!.name,
-                value: parseV4ExactOut(param as unknown[]),
-              }
-            case Subparser.PoolKey:
-              return {
-                name: abiDef[j]!.name,
-                value: parsePoolKey(param as unknown[]),
-              }
-            default:
-              return {
-                name: abiDef[j]!.name,
-                value: param,
-              }
-          }
-        })
-
-        return {
-          actionName: Actions[actionType],
-          actionType,
-          params,
-        }
+        const abiDef: readonly ParamType[] = V4_BASE_ACTIONS_ABI_DEFINITION[actionType]
+        const types = abiDef.map(toAbiParameter)
+        const values = AbiParameters.decode(types, inputs[i] as `0x${string}`)
+        return ACTION_PARSERS[actionType](values)
       }),
     }
   }
@@ -0,0 +1,684 @@
+import { type BigintIsh, type Currency, CurrencyAmount } from '@muniswap/sdk-core'
+import type { TickDataProvider } from '@muniswap/v3-sdk'
+import invariant from 'tiny-invariant'
+import { ADDRESS_THIS, CONTRACT_BALANCE, MSG_SENDER } from '../actionConstants'
+import { Pool, type PoolKey } from '../entities/pool'
+import { Position } from '../entities/position'
+import { ActionFailedError, CurrencyNotSettledError } from '../errors'
+import { ADDRESS_ZERO, OPEN_DELTA, ZERO } from '../internalConstants'
+import type { PathKey } from './encodeRouteToPath'
+import { type Param, V4BaseActionsParser, type V4RouterAction } from './v4BaseActionsParser'
+import { Actions } from './v4Planner'
+
+const BIPS_BASE = 10_000n
+
+/**
+ * The state the simulator starts from
+ */
+export interface V4PlanSimulatorState {
+  /** The pools a plan may swap through or provide liquidity to */
+  pools: Pool[]
+  /** Existing positions by token id, required for INCREASE_LIQUIDITY, DECREASE_LIQUIDITY and BURN_POSITION */
+  positions?: { [tokenId: string]: Position }
+  /** The token id assigned to the next minted position (default: 1) */
+  nextTokenId?: BigintIsh
+  /** Balances already held by the router or position manager, e.g. tokens received from a V3 migration */
+  contractBalances?: CurrencyAmount<Currency>[]
+}
+
+/**
+ * A transfer out of the pool manager or the router to a recipient.
+ * MSG_SENDER as recipient stands for the caller of the router or position manager.
+ */
+export interface V4Transfer {
+  recipient: string
+  amount: CurrencyAmount<Currency>
+}
+
+/**
+ * The outcome of a plan in which every currency delta was settled
+ */
+export interface V4PlanSimulationResult {
+  /** Amounts pulled from the user to settle debts */
+  paid: CurrencyAmount<Currency>[]
+  /** Amounts sent to recipients, in execution order */
+  transfers: V4Transfer[]
+  /** Balances left in the router or position manager once the plan has run */
+  contractBalances: CurrencyAmount<Currency>[]
+  /** The pools after all swaps and liquidity changes */
+  pools: Pool[]
+  /** All positions after the plan has run, by token id */
+  positions: { [tokenId: string]: Position }
+  /** The token ids minted by the plan */
+  mintedTokenIds: string[]
+}
+
+type ExecutionContext = {
+  actionIndex: number
+  deltas: Map<string, bigint>
+  lastModifiedBy: Map<string, number>
+  paid: Map<string, bigint>
+  contractBalances: Map<string, bigint>
+  transfers: { recipient: string; currency: string; amount: bigint }[]
+  pools: Map<string, Pool>
+  positions: Map<string, Position>
+  nextTokenId: bigint
+  mintedTokenIds: string[]
+}
+
+function currencyKey(currency: Currency | string): string {
+  if (typeof currency === 'string') return currency.toLowerCase()
+  return currency.isNative ? ADDRESS_ZERO : currency.wrapped.address.toLowerCase()
+}
+
+// Reads a decoded parameter by name, typed by the action's definition
+function param<TParams extends readonly Param[], TName extends TParams[number]['name']>(
+  action: { readonly params: TParams },
+  name: TName
+): Extract<TParams[number], { name: TName }>['value'] {
+  const found = action.params.find((p) => p.name === name)
+  invariant(found !== undefined, `Missing parameter ${name}`)
+  return found.value as Extract<TParams[number], { name: TName }>['value']
+}
+
+function poolKeyId(poolKey: PoolKey): string {
+  return [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks].join('-').toLowerCase()
+}
+
+function pathKeyToPoolKey(pathKey: PathKey, currency: string): { poolKey: PoolKey; currencyIsZero: boolean } {
+  const currencyIsZero = BigInt(currency) < BigInt(pathKey.intermediateCurrency)
+  const [currency0, currency1] = currencyIsZero
+    ? [currency, pathKey.intermediateCurrency]
+    : [pathKey.intermediateCurrency, currency]
+  return {
+    poolKey: {
+      currency0,
+      currency1,
+      fee: pathKey.fee,
+      tickSpacing: pathKey.tickSpacing,
+      hooks: pathKey.hooks,
+    },
+    currencyIsZero,
+  }
+}
+
+type TickDelta = { liquidityNet: bigint; liquidityGross: bigint }
+
+/**
+ * Applies the liquidity changes of the positions modified by a plan on top of the ticks of a pool, so a swap
+ * later in the plan crosses the ticks of minted, increased, decreased and burnt positions
+ */
+class TickDeltaDataProvider implements TickDataProvider {
+  private readonly base: TickDataProvider
+  private readonly tickSpacing: number
+  private readonly deltas: ReadonlyMap<number, TickDelta>
+
+  private constructor(base: TickDataProvider, tickSpacing: number, deltas: ReadonlyMap<number, TickDelta>) {
+    this.base = base
+    this.tickSpacing = tickSpacing
+    this.deltas = deltas
+  }
+
+  /**
+   * Adds the liquidity change of a position to the ticks of a pool
+   * @param provider The tick data provider of the pool, which may already carry changes from the plan
+   * @param tickSpacing The tick spacing of the pool
+   * @param tickLower The lower tick of the position
+   * @param tickUpper The upper tick of the position
+   * @param liquidityDelta The liquidity added to the position, negative when removed
+   */
+  public static withPosition(
+    provider: TickDataProvider,
+    tickSpacing: number,
+    tickLower: number,
+    tickUpper: number,
+    liquidityDelta: bigint
+  ): TickDeltaDataProvider {
+    const base = provider instanceof TickDeltaDataProvider ? provider.base : provider
+    const deltas = new Map(provider instanceof TickDeltaDataProvider ? provider.deltas : [])
+    for (const [tick, liquidityNet] of [
+      [tickLower, liquidityDelta],
+      [tickUpper, -liquidityDelta],
+    ] as const) {
+      const delta = deltas.get(tick) ?? { liquidityNet: ZERO, liquidityGross: ZERO }
+      deltas.set(tick, {
+        liquidityNet: delta.liquidityNet + liquidityNet,
+        liquidityGross: delta.liquidityGross + liquidityDelta,
+      })
+    }
+    return new TickDeltaDataProvider(base, tickSpacing, deltas)
+  }
+
+  public async getTick(tick: number): Promise<{ liquidityNet: BigintIsh; liquidityGross?: BigintIsh }> {
+    const delta = this.deltas.get(tick)
+    if (delta === undefined) return this.base.getTick(tick)
+    // Ticks first initialized by the plan are unknown to the base provider
+    const [nextTick, initialized] = await this.base.nextInitializedTickWithinOneWord(tick, true, this.tickSpacing)
+    const { liquidityNet, liquidityGross = ZERO } =
+      nextTick === tick && initialized ? await this.base.getTick(tick) : { liquidityNet: ZERO }
+    return {
+      liquidityNet: BigInt(liquidityNet) + delta.liquidityNet,
+      liquidityGross: BigInt(liquidityGross) + delta.liquidityGross,
+    }
+  }
+
+  public async nextInitializedTickWithinOneWord(
+    tick: number,
+    lte: boolean,
+    tickSpacing: number
+  ): Promise<[number, boolean]> {
+    const [next, initialized] = await this.base.nextInitializedTickWithinOneWord(tick, lte, tickSpacing)
+    // The ticks changed by the plan between the tick and the next tick of the base provider, closest first
+    const changedTicks = [...this.deltas.keys()]
+      .filter((changed) => (lte ? changed <= tick && changed >= next : changed > tick && changed <= next))
+      .sort((a, b) => (lte ? b - a : a - b))
+    for (const changed of changedTicks) {
+      const { liquidityGross } = await this.getTick(changed)
+      if (BigInt(liquidityGross ?? ZERO) > ZERO) return [changed, true]
+      // The plan removed all liquidity referencing the tick, so the search goes on past it
+      if (changed === next) return [next, false]
+    }
+    return [next, initialized]
+  }
+}
+
+// Adds the liquidity change of a position to a pool, and to its current liquidity if the position is in range
+function withPositionLiquidity(pool: Pool, tickLower: number, tickUpper: number, liquidityDelta: bigint): Pool {
+  const inRange = pool.tickCurrent >= tickLower && pool.tickCurrent < tickUpper
+  return new Pool(
+    pool.currency0,
+    pool.currency1,
+    pool.fee,
+    pool.tickSpacing,
+    pool.hooks,
+    pool.sqrtRatioX96,
+    inRange ? pool.liquidity + liquidityDelta : pool.liquidity,
+    pool.tickCurrent,
+    TickDeltaDataProvider.withPosition(pool.tickDataProvider, pool.tickSpacing, tickLower, tickUpper, liquidityDelta),
+    pool.dynamicFeeProvider ?? pool.lpFee
+  )
+}
+
+/**
+ * V4PlanSimulator is an in-memory stand-in for the V4 PoolManager and the router/position manager actions
+ * that drive it. It executes the bytes produced by V4Planner.finalize() against Pool entities, tracks the
+ * flash accounting deltas per currency, and fails with CurrencyNotSettledError if a delta is left open.
+ *
+ * Swaps are simulated through Pool.getOutputAmount/getInputAmount and liquidity changes through Position. Liquidity
+ * changes are applied to the ticks of their position, so later swaps in the plan cross them.
+ * Fee accrual on existing positions and hook deltas are not modelled, nor are DONATE, MINT_6909 and BURN_6909,
+ * which neither the position manager nor the router accept.
+ */
+export class V4PlanSimulator {
+  private pools: Map<string, Pool>
+  private positions: Map<string, Position>
+  private nextTokenId: bigint
+  private contractBalances: Map<string, bigint>
+  private readonly currencies: Map<string, Currency>
+
+  /**
+   * Creates a simulator from the given pools, positions and balances
+   * @param state The initial state
+   */
+  public constructor({ pools, positions = {}, nextTokenId = 1, contractBalances = [] }: V4PlanSimulatorState) {
+    this.currencies = new Map()
+    this.pools = new Map()
+    for (const pool of pools) {
+      this.pools.set(poolKeyId(pool.poolKey), pool)
+      this.registerCurrency(pool.currency0)
+      this.registerCurrency(pool.currency1)
+    }
+    this.positions = new Map(Object.entries(positions))
+    this.nextTokenId = BigInt(nextTokenId)
+    this.contractBalances = new Map()
+    for (const balance of contractBalances) {
+      this.registerCurrency(balance.currency)
+      this.contractBalances.set(currencyKey(balance.currency), balance.quotient)
+    }
+  }
+
+  /**
+   * Executes an encoded plan. On success the resulting pool and position state is kept for the next plan.
+   * @param calldata The encoded actions and params, as returned by V4Planner.finalize()
+   * @returns The settled balances of the plan
+   * @throws ActionFailedError if an action reverts
+   * @throws CurrencyNotSettledError if a currency delta is non-zero once all actions have run
+   */
+  public async execute(calldata: string): Promise<V4PlanSimulationResult> {
+    const { actions } = V4BaseActionsParser.parseCalldata(calldata)
+    const context: ExecutionContext = {
+      actionIndex: 0,
+      deltas: new Map(),
+      lastModifiedBy: new Map(),
+      paid: new Map(),
+      contractBalances: new Map(this.contractBalances),
+      transfers: [],
+      pools: new Map(this.pools),
+      positions: new Map(this.positions),
+      nextTokenId: this.nextTokenId,
+      mintedTokenIds: [],
+    }
+
+    for (const [i, action] of actions.entries()) {
+      context.actionIndex = i
+      try {
+        await this.executeAction(context, action)
+      } catch (error) {
+        throw new ActionFailedError(i, action.actionName, error)
+      }
+    }
+
+    for (const [key, delta] of context.deltas) {
+      if (delta !== ZERO) {
+        const actionIndex = context.lastModifiedBy.get(key)!
+        throw new CurrencyNotSettledError(this.getCurrency(key), delta, actionIndex, actions[actionIndex]!.actionName)
+      }
+    }
+
+    this.pools = context.pools
+    this.positions = context.positions
+    this.nextTokenId = context.nextTokenId
+    this.contractBalances = context.contractBalances
+
+    return {
+      paid: this.toAmounts(context.paid),
+      transfers: context.transfers.map(({ recipient, currency, amount }) => ({
+        recipient,
+        amount: CurrencyAmount.fromRawAmount(this.getCurrency(currency), amount),
+      })),
+      contractBalances: this.toAmounts(context.contractBalances),
+      pools: [...context.pools.values()],
+      positions: Object.fromEntries(context.positions),
+      mintedTokenIds: context.mintedTokenIds,
+    }
+  }
+
+  private async executeAction(context: ExecutionContext, action: V4RouterAction): Promise<void> {
+    switch (action.actionType) {
+      case Actions.SWAP_EXACT_IN_SINGLE: {
+        const swap = param(action, 'swap')
+        const pool = this.getPool(context, swap.poolKey)
+        const currencyIn = swap.zeroForOne ? pool.currency0 : pool.currency1
+        let amountIn = swap.amountIn
+        if (amountIn === OPEN_DELTA) amountIn = this.getFullCredit(context, currencyKey(currencyIn))
+        const amountOut = await this.swapExactIn(context, pool, swap.zeroForOne, amountIn)
+        invariant(amountOut >= swap.amountOutMinimum, 'V4TooLittleReceived')
+        return
+      }
+      case Actions.SWAP_EXACT_IN: {
+        const swap = param(action, 'swap')
+        let currencyIn = currencyKey(swap.currencyIn)
+        let amount = swap.amountIn
+        if (amount === OPEN_DELTA) amount = this.getFullCredit(context, currencyIn)
+        for (const pathKey of swap.path) {
+          const { poolKey, currencyIsZero } = pathKeyToPoolKey(pathKey, currencyIn)
+          amount = await this.swapExactIn(context, this.getPool(context, poolKey), currencyIsZero, amount)
+          currencyIn = currencyKey(pathKey.intermediateCurrency)
+        }
+        invariant(amount >= swap.amountOutMinimum, 'V4TooLittleReceived')
+        return
+      }
+      case Actions.SWAP_EXACT_OUT_SINGLE: {
+        const swap = param(action, 'swap')
+        const pool = this.getPool(context, swap.poolKey)
+        const currencyOut = swap.zeroForOne ? pool.currency1 : pool.currency0
+        let amountOut = swap.amountOut
+        if (amountOut === OPEN_DELTA) amountOut = this.getFullDebt(context, currencyKey(currencyOut))
+        const amountIn = await this.swapExactOut(context, pool, swap.zeroForOne, amountOut)
+        invariant(amountIn <= swap.amountInMaximum, 'V4TooMuchRequested')
+        return
+      }
+      case Actions.SWAP_EXACT_OUT: {
+        const swap = param(action, 'swap')
+        let currencyOut = currencyKey(swap.currencyOut)
+        let amount = swap.amountOut
+        if (amount === OPEN_DELTA) amount = this.getFullDebt(context, currencyOut)
+        for (const pathKey of [...swap.path].reverse()) {
+          const { poolKey, currencyIsZero } = pathKeyToPoolKey(pathKey, currencyOut)
+          amount = await this.swapExactOut(context, this.getPool(context, poolKey), !currencyIsZero, amount)
+          currencyOut = currencyKey(pathKey.intermediateCurrency)
+        }
+        invariant(amount <= swap.amountInMaximum, 'V4TooMuchRequested')
+        return
+      }
+
+      case Actions.MINT_POSITION: {
+        const pool = this.getPool(context, param(action, 'poolKey'))
+        const position = new Position({
+          pool,
+          liquidity: param(action, 'liquidity'),
+          tickLower: param(action, 'tickLower'),
+          tickUpper: param(action, 'tickUpper'),
+        })
+        this.increaseLiquidity(context, position, param(action, 'amount0Max'), param(action, 'amount1Max'))
+        const tokenId = context.nextTokenId.toString()
+        context.positions.set(tokenId, this.positionWithLiquidity(context, position, position.liquidity))
+        context.mintedTokenIds.push(tokenId)
+        context.nextTokenId += 1n
+        return
+      }
+      case Actions.INCREASE_LIQUIDITY: {
+        const tokenId = param(action, 'tokenId').toString()
+        const existing = this.getPosition(context, tokenId)
+        const increase = this.positionWithLiquidity(context, existing, param(action, 'liquidity'))
+        this.increaseLiquidity(context, increase, param(action, 'amount0Max'), param(action, 'amount1Max'))
+        context.positions.set(
+          tokenId,
+          this.positionWithLiquidity(context, existing, existing.liquidity + increase.liquidity)
+        )
+        return
+      }
+      case Actions.MINT_POSITION_FROM_DELTAS: {
+        const pool = this.getPool(context, param(action, 'poolKey'))
+        const position = Position.fromAmounts({
+          pool,
+          tickLower: param(action, 'tickLower'),
+          tickUpper: param(action, 'tickUpper'),
+          amount0: this.getFullCredit(context, currencyKey(pool.currency0)),
+          amount1: this.getFullCredit(context, currencyKey(pool.currency1)),
+          useFullPrecision: true,
+        })
+        this.increaseLiquidity(context, position, param(action, 'amount0Max'), param(action, 'amount1Max'))
+        const tokenId = context.nextTokenId.toString()
+        context.positions.set(tokenId, this.positionWithLiquidity(context, position, position.liquidity))
+        context.mintedTokenIds.push(tokenId)
+        context.nextTokenId += 1n
+        return
+      }
+      case Actions.INCREASE_LIQUIDITY_FROM_DELTAS: {
+        const tokenId = param(action, 'tokenId').toString()
+        const existing = this.getPosition(context, tokenId)
+        const increase = Position.fromAmounts({
+          pool: this.getPool(context, existing.pool.poolKey),
+          tickLower: existing.tickLower,
+          tickUpper: existing.tickUpper,
+          amount0: this.getFullCredit(context, currencyKey(existing.pool.currency0)),
+          amount1: this.getFullCredit(context, currencyKey(existing.pool.currency1)),
+          useFullPrecision: true,
+        })
+        this.increaseLiquidity(context, increase, param(action, 'amount0Max'), param(action, 'amount1Max'))
+        context.positions.set(
+          tokenId,
+          this.positionWithLiquidity(context, existing, existing.liquidity + increase.liquidity)
+        )
+        return
+      }
+      case Actions.DECREASE_LIQUIDITY: {
+        const tokenId = param(action, 'tokenId').toString()
+        const existing = this.getPosition(context, tokenId)
+        const liquidity = param(action, 'liquidity')
+        invariant(liquidity <= existing.liquidity, 'LIQUIDITY')
+        this.decreaseLiquidity(
+          context,
+          this.positionWithLiquidity(context, existing, liquidity),
+          param(action, 'amount0Min'),
+          param(action, 'amount1Min')
+        )
+        context.positions.set(tokenId, this.positionWithLiquidity(context, existing, existing.liquidity - liquidity))
+        return
+      }
+      case Actions.BURN_POSITION: {
+        const tokenId = param(action, 'tokenId').toString()
+        const existing = this.getPosition(context, tokenId)
+        this.decreaseLiquidity(
+          context,
+          this.positionWithLiquidity(context, existing, existing.liquidity),
+          param(action, 'amount0Min'),
+          param(action, 'amount1Min')
+        )
+        context.positions.delete(tokenId)
+        return
+      }
+
+      case Actions.SETTLE: {
+        const currency = currencyKey(param(action, 'currency'))
+        this.settle(
+          context,
+          currency,
+          this.mapSettleAmount(context, currency, param(action, 'amount')),
+          param(action, 'payerIsUser')
+        )
+        return
+      }
+      case Actions.SETTLE_ALL: {
+        const currency = currencyKey(param(action, 'currency'))
+        const amount = this.getFullDebt(context, currency)
+        invariant(amount <= param(action, 'maxAmount'), 'V4TooMuchRequested')
+        this.settle(context, currency, amount, true)
+        return
+      }
+      case Actions.SETTLE_PAIR: {
+        for (const currency of [currencyKey(param(action, 'currency0')), currencyKey(param(action, 'currency1'))]) {
+          this.settle(context, currency, this.getFullDebt(context, currency), true)
+        }
+        return
+      }
+      case Actions.TAKE: {
+        const currency = currencyKey(param(action, 'currency'))
+        this.take(
+          context,
+          currency,
+          param(action, 'recipient'),
+          this.mapTakeAmount(context, currency, param(action, 'amount'))
+        )
+        return
+      }
+      case Actions.TAKE_ALL: {
+        const currency = currencyKey(param(action, 'currency'))
+        const amount = this.getFullCredit(context, currency)
+        invariant(amount >= param(action, 'minAmount'), 'V4TooLittleReceived')
+        this.take(context, currency, MSG_SENDER, amount)
+        return
+      }
+      case Actions.TAKE_PORTION: {
+        const currency = currencyKey(param(action, 'currency'))
+        const amount = (this.getFullCredit(context, currency) * param(action, 'bips')) / BIPS_BASE
+        this.take(context, currency, param(action, 'recipient'), amount)
+        return
+      }
+      case Actions.TAKE_PAIR: {
+        for (const currency of [currencyKey(param(action, 'currency0')), currencyKey(param(action, 'currency1'))]) {
+          this.take(context, currency, param(action, 'recipient'), this.getFullCredit(context, currency))
+        }
+        return
+      }
+      case Actions.CLOSE_CURRENCY: {
+        const currency = currencyKey(param(action, 'currency'))
+        const delta = context.deltas.get(currency) ?? ZERO
+        if (delta < ZERO) this.settle(context, currency, -delta, true)
+        if (delta > ZERO) this.take(context, currency, MSG_SENDER, delta)
+        return
+      }
+      case Actions.CLEAR_OR_TAKE: {
+        const currency = currencyKey(param(action, 'currency'))
+        const delta = this.getFullCredit(context, currency)
+        if (delta === ZERO) return
+        // Credits up to amountMax are forfeited to the pool manager as dust
+        if (delta > param(action, 'amountMax')) this.take(context, currency, MSG_SENDER, delta)
+        else this.accountDelta(context, currency, -delta)
+        return
+      }
+      case Actions.SWEEP: {
+        const currency = currencyKey(param(action, 'currency'))
+        const balance = context.contractBalances.get(currency) ?? ZERO
+        if (balance > ZERO) {
+          context.contractBalances.set(currency, ZERO)
+          this.transfer(context, currency, param(action, 'recipient'), balance)
+        }
+        return
+      }
+      case Actions.WRAP: {
+        const weth = this.getWrappedNative()
+        let amount = param(action, 'amount')
+        if (amount === CONTRACT_BALANCE) amount = context.contractBalances.get(ADDRESS_ZERO) ?? ZERO
+        else if (amount === OPEN_DELTA) amount = this.getFullDebt(context, weth)
+        this.debitContract(context, ADDRESS_ZERO, amount)
+        context.contractBalances.set(weth, (context.contractBalances.get(weth) ?? ZERO) + amount)
+        return
+      }
+      case Actions.UNWRAP: {
+        const weth = this.getWrappedNative()
+        let amount = param(action, 'amount')
+        if (amount === CONTRACT_BALANCE) amount = context.contractBalances.get(weth) ?? ZERO
+        else if (amount === OPEN_DELTA) amount = this.getFullDebt(context, ADDRESS_ZERO)
+        this.debitContract(context, weth, amount)
+        context.contractBalances.set(ADDRESS_ZERO, (context.contractBalances.get(ADDRESS_ZERO) ?? ZERO) + amount)
+        return
+      }
+      default:
+        throw new Error(`Unsupported action ${action.actionName}`)
+    }
+  }
+
+  private async swapExactIn(context: ExecutionContext, pool: Pool, zeroForOne: boolean, amountIn: bigint) {
+    const [currencyIn, currencyOut] = zeroForOne ? [pool.currency0, pool.currency1] : [pool.currency1, pool.currency0]
+    const [amountOut, poolAfter] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(currencyIn, amountIn))
+    context.pools.set(poolKeyId(pool.poolKey), poolAfter)
+    this.accountDelta(context, currencyKey(currencyIn), -amountIn)
+    this.accountDelta(context, currencyKey(currencyOut), amountOut.quotient)
+    return amountOut.quotient
+  }
+
+  private async swapExactOut(context: ExecutionContext, pool: Pool, zeroForOne: boolean, amountOut: bigint) {
+    const [currencyIn, currencyOut] = zeroForOne ? [pool.currency0, pool.currency1] : [pool.currency1, pool.currency0]
+    const [amountIn, poolAfter] = await pool.getInputAmount(CurrencyAmount.fromRawAmount(currencyOut, amountOut))
+    context.pools.set(poolKeyId(pool.poolKey), poolAfter)
+    this.accountDelta(context, currencyKey(currencyIn), -amountIn.quotient)
+    this.accountDelta(context, currencyKey(currencyOut), amountOut)
+    return amountIn.quotient
+  }
+
+  private increaseLiquidity(
+    context: ExecutionContext,
+    position: Position,
+    amount0Max: BigintIsh,
+    amount1Max: BigintIsh
+  ): void {
+    const { amount0, amount1 } = position.mintAmounts
+    invariant(amount0 <= BigInt(amount0Max) && amount1 <= BigInt(amount1Max), 'MaximumAmountExceeded')
+    this.updatePoolLiquidity(context, position, position.liquidity)
+    this.accountDelta(context, currencyKey(position.pool.currency0), -amount0)
+    this.accountDelta(context, currencyKey(position.pool.currency1), -amount1)
+  }
+
+  private decreaseLiquidity(
+    context: ExecutionContext,
+    position: Position,
+    amount0Min: BigintIsh,
+    amount1Min: BigintIsh
+  ): void {
+    const amount0 = position.amount0.quotient
+    const amount1 = position.amount1.quotient
+    invariant(amount0 >= BigInt(amount0Min) && amount1 >= BigInt(amount1Min), 'MinimumAmountInsufficient')
+    this.updatePoolLiquidity(context, position, -position.liquidity)
+    this.accountDelta(context, currencyKey(position.pool.currency0), amount0)
+    this.accountDelta(context, currencyKey(position.pool.currency1), amount1)
+  }
+
+  private updatePoolLiquidity(context: ExecutionContext, position: Position, liquidityDelta: bigint): void {
+    const { pool, tickLower, tickUpper } = position
+    context.pools.set(poolKeyId(pool.poolKey), withPositionLiquidity(pool, tickLower, tickUpper, liquidityDelta))
+  }
+
+  private settle(context: ExecutionContext, currency: string, amount: bigint, payerIsUser: boolean): void {
+    if (payerIsUser) {
+      context.paid.set(currency, (context.paid.get(currency) ?? ZERO) + amount)
+    } else {
+      this.debitContract(context, currency, amount)
+    }
+    this.accountDelta(context, currency, amount)
+  }
+
+  private take(context: ExecutionContext, currency: string, recipient: string, amount: bigint): void {
+    this.accountDelta(context, currency, -amount)
+    this.transfer(context, currency, recipient, amount)
+  }
+
+  private transfer(context: ExecutionContext, currency: string, recipient: string, amount: bigint): void {
+    if (recipient.toLowerCase() === ADDRESS_THIS) {
+      context.contractBalances.set(currency, (context.contractBalances.get(currency) ?? ZERO) + amount)
+    } else {
+      context.transfers.push({ recipient, currency, amount })
+    }
+  }
+
+  private debitContract(context: ExecutionContext, currency: string, amount: bigint): void {
+    const balance = context.contractBalances.get(currency) ?? ZERO
+    invariant(balance >= amount, 'INSUFFICIENT_BALANCE')
+    context.contractBalances.set(currency, balance - amount)
+  }
+
+  private accountDelta(context: ExecutionContext, currency: string, amount: bigint): void {
+    if (amount === ZERO) return
+    this.getCurrency(currency)
+    context.deltas.set(currency, (context.deltas.get(currency) ?? ZERO) + amount)
+    context.lastModifiedBy.set(currency, context.actionIndex)
+  }
+
+  private mapSettleAmount(context: ExecutionContext, currency: string, amount: bigint): bigint {
+    if (amount === CONTRACT_BALANCE) return context.contractBalances.get(currency) ?? ZERO
+    if (amount === OPEN_DELTA) return this.getFullDebt(context, currency)
+    return amount
+  }
+
+  private mapTakeAmount(context: ExecutionContext, currency: string, amount: bigint): bigint {
+    return amount === OPEN_DELTA ? this.getFullCredit(context, currency) : amount
+  }
+
+  private getFullDebt(context: ExecutionContext, currency: string): bigint {
+    const delta = context.deltas.get(currency) ?? ZERO
+    invariant(delta <= ZERO, 'DeltaNotNegative')
+    return -delta
+  }
+
+  private getFullCredit(context: ExecutionContext, currency: string): bigint {
+    const delta = context.deltas.get(currency) ?? ZERO
+    invariant(delta >= ZERO, 'DeltaNotPositive')
+    return delta
+  }
+
+  private getPool(context: ExecutionContext, poolKey: PoolKey): Pool {
+    const pool = context.pools.get(poolKeyId(poolKey))
+    invariant(pool !== undefined, 'POOL_NOT_FOUND')
+    return pool
+  }
+
+  private getPosition(context: ExecutionContext, tokenId: string): Position {
+    const position = context.positions.get(tokenId)
+    invariant(position !== undefined, 'POSITION_NOT_FOUND')
+    return position
+  }
+
+  // Rebuilds a position against the current state of its pool
+  private positionWithLiquidity(context: ExecutionContext, position: Position, liquidity: bigint): Position {
+    return new Position({
+      pool: this.getPool(context, position.pool.poolKey),
+      liquidity,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+    })
+  }
+
+  private registerCurrency(currency: Currency): void {
+    this.currencies.set(currencyKey(currency), currency)
+    if (currency.isNative) this.currencies.set(currencyKey(currency.wrapped), currency.wrapped)
+  }
+
+  private getCurrency(key: string): Currency {
+    const currency = this.currencies.get(key)
+    invariant(currency !== undefined, `Unknown currency ${key}`)
+    return currency
+  }
+
+  private getWrappedNative(): string {
+    const native = this.currencies.get(ADDRESS_ZERO)
+    invariant(native !== undefined, 'NATIVE_NOT_SET')
+    return currencyKey(native.wrapped)
+  }
+
+  private toAmounts(balances: Map<string, bigint>): CurrencyAmount<Currency>[] {
+    return [...balances.entries()]
+      .filter(([, amount]) => amount !== ZERO)
+      .map(([key, amount]) => CurrencyAmount.fromRawAmount(this.getCurrency(key), amount))
+  }
+}
@@ -1,12 +1,17 @@
 import { type Currency, type Percent, TradeType } from '@muniswap/sdk-core'
 import { AbiParameters } from 'ox'
 import invariant from 'tiny-invariant'
+import type { PoolKey } from '../entities/pool'
 import type { Trade } from '../entities/trade'
 import { ADDRESS_ZERO, EMPTY_BYTES } from '../internalConstants'
 import { encodeRouteToPath } from './encodeRouteToPath'
+import type { SwapExactIn, SwapExactInSingle, SwapExactOut, SwapExactOutSingle } from './v4BaseActionsParser'
 
 /**
  * Actions supported by the V4 Router and Position Manager
+ *
+ * SETTLE_TAKE_PAIR and CLOSE_PAIR have no opcode in the deployed periphery contracts; V4Planner composes them
+ * from SETTLE/TAKE and CLOSE_CURRENCY (see addSettleTakePair and addClosePair).
  */
 export enum Actions {
   // Liquidity actions
@@ -14,6 +19,9 @@ export enum Actions {
   DECREASE_LIQUIDITY = 0x01,
   MINT_POSITION = 0x02,
   BURN_POSITION = 0x03,
+  // For fee on transfer tokens, liquidity is computed from the settled deltas
+  INCREASE_LIQUIDITY_FROM_DELTAS = 0x04,
+  MINT_POSITION_FROM_DELTAS = 0x05,
 
   // Swapping
   SWAP_EXACT_IN_SINGLE = 0x06,
@@ -21,6 +29,9 @@ export enum Actions {
   SWAP_EXACT_OUT_SINGLE = 0x08,
   SWAP_EXACT_OUT = 0x09,
 
+  // Donating (not supported by the position manager or router)
+  DONATE = 0x0a,
+
   // Settling (closing deltas on the pool manager)
   SETTLE = 0x0b,
   SETTLE_ALL = 0x0c,
@@ -33,10 +44,16 @@ export enum Actions {
   TAKE_PAIR = 0x11,
 
   CLOSE_CURRENCY = 0x12,
+  CLEAR_OR_TAKE = 0x13,
   SWEEP = 0x14,
 
   // Wrapping/unwrapping native
+  WRAP = 0x15,
   UNWRAP = 0x16,
+
+  // Minting/burning ERC6909 claims to close deltas (not supported by the position manager or router)
+  MINT_6909 = 0x17,
+  BURN_6909 = 0x18,
 }
 
 export enum Subparser {
@@ -53,19 +70,24 @@ export type ParamType = {
   readonly subparser?: Subparser
 }
 
-const POOL_KEY_STRUCT = '(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks)'
+const POOL_KEY_STRUCT = '(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks)' as const
 
-const PATH_KEY_STRUCT = '(address intermediateCurrency,uint256 fee,int24 tickSpacing,address hooks,bytes hookData)'
+const PATH_KEY_STRUCT =
+  '(address intermediateCurrency,uint256 fee,int24 tickSpacing,address hooks,bytes hookData)' as const
 
-const SWAP_EXACT_IN_SINGLE_STRUCT = `(${POOL_KEY_STRUCT} poolKey,bool zeroForOne,uint128 amountIn,uint128 amountOutMinimum,bytes hookData)`
+const SWAP_EXACT_IN_SINGLE_STRUCT =
+  `(${POOL_KEY_STRUCT} poolKey,bool zeroForOne,uint128 amountIn,uint128 amountOutMinimum,bytes hookData)` as const
 
-const SWAP_EXACT_IN_STRUCT = `(address currencyIn,${PATH_KEY_STRUCT}[] path,uint128 amountIn,uint128 amountOutMinimum)`
+const SWAP_EXACT_IN_STRUCT =
+  `(address currencyIn,${PATH_KEY_STRUCT}[] path,uint128 amountIn,uint128 amountOutMinimum)` as const
 
-const SWAP_EXACT_OUT_SINGLE_STRUCT = `(${POOL_KEY_STRUCT} poolKey,bool zeroForOne,uint128 amountOut,uint128 amountInMaximum,bytes hookData)`
+const SWAP_EXACT_OUT_SINGLE_STRUCT =
+  `(${POOL_KEY_STRUCT} poolKey,bool zeroForOne,uint128 amountOut,uint128 amountInMaximum,bytes hookData)` as const
 
-const SWAP_EXACT_OUT_STRUCT = `(address currencyOut,${PATH_KEY_STRUCT}[] path,uint128 amountOut,uint128 amountInMaximum)`
+const SWAP_EXACT_OUT_STRUCT =
+  `(address currencyOut,${PATH_KEY_STRUCT}[] path,uint128 amountOut,uint128 amountInMaximum)` as const
 
-export const V4_BASE_ACTIONS_ABI_DEFINITION: { [key in Actions]: readonly ParamType[] } = {
+export const V4_BASE_ACTIONS_ABI_DEFINITION = {
   // Liquidity commands
   [Actions.INCREASE_LIQUIDITY]: [
     { name: 'tokenId', type: 'uint256' },
@@ -97,6 +119,21 @@ export const V4_BASE_ACTIONS_ABI_DEFINITION: { [key in Actions]: readonly ParamT
     { name: 'amount1Min', type: 'uint128' },
     { name: 'hookData', type: 'bytes' },
   ],
+  [Actions.INCREASE_LIQUIDITY_FROM_DELTAS]: [
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'amount0Max', type: 'uint128' },
+    { name: 'amount1Max', type: 'uint128' },
+    { name: 'hookData', type: 'bytes' },
+  ],
+  [Actions.MINT_POSITION_FROM_DELTAS]: [
+    { name: 'poolKey', type: POOL_KEY_STRUCT, subparser: Subparser.PoolKey },
+    { name: 'tickLower', type: 'int24' },
+    { name: 'tickUpper', type: 'int24' },
+    { name: 'amount0Max', type: 'uint128' },
+    { name: 'amount1Max', type: 'uint128' },
+    { name: 'owner', type: 'address' },
+    { name: 'hookData', type: 'bytes' },
+  ],
 
   // Swapping commands
   [Actions.SWAP_EXACT_IN_SINGLE]: [
@@ -108,6 +145,14 @@ export const V4_BASE_ACTIONS_ABI_DEFINITION: { [key in Actions]: readonly ParamT
   ],
   [Actions.SWAP_EXACT_OUT]: [{ name: 'swap', type: SWAP_EXACT_OUT_STRUCT, subparser: Subparser.V4SwapExactOut }],
 
+  // Donate commands
+  [Actions.DONATE]: [
+    { name: 'poolKey', type: POOL_KEY_STRUCT, subparser: Subparser.PoolKey },
+    { name: 'amount0', type: 'uint256' },
+    { name: 'amount1', type: 'uint256' },
+    { name: 'hookData', type: 'bytes' },
+  ],
+
   // Payments commands
   [Actions.SETTLE]: [
     { name: 'currency', type: 'address' },
@@ -142,13 +187,73 @@ export const V4_BASE_ACTIONS_ABI_DEFINITION: { [key in Actions]: readonly ParamT
     { name: 'recipient', type: 'address' },
   ],
   [Actions.CLOSE_CURRENCY]: [{ name: 'currency', type: 'address' }],
+  [Actions.CLEAR_OR_TAKE]: [
+    { name: 'currency', type: 'address' },
+    { name: 'amountMax', type: 'uint256' },
+  ],
   [Actions.SWEEP]: [
     { name: 'currency', type: 'address' },
     { name: 'recipient', type: 'address' },
   ],
+  [Actions.WRAP]: [{ name: 'amount', type: 'uint256' }],
   [Actions.UNWRAP]: [{ name: 'amount', type: 'uint256' }],
+
+  // ERC6909 commands
+  [Actions.MINT_6909]: [
+    { name: 'currency', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+  [Actions.BURN_6909]: [
+    { name: 'currency', type: 'address' },
+    { name: 'owner', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+} as const satisfies { [key in Actions]: readonly ParamType[] }
+
+type ActionDefinitions = typeof V4_BASE_ACTIONS_ABI_DEFINITION
+
+// Maps a type from V4_BASE_ACTIONS_ABI_DEFINITION to the value encoded for it and returned by V4BaseActionsParser
+type ParamValue<T extends string> = T extends typeof POOL_KEY_STRUCT
+  ? PoolKey
+  : T extends typeof SWAP_EXACT_IN_SINGLE_STRUCT
+    ? SwapExactInSingle
+    : T extends typeof SWAP_EXACT_IN_STRUCT
+      ? SwapExactIn
+      : T extends typeof SWAP_EXACT_OUT_SINGLE_STRUCT
+        ? SwapExactOutSingle
+        : T extends typeof SWAP_EXACT_OUT_STRUCT
+          ? SwapExactOut
+          : T extends 'address' | 'bytes'
+            ? string
+            : T extends 'bool'
+              ? boolean
+              : T extends 'int24' | 'uint24'
+                ? number
+                : T extends `uint${string}` | `int${string}`
+                  ? bigint
+                  : never
+
+type ParameterValues<TParams extends readonly ParamType[]> = {
+  -readonly [K in keyof TParams]: TParams[K] extends ParamType ? ParamValue<TParams[K]['type']> : never
+}
+
+type NamedParameterValues<TParams extends readonly ParamType[]> = {
+  readonly [K in keyof TParams]: TParams[K] extends ParamType
+    ? { readonly name: TParams[K]['name']; readonly value: ParamValue<TParams[K]['type']> }
+    : never
 }
 
+/**
+ * The parameter tuple of an action, in the order of V4_BASE_ACTIONS_ABI_DEFINITION
+ */
+export type ActionParameters<TAction extends Actions> = ParameterValues<ActionDefinitions[TAction]>
+
+/**
+ * The named parameters of an action as decoded by V4BaseActionsParser
+ */
+export type ActionParams<TAction extends Actions> = NamedParameterValues<ActionDefinitions[TAction]>
+
 const FULL_DELTA_AMOUNT = 0n
 
 type RouterAction = {
@@ -185,8 +290,12 @@ const PATH_KEY_COMPONENTS: AbiParameter[] = [
   { name: 'hookData', type: 'bytes' },
 ]
 
-// Convert a ParamType to ox AbiParameter format
-function toAbiParameter(param: ParamType): AbiParameter {
+/**
+ * Converts a ParamType from V4_BASE_ACTIONS_ABI_DEFINITION to the ox AbiParameter format
+ * @param param The parameter definition
+ * @returns The ox-compatible ABI parameter
+ */
+export function toAbiParameter(param: ParamType): AbiParameter {
   // Handle pool key struct
   if (param.type === POOL_KEY_STRUCT) {
     return { name: param.name, type: 'tuple', components: POOL_KEY_COMPONENTS }
@@ -254,14 +363,14 @@ function toAbiParameter(param: ParamType): AbiParameter {
   return { name: param.name, type: param.type }
 }
 
-function createAction(action: Actions, parameters: unknown[]): RouterAction {
-  const abiDef = V4_BASE_ACTIONS_ABI_DEFINITION[action]
+function createAction<TAction extends Actions>(action: TAction, parameters: ActionParameters<TAction>): RouterAction {
+  const abiDef: readonly ParamType[] = V4_BASE_ACTIONS_ABI_DEFINITION[action]
 
   // Convert to ox-compatible ABI parameters
   const abiParams = abiDef.map(toAbiParameter)
 
   // Use ox AbiParameters.encode
-  const encodedInput = AbiParameters.encode(abiParams, parameters)
+  const encodedInput = AbiParameters.encode(abiParams, parameters as unknown[])
 
   return { action, encodedInput }
 }
@@ -282,10 +391,10 @@ export class V4Planner {
   /**
    * Add an action to the planner
    * @param type The action type
-   * @param parameters The parameters for the action
+   * @param parameters The parameters for the action, typed by V4_BASE_ACTIONS_ABI_DEFINITION
    * @returns This planner for chaining
    */
-  addAction(type: Actions, parameters: unknown[]): V4Planner {
+  addAction<TAction extends Actions>(type: TAction, parameters: ActionParameters<TAction>): V4Planner {
     const command = createAction(type, parameters)
     this.params.push(command.encodedInput)
     this.actions = this.actions.concat(command.action.toString(16).padStart(2, '0'))
@@ -305,26 +414,27 @@ export class V4Planner {
     if (exactOutput) invariant(!!slippageTolerance, 'ExactOut requires slippageTolerance')
     invariant(trade.swaps.length === 1, 'Only accepts Trades with 1 swap (must break swaps into individual trades)')
 
-    const actionType = exactOutput ? Actions.SWAP_EXACT_OUT : Actions.SWAP_EXACT_IN
-
-    const currencyIn = currencyAddress(trade.route.pathInput)
-    const currencyOut = currencyAddress(trade.route.pathOutput)
-
-    this.addAction(actionType, [
-      exactOutput
-        ? {
-            currencyOut,
-            path: encodeRouteToPath(trade.route, exactOutput),
-            amountInMaximum: trade.maximumAmountIn(slippageTolerance!).quotient.toString(),
-            amountOut: trade.outputAmount.quotient.toString(),
-          }
-        : {
-            currencyIn,
-            path: encodeRouteToPath(trade.route, exactOutput),
-            amountIn: trade.inputAmount.quotient.toString(),
-            amountOutMinimum: slippageTolerance ? trade.minimumAmountOut(slippageTolerance).quotient.toString() : 0,
-          },
-    ])
+    const path = encodeRouteToPath(trade.route, exactOutput)
+
+    if (exactOutput) {
+      this.addAction(Actions.SWAP_EXACT_OUT, [
+        {
+          currencyOut: currencyAddress(trade.route.pathOutput),
+          path,
+          amountInMaximum: trade.maximumAmountIn(slippageTolerance!).quotient,
+          amountOut: trade.outputAmount.quotient,
+        },
+      ])
+    } else {
+      this.addAction(Actions.SWAP_EXACT_IN, [
+        {
+          currencyIn: currencyAddress(trade.route.pathInput),
+          path,
+          amountIn: trade.inputAmount.quotient,
+          amountOutMinimum: slippageTolerance ? trade.minimumAmountOut(slippageTolerance).quotient : 0n,
+        },
+      ])
+    }
     return this
   }
 
@@ -353,6 +463,75 @@ export class V4Planner {
     return this
   }
 
+  /**
+   * Add a settle of one currency followed by a take of another, e.g. to pay the input and receive the output of a swap
+   * @param settleCurrency The currency to settle from the user
+   * @param takeCurrency The currency to take
+   * @param recipient The recipient address
+   * @returns This planner for chaining
+   */
+  addSettleTakePair(settleCurrency: Currency, takeCurrency: Currency, recipient: string): V4Planner {
+    this.addSettle(settleCurrency, true)
+    this.addTake(takeCurrency, recipient)
+    return this
+  }
+
+  /**
+   * Add a close currency action which settles a negative delta or takes a positive delta to the caller
+   * @param currency The currency to close
+   * @returns This planner for chaining
+   */
+  addCloseCurrency(currency: Currency): V4Planner {
+    this.addAction(Actions.CLOSE_CURRENCY, [currencyAddress(currency)])
+    return this
+  }
+
+  /**
+   * Add close currency actions for both currencies of a pair
+   * @param currency0 The first currency
+   * @param currency1 The second currency
+   * @returns This planner for chaining
+   */
+  addClosePair(currency0: Currency, currency1: Currency): V4Planner {
+    this.addCloseCurrency(currency0)
+    this.addCloseCurrency(currency1)
+    return this
+  }
+
+  /**
+   * Add a clear or take action, forfeiting a positive delta up to amountMax as dust and taking it otherwise
+   * @param currency The currency to clear or take
+   * @param amountMax The largest delta to forfeit
+   * @returns This planner for chaining
+   */
+  addClearOrTake(currency: Currency, amountMax: bigint): V4Planner {
+    this.addAction(Actions.CLEAR_OR_TAKE, [currencyAddress(currency), amountMax])
+    return this
+  }
+
+  /**
+   * Add a donate action to donate currency to in-range liquidity providers
+   * @param poolKey The pool to donate to
+   * @param amount0 The amount of currency0 to donate
+   * @param amount1 The amount of currency1 to donate
+   * @param hookData Optional data to pass to hooks
+   * @returns This planner for chaining
+   */
+  addDonate(poolKey: PoolKey, amount0: bigint, amount1: bigint, hookData: string = EMPTY_BYTES): V4Planner {
+    this.addAction(Actions.DONATE, [poolKey, amount0, amount1, hookData])
+    return this
+  }
+
+  /**
+   * Add a wrap action to convert ETH held by the router to WETH
+   * @param amount The amount to wrap (CONTRACT_BALANCE wraps the full balance)
+   * @returns This planner for chaining
+   */
+  addWrap(amount: bigint): V4Planner {
+    this.addAction(Actions.WRAP, [amount])
+    return this
+  }
+
   /**
    * Add an unwrap action to convert WETH to ETH
    * @param amount The amount to unwrap
@@ -363,6 +542,30 @@ export class V4Planner {
     return this
   }
 
+  /**
+   * Add an action minting ERC6909 claims for a positive delta
+   * @param currency The currency to mint claims of
+   * @param recipient The recipient of the claims
+   * @param amount Optional specific amount (defaults to full delta)
+   * @returns This planner for chaining
+   */
+  addMint6909(currency: Currency, recipient: string, amount?: bigint): V4Planner {
+    this.addAction(Actions.MINT_6909, [currencyAddress(currency), recipient, amount ?? FULL_DELTA_AMOUNT])
+    return this
+  }
+
+  /**
+   * Add an action burning ERC6909 claims to pay a negative delta
+   * @param currency The currency to burn claims of
+   * @param owner The owner of the claims
+   * @param amount Optional specific amount (defaults to full delta)
+   * @returns This planner for chaining
+   */
+  addBurn6909(currency: Currency, owner: string, amount?: bigint): V4Planner {
+    this.addAction(Actions.BURN_6909, [currencyAddress(currency), owner, amount ?? FULL_DELTA_AMOUNT])
+    return this
+  }
+
   /**
    * Finalize the planner and return the encoded calldata
    * @returns The encoded bytes for modifyLiquidities
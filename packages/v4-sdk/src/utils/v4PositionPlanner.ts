@@ -30,17 +30,16 @@ export class V4PositionPlanner extends V4Planner {
     owner: string,
     hookData: string = EMPTY_BYTES
   ): void {
-    const inputs = [
+    this.addAction(Actions.MINT_POSITION, [
       Pool.getPoolKey(pool.currency0, pool.currency1, pool.fee, pool.tickSpacing, pool.hooks),
       tickLower,
       tickUpper,
-      liquidity.toString(),
-      amount0Max.toString(),
-      amount1Max.toString(),
+      BigInt(liquidity),
+      BigInt(amount0Max),
+      BigInt(amount1Max),
       owner,
       hookData,
-    ]
-    this.addAction(Actions.MINT_POSITION, inputs)
+    ])
   }
 
   /**
@@ -58,8 +57,13 @@ export class V4PositionPlanner extends V4Planner {
     amount1Max: BigintIsh,
     hookData: string = EMPTY_BYTES
   ): void {
-    const inputs = [tokenId.toString(), liquidity.toString(), amount0Max.toString(), amount1Max.toString(), hookData]
-    this.addAction(Actions.INCREASE_LIQUIDITY, inputs)
+    this.addAction(Actions.INCREASE_LIQUIDITY, [
+      BigInt(tokenId),
+      BigInt(liquidity),
+      BigInt(amount0Max),
+      BigInt(amount1Max),
+      hookData,
+    ])
   }
 
   /**
@@ -77,8 +81,13 @@ export class V4PositionPlanner extends V4Planner {
     amount1Min: BigintIsh,
     hookData: string = EMPTY_BYTES
   ): void {
-    const inputs = [tokenId.toString(), liquidity.toString(), amount0Min.toString(), amount1Min.toString(), hookData]
-    this.addAction(Actions.DECREASE_LIQUIDITY, inputs)
+    this.addAction(Actions.DECREASE_LIQUIDITY, [
+      BigInt(tokenId),
+      BigInt(liquidity),
+      BigInt(amount0Min),
+      BigInt(amount1Min),
+      hookData,
+    ])
   }
 
   /**
@@ -89,8 +98,58 @@ export class V4PositionPlanner extends V4Planner {
    * @param hookData Optional data to pass to hooks
    */
   addBurn(tokenId: BigintIsh, amount0Min: BigintIsh, amount1Min: BigintIsh, hookData: string = EMPTY_BYTES): void {
-    const inputs = [tokenId.toString(), amount0Min.toString(), amount1Min.toString(), hookData]
-    this.addAction(Actions.BURN_POSITION, inputs)
+    this.addAction(Actions.BURN_POSITION, [BigInt(tokenId), BigInt(amount0Min), BigInt(amount1Min), hookData])
+  }
+
+  /**
+   * Add a MINT_POSITION_FROM_DELTAS action to create a position with the liquidity covered by the open deltas
+   * @param pool The pool to mint in
+   * @param tickLower The lower tick bound
+   * @param tickUpper The upper tick bound
+   * @param amount0Max Maximum amount of currency0 to spend
+   * @param amount1Max Maximum amount of currency1 to spend
+   * @param owner The owner of the minted position NFT
+   * @param hookData Optional data to pass to hooks
+   */
+  addMintFromDeltas(
+    pool: Pool,
+    tickLower: number,
+    tickUpper: number,
+    amount0Max: BigintIsh,
+    amount1Max: BigintIsh,
+    owner: string,
+    hookData: string = EMPTY_BYTES
+  ): void {
+    this.addAction(Actions.MINT_POSITION_FROM_DELTAS, [
+      Pool.getPoolKey(pool.currency0, pool.currency1, pool.fee, pool.tickSpacing, pool.hooks),
+      tickLower,
+      tickUpper,
+      BigInt(amount0Max),
+      BigInt(amount1Max),
+      owner,
+      hookData,
+    ])
+  }
+
+  /**
+   * Add an INCREASE_LIQUIDITY_FROM_DELTAS action to add the liquidity covered by the open deltas to a position
+   * @param tokenId The position NFT token ID
+   * @param amount0Max Maximum amount of currency0 to spend
+   * @param amount1Max Maximum amount of currency1 to spend
+   * @param hookData Optional data to pass to hooks
+   */
+  addIncreaseFromDeltas(
+    tokenId: BigintIsh,
+    amount0Max: BigintIsh,
+    amount1Max: BigintIsh,
+    hookData: string = EMPTY_BYTES
+  ): void {
+    this.addAction(Actions.INCREASE_LIQUIDITY_FROM_DELTAS, [
+      BigInt(tokenId),
+      BigInt(amount0Max),
+      BigInt(amount1Max),
+      hookData,
+    ])
   }
 
   /**
@@ -99,8 +158,7 @@ export class V4PositionPlanner extends V4Planner {
    * @param currency1 The second currency
    */
   addSettlePair(currency0: Currency, currency1: Currency): void {
-    const inputs = [toAddress(currency0), toAddress(currency1)]
-    this.addAction(Actions.SETTLE_PAIR, inputs)
+    this.addAction(Actions.SETTLE_PAIR, [toAddress(currency0), toAddress(currency1)])
   }
 
   /**
@@ -110,8 +168,7 @@ export class V4PositionPlanner extends V4Planner {
    * @param recipient The recipient address
    */
   addTakePair(currency0: Currency, currency1: Currency, recipient: string): void {
-    const inputs = [toAddress(currency0), toAddress(currency1), recipient]
-    this.addAction(Actions.TAKE_PAIR, inputs)
+    this.addAction(Actions.TAKE_PAIR, [toAddress(currency0), toAddress(currency1), recipient])
   }
 
   /**
@@ -120,7 +177,6 @@ export class V4PositionPlanner extends V4Planner {
    * @param to The recipient address
    */
   addSweep(currency: Currency, to: string): void {
-    const inputs = [toAddress(currency), to]
-    this.addAction(Actions.SWEEP, inputs)
+    this.addAction(Actions.SWEEP, [toAddress(currency), to])
   }
 }